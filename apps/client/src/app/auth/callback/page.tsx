@@ -4,15 +4,24 @@ import { useEffect } from "react";
 import { useAuth } from "react-oidc-context";
 import { useRouter } from "next/navigation";
 
+// Only same-origin paths, so the state cannot redirect off-site
+function returnPath(state: unknown) {
+  return typeof state === "string" &&
+    state.startsWith("/") &&
+    !state.startsWith("//")
+    ? state
+    : "/";
+}
+
 export default function AuthCallbackPage() {
   const auth = useAuth();
   const router = useRouter();
 
   useEffect(() => {
     if (auth.isAuthenticated && !auth.isLoading) {
-      router.replace("/");
+      router.replace(returnPath(auth.user?.state));
     }
-  }, [auth.isAuthenticated, auth.isLoading, router]);
+  }, [auth.isAuthenticated, auth.isLoading, auth.user?.state, router]);
 
   return (
     <div
@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useInvitations } from "@/hooks/useInvitations";
+import { errorMessage } from "@/lib/api";
+
+const QUERY_PARAM_TOKEN = "token";
+
+/**
+ * Landing page of an emailed invitation. AuthGuard has signed the user in
+ * (creating their profile on first login); this accepts the invitation and
+ * opens the project at the inviter's view, which the remaining query
+ * params carry.
+ */
+export default function AcceptInvitationPage() {
+  const router = useRouter();
+  const { acceptInvitation } = useInvitations();
+  const [error, setError] = useState<string | null>(null);
+  // Dev-mode effects run twice; a second accept would race the first
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get(QUERY_PARAM_TOKEN);
+    params.delete(QUERY_PARAM_TOKEN);
+    acceptInvitation(token ?? "")
+      .then(({ projectId }) => {
+        params.set("projectId", projectId);
+        router.replace(`/?${params.toString()}`);
+      })
+      .catch((err: unknown) => {
+        setError(errorMessage(err, "Could not accept the invitation"));
+      });
+  }, [acceptInvitation, router]);
+
+  return (
+    <div
+      style={{
+        width: "100vw",
+        height: "100vh",
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        gap: "1rem",
+        background: "#1a1a2e",
+        color: "#ccc",
+        fontFamily: "sans-serif",
+      }}
+    >
+      {error ? (
+        <>
+          <p>{error}</p>
+          <button
+            type="button"
+            onClick={() => router.replace("/")}
+            style={{ padding: "0.5rem 1rem", cursor: "pointer" }}
+          >
+            Go to map
+          </button>
+        </>
+      ) : (
+        "Joining project..."
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import MapWrapper from "@/components/MapWrapper";
+import { QUERY_PARAM_SHARE_TOKEN } from "@/hooks/useShareableViewState";
+import { setShareToken } from "@/lib/api";
+
+function SharedMap() {
+  const token = useSearchParams().get(QUERY_PARAM_SHARE_TOKEN);
+  // Set before the map renders so its first reads go to /shared
+  setShareToken(token);
+
+  if (!token) {
+    return (
+      <div
+        style={{
+          width: "100vw",
+          height: "100vh",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          background: "#1a1a2e",
+          color: "#ccc",
+          fontFamily: "sans-serif",
+        }}
+      >
+        This share link is missing its token.
+      </div>
+    );
+  }
+
+  return <MapWrapper geoData={null} isShared />;
+}
+
+/**
+ * Read-only map opened from a public share link. AuthGuard lets this route
+ * through without signing in; the token in the URL authorizes every read.
+ */
+export default function SharePage() {
+  return (
+    <main style={{ width: "100vw", height: "100vh", position: "relative" }}>
+      <Suspense>
+        <SharedMap />
+      </Suspense>
+    </main>
+  );
+}
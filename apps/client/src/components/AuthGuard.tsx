@@ -1,21 +1,35 @@
 "use client";
 
 import { useEffect } from "react";
+import { usePathname } from "next/navigation";
 import { useAuth } from "react-oidc-context";
 import { setAccessToken } from "@/lib/api";
 
+// Where to land after the Cognito round trip, e.g. an invitation link
+function signinState() {
+  return window.location.pathname + window.location.search;
+}
+
+// Opened by people without an account; the share token authorizes them
+const PUBLIC_ROUTES = ["/share"];
+
 export default function AuthGuard({
   children,
 }: {
   children: React.ReactNode;
 }) {
   const auth = useAuth();
+  const pathname = usePathname();
 
   useEffect(() => {
     const token = auth.user?.access_token ?? null;
     setAccessToken(token);
   }, [auth.user?.access_token]);
 
+  if (PUBLIC_ROUTES.includes(pathname)) {
+    return <>{children}</>;
+  }
+
   if (auth.isLoading) {
     return (
       <div
@@ -54,7 +68,7 @@ export default function AuthGuard({
         <p>Error: {auth.error.message}</p>
         <button
           type="button"
-          onClick={() => auth.signinRedirect()}
+          onClick={() => auth.signinRedirect({ state: signinState() })}
           style={{ padding: "0.5rem 1rem", cursor: "pointer" }}
         >
           Sign in
@@ -81,7 +95,7 @@ export default function AuthGuard({
       >
         <button
           type="button"
-          onClick={() => auth.signinRedirect()}
+          onClick={() => auth.signinRedirect({ state: signinState() })}
           style={{ padding: "0.5rem 1rem", cursor: "pointer" }}
         >
           Sign in
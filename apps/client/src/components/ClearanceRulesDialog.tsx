@@ -0,0 +1,385 @@
+"use client";
+
+import { useState } from "react";
+import { UTILITY_PRESETS } from "@/constants";
+import { useKeyboardListener } from "@/hooks/useKeyboardListener";
+import {
+  useClearanceRules,
+  type ClearanceRuleValues,
+} from "@/hooks/useClearanceRules";
+import type { ApiClearanceRule } from "@/lib/api-types";
+import { errorMessage } from "@/lib/api";
+
+interface ClearanceRulesDialogProps {
+  organizationId: string;
+  onClose: () => void;
+}
+
+type NumericField = keyof ClearanceRuleValues;
+
+function presetColor(label: string) {
+  return UTILITY_PRESETS.find((p) => p.label === label)?.color ?? "#2a2e3d";
+}
+
+const labelStyle: React.CSSProperties = {
+  color: "#888",
+  fontSize: 11,
+  marginBottom: 4,
+  display: "block",
+};
+
+const fieldStyle: React.CSSProperties = {
+  width: "100%",
+  background: "rgba(255,255,255,0.07)",
+  border: "1px solid #2a2e3d",
+  borderRadius: 5,
+  color: "#ddd",
+  fontSize: 12,
+  padding: "6px 8px",
+  outline: "none",
+  fontFamily: "system-ui, -apple-system, sans-serif",
+};
+
+const numberFieldStyle: React.CSSProperties = {
+  ...fieldStyle,
+  width: 64,
+  padding: "4px 6px",
+  textAlign: "right",
+};
+
+const headerCellStyle: React.CSSProperties = {
+  color: "#555",
+  fontSize: 10,
+  fontWeight: 400,
+  textTransform: "uppercase",
+  letterSpacing: "0.07em",
+  textAlign: "left",
+  padding: "0 4px 4px",
+};
+
+function UtilityName({ label }: { label: string }) {
+  return (
+    <span style={{ display: "inline-flex", alignItems: "center", gap: 5 }}>
+      <span
+        style={{
+          width: 10,
+          height: 10,
+          borderRadius: 2,
+          flexShrink: 0,
+          background: presetColor(label),
+        }}
+      />
+      {label}
+    </span>
+  );
+}
+
+/** Metres input that reports a new value on blur or Enter, if it changed. */
+function MetresInput({
+  value,
+  onCommit,
+  ariaLabel,
+}: {
+  value: number;
+  onCommit: (value: number) => void;
+  ariaLabel: string;
+}) {
+  const [draft, setDraft] = useState(String(value));
+
+  function commit() {
+    const parsed = Number(draft);
+    if (draft.trim() === "" || !Number.isFinite(parsed) || parsed < 0) {
+      setDraft(String(value));
+      return;
+    }
+    if (parsed !== value) onCommit(parsed);
+  }
+
+  return (
+    <input
+      type="number"
+      min={0}
+      step={0.1}
+      value={draft}
+      aria-label={ariaLabel}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+      }}
+      style={numberFieldStyle}
+    />
+  );
+}
+
+function RuleRow({
+  rule,
+  onUpdate,
+  onDelete,
+}: {
+  rule: ApiClearanceRule;
+  onUpdate: (values: Partial<ClearanceRuleValues>) => void;
+  onDelete: () => void;
+}) {
+  const isSelfPair = rule.utilityA === rule.utilityB;
+  const pairLabel = `${rule.utilityA} / ${rule.utilityB}`;
+  const field = (name: NumericField, value: number) => (
+    <MetresInput
+      key={`${rule.id}-${name}-${value}`}
+      value={value}
+      ariaLabel={`${pairLabel} ${name}`}
+      onCommit={(next) => onUpdate({ [name]: next })}
+    />
+  );
+
+  return (
+    <tr style={{ fontSize: 12, color: "#ddd" }}>
+      <td style={{ padding: "3px 4px" }}>
+        <UtilityName label={rule.utilityA} />
+        {!isSelfPair && (
+          <>
+            <span style={{ color: "#555" }}> ↔ </span>
+            <UtilityName label={rule.utilityB} />
+          </>
+        )}
+      </td>
+      <td style={{ padding: "3px 4px" }}>
+        {field("horizontalClearanceM", rule.horizontalClearanceM)}
+      </td>
+      <td style={{ padding: "3px 4px" }}>
+        {field("verticalClearanceM", rule.verticalClearanceM)}
+      </td>
+      <td style={{ padding: "3px 4px" }}>
+        {isSelfPair && field("minCoverM", rule.minCoverM ?? 0)}
+      </td>
+      <td style={{ padding: "3px 4px", textAlign: "right" }}>
+        <button
+          onClick={onDelete}
+          aria-label={`Delete rule ${pairLabel}`}
+          title="Delete rule (falls back to the default clearance)"
+          style={{
+            background: "none",
+            border: "none",
+            color: "#888",
+            cursor: "pointer",
+            fontSize: 14,
+            lineHeight: 1,
+            padding: 0,
+          }}
+        >
+          ×
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+export default function ClearanceRulesDialog({
+  organizationId,
+  onClose,
+}: ClearanceRulesDialogProps) {
+  const { rules, isLoading, createRule, isCreating, updateRule, deleteRule } =
+    useClearanceRules(organizationId);
+  const [utilityA, setUtilityA] = useState<string>(UTILITY_PRESETS[0].label);
+  const [utilityB, setUtilityB] = useState<string>(UTILITY_PRESETS[0].label);
+  const [horizontal, setHorizontal] = useState("0.3");
+  const [vertical, setVertical] = useState("0.3");
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  useKeyboardListener("Escape", onClose);
+
+  const sortedRules = [...rules].sort(
+    (a, b) =>
+      a.utilityA.localeCompare(b.utilityA) ||
+      a.utilityB.localeCompare(b.utilityB),
+  );
+  const horizontalM = Number(horizontal);
+  const verticalM = Number(vertical);
+  const canAdd =
+    horizontal.trim() !== "" &&
+    vertical.trim() !== "" &&
+    horizontalM >= 0 &&
+    verticalM >= 0 &&
+    !isCreating;
+
+  async function handleAdd() {
+    setSubmitError(null);
+    try {
+      await createRule({
+        utilityA,
+        utilityB,
+        horizontalClearanceM: horizontalM,
+        verticalClearanceM: verticalM,
+      });
+    } catch (err) {
+      setSubmitError(errorMessage(err, "Could not add rule"));
+    }
+  }
+
+  return (
+    <>
+      <div
+        onClick={onClose}
+        style={{
+          position: "fixed",
+          inset: 0,
+          zIndex: 29,
+          background: "rgba(0,0,0,0.45)",
+        }}
+      />
+      <div
+        role="dialog"
+        aria-label="Clearance rules"
+        style={{
+          position: "fixed",
+          top: "50%",
+          left: "50%",
+          transform: "translate(-50%, -50%)",
+          width: 560,
+          maxHeight: "80vh",
+          overflowY: "auto",
+          zIndex: 30,
+          background: "rgba(10, 14, 22, 0.92)",
+          backdropFilter: "blur(10px)",
+          border: "1px solid rgba(255,255,255,0.12)",
+          borderRadius: 8,
+          boxShadow: "0 4px 24px rgba(0,0,0,0.6)",
+          color: "#fff",
+          fontFamily: "system-ui, -apple-system, sans-serif",
+          padding: 16,
+          display: "flex",
+          flexDirection: "column",
+          gap: 12,
+        }}
+      >
+        <div>
+          <div style={{ fontSize: 14, fontWeight: 600 }}>Clearance rules</div>
+          <div style={{ color: "#777", fontSize: 11, marginTop: 4 }}>
+            Metres, for every project in the organization. Paths conflict when
+            they are inside both the horizontal and vertical clearance; cover is
+            checked at each path&apos;s shallowest node.
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div style={{ color: "#777", fontSize: 12 }}>Loading rules…</div>
+        ) : (
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={headerCellStyle}>Utilities</th>
+                <th style={headerCellStyle}>Horiz.</th>
+                <th style={headerCellStyle}>Vert.</th>
+                <th style={headerCellStyle}>Cover</th>
+                <th style={headerCellStyle} />
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRules.map((rule) => (
+                <RuleRow
+                  key={rule.id}
+                  rule={rule}
+                  onUpdate={(values) => updateRule(rule.id, values)}
+                  onDelete={() => deleteRule(rule.id)}
+                />
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div
+          style={{
+            background: "rgba(255,255,255,0.05)",
+            borderRadius: 5,
+            padding: "8px 10px",
+            display: "flex",
+            alignItems: "flex-end",
+            gap: 8,
+          }}
+        >
+          {[
+            { label: "Utility", value: utilityA, onChange: setUtilityA },
+            { label: "Against", value: utilityB, onChange: setUtilityB },
+          ].map(({ label, value, onChange }) => (
+            <div key={label} style={{ flex: 1, minWidth: 0 }}>
+              <label style={labelStyle}>{label}</label>
+              <select
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                style={{
+                  ...fieldStyle,
+                  borderLeft: `4px solid ${presetColor(value)}`,
+                }}
+              >
+                {UTILITY_PRESETS.map((preset) => (
+                  <option key={preset.label} value={preset.label}>
+                    {preset.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <div>
+            <label style={labelStyle}>Horiz.</label>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={horizontal}
+              onChange={(e) => setHorizontal(e.target.value)}
+              style={numberFieldStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>Vert.</label>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={vertical}
+              onChange={(e) => setVertical(e.target.value)}
+              style={numberFieldStyle}
+            />
+          </div>
+          <button
+            onClick={handleAdd}
+            disabled={!canAdd}
+            style={{
+              background: canAdd ? "#1e5fa8" : "rgba(58,123,213,0.45)",
+              border: "none",
+              borderRadius: 5,
+              color: "#fff",
+              cursor: canAdd ? "pointer" : "not-allowed",
+              fontSize: 12,
+              fontWeight: 600,
+              padding: "6px 12px",
+            }}
+          >
+            Add
+          </button>
+        </div>
+
+        {submitError && (
+          <div style={{ color: "#ff6b6b", fontSize: 12 }}>{submitError}</div>
+        )}
+
+        <div style={{ display: "flex", justifyContent: "flex-end" }}>
+          <button
+            onClick={onClose}
+            style={{
+              background: "none",
+              border: "1px solid #2a2e3d",
+              borderRadius: 5,
+              color: "#aaa",
+              cursor: "pointer",
+              fontSize: 12,
+              padding: "6px 12px",
+            }}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -7,6 +7,14 @@ import { usePaths } from "@/hooks/usePaths";
 import type { Node } from "@/lib/geometry/types";
 import { useLayers } from "@/hooks/useLayers";
 import { useProjects } from "@/hooks/useProjects";
+import { useIdentify } from "@/hooks/useIdentify";
+import { useConflicts } from "@/hooks/useConflicts";
+import { useInvitations } from "@/hooks/useInvitations";
+import { useShareLinks } from "@/hooks/useShareLinks";
+import { useTrash } from "@/hooks/useTrash";
+import { usePresence } from "@/hooks/usePresence";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import { dismissRejected } from "@/lib/write-queue";
 import { DeckGL } from "@deck.gl/react";
 import { Map as MapGL } from "react-map-gl/maplibre";
 import type { PickingInfo } from "@deck.gl/core";
@@ -21,6 +29,9 @@ import {
   buildPreviewLayer,
   buildEditNodesLayer,
   buildClosedAreaLabelsLayer,
+  buildConflictsLayer,
+  buildPresenceCursorsLayer,
+  buildPresenceLabelsLayer,
   type EditNodeDragCallbacks,
 } from "@/lib/layers";
 import {
@@ -32,13 +43,27 @@ import {
 } from "@/lib/drawingGeometry";
 import MapPanel from "./MapPanel";
 import LayersPanel from "./LayersPanel";
+import TrashPanel from "./TrashPanel";
+import SyncPanel from "./SyncPanel";
+import EditConflictDialog from "./EditConflictDialog";
 import ProjectBar from "./ProjectBar";
+import SharedProjectBar from "./SharedProjectBar";
 import NodeContextMenu from "./NodeContextMenu";
+import IdentifyPopup from "./IdentifyPopup";
+import ImportDialog from "./ImportDialog";
+import ClearanceRulesDialog from "./ClearanceRulesDialog";
 import { areNodesAdjacent } from "@/lib/geometry/subdivide-path";
+import { formatLengthMeters } from "@/lib/geometry/measurements";
+import type {
+  ApiConflict,
+  ApiCoverViolation,
+  ApiProjectRole,
+} from "@/lib/api-types";
 import {
   useShareableViewState,
   type IMapViewState,
 } from "@/hooks/useShareableViewState";
+import { randomUuid } from "@/lib/random-uuid";
 
 const MAP_STYLE = "https://tiles.openfreemap.org/styles/liberty";
 const SNAP_RADIUS_PX = 20;
@@ -51,30 +76,61 @@ const INITIAL_VIEW_STATE: IMapViewState = {
   bearing: 0,
 };
 
+function toggleButtonStyle(isActive: boolean): React.CSSProperties {
+  return {
+    background: isActive ? "rgba(30, 95, 168, 0.9)" : "rgba(10, 14, 22, 0.88)",
+    border: "1px solid rgba(255,255,255,0.15)",
+    borderRadius: 8,
+    color: "#fff",
+    fontSize: 12,
+    fontWeight: 600,
+    fontFamily: "system-ui, -apple-system, sans-serif",
+    padding: "7px 14px",
+    cursor: "pointer",
+    backdropFilter: "blur(10px)",
+    boxShadow: "0 4px 24px rgba(0,0,0,0.6)",
+    userSelect: "none",
+  };
+}
+
 interface DeckMapProps {
   geoData: GeoJSON.FeatureCollection | null;
+  // Opened from a public share link: read-only, no account features
+  isShared?: boolean;
 }
 
-export default function DeckMap({ geoData }: DeckMapProps) {
+export default function DeckMap({ geoData, isShared = false }: DeckMapProps) {
   const {
     projects,
     activeProject,
     activeProjectId,
+    canEditActiveProject,
     setActiveProject,
     createProject,
     renameProject,
     deleteProject,
+    exportProject,
   } = useProjects();
   const {
     initialViewState,
     handleViewStateChange,
+    getShareViewState,
     getShareViewStateLink,
+    getPublicShareLink,
     copyShareViewStateLink,
   } = useShareableViewState({
     fallbackViewState: INITIAL_VIEW_STATE,
     activeProjectId,
     setActiveProject,
   });
+  const { inviteToProject } = useInvitations();
+  const { shareLinks, createShareLink, revokeShareLink } = useShareLinks(
+    !isShared && activeProject?.role === "owner" ? activeProject.id : null,
+  );
+  const { trash, deletedProjects, restore } = useTrash(
+    canEditActiveProject ? activeProjectId : null,
+    !isShared,
+  );
 
   const {
     layers,
@@ -83,7 +139,6 @@ export default function DeckMap({ geoData }: DeckMapProps) {
     updateLayerName,
     toggleLayerVisibility,
     deleteLayer,
-    deleteProjectLayers,
   } = useLayers(activeProjectId);
 
   const {
@@ -103,9 +158,23 @@ export default function DeckMap({ geoData }: DeckMapProps) {
     persistDraggedNodes,
     subdivideEdge,
     togglePathVisibility,
-    movePathsToLayer,
+    conflict: editConflict,
+    resolveConflict,
+    editError,
+    dismissEditError,
+    undo,
+    redo,
   } = usePaths(activeProjectId);
 
+  const {
+    identifyTarget,
+    identifyResult,
+    isIdentifying,
+    isIdentifyError,
+    identifyAt,
+    clearIdentify,
+  } = useIdentify(activeProjectId);
+
   // Drawing state
   const [activePath, setActivePath] = useState<Node[]>([]);
   const [hoverCoord, setHoverCoord] = useState<[number, number] | null>(null);
@@ -140,6 +209,21 @@ export default function DeckMap({ geoData }: DeckMapProps) {
   // Layers panel state
   const [activeLayerId, setActiveLayerId] = useState<string>("");
   const [isLayersPanelOpen, setIsLayersPanelOpen] = useState(false);
+  const [isConflictsVisible, setIsConflictsVisible] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
+  const syncStatus = useSyncStatus();
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isClearanceRulesOpen, setIsClearanceRulesOpen] = useState(false);
+
+  const {
+    others: presentUsers,
+    lockedPaths,
+    reportCursor,
+  } = usePresence(
+    isShared ? null : activeProjectId,
+    editingPathId ?? extendingPathId,
+  );
 
   // Refs for stable access inside drag/keyboard callbacks
   const editingPathIdRef = useRef<string | null>(null);
@@ -160,7 +244,15 @@ export default function DeckMap({ geoData }: DeckMapProps) {
   const projectLayerIds = new Set(projectLayers.map((l) => l.id));
   const projectPaths = paths.filter((p) => projectLayerIds.has(p.layerId));
 
-  // Reset drawing/editing state when switching projects
+  const { conflicts, coverViolations, isCheckingConflicts } = useConflicts(
+    activeProjectId,
+    projectPaths,
+    isConflictsVisible && !isDraggingNode,
+  );
+  const issueCount = conflicts.length + coverViolations.length;
+
+  // Reset drawing/editing state when switching projects, or when the role on
+  // the active project drops to viewer
   useEffect(() => {
     if (!activeProjectId) setActiveLayerId("");
     setIsDrawing(false);
@@ -171,7 +263,8 @@ export default function DeckMap({ geoData }: DeckMapProps) {
     setSnapIsFirstNode(false);
     setEditingPathId(null);
     setSelectedNodeIds(new Set());
-  }, [activeProjectId]);
+    clearIdentify();
+  }, [activeProjectId, canEditActiveProject, clearIdentify]);
 
   // Sync activeLayerId whenever layers load or change — also covers the initial
   // fetch for existing projects where layers arrive after activeProjectId is set.
@@ -231,6 +324,20 @@ export default function DeckMap({ geoData }: DeckMapProps) {
     skipInputElements: true,
   });
 
+  // Ctrl+Z / Ctrl+Shift+Z (⌘ on macOS); not while a path is being drawn
+  useKeyboardListener("z", undo, {
+    ctrlOrMeta: true,
+    shift: false,
+    skipInputElements: true,
+    enabled: !isDrawing,
+  });
+  useKeyboardListener("z", redo, {
+    ctrlOrMeta: true,
+    shift: true,
+    skipInputElements: true,
+    enabled: !isDrawing,
+  });
+
   const editingPath = paths.find((p) => p.id === editingPathId) ?? null;
   const extendingPath = extendingPathId
     ? (paths.find((p) => p.id === extendingPathId) ?? null)
@@ -365,6 +472,9 @@ export default function DeckMap({ geoData }: DeckMapProps) {
       dragCallbacks,
     ),
     buildClosedAreaLabelsLayer(visiblePaths),
+    isConflictsVisible ? buildConflictsLayer(conflicts, coverViolations) : null,
+    buildPresenceCursorsLayer(presentUsers),
+    buildPresenceLabelsLayer(presentUsers, visiblePaths),
   ].filter((l): l is NonNullable<typeof l> => l !== null);
 
   // --- Handlers ---
@@ -399,7 +509,7 @@ export default function DeckMap({ geoData }: DeckMapProps) {
       setActivePath((prev) => [
         ...prev,
         {
-          id: crypto.randomUUID(),
+          id: randomUuid(),
           name: `Node ${prev.length + 1}`,
           coords: coord,
           z: 0,
@@ -432,22 +542,40 @@ export default function DeckMap({ geoData }: DeckMapProps) {
     }
 
     // Click on a completed path: activate it for node editing
-    if (info.layer?.id === "drawn-paths") {
+    if (info.layer?.id === "drawn-paths" && canEditActiveProject) {
       if (info.object) {
         const pathId = (info.object.properties as { pathId: string }).pathId;
-        if (pathId) {
-          setEditingPathId(pathId);
-          setSelectedNodeIds(new Set());
-        }
+        if (pathId) startEditingPath(pathId);
       }
       return;
     }
 
+    // Alt/Option-click on empty map: identify the nearest assets
+    const coord = info.coordinate as [number, number] | undefined;
+    if (event?.srcEvent?.altKey && coord && activeProjectId && !isShared) {
+      identifyAt({
+        coords: coord,
+        x: event.srcEvent.clientX,
+        y: event.srcEvent.clientY,
+      });
+      return;
+    }
+
     // Click on empty map: clear selection, keep path active
     setSelectedNodeIds(new Set());
   }
 
+  // A path someone else is editing stays locked until they leave it: two
+  // people dragging the same path's nodes corrupts its geometry
+  function startEditingPath(pathId: string) {
+    if (lockedPaths.has(pathId)) return;
+    setEditingPathId(pathId);
+    setSelectedNodeIds(new Set());
+  }
+
   function handleHover(info: PickingInfo) {
+    reportCursor((info.coordinate as [number, number] | undefined) ?? null);
+
     // Track which edit node the cursor is over so right-click can target it
     if (editingPathIdRef.current && !isDrawingRef.current) {
       if (info.layer?.id === "edit-nodes" && info.object) {
@@ -592,7 +720,7 @@ export default function DeckMap({ geoData }: DeckMapProps) {
     if (!extendingPathId) return;
     const extraNode: Node | null = extraCoord
       ? {
-          id: crypto.randomUUID(),
+          id: randomUuid(),
           name: `Node ${activePath.length + 1}`,
           coords: extraCoord,
           z: 0,
@@ -613,7 +741,7 @@ export default function DeckMap({ geoData }: DeckMapProps) {
   function finishPath(closed: boolean, snapCoord?: [number, number]) {
     const extraNode: Node | null = snapCoord
       ? {
-          id: crypto.randomUUID(),
+          id: randomUuid(),
           name: `Node ${activePath.length + 1}`,
           coords: snapCoord,
           z: 0,
@@ -653,10 +781,13 @@ export default function DeckMap({ geoData }: DeckMapProps) {
       (l) => l.id !== layerId,
     );
     if (siblings.length === 0) return; // cannot delete the last layer
-    const fallback = siblings[0];
-    movePathsToLayer(layerId, fallback.id);
+    // The layer's paths go with it, and come back if it is restored
     deleteLayer(layerId);
-    if (activeLayerId === layerId) setActiveLayerId(fallback.id);
+    if (activeLayerId === layerId) setActiveLayerId(siblings[0].id);
+    if (paths.some((p) => p.id === editingPathId && p.layerId === layerId)) {
+      setEditingPathId(null);
+      setSelectedNodeIds(new Set());
+    }
   }
 
   function handleCreateProject(name: string) {
@@ -667,9 +798,36 @@ export default function DeckMap({ geoData }: DeckMapProps) {
     });
   }
 
-  function handleDeleteProject(projectId: string) {
-    deleteProjectLayers(projectId);
-    deleteProject(projectId);
+  // Public links open at the current view; "visible layers only" shares
+  // just the layers switched on right now
+  async function handleCreatePublicLink(
+    projectId: string,
+    options: { expiresInHours: number; isVisibleLayersOnly: boolean },
+  ) {
+    const link = await createShareLink({
+      projectId,
+      expiresInHours: options.expiresInHours,
+      layerIds: options.isVisibleLayersOnly
+        ? getProjectLayers(projectId)
+            .filter((l) => l.isVisible)
+            .map((l) => l.id)
+        : undefined,
+    });
+    return getPublicShareLink(link.token);
+  }
+
+  // The emailed link opens the project where the inviter is looking now
+  async function handleInviteToProject(
+    projectId: string,
+    emails: string[],
+    role: ApiProjectRole,
+  ) {
+    await inviteToProject({
+      projectId,
+      emails,
+      role,
+      view: getShareViewState(),
+    });
   }
 
   // --- Render ---
@@ -678,6 +836,7 @@ export default function DeckMap({ geoData }: DeckMapProps) {
     <div
       style={{ position: "absolute", inset: 0 }}
       onContextMenu={handleContextMenu}
+      onMouseLeave={() => reportCursor(null)}
     >
       <DeckGL
         initialViewState={initialViewState}
@@ -692,6 +851,26 @@ export default function DeckMap({ geoData }: DeckMapProps) {
               ? "crosshair"
               : "grab"
         }
+        getTooltip={({ layer, object }) => {
+          if (layer?.id === "drawn-paths" && object) {
+            const { pathId } = (object as GeoJSON.Feature).properties as {
+              pathId: string;
+            };
+            const lock = lockedPaths.get(pathId);
+            return lock ? `${lock.name} is editing this path` : null;
+          }
+          if (layer?.id !== "conflicts" || !object) return null;
+          const { conflict, coverViolation } = (object as GeoJSON.Feature)
+            .properties as {
+            conflict?: ApiConflict;
+            coverViolation?: ApiCoverViolation;
+          };
+          if (coverViolation) {
+            return `${coverViolation.path.name}: ${formatLengthMeters(coverViolation.coverM)} cover at ${coverViolation.node.name || "node"}, ${formatLengthMeters(coverViolation.requiredCoverM)} required`;
+          }
+          if (!conflict) return null;
+          return `${conflict.pathA.name} ↔ ${conflict.pathB.name}\n${formatLengthMeters(conflict.horizontalM)} across (${formatLengthMeters(conflict.requiredHorizontalM)} required), ${formatLengthMeters(conflict.verticalM)} vertical (${formatLengthMeters(conflict.requiredVerticalM)} required)`;
+        }}
         style={{ position: "absolute", inset: "0" }}
         onViewStateChange={({ viewState }) =>
           handleViewStateChange(viewState as IMapViewState)
@@ -711,6 +890,100 @@ export default function DeckMap({ geoData }: DeckMapProps) {
         />
       )}
 
+      {identifyTarget && (
+        <IdentifyPopup
+          x={identifyTarget.x}
+          y={identifyTarget.y}
+          coords={identifyTarget.coords}
+          result={identifyResult}
+          isLoading={isIdentifying}
+          isError={isIdentifyError}
+          onSelectPath={(pathId) => {
+            if (canEditActiveProject) startEditingPath(pathId);
+            clearIdentify();
+          }}
+          onClose={clearIdentify}
+        />
+      )}
+
+      {isImportOpen && activeProjectId && (
+        <ImportDialog
+          projectId={activeProjectId}
+          layers={projectLayers}
+          onImported={(result) => {
+            setActiveLayerId(result.layer.id);
+            setIsImportOpen(false);
+          }}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      {editConflict && (
+        <EditConflictDialog
+          conflict={editConflict}
+          pathName={
+            paths.find(
+              (p) =>
+                p.id ===
+                (editConflict.kind === "path"
+                  ? editConflict.id
+                  : editConflict.pathId),
+            )?.name ?? ""
+          }
+          onResolve={resolveConflict}
+        />
+      )}
+
+      {editError && (
+        <div
+          role="alert"
+          style={{
+            position: "absolute",
+            // Below the project bar
+            top: 64,
+            left: "50%",
+            transform: "translateX(-50%)",
+            display: "flex",
+            alignItems: "center",
+            gap: 10,
+            maxWidth: 420,
+            background: "rgba(10, 14, 22, 0.88)",
+            border: "1px solid rgba(224, 80, 80, 0.5)",
+            borderRadius: 8,
+            padding: "6px 10px",
+            color: "#f87171",
+            fontFamily: "system-ui, -apple-system, sans-serif",
+            fontSize: 12,
+            boxShadow: "0 4px 24px rgba(0,0,0,0.6)",
+            zIndex: 20,
+          }}
+        >
+          {editError}
+          <button
+            onClick={dismissEditError}
+            style={{
+              background: "none",
+              border: "1px solid #2a2e3d",
+              borderRadius: 4,
+              color: "#aaa",
+              cursor: "pointer",
+              fontSize: 11,
+              padding: "1px 6px",
+              flexShrink: 0,
+            }}
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {isClearanceRulesOpen && activeProject?.organizationId && (
+        <ClearanceRulesDialog
+          organizationId={activeProject.organizationId}
+          onClose={() => setIsClearanceRulesOpen(false)}
+        />
+      )}
+
       {(() => {
         if (!hoveredEditNodeId || !tooltipPos || isDrawing || !editingPath)
           return null;
@@ -739,23 +1012,39 @@ export default function DeckMap({ geoData }: DeckMapProps) {
         );
       })()}
 
-      <ProjectBar
-        projects={projects}
-        activeProject={activeProject}
-        onSelectProject={setActiveProject}
-        onCreateProject={handleCreateProject}
-        onRenameProject={renameProject}
-        onDeleteProject={handleDeleteProject}
-        onGetShareViewStateLink={getShareViewStateLink}
-        onCopyShareViewState={copyShareViewStateLink}
-      />
+      {isShared ? (
+        <SharedProjectBar />
+      ) : (
+        <ProjectBar
+          projects={projects}
+          activeProject={activeProject}
+          onSelectProject={setActiveProject}
+          onCreateProject={handleCreateProject}
+          onRenameProject={renameProject}
+          onDeleteProject={deleteProject}
+          onExportProject={exportProject}
+          onImportProject={() => setIsImportOpen(true)}
+          onOpenClearanceRules={() => setIsClearanceRulesOpen(true)}
+          onGetShareViewStateLink={getShareViewStateLink}
+          onCopyShareViewState={copyShareViewStateLink}
+          onInviteToProject={handleInviteToProject}
+          publicLinks={shareLinks}
+          onCreatePublicLink={handleCreatePublicLink}
+          onRevokePublicLink={revokeShareLink}
+          deletedProjects={deletedProjects}
+          onRestoreProject={(id) => restore("projects", id)}
+          presentUsers={presentUsers}
+        />
+      )}
 
       {activeProject && (
         <>
           <MapPanel
             paths={projectPaths}
             pathCount={pathCount}
+            canEdit={canEditActiveProject}
             editingPathId={editingPathId}
+            lockedPaths={lockedPaths}
             selectedNodeIds={selectedNodeIds}
             isDrawing={isDrawing}
             activePath={activePath}
@@ -786,38 +1075,82 @@ export default function DeckMap({ geoData }: DeckMapProps) {
             onTogglePathVisibility={togglePathVisibility}
           />
 
-          {/* Layers toggle button — bottom-left */}
-          <button
-            onClick={() => setIsLayersPanelOpen((v) => !v)}
+          {/* Layers and conflicts toggle buttons — bottom-left */}
+          <div
             style={{
               position: "absolute",
               bottom: 16,
               left: 16,
               zIndex: 10,
-              background: isLayersPanelOpen
-                ? "rgba(30, 95, 168, 0.9)"
-                : "rgba(10, 14, 22, 0.88)",
-              border: "1px solid rgba(255,255,255,0.15)",
-              borderRadius: 8,
-              color: "#fff",
-              fontSize: 12,
-              fontWeight: 600,
-              fontFamily: "system-ui, -apple-system, sans-serif",
-              padding: "7px 14px",
-              cursor: "pointer",
-              backdropFilter: "blur(10px)",
-              boxShadow: "0 4px 24px rgba(0,0,0,0.6)",
-              userSelect: "none",
+              display: "flex",
+              gap: 8,
             }}
           >
-            ◧ Layers
-          </button>
+            <button
+              onClick={() => setIsLayersPanelOpen((v) => !v)}
+              style={toggleButtonStyle(isLayersPanelOpen)}
+            >
+              ◧ Layers
+            </button>
+            {!isShared && (
+              <button
+                onClick={() => setIsConflictsVisible((v) => !v)}
+                title="Show paths closer than their required clearance or with too little cover"
+                style={{
+                  ...toggleButtonStyle(isConflictsVisible),
+                  ...(isConflictsVisible &&
+                    issueCount > 0 && {
+                      background: "rgba(190, 30, 30, 0.9)",
+                    }),
+                }}
+              >
+                ⚠ Conflicts
+                {isConflictsVisible &&
+                  (isCheckingConflicts && issueCount === 0
+                    ? " …"
+                    : ` (${issueCount})`)}
+              </button>
+            )}
+            {!isShared && canEditActiveProject && (
+              <button
+                onClick={() => setIsTrashOpen((v) => !v)}
+                title="Restore deleted layers and paths"
+                style={toggleButtonStyle(isTrashOpen)}
+              >
+                🗑 Trash
+                {trash.layers.length + trash.paths.length > 0 &&
+                  ` (${trash.layers.length + trash.paths.length})`}
+              </button>
+            )}
+            {!isShared && (
+              <button
+                onClick={() => setIsSyncOpen((v) => !v)}
+                title="Changes waiting to be sent, and any the server refused"
+                style={{
+                  ...toggleButtonStyle(isSyncOpen),
+                  ...(syncStatus.rejected.length > 0 && {
+                    background: "rgba(190, 30, 30, 0.9)",
+                  }),
+                }}
+              >
+                {syncStatus.state === "offline"
+                  ? "⚠ Offline"
+                  : syncStatus.state === "syncing"
+                    ? "⟳ Saving"
+                    : "✓ Saved"}
+                {syncStatus.pending > 0 && ` (${syncStatus.pending})`}
+                {syncStatus.rejected.length > 0 &&
+                  ` · ${syncStatus.rejected.length} not saved`}
+              </button>
+            )}
+          </div>
 
           {isLayersPanelOpen && (
             <LayersPanel
               layers={projectLayers}
               activeLayerId={activeLayerId}
               paths={projectPaths}
+              canEdit={canEditActiveProject}
               onSetActiveLayer={setActiveLayerId}
               onCreateLayer={(name) => createLayer(name, activeProject.id)}
               onUpdateLayerName={updateLayerName}
@@ -825,6 +1158,25 @@ export default function DeckMap({ geoData }: DeckMapProps) {
               onDeleteLayer={handleDeleteLayer}
             />
           )}
+
+          {isTrashOpen && canEditActiveProject && (
+            <TrashPanel
+              trash={trash}
+              left={isLayersPanelOpen ? 248 : 16}
+              onRestore={restore}
+            />
+          )}
+
+          {isSyncOpen && !isShared && (
+            <SyncPanel
+              status={syncStatus}
+              left={
+                (isLayersPanelOpen ? 248 : 16) +
+                (isTrashOpen && canEditActiveProject ? 256 : 0)
+              }
+              onDismiss={dismissRejected}
+            />
+          )}
         </>
       )}
     </div>
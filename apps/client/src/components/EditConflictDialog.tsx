@@ -0,0 +1,166 @@
+"use client";
+
+import type { EditConflict } from "@/hooks/usePaths";
+import type { ApiPathNode } from "@/lib/api-types";
+
+interface EditConflictDialogProps {
+  conflict: EditConflict;
+  // Names the path in a node conflict
+  pathName: string;
+  onResolve: (isKeepingMine: boolean) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  color: "Color",
+  width: "Width",
+  isHidden: "Hidden",
+  isClosed: "Closed",
+  point: "Location",
+};
+
+function formatValue(value: unknown) {
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (value && typeof value === "object" && "lng" in value) {
+    const { lng, lat, z } = value as ApiPathNode["point"];
+    return `${lat.toFixed(6)}, ${lng.toFixed(6)} · ${z.toFixed(2)} m`;
+  }
+  return String(value ?? "");
+}
+
+function describe(conflict: EditConflict, pathName: string) {
+  if (conflict.kind === "path") {
+    return `Someone else changed the path "${conflict.theirs.name}" while you were editing it.`;
+  }
+  if (conflict.kind === "node") {
+    return `Someone else changed node "${conflict.theirs.name}" of "${pathName}" while you were editing it.`;
+  }
+  const count = conflict.theirs.length;
+  return `Someone else moved ${count} node${count === 1 ? "" : "s"} of "${pathName}" while you were dragging.`;
+}
+
+/** Asks which of two concurrent edits of a path or its nodes should stand. */
+export default function EditConflictDialog({
+  conflict,
+  pathName,
+  onResolve,
+}: EditConflictDialogProps) {
+  const rows =
+    conflict.kind === "nodes"
+      ? []
+      : Object.entries(conflict.mine)
+          .filter(([field]) => field in FIELD_LABELS)
+          .map(([field, mine]) => ({
+            label: FIELD_LABELS[field],
+            mine: formatValue(mine),
+            theirs: formatValue(
+              (conflict.theirs as unknown as Record<string, unknown>)[field],
+            ),
+          }));
+
+  return (
+    <>
+      <div
+        style={{
+          position: "fixed",
+          inset: 0,
+          zIndex: 29,
+          background: "rgba(0,0,0,0.45)",
+        }}
+      />
+      <div
+        role="alertdialog"
+        aria-label="Edit conflict"
+        style={{
+          position: "fixed",
+          top: "50%",
+          left: "50%",
+          transform: "translate(-50%, -50%)",
+          width: 380,
+          zIndex: 30,
+          background: "rgba(10, 14, 22, 0.92)",
+          backdropFilter: "blur(10px)",
+          border: "1px solid rgba(255,255,255,0.12)",
+          borderRadius: 8,
+          boxShadow: "0 4px 24px rgba(0,0,0,0.6)",
+          color: "#fff",
+          fontFamily: "system-ui, -apple-system, sans-serif",
+          padding: 16,
+          display: "flex",
+          flexDirection: "column",
+          gap: 12,
+        }}
+      >
+        <div>
+          <div style={{ fontSize: 14, fontWeight: 600 }}>Edit conflict</div>
+          <div style={{ color: "#999", fontSize: 12, marginTop: 4 }}>
+            {describe(conflict, pathName)}
+          </div>
+        </div>
+
+        {rows.length > 0 && (
+          <table
+            style={{ width: "100%", borderCollapse: "collapse", fontSize: 12 }}
+          >
+            <thead>
+              <tr style={{ color: "#555", fontSize: 10, textAlign: "left" }}>
+                <th style={{ fontWeight: 400, padding: "0 4px 4px" }} />
+                <th style={{ fontWeight: 400, padding: "0 4px 4px" }}>YOURS</th>
+                <th style={{ fontWeight: 400, padding: "0 4px 4px" }}>
+                  THEIRS
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.label}>
+                  <td style={{ color: "#888", padding: "3px 4px" }}>
+                    {row.label}
+                  </td>
+                  <td style={{ color: "#ddd", padding: "3px 4px" }}>
+                    {row.mine}
+                  </td>
+                  <td style={{ color: "#ddd", padding: "3px 4px" }}>
+                    {row.theirs}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div style={{ display: "flex", justifyContent: "flex-end", gap: 8 }}>
+          <button
+            onClick={() => onResolve(false)}
+            style={{
+              background: "none",
+              border: "1px solid #2a2e3d",
+              borderRadius: 5,
+              color: "#aaa",
+              cursor: "pointer",
+              fontSize: 12,
+              padding: "6px 12px",
+            }}
+          >
+            Use theirs
+          </button>
+          <button
+            onClick={() => onResolve(true)}
+            style={{
+              background: "#1e5fa8",
+              border: "none",
+              borderRadius: 5,
+              color: "#fff",
+              cursor: "pointer",
+              fontSize: 12,
+              fontWeight: 600,
+              padding: "6px 12px",
+            }}
+          >
+            Keep mine
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useKeyboardListener } from "@/hooks/useKeyboardListener";
+import type { ApiIdentifyResult } from "@/lib/api-types";
+import { formatLengthMeters } from "@/lib/geometry/measurements";
+
+interface IdentifyPopupProps {
+  x: number;
+  y: number;
+  coords: [number, number];
+  result: ApiIdentifyResult | undefined;
+  isLoading: boolean;
+  isError: boolean;
+  onSelectPath: (pathId: string) => void;
+  onClose: () => void;
+}
+
+const POPUP_WIDTH = 280;
+const POPUP_MAX_HEIGHT = 360;
+
+const sectionTitleStyle: React.CSSProperties = {
+  color: "#555",
+  fontSize: 10,
+  textTransform: "uppercase",
+  letterSpacing: "0.07em",
+  margin: "8px 0 4px",
+};
+
+const rowStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: 7,
+  padding: "4px 6px",
+  borderRadius: 4,
+  fontSize: 12,
+  color: "#ddd",
+};
+
+const distanceStyle: React.CSSProperties = {
+  color: "#777",
+  fontFamily: "monospace",
+  fontSize: 11,
+  flexShrink: 0,
+};
+
+export default function IdentifyPopup({
+  x,
+  y,
+  coords,
+  result,
+  isLoading,
+  isError,
+  onSelectPath,
+  onClose,
+}: IdentifyPopupProps) {
+  useKeyboardListener("Escape", onClose);
+
+  const clampedX = Math.min(x, window.innerWidth - POPUP_WIDTH - 4);
+  const clampedY = Math.min(y, window.innerHeight - POPUP_MAX_HEIGHT - 4);
+
+  const isEmpty =
+    !!result && result.paths.length === 0 && result.nodes.length === 0;
+
+  return (
+    <>
+      {/* Backdrop — click anywhere outside closes the popup */}
+      <div
+        style={{ position: "fixed", inset: 0, zIndex: 19 }}
+        onClick={onClose}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          onClose();
+        }}
+      />
+      <div
+        style={{
+          position: "fixed",
+          left: clampedX,
+          top: clampedY,
+          width: POPUP_WIDTH,
+          maxHeight: POPUP_MAX_HEIGHT,
+          overflowY: "auto",
+          background: "rgba(10, 14, 22, 0.92)",
+          backdropFilter: "blur(10px)",
+          border: "1px solid rgba(255,255,255,0.12)",
+          borderRadius: 6,
+          boxShadow: "0 4px 16px rgba(0,0,0,0.5)",
+          zIndex: 20,
+          padding: "8px 10px",
+          color: "#fff",
+          fontFamily: "system-ui, -apple-system, sans-serif",
+          userSelect: "none",
+        }}
+      >
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+          }}
+        >
+          <span style={{ fontWeight: 600, fontSize: 13 }}>What&apos;s here</span>
+          <span style={{ ...distanceStyle, fontSize: 10 }}>
+            {coords[1].toFixed(6)}, {coords[0].toFixed(6)}
+          </span>
+        </div>
+
+        {isLoading && !result && (
+          <div style={{ color: "#777", fontSize: 12, marginTop: 8 }}>
+            Searching…
+          </div>
+        )}
+        {isError && (
+          <div style={{ color: "#ff6b6b", fontSize: 12, marginTop: 8 }}>
+            Could not load nearby assets
+          </div>
+        )}
+        {isEmpty && (
+          <div style={{ color: "#777", fontSize: 12, marginTop: 8 }}>
+            No assets in this project
+          </div>
+        )}
+
+        {result && result.paths.length > 0 && (
+          <>
+            <div style={sectionTitleStyle}>Paths</div>
+            {result.paths.map((p) => (
+              <div
+                key={p.id}
+                onClick={() => onSelectPath(p.id)}
+                style={{ ...rowStyle, cursor: "pointer" }}
+                onMouseEnter={(e) =>
+                  (e.currentTarget.style.background = "rgba(255,255,255,0.08)")
+                }
+                onMouseLeave={(e) =>
+                  (e.currentTarget.style.background = "transparent")
+                }
+              >
+                <span
+                  style={{
+                    width: 10,
+                    height: 10,
+                    borderRadius: 2,
+                    flexShrink: 0,
+                    background: p.color,
+                  }}
+                />
+                <span style={{ flex: 1, minWidth: 0 }}>
+                  <div
+                    style={{
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {p.name}
+                  </div>
+                  <div style={{ color: "#777", fontSize: 10 }}>
+                    {p.layerName}
+                    {p.closestVertex &&
+                      ` · nearest ${p.closestVertex.name || `node ${p.closestVertex.position + 1}`}`}
+                  </div>
+                </span>
+                <span style={distanceStyle}>
+                  {formatLengthMeters(p.distanceM)}
+                </span>
+              </div>
+            ))}
+          </>
+        )}
+
+        {result && result.nodes.length > 0 && (
+          <>
+            <div style={sectionTitleStyle}>Nodes</div>
+            {result.nodes.map((n) => (
+              <div key={n.id} style={rowStyle}>
+                <span style={{ flex: 1, minWidth: 0 }}>
+                  {n.name || `Node ${n.position + 1}`}
+                  <span style={{ color: "#777", fontSize: 10 }}>
+                    {" "}
+                    · {n.pathName} · z {n.point.z}
+                  </span>
+                </span>
+                <span style={distanceStyle}>
+                  {formatLengthMeters(n.distanceM)}
+                </span>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </>
+  );
+}
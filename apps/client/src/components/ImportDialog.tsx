@@ -0,0 +1,432 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { FileUpload } from "./ui";
+import { UTILITY_PRESETS } from "@/constants";
+import { useKeyboardListener } from "@/hooks/useKeyboardListener";
+import { useProjectImport } from "@/hooks/useProjectImport";
+import type { Layer } from "@/hooks/useLayers";
+import type { ApiImportPreview, ApiImportResult } from "@/lib/api-types";
+import { errorMessage } from "@/lib/api";
+import {
+  distinctPropertyValues,
+  parseFeatureCollection,
+  summarizeFeatureCollection,
+} from "@/lib/geojson-import";
+
+interface ImportDialogProps {
+  projectId: string;
+  layers: Layer[];
+  onImported: (result: ApiImportResult) => void;
+  onClose: () => void;
+}
+
+const NEW_LAYER = "";
+// Colour mapping rows shown for the chosen property; rarer values use the default
+const MAX_COLOR_VALUES = 12;
+const MAX_FILE_SIZE = 25 * 1024 * 1024;
+// Parsed in the browser so properties can be mapped; other formats are
+// previewed with a server dry run
+const GEOJSON_EXTENSIONS = [".geojson", ".json"];
+const ACCEPT = ".geojson,.json,.kml,.kmz,.zip,application/geo+json";
+
+function extensionOf(fileName: string) {
+  return fileName.slice(fileName.lastIndexOf(".")).toLowerCase();
+}
+
+const labelStyle: React.CSSProperties = {
+  color: "#888",
+  fontSize: 11,
+  marginBottom: 4,
+  display: "block",
+};
+
+const fieldStyle: React.CSSProperties = {
+  width: "100%",
+  background: "rgba(255,255,255,0.07)",
+  border: "1px solid #2a2e3d",
+  borderRadius: 5,
+  color: "#ddd",
+  fontSize: 12,
+  padding: "6px 8px",
+  outline: "none",
+  fontFamily: "system-ui, -apple-system, sans-serif",
+};
+
+function PresetSelect({
+  value,
+  onChange,
+  emptyLabel,
+}: {
+  value: string;
+  onChange: (color: string) => void;
+  emptyLabel: string;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      style={{ ...fieldStyle, borderLeft: `4px solid ${value || "#2a2e3d"}` }}
+    >
+      <option value="">{emptyLabel}</option>
+      {UTILITY_PRESETS.map((preset) => (
+        <option key={preset.color} value={preset.color}>
+          {preset.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default function ImportDialog({
+  projectId,
+  layers,
+  onImported,
+  onClose,
+}: ImportDialogProps) {
+  const { importGeoJson, importFile, previewFile, isImporting } =
+    useProjectImport();
+  const [fileName, setFileName] = useState("");
+  const [featureCollection, setFeatureCollection] =
+    useState<GeoJSON.FeatureCollection | null>(null);
+  const [serverFile, setServerFile] = useState<{
+    file: File;
+    preview: ApiImportPreview;
+  } | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [fileError, setFileError] = useState<string | undefined>();
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [layerId, setLayerId] = useState(NEW_LAYER);
+  const [layerName, setLayerName] = useState("");
+  const [nameProperty, setNameProperty] = useState("");
+  const [colorProperty, setColorProperty] = useState("");
+  const [colorMap, setColorMap] = useState<Record<string, string>>({});
+  const [defaultColor, setDefaultColor] = useState("");
+
+  useKeyboardListener("Escape", onClose);
+
+  const summary = useMemo(
+    () =>
+      featureCollection ? summarizeFeatureCollection(featureCollection) : null,
+    [featureCollection],
+  );
+  const colorValues = useMemo(
+    () =>
+      featureCollection && colorProperty
+        ? distinctPropertyValues(
+            featureCollection,
+            colorProperty,
+            MAX_COLOR_VALUES,
+          )
+        : [],
+    [featureCollection, colorProperty],
+  );
+
+  async function handleFilesChange(files: File[]) {
+    const [file] = files;
+    setFeatureCollection(null);
+    setServerFile(null);
+    setFileError(undefined);
+    setSubmitError(null);
+    if (!file) return;
+    setFileName(file.name);
+    setLayerName(file.name.replace(/\.[^.]+$/, ""));
+
+    if (!GEOJSON_EXTENSIONS.includes(extensionOf(file.name))) {
+      setIsPreviewing(true);
+      try {
+        const preview = await previewFile(projectId, file);
+        setServerFile({ file, preview });
+        setNameProperty(
+          preview.attributeKeys.find((k) => /^name$/i.test(k)) ?? "",
+        );
+      } catch (err) {
+        setFileError(errorMessage(err, "Could not read file"));
+      } finally {
+        setIsPreviewing(false);
+      }
+      return;
+    }
+
+    try {
+      const fc = parseFeatureCollection(await file.text());
+      const keys = summarizeFeatureCollection(fc).propertyKeys;
+      setFeatureCollection(fc);
+      setNameProperty(keys.includes("name") ? "name" : "");
+      setColorProperty("");
+      setColorMap({});
+    } catch (err) {
+      setFileError(errorMessage(err, "Could not read file"));
+    }
+  }
+
+  async function handleImport() {
+    const target = {
+      projectId,
+      layerId: layerId || undefined,
+      layerName: layerId ? undefined : layerName.trim() || fileName,
+    };
+    setSubmitError(null);
+    try {
+      if (featureCollection) {
+        onImported(
+          await importGeoJson({
+            ...target,
+            featureCollection,
+            nameProperty: nameProperty || undefined,
+            colorProperty: colorProperty || undefined,
+            colorMap: colorProperty ? colorMap : undefined,
+            defaultColor: defaultColor || undefined,
+          }),
+        );
+      } else if (serverFile) {
+        onImported(
+          await importFile({
+            ...target,
+            file: serverFile.file,
+            nameProperty: nameProperty || undefined,
+          }),
+        );
+      }
+    } catch (err) {
+      setSubmitError(errorMessage(err, "Import failed"));
+    }
+  }
+
+  const importableCount =
+    summary?.importableCount ?? serverFile?.preview.pathCount ?? 0;
+  const extent = summary?.extent ?? serverFile?.preview.extent ?? null;
+  const nameKeys =
+    summary?.propertyKeys ?? serverFile?.preview.attributeKeys ?? [];
+  const canImport = importableCount > 0 && !isImporting;
+
+  return (
+    <>
+      <div
+        onClick={onClose}
+        style={{
+          position: "fixed",
+          inset: 0,
+          zIndex: 29,
+          background: "rgba(0,0,0,0.45)",
+        }}
+      />
+      <div
+        role="dialog"
+        aria-label="Import file"
+        style={{
+          position: "fixed",
+          top: "50%",
+          left: "50%",
+          transform: "translate(-50%, -50%)",
+          width: 380,
+          maxHeight: "80vh",
+          overflowY: "auto",
+          zIndex: 30,
+          background: "rgba(10, 14, 22, 0.92)",
+          backdropFilter: "blur(10px)",
+          border: "1px solid rgba(255,255,255,0.12)",
+          borderRadius: 8,
+          boxShadow: "0 4px 24px rgba(0,0,0,0.6)",
+          color: "#fff",
+          fontFamily: "system-ui, -apple-system, sans-serif",
+          padding: 16,
+          display: "flex",
+          flexDirection: "column",
+          gap: 12,
+        }}
+      >
+        <div style={{ fontSize: 14, fontWeight: 600 }}>Import file</div>
+
+        <FileUpload
+          accept={ACCEPT}
+          maxSize={MAX_FILE_SIZE}
+          onFilesChange={handleFilesChange}
+          helperText="GeoJSON, KML/KMZ or a zipped shapefile. Lines become open paths, polygons closed paths"
+          error={fileError}
+        />
+
+        {isPreviewing && (
+          <div style={{ color: "#777", fontSize: 12 }}>Reading file…</div>
+        )}
+
+        {(summary || serverFile) && (
+          <div
+            style={{
+              background: "rgba(255,255,255,0.05)",
+              borderRadius: 5,
+              padding: "8px 10px",
+              fontSize: 12,
+              color: "#ddd",
+            }}
+          >
+            <div>
+              {summary
+                ? `${summary.importableCount} of ${summary.featureCount} features will be imported`
+                : `${serverFile?.preview.pathCount} paths (${serverFile?.preview.nodeCount} nodes) will be imported`}
+              {serverFile && serverFile.preview.skipped > 0 &&
+                ` · ${serverFile.preview.skipped} skipped`}
+            </div>
+            {extent && (
+              <div
+                style={{
+                  color: "#777",
+                  fontFamily: "monospace",
+                  fontSize: 11,
+                  marginTop: 4,
+                }}
+              >
+                {extent[1].toFixed(5)}, {extent[0].toFixed(5)}
+                {" → "}
+                {extent[3].toFixed(5)}, {extent[2].toFixed(5)}
+              </div>
+            )}
+          </div>
+        )}
+
+        {importableCount > 0 && (
+          <div>
+            <label style={labelStyle}>Target layer</label>
+            <select
+              value={layerId}
+              onChange={(e) => setLayerId(e.target.value)}
+              style={fieldStyle}
+            >
+              <option value={NEW_LAYER}>New layer…</option>
+              {layers.map((l) => (
+                <option key={l.id} value={l.id}>
+                  {l.name}
+                </option>
+              ))}
+            </select>
+            {layerId === NEW_LAYER && (
+              <input
+                value={layerName}
+                onChange={(e) => setLayerName(e.target.value)}
+                placeholder="Layer name"
+                style={{ ...fieldStyle, marginTop: 6 }}
+              />
+            )}
+          </div>
+        )}
+
+        {importableCount > 0 && nameKeys.length > 0 && (
+          <div>
+            <label style={labelStyle}>Path name from property</label>
+            <select
+              value={nameProperty}
+              onChange={(e) => setNameProperty(e.target.value)}
+              style={fieldStyle}
+            >
+              <option value="">(name, else numbered)</option>
+              {nameKeys.map((key) => (
+                <option key={key} value={key}>
+                  {key}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {summary && summary.importableCount > 0 && (
+          <>
+            <div>
+              <label style={labelStyle}>Colour from property</label>
+              <select
+                value={colorProperty}
+                onChange={(e) => {
+                  setColorProperty(e.target.value);
+                  setColorMap({});
+                }}
+                style={fieldStyle}
+              >
+                <option value="">(none)</option>
+                {summary.propertyKeys.map((key) => (
+                  <option key={key} value={key}>
+                    {key}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {colorValues.map((value) => (
+              <div
+                key={value}
+                style={{ display: "flex", alignItems: "center", gap: 8 }}
+              >
+                <span
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    fontSize: 12,
+                    color: "#ddd",
+                    overflow: "hidden",
+                    textOverflow: "ellipsis",
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  {value}
+                </span>
+                <div style={{ flex: 1 }}>
+                  <PresetSelect
+                    value={colorMap[value] ?? ""}
+                    emptyLabel="Default"
+                    onChange={(color) =>
+                      setColorMap((prev) => ({ ...prev, [value]: color }))
+                    }
+                  />
+                </div>
+              </div>
+            ))}
+
+            <div>
+              <label style={labelStyle}>Default colour</label>
+              <PresetSelect
+                value={defaultColor}
+                emptyLabel="From file (or black)"
+                onChange={setDefaultColor}
+              />
+            </div>
+          </>
+        )}
+
+        {submitError && (
+          <div style={{ color: "#ff6b6b", fontSize: 12 }}>{submitError}</div>
+        )}
+
+        <div style={{ display: "flex", justifyContent: "flex-end", gap: 8 }}>
+          <button
+            onClick={onClose}
+            style={{
+              background: "none",
+              border: "1px solid #2a2e3d",
+              borderRadius: 5,
+              color: "#aaa",
+              cursor: "pointer",
+              fontSize: 12,
+              padding: "6px 12px",
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            style={{
+              background: canImport ? "#1e5fa8" : "rgba(58,123,213,0.45)",
+              border: "none",
+              borderRadius: 5,
+              color: "#fff",
+              cursor: canImport ? "pointer" : "not-allowed",
+              fontSize: 12,
+              fontWeight: 600,
+              padding: "6px 12px",
+            }}
+          >
+            {isImporting ? "Importing…" : "Import"}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -8,6 +8,8 @@ interface LayersPanelProps {
   layers: Layer[];
   activeLayerId: string;
   paths: DrawnPath[];
+  // Viewers see the layers but cannot rename, hide, delete or add them
+  canEdit: boolean;
   onSetActiveLayer: (id: string) => void;
   onCreateLayer: (name: string) => void;
   onUpdateLayerName: (id: string, name: string) => void;
@@ -32,6 +34,7 @@ export default function LayersPanel({
   layers,
   activeLayerId,
   paths,
+  canEdit,
   onSetActiveLayer,
   onCreateLayer,
   onUpdateLayerName,
@@ -120,12 +123,14 @@ export default function LayersPanel({
               <input
                 type="text"
                 value={layer.name}
+                readOnly={!canEdit}
                 onChange={(e) => onUpdateLayerName(layer.id, e.target.value)}
                 onClick={(e) => e.stopPropagation()}
                 style={ghostInputStyle}
-                onFocus={(e) =>
-                  (e.currentTarget.style.borderBottomColor = "#3a7bd5")
-                }
+                onFocus={(e) => {
+                  if (canEdit)
+                    e.currentTarget.style.borderBottomColor = "#3a7bd5";
+                }}
                 onBlur={(e) =>
                   (e.currentTarget.style.borderBottomColor = "transparent")
                 }
@@ -141,34 +146,36 @@ export default function LayersPanel({
               )}
 
               {/* Visibility toggle */}
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onToggleLayerVisibility(layer.id);
-                }}
-                title={layer.isVisible ? "Hide layer" : "Show layer"}
-                style={{
-                  background: "none",
-                  border: "none",
-                  cursor: "pointer",
-                  fontSize: 12,
-                  lineHeight: 1,
-                  padding: "0 2px",
-                  color: layer.isVisible ? "#aaa" : "#444",
-                  flexShrink: 0,
-                }}
-              >
-                {layer.isVisible ? "●" : "◌"}
-              </button>
+              {canEdit && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleLayerVisibility(layer.id);
+                  }}
+                  title={layer.isVisible ? "Hide layer" : "Show layer"}
+                  style={{
+                    background: "none",
+                    border: "none",
+                    cursor: "pointer",
+                    fontSize: 12,
+                    lineHeight: 1,
+                    padding: "0 2px",
+                    color: layer.isVisible ? "#aaa" : "#444",
+                    flexShrink: 0,
+                  }}
+                >
+                  {layer.isVisible ? "●" : "◌"}
+                </button>
+              )}
 
               {/* Delete — hidden when only one layer remains */}
-              {layers.length > 1 && (
+              {canEdit && layers.length > 1 && (
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
                     onDeleteLayer(layer.id);
                   }}
-                  title="Delete layer (paths moved to Default)"
+                  title="Delete layer and its paths"
                   style={{
                     background: "none",
                     border: "none",
@@ -189,52 +196,54 @@ export default function LayersPanel({
       </div>
 
       {/* Create layer row */}
-      <div
-        style={{
-          display: "flex",
-          gap: 6,
-          marginTop: 10,
-          paddingTop: 10,
-          borderTop: "1px solid #1e2230",
-        }}
-      >
-        <input
-          type="text"
-          value={newLayerName}
-          onChange={(e) => setNewLayerName(e.target.value)}
-          onKeyDown={(e) => {
-            if (e.key === "Enter") handleCreate();
-          }}
-          placeholder="Layer name…"
+      {canEdit && (
+        <div
           style={{
-            flex: 1,
-            background: "rgba(255,255,255,0.07)",
-            border: "1px solid #2a2e3d",
-            borderRadius: 5,
-            color: "#ddd",
-            fontSize: 12,
-            padding: "4px 7px",
-            outline: "none",
-            fontFamily: "system-ui, -apple-system, sans-serif",
-          }}
-        />
-        <button
-          onClick={handleCreate}
-          style={{
-            background: "#1e5fa8",
-            border: "none",
-            borderRadius: 5,
-            color: "#fff",
-            cursor: "pointer",
-            fontSize: 16,
-            fontWeight: 700,
-            padding: "0 10px",
-            lineHeight: 1,
+            display: "flex",
+            gap: 6,
+            marginTop: 10,
+            paddingTop: 10,
+            borderTop: "1px solid #1e2230",
           }}
         >
-          +
-        </button>
-      </div>
+          <input
+            type="text"
+            value={newLayerName}
+            onChange={(e) => setNewLayerName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleCreate();
+            }}
+            placeholder="Layer name…"
+            style={{
+              flex: 1,
+              background: "rgba(255,255,255,0.07)",
+              border: "1px solid #2a2e3d",
+              borderRadius: 5,
+              color: "#ddd",
+              fontSize: 12,
+              padding: "4px 7px",
+              outline: "none",
+              fontFamily: "system-ui, -apple-system, sans-serif",
+            }}
+          />
+          <button
+            onClick={handleCreate}
+            style={{
+              background: "#1e5fa8",
+              border: "none",
+              borderRadius: 5,
+              color: "#fff",
+              cursor: "pointer",
+              fontSize: 16,
+              fontWeight: 700,
+              padding: "0 10px",
+              lineHeight: 1,
+            }}
+          >
+            +
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import type { Node, DrawnPath } from "@/lib/geometry/types";
+import type { ApiPresence } from "@/lib/api-types";
 import { UTILITY_PRESETS } from "@/constants";
 import PathListItem from "./PathListItem";
 
@@ -10,8 +11,13 @@ interface MapPanelProps {
   paths: DrawnPath[];
   pathCount: number;
 
+  // Viewers get a read-only list and no drawing controls
+  canEdit: boolean;
+
   // Edit state
   editingPathId: string | null;
+  // Paths someone else has in edit mode, with who has them
+  lockedPaths: Map<string, ApiPresence>;
   selectedNodeIds: Set<string>;
 
   // Drawing state (read-only)
@@ -52,7 +58,9 @@ interface MapPanelProps {
 export default function MapPanel({
   paths,
   pathCount,
+  canEdit,
   editingPathId,
+  lockedPaths,
   selectedNodeIds,
   isDrawing,
   activePath,
@@ -202,340 +210,350 @@ export default function MapPanel({
             </div>
           )}
 
-          {/* Name for next path */}
-          <label
-            style={{
-              display: "flex",
-              flexDirection: "column",
-              gap: 4,
-              marginBottom: 10,
-            }}
-          >
-            <span style={{ color: "#999", fontSize: 11 }}>Name</span>
-            <input
-              type="text"
-              value={pathName}
-              onChange={(e) => onPathNameChange(e.target.value)}
-              placeholder={`Path ${pathCount}`}
-              style={{
-                background: "rgba(255,255,255,0.07)",
-                border: "1px solid #2a2e3d",
-                borderRadius: 5,
-                color: "#ddd",
-                fontSize: 13,
-                padding: "5px 8px",
-                outline: "none",
-                width: "100%",
-                boxSizing: "border-box",
-              }}
-            />
-          </label>
-
-          {/* Utility type preset dropdown */}
-          <div style={{ marginBottom: 10, position: "relative" }}>
-            <span
-              style={{
-                color: "#999",
-                fontSize: 11,
-                display: "block",
-                marginBottom: 4,
-              }}
-            >
-              Type
-            </span>
-            <button
-              onClick={() => setPresetOpen((v) => !v)}
-              style={{
-                width: "100%",
-                display: "flex",
-                alignItems: "center",
-                gap: 8,
-                padding: "5px 8px",
-                background: "rgba(255,255,255,0.07)",
-                border: "1px solid #2a2e3d",
-                borderRadius: 5,
-                color: "#ddd",
-                cursor: "pointer",
-                fontSize: 12,
-                textAlign: "left",
-              }}
-            >
-              <span
+          {/* New path settings and drawing actions; hidden for viewers */}
+          {canEdit && (
+            <>
+              {/* Name for next path */}
+              <label
                 style={{
-                  width: 13,
-                  height: 13,
-                  borderRadius: 3,
-                  flexShrink: 0,
-                  background: activeColor,
-                  border:
-                    activeColor.toLowerCase() === "#ffffff"
-                      ? "1px solid #666"
-                      : "none",
-                  display: "inline-block",
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: 4,
+                  marginBottom: 10,
                 }}
-              />
-              <span style={{ flex: 1 }}>
-                {UTILITY_PRESETS.find(
-                  (p) => p.color.toLowerCase() === activeColor.toLowerCase(),
-                )?.label ?? "Custom"}
-              </span>
-              <span style={{ color: "#555", fontSize: 10 }}>
-                {presetOpen ? "▲" : "▾"}
-              </span>
-            </button>
-
-            {presetOpen && (
-              <>
-                <div
-                  onClick={() => setPresetOpen(false)}
-                  style={{ position: "fixed", inset: 0, zIndex: 19 }}
+              >
+                <span style={{ color: "#999", fontSize: 11 }}>Name</span>
+                <input
+                  type="text"
+                  value={pathName}
+                  onChange={(e) => onPathNameChange(e.target.value)}
+                  placeholder={`Path ${pathCount}`}
+                  style={{
+                    background: "rgba(255,255,255,0.07)",
+                    border: "1px solid #2a2e3d",
+                    borderRadius: 5,
+                    color: "#ddd",
+                    fontSize: 13,
+                    padding: "5px 8px",
+                    outline: "none",
+                    width: "100%",
+                    boxSizing: "border-box",
+                  }}
                 />
-                <div
+              </label>
+
+              {/* Utility type preset dropdown */}
+              <div style={{ marginBottom: 10, position: "relative" }}>
+                <span
+                  style={{
+                    color: "#999",
+                    fontSize: 11,
+                    display: "block",
+                    marginBottom: 4,
+                  }}
+                >
+                  Type
+                </span>
+                <button
+                  onClick={() => setPresetOpen((v) => !v)}
                   style={{
-                    position: "absolute",
-                    top: "calc(100% + 4px)",
-                    left: 0,
-                    right: 0,
-                    zIndex: 20,
-                    background: "rgba(8, 12, 22, 0.98)",
+                    width: "100%",
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 8,
+                    padding: "5px 8px",
+                    background: "rgba(255,255,255,0.07)",
                     border: "1px solid #2a2e3d",
-                    borderRadius: 6,
-                    overflow: "hidden",
-                    boxShadow: "0 6px 20px rgba(0,0,0,0.7)",
+                    borderRadius: 5,
+                    color: "#ddd",
+                    cursor: "pointer",
+                    fontSize: 12,
+                    textAlign: "left",
                   }}
                 >
-                  {UTILITY_PRESETS.map((preset) => (
+                  <span
+                    style={{
+                      width: 13,
+                      height: 13,
+                      borderRadius: 3,
+                      flexShrink: 0,
+                      background: activeColor,
+                      border:
+                        activeColor.toLowerCase() === "#ffffff"
+                          ? "1px solid #666"
+                          : "none",
+                      display: "inline-block",
+                    }}
+                  />
+                  <span style={{ flex: 1 }}>
+                    {UTILITY_PRESETS.find(
+                      (p) =>
+                        p.color.toLowerCase() === activeColor.toLowerCase(),
+                    )?.label ?? "Custom"}
+                  </span>
+                  <span style={{ color: "#555", fontSize: 10 }}>
+                    {presetOpen ? "▲" : "▾"}
+                  </span>
+                </button>
+
+                {presetOpen && (
+                  <>
+                    <div
+                      onClick={() => setPresetOpen(false)}
+                      style={{ position: "fixed", inset: 0, zIndex: 19 }}
+                    />
                     <div
-                      key={preset.color}
-                      onClick={() => {
-                        onColorChange(preset.color);
-                        setPresetOpen(false);
-                      }}
                       style={{
-                        display: "flex",
-                        alignItems: "center",
-                        gap: 9,
-                        padding: "7px 10px",
-                        cursor: "pointer",
-                        fontSize: 12,
-                        color: "#ccc",
+                        position: "absolute",
+                        top: "calc(100% + 4px)",
+                        left: 0,
+                        right: 0,
+                        zIndex: 20,
+                        background: "rgba(8, 12, 22, 0.98)",
+                        border: "1px solid #2a2e3d",
+                        borderRadius: 6,
+                        overflow: "hidden",
+                        boxShadow: "0 6px 20px rgba(0,0,0,0.7)",
                       }}
-                      onMouseEnter={(e) =>
-                        (e.currentTarget.style.background =
-                          "rgba(255,255,255,0.08)")
-                      }
-                      onMouseLeave={(e) =>
-                        (e.currentTarget.style.background = "transparent")
-                      }
                     >
-                      <span
-                        style={{
-                          width: 13,
-                          height: 13,
-                          borderRadius: 3,
-                          flexShrink: 0,
-                          background: preset.color,
-                          display: "inline-block",
-                          border:
-                            preset.color === "#FFFFFF"
-                              ? "1px solid #555"
-                              : "none",
-                        }}
-                      />
-                      <span>{preset.label}</span>
+                      {UTILITY_PRESETS.map((preset) => (
+                        <div
+                          key={preset.color}
+                          onClick={() => {
+                            onColorChange(preset.color);
+                            setPresetOpen(false);
+                          }}
+                          style={{
+                            display: "flex",
+                            alignItems: "center",
+                            gap: 9,
+                            padding: "7px 10px",
+                            cursor: "pointer",
+                            fontSize: 12,
+                            color: "#ccc",
+                          }}
+                          onMouseEnter={(e) =>
+                            (e.currentTarget.style.background =
+                              "rgba(255,255,255,0.08)")
+                          }
+                          onMouseLeave={(e) =>
+                            (e.currentTarget.style.background = "transparent")
+                          }
+                        >
+                          <span
+                            style={{
+                              width: 13,
+                              height: 13,
+                              borderRadius: 3,
+                              flexShrink: 0,
+                              background: preset.color,
+                              display: "inline-block",
+                              border:
+                                preset.color === "#FFFFFF"
+                                  ? "1px solid #555"
+                                  : "none",
+                            }}
+                          />
+                          <span>{preset.label}</span>
+                        </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              </>
-            )}
-          </div>
+                  </>
+                )}
+              </div>
 
-          {/* Color + Width row */}
-          <div
-            style={{
-              display: "flex",
-              alignItems: "center",
-              gap: 10,
-              marginBottom: 10,
-            }}
-          >
-            <label
-              style={{
-                display: "flex",
-                alignItems: "center",
-                gap: 6,
-                flex: 1,
-              }}
-            >
-              <span style={{ color: "#999", fontSize: 11 }}>Color</span>
-              <input
-                type="color"
-                value={activeColor}
-                onChange={(e) => onColorChange(e.target.value)}
-                style={{
-                  width: 28,
-                  height: 22,
-                  border: "1px solid #333",
-                  borderRadius: 4,
-                  background: "none",
-                  cursor: "pointer",
-                  padding: 0,
-                }}
-              />
-              <span
+              {/* Color + Width row */}
+              <div
                 style={{
-                  color: "#777",
-                  fontFamily: "monospace",
-                  fontSize: 11,
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 10,
+                  marginBottom: 10,
                 }}
               >
-                {activeColor}
-              </span>
-            </label>
-          </div>
-
-          {/* Width slider */}
-          <div
-            style={{
-              display: "flex",
-              alignItems: "center",
-              gap: 8,
-              marginBottom: 12,
-            }}
-          >
-            <span style={{ color: "#999", fontSize: 11, flexShrink: 0 }}>
-              Width
-            </span>
-            <input
-              type="range"
-              min={1}
-              max={20}
-              value={activeWidth}
-              onChange={(e) => onWidthChange(Number(e.target.value))}
-              style={{ flex: 1, accentColor: activeColor }}
-            />
-            <span
-              style={{
-                color: "#777",
-                fontFamily: "monospace",
-                fontSize: 11,
-                width: 28,
-                textAlign: "right",
-                flexShrink: 0,
-              }}
-            >
-              {activeWidth}px
-            </span>
-          </div>
+                <label
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 6,
+                    flex: 1,
+                  }}
+                >
+                  <span style={{ color: "#999", fontSize: 11 }}>Color</span>
+                  <input
+                    type="color"
+                    value={activeColor}
+                    onChange={(e) => onColorChange(e.target.value)}
+                    style={{
+                      width: 28,
+                      height: 22,
+                      border: "1px solid #333",
+                      borderRadius: 4,
+                      background: "none",
+                      cursor: "pointer",
+                      padding: 0,
+                    }}
+                  />
+                  <span
+                    style={{
+                      color: "#777",
+                      fontFamily: "monospace",
+                      fontSize: 11,
+                    }}
+                  >
+                    {activeColor}
+                  </span>
+                </label>
+              </div>
 
-          {/* Action buttons */}
-          {!isDrawing ? (
-            <div style={{ display: "flex", gap: 6 }}>
-              <button
-                onClick={onStartDrawing}
+              {/* Width slider */}
+              <div
                 style={{
-                  flex: 1,
-                  padding: "8px 0",
-                  borderRadius: 6,
-                  border: "none",
-                  background: "#1e5fa8",
-                  color: "#fff",
-                  fontWeight: 600,
-                  cursor: "pointer",
-                  fontSize: 13,
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 8,
+                  marginBottom: 12,
                 }}
               >
-                New Path
-              </button>
-              {editingPathId && (
-                <button
-                  onClick={() => onStartExtending(editingPathId)}
+                <span style={{ color: "#999", fontSize: 11, flexShrink: 0 }}>
+                  Width
+                </span>
+                <input
+                  type="range"
+                  min={1}
+                  max={20}
+                  value={activeWidth}
+                  onChange={(e) => onWidthChange(Number(e.target.value))}
+                  style={{ flex: 1, accentColor: activeColor }}
+                />
+                <span
                   style={{
-                    flex: 1,
-                    padding: "8px 0",
-                    borderRadius: 6,
-                    border: "none",
-                    background: "#4a3a8a",
-                    color: "#fff",
-                    fontWeight: 600,
-                    cursor: "pointer",
-                    fontSize: 13,
+                    color: "#777",
+                    fontFamily: "monospace",
+                    fontSize: 11,
+                    width: 28,
+                    textAlign: "right",
+                    flexShrink: 0,
                   }}
                 >
-                  Add Node
-                </button>
-              )}
-            </div>
-          ) : (
-            <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
-              <div style={{ display: "flex", gap: 6 }}>
-                {activePath.length >= (extendingPath ? 1 : 2) && (
+                  {activeWidth}px
+                </span>
+              </div>
+
+              {/* Action buttons */}
+              {!isDrawing ? (
+                <div style={{ display: "flex", gap: 6 }}>
                   <button
-                    onClick={extendingPath ? onFinishExtension : onFinishPath}
+                    onClick={onStartDrawing}
                     style={{
                       flex: 1,
                       padding: "8px 0",
                       borderRadius: 6,
                       border: "none",
-                      background: "#1a7a3c",
+                      background: "#1e5fa8",
                       color: "#fff",
                       fontWeight: 600,
                       cursor: "pointer",
                       fontSize: 13,
                     }}
                   >
-                    {extendingPath ? "Apply" : "Finish Path"}
+                    New Path
                   </button>
-                )}
-                <button
-                  onClick={onCancelDrawing}
-                  style={{
-                    flex: activePath.length >= 2 ? undefined : 1,
-                    width: activePath.length >= 2 ? undefined : "100%",
-                    padding: "8px 12px",
-                    borderRadius: 6,
-                    border: "none",
-                    background: "#9b2335",
-                    color: "#fff",
-                    fontWeight: 600,
-                    cursor: "pointer",
-                    fontSize: 13,
-                  }}
+                  {editingPathId && (
+                    <button
+                      onClick={() => onStartExtending(editingPathId)}
+                      style={{
+                        flex: 1,
+                        padding: "8px 0",
+                        borderRadius: 6,
+                        border: "none",
+                        background: "#4a3a8a",
+                        color: "#fff",
+                        fontWeight: 600,
+                        cursor: "pointer",
+                        fontSize: 13,
+                      }}
+                    >
+                      Add Node
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <div
+                  style={{ display: "flex", flexDirection: "column", gap: 6 }}
                 >
-                  Cancel
-                </button>
-              </div>
-              <div
-                style={{
-                  textAlign: "center",
-                  fontSize: 12,
-                  padding: "5px 8px",
-                  borderRadius: 4,
-                  background: isSnapping
-                    ? "rgba(255,255,255,0.12)"
-                    : "rgba(255,255,255,0.05)",
-                  color: isSnapping ? "#fff" : "#aaa",
-                  transition: "background 0.1s",
-                }}
-              >
-                {isSnapping
-                  ? snapIsFirstNode
-                    ? "Click to close area"
-                    : "Click to connect & close"
-                  : activePath.length === 0
-                    ? extendingPath
-                      ? "Click to place first new node"
-                      : "Click to place first node"
-                    : extendingPath
-                      ? `${activePath.length} new node${activePath.length !== 1 ? "s" : ""} — click to extend`
-                      : `${activePath.length} node${activePath.length !== 1 ? "s" : ""} — click to extend`}
-              </div>
-            </div>
+                  <div style={{ display: "flex", gap: 6 }}>
+                    {activePath.length >= (extendingPath ? 1 : 2) && (
+                      <button
+                        onClick={
+                          extendingPath ? onFinishExtension : onFinishPath
+                        }
+                        style={{
+                          flex: 1,
+                          padding: "8px 0",
+                          borderRadius: 6,
+                          border: "none",
+                          background: "#1a7a3c",
+                          color: "#fff",
+                          fontWeight: 600,
+                          cursor: "pointer",
+                          fontSize: 13,
+                        }}
+                      >
+                        {extendingPath ? "Apply" : "Finish Path"}
+                      </button>
+                    )}
+                    <button
+                      onClick={onCancelDrawing}
+                      style={{
+                        flex: activePath.length >= 2 ? undefined : 1,
+                        width: activePath.length >= 2 ? undefined : "100%",
+                        padding: "8px 12px",
+                        borderRadius: 6,
+                        border: "none",
+                        background: "#9b2335",
+                        color: "#fff",
+                        fontWeight: 600,
+                        cursor: "pointer",
+                        fontSize: 13,
+                      }}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                  <div
+                    style={{
+                      textAlign: "center",
+                      fontSize: 12,
+                      padding: "5px 8px",
+                      borderRadius: 4,
+                      background: isSnapping
+                        ? "rgba(255,255,255,0.12)"
+                        : "rgba(255,255,255,0.05)",
+                      color: isSnapping ? "#fff" : "#aaa",
+                      transition: "background 0.1s",
+                    }}
+                  >
+                    {isSnapping
+                      ? snapIsFirstNode
+                        ? "Click to close area"
+                        : "Click to connect & close"
+                      : activePath.length === 0
+                        ? extendingPath
+                          ? "Click to place first new node"
+                          : "Click to place first node"
+                        : extendingPath
+                          ? `${activePath.length} new node${activePath.length !== 1 ? "s" : ""} — click to extend`
+                          : `${activePath.length} node${activePath.length !== 1 ? "s" : ""} — click to extend`}
+                  </div>
+                </div>
+              )}
+            </>
           )}
 
           {/* Paths list */}
           {paths.length > 0 && (
-            <div style={{ marginTop: 14 }}>
+            <div style={{ marginTop: canEdit ? 14 : 0 }}>
               <div
                 style={{
                   color: "#555",
@@ -563,6 +581,8 @@ export default function MapPanel({
                     key={path.id}
                     path={path}
                     isEditing={path.id === editingPathId}
+                    lockedBy={lockedPaths.get(path.id)}
+                    isReadOnly={!canEdit}
                     isExpanded={path.id === expandedPathId}
                     onToggleExpand={() => toggleExpand(path.id)}
                     onUpdateName={(name) => onUpdatePathName(path.id, name)}
@@ -28,8 +28,10 @@ const DeckMap = dynamic(() => import("@/components/DeckMap"), {
 
 interface MapWrapperProps {
   geoData: GeoJSON.FeatureCollection | null;
+  // Read-only view opened from a public share link
+  isShared?: boolean;
 }
 
-export default function MapWrapper({ geoData }: MapWrapperProps) {
-  return <DeckMap geoData={geoData} />;
+export default function MapWrapper({ geoData, isShared }: MapWrapperProps) {
+  return <DeckMap geoData={geoData} isShared={isShared} />;
 }
@@ -2,6 +2,8 @@
 
 import { useMemo } from "react";
 import type { DrawnPath } from "@/lib/geometry/types";
+import type { ApiPresence } from "@/lib/api-types";
+import { presenceColor } from "@/lib/presence";
 import {
   computeClosedPathAreaMeters,
   computeOpenPathLengthMeters,
@@ -34,6 +36,9 @@ const numInputStyle: React.CSSProperties = {
 interface PathListItemProps {
   path: DrawnPath;
   isEditing: boolean;
+  // Someone else has the path in edit mode
+  lockedBy?: ApiPresence;
+  isReadOnly: boolean;
   isExpanded: boolean;
   isHidden: boolean;
   onToggleExpand: () => void;
@@ -49,6 +54,8 @@ interface PathListItemProps {
 export default function PathListItem({
   path,
   isEditing,
+  lockedBy,
+  isReadOnly,
   isExpanded,
   isHidden,
   onToggleExpand,
@@ -104,9 +111,14 @@ export default function PathListItem({
         <input
           type="text"
           value={path.name}
+          readOnly={isReadOnly}
           onChange={(e) => onUpdateName(e.target.value)}
           style={{ ...ghostInputStyle, flex: 1, fontSize: 12, minWidth: 0 }}
-          onFocus={(e) => (e.currentTarget.style.borderBottomColor = "#3a7bd5")}
+          onFocus={(e) => {
+            if (!isReadOnly) {
+              e.currentTarget.style.borderBottomColor = "#3a7bd5";
+            }
+          }}
           onBlur={(e) =>
             (e.currentTarget.style.borderBottomColor = "transparent")
           }
@@ -129,52 +141,74 @@ export default function PathListItem({
         >
           {formattedMeasurement}
         </span>
+        {lockedBy && (
+          <span
+            role="img"
+            aria-label={`Locked by ${lockedBy.name}`}
+            title={`${lockedBy.name} is editing this path`}
+            style={{
+              fontSize: 10,
+              lineHeight: 1,
+              border: `1px solid ${presenceColor(lockedBy.profileId)}`,
+              borderRadius: 3,
+              padding: "1px 3px",
+              flexShrink: 0,
+            }}
+          >
+            🔒
+          </span>
+        )}
         <input
           type="color"
           value={path.color}
+          disabled={isReadOnly}
           onChange={(e) => onUpdateColor(e.target.value)}
           style={{
             width: 20,
             height: 20,
             border: "none",
             background: "none",
-            cursor: "pointer",
+            cursor: isReadOnly ? "default" : "pointer",
             padding: 0,
             flexShrink: 0,
           }}
-          title="Change color"
+          title={isReadOnly ? path.color : "Change color"}
         />
-        <button
-          onClick={onToggleHidden}
-          title={isHidden ? "Show path" : "Hide path"}
-          style={{
-            background: "none",
-            border: "none",
-            color: isHidden ? "#444" : "#aaa",
-            cursor: "pointer",
-            fontSize: 12,
-            lineHeight: 1,
-            padding: "0 2px",
-            flexShrink: 0,
-          }}
-        >
-          {isHidden ? "◌" : "●"}
-        </button>
-        <button
-          onClick={onDelete}
-          style={{
-            background: "none",
-            border: "none",
-            color: "#555",
-            cursor: "pointer",
-            fontSize: 18,
-            lineHeight: 1,
-            padding: "0 2px",
-            flexShrink: 0,
-          }}
-        >
-          ×
-        </button>
+        {!isReadOnly && (
+          <>
+            <button
+              onClick={onToggleHidden}
+              title={isHidden ? "Show path" : "Hide path"}
+              style={{
+                background: "none",
+                border: "none",
+                color: isHidden ? "#444" : "#aaa",
+                cursor: "pointer",
+                fontSize: 12,
+                lineHeight: 1,
+                padding: "0 2px",
+                flexShrink: 0,
+              }}
+            >
+              {isHidden ? "◌" : "●"}
+            </button>
+            <button
+              onClick={onDelete}
+              style={{
+                background: "none",
+                border: "none",
+                color: "#555",
+                cursor: "pointer",
+                fontSize: 18,
+                lineHeight: 1,
+                padding: "0 2px",
+                flexShrink: 0,
+              }}
+            >
+              ×
+            </button>
+          </>
+        )}
       </div>
 
       {/* Width row */}
@@ -193,6 +227,7 @@ export default function PathListItem({
           min={1}
           max={20}
           value={path.width}
+          disabled={isReadOnly}
           onChange={(e) => onUpdateWidth(Number(e.target.value))}
           style={{ flex: 1, accentColor: path.color }}
         />
@@ -247,6 +282,7 @@ export default function PathListItem({
               <input
                 type="text"
                 value={node.name}
+                readOnly={isReadOnly}
                 onChange={(e) => onUpdateNodeName(node.id, e.target.value)}
                 style={{
                   ...ghostInputStyle,
@@ -255,9 +291,11 @@ export default function PathListItem({
                   width: 80,
                   flexShrink: 0,
                 }}
-                onFocus={(e) =>
-                  (e.currentTarget.style.borderBottomColor = "#3a7bd5")
-                }
+                onFocus={(e) => {
+                  if (!isReadOnly) {
+                    e.currentTarget.style.borderBottomColor = "#3a7bd5";
+                  }
+                }}
                 onBlur={(e) =>
                   (e.currentTarget.style.borderBottomColor = "transparent")
                 }
@@ -267,6 +305,7 @@ export default function PathListItem({
                 type="number"
                 value={node.z}
                 step={1}
+                readOnly={isReadOnly}
                 onChange={(e) =>
                   onUpdateNodeZ(node.id, parseFloat(e.target.value) || 0)
                 }
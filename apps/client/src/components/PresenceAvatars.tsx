@@ -0,0 +1,67 @@
+"use client";
+
+import type { ApiPresence } from "@/lib/api-types";
+import { initials, presenceColor } from "@/lib/presence";
+
+interface PresenceAvatarsProps {
+  // Other tabs with the project open; a user with several shows once
+  users: ApiPresence[];
+}
+
+const MAX_AVATARS = 5;
+const AVATAR_SIZE = 28;
+
+/** Avatars of the people who have the project open right now. */
+export default function PresenceAvatars({ users }: PresenceAvatarsProps) {
+  const people = [...new Map(users.map((u) => [u.profileId, u])).values()];
+  if (people.length === 0) return null;
+  const shown = people.slice(0, MAX_AVATARS);
+  const hidden = people.slice(MAX_AVATARS);
+
+  return (
+    <div
+      aria-label="Also in this project"
+      style={{ display: "flex", alignItems: "center", paddingLeft: 4 }}
+    >
+      {shown.map((user, i) => (
+        <div
+          key={user.profileId}
+          title={user.name}
+          style={{
+            width: AVATAR_SIZE,
+            height: AVATAR_SIZE,
+            marginLeft: i === 0 ? 0 : -6,
+            borderRadius: "50%",
+            border: `2px solid ${presenceColor(user.profileId)}`,
+            background: user.avatarUrl
+              ? `center / cover url(${JSON.stringify(user.avatarUrl)})`
+              : "#1a1f2e",
+            boxShadow: "0 2px 8px rgba(0,0,0,0.5)",
+            color: "#ddd",
+            fontSize: 11,
+            fontWeight: 600,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            flexShrink: 0,
+          }}
+        >
+          {!user.avatarUrl && initials(user.name)}
+        </div>
+      ))}
+      {hidden.length > 0 && (
+        <div
+          title={hidden.map((u) => u.name).join(", ")}
+          style={{
+            marginLeft: 6,
+            color: "#aaa",
+            fontSize: 11,
+            fontWeight: 600,
+          }}
+        >
+          +{hidden.length}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,46 @@
 "use client";
 
 import { useState } from "react";
-import type { Project } from "@/hooks/useProjects";
+import type { Project, ProjectExportFormat } from "@/hooks/useProjects";
+import type {
+  ApiDeletedProject,
+  ApiPresence,
+  ApiProjectRole,
+  ApiShareLink,
+} from "@/lib/api-types";
+import { errorMessage } from "@/lib/api";
 import Popover from "@/components/ui/disclosure/Popover";
+import { DXF_CRS_OPTIONS } from "@/constants";
 import { Icon, IconButton } from "./ui";
+import PublicLinksSection, {
+  type IPublicLinkOptions,
+} from "./PublicLinksSection";
+import PresenceAvatars from "./PresenceAvatars";
+import { randomUuid } from "@/lib/random-uuid";
+
+const EXPORT_FORMATS: { format: ProjectExportFormat; label: string }[] = [
+  { format: "geojson", label: "GeoJSON (.geojson)" },
+  { format: "kml", label: "Google Earth (.kml)" },
+  { format: "kmz", label: "Google Earth, zipped (.kmz)" },
+  { format: "dxf", label: "CAD drawing (.dxf)" },
+];
+
+const INVITE_ROLES: { role: ApiProjectRole; label: string }[] = [
+  { role: "viewer", label: "Can view" },
+  { role: "editor", label: "Can edit" },
+  { role: "owner", label: "Owner" },
+];
 
 interface IEmailRecipient {
   id: string;
   email: string;
 }
 
+interface IInviteNotice {
+  text: string;
+  isError: boolean;
+}
+
 interface IProjectBarProps {
   projects: Project[];
   activeProject: Project | null;
@@ -17,8 +48,31 @@ interface IProjectBarProps {
   onCreateProject: (name: string) => void;
   onRenameProject: (id: string, name: string) => void;
   onDeleteProject: (id: string) => void;
+  onExportProject: (
+    id: string,
+    format: ProjectExportFormat,
+    crs?: string,
+  ) => void;
+  onImportProject: (id: string) => void;
+  onOpenClearanceRules: () => void;
   onGetShareViewStateLink: () => string | null;
   onCopyShareViewState: () => Promise<boolean>;
+  onInviteToProject: (
+    id: string,
+    emails: string[],
+    role: ApiProjectRole,
+  ) => Promise<void>;
+  publicLinks: ApiShareLink[];
+  onCreatePublicLink: (
+    id: string,
+    options: IPublicLinkOptions,
+  ) => Promise<string | null>;
+  onRevokePublicLink: (linkId: string) => void;
+  // Only owners may restore; the others are listed for reference
+  deletedProjects: ApiDeletedProject[];
+  onRestoreProject: (id: string) => Promise<unknown>;
+  // Others with the active project open
+  presentUsers: ApiPresence[];
 }
 
 export default function ProjectBar({
@@ -28,8 +82,18 @@ export default function ProjectBar({
   onCreateProject,
   onRenameProject,
   onDeleteProject,
+  onExportProject,
+  onImportProject,
+  onOpenClearanceRules,
   onGetShareViewStateLink,
   onCopyShareViewState,
+  onInviteToProject,
+  publicLinks,
+  onCreatePublicLink,
+  onRevokePublicLink,
+  deletedProjects,
+  onRestoreProject,
+  presentUsers,
 }: IProjectBarProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [newProjectName, setNewProjectName] = useState("");
@@ -38,7 +102,13 @@ export default function ProjectBar({
   const [isSharePopoverOpen, setIsSharePopoverOpen] = useState(false);
   const [emailInput, setEmailInput] = useState("");
   const [emailRecipients, setEmailRecipients] = useState<IEmailRecipient[]>([]);
+  const [inviteRole, setInviteRole] = useState<ApiProjectRole>("viewer");
+  const [isSendingInvites, setIsSendingInvites] = useState(false);
+  const [inviteNotice, setInviteNotice] = useState<IInviteNotice | null>(null);
   const [isCopied, setIsCopied] = useState(false);
+  const [isExportPopoverOpen, setIsExportPopoverOpen] = useState(false);
+  const [dxfCrs, setDxfCrs] = useState("");
+  const [restoreError, setRestoreError] = useState<string | null>(null);
 
   function handleCreate() {
     const name = newProjectName.trim();
@@ -60,6 +130,15 @@ export default function ProjectBar({
     setRenamingId(null);
   }
 
+  async function handleRestore(id: string) {
+    setRestoreError(null);
+    try {
+      await onRestoreProject(id);
+    } catch (err) {
+      setRestoreError(errorMessage(err, "Could not restore the project"));
+    }
+  }
+
   function addEmailRecipient() {
     const trimmed = emailInput.trim();
     if (!trimmed || !trimmed.includes("@")) return;
@@ -67,7 +146,7 @@ export default function ProjectBar({
       return;
     setEmailRecipients((prev) => [
       ...prev,
-      { id: crypto.randomUUID(), email: trimmed },
+      { id: randomUuid(), email: trimmed },
     ]);
     setEmailInput("");
   }
@@ -78,6 +157,34 @@ export default function ProjectBar({
     );
   }
 
+  // Only owners may invite; the server enforces the same rule
+  const canInvite = activeProject?.role === "owner";
+
+  async function handleSendInvites() {
+    if (!activeProject || emailRecipients.length === 0) return;
+    setIsSendingInvites(true);
+    setInviteNotice(null);
+    try {
+      await onInviteToProject(
+        activeProject.id,
+        emailRecipients.map((recipient) => recipient.email),
+        inviteRole,
+      );
+      setInviteNotice({
+        text: `Sent ${emailRecipients.length} invitation${emailRecipients.length === 1 ? "" : "s"}`,
+        isError: false,
+      });
+      setEmailRecipients([]);
+    } catch (err) {
+      setInviteNotice({
+        text: errorMessage(err, "Could not send invitations"),
+        isError: true,
+      });
+    } finally {
+      setIsSendingInvites(false);
+    }
+  }
+
   async function handleCopyShareLink() {
     const copied = await onCopyShareViewState();
     if (!copied) return;
@@ -135,6 +242,132 @@ export default function ProjectBar({
           </span>
         </button>
 
+        {activeProject && activeProject.role !== "viewer" && (
+          <IconButton
+            onClick={() => onImportProject(activeProject.id)}
+            icon={<Icon icon="upload" />}
+            aria-label="Import file into project"
+            title="Import GeoJSON, KML or KMZ"
+            style={{
+              ...panelStyle,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              width: 38,
+              height: 38,
+              padding: 0,
+              cursor: "pointer",
+              color: "#ddd",
+            }}
+          />
+        )}
+
+        {activeProject?.organizationId && (
+          <IconButton
+            onClick={onOpenClearanceRules}
+            icon={<Icon icon="settings" />}
+            aria-label="Clearance rules"
+            title="Organization clearance and cover rules"
+            style={{
+              ...panelStyle,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              width: 38,
+              height: 38,
+              padding: 0,
+              cursor: "pointer",
+              color: "#ddd",
+            }}
+          />
+        )}
+
+        {activeProject && (
+          <Popover
+            isOpen={isExportPopoverOpen}
+            onClose={() => setIsExportPopoverOpen(false)}
+            width={220}
+            trigger={
+              <IconButton
+                onClick={() => setIsExportPopoverOpen((prev) => !prev)}
+                icon={<Icon icon="download" />}
+                aria-label="Export project"
+                title="Export project"
+                style={{
+                  ...panelStyle,
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  width: 38,
+                  height: 38,
+                  padding: 0,
+                  cursor: "pointer",
+                  color: "#ddd",
+                }}
+              />
+            }
+          >
+            <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+              <div style={{ color: "#fff", fontSize: 13, fontWeight: 600 }}>
+                Export project
+              </div>
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <button
+                  key={format}
+                  onClick={() => {
+                    onExportProject(
+                      activeProject.id,
+                      format,
+                      format === "dxf" ? dxfCrs || undefined : undefined,
+                    );
+                    setIsExportPopoverOpen(false);
+                  }}
+                  style={{
+                    background: "none",
+                    border: "none",
+                    borderRadius: 4,
+                    color: "#ddd",
+                    cursor: "pointer",
+                    fontSize: 12,
+                    padding: "6px 8px",
+                    textAlign: "left",
+                  }}
+                  onMouseEnter={(e) =>
+                    (e.currentTarget.style.background =
+                      "rgba(255,255,255,0.08)")
+                  }
+                  onMouseLeave={(e) =>
+                    (e.currentTarget.style.background = "none")
+                  }
+                >
+                  {label}
+                </button>
+              ))}
+              <select
+                value={dxfCrs}
+                onChange={(e) => setDxfCrs(e.target.value)}
+                aria-label="DXF coordinate system"
+                style={{
+                  background: "rgba(255,255,255,0.07)",
+                  border: "1px solid #2a2e3d",
+                  borderRadius: 5,
+                  color: "#ddd",
+                  fontSize: 11,
+                  padding: "5px 6px",
+                  outline: "none",
+                  fontFamily: "system-ui, -apple-system, sans-serif",
+                }}
+              >
+                {DXF_CRS_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    DXF in {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </Popover>
+        )}
+
         <Popover
           isOpen={isSharePopoverOpen}
           onClose={() => setIsSharePopoverOpen(false)}
@@ -162,48 +395,50 @@ export default function ProjectBar({
               Share current view
             </div>
 
-            <div style={{ display: "flex", gap: 6 }}>
-              <input
-                type="email"
-                value={emailInput}
-                onChange={(e) => setEmailInput(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === "Enter") {
-                    e.preventDefault();
-                    addEmailRecipient();
-                  }
-                }}
-                placeholder="Add email address"
-                style={{
-                  flex: 1,
-                  background: "rgba(255,255,255,0.07)",
-                  border: "1px solid #2a2e3d",
-                  borderRadius: 5,
-                  color: "#ddd",
-                  fontSize: 12,
-                  padding: "6px 8px",
-                  outline: "none",
-                  fontFamily: "system-ui, -apple-system, sans-serif",
-                }}
-              />
-              <button
-                onClick={addEmailRecipient}
-                style={{
-                  background: "#1e5fa8",
-                  border: "none",
-                  borderRadius: 5,
-                  color: "#fff",
-                  cursor: "pointer",
-                  fontSize: 12,
-                  fontWeight: 600,
-                  padding: "0 10px",
-                }}
-              >
-                Add
-              </button>
-            </div>
+            {canInvite && (
+              <div style={{ display: "flex", gap: 6 }}>
+                <input
+                  type="email"
+                  value={emailInput}
+                  onChange={(e) => setEmailInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addEmailRecipient();
+                    }
+                  }}
+                  placeholder="Add email address"
+                  style={{
+                    flex: 1,
+                    background: "rgba(255,255,255,0.07)",
+                    border: "1px solid #2a2e3d",
+                    borderRadius: 5,
+                    color: "#ddd",
+                    fontSize: 12,
+                    padding: "6px 8px",
+                    outline: "none",
+                    fontFamily: "system-ui, -apple-system, sans-serif",
+                  }}
+                />
+                <button
+                  onClick={addEmailRecipient}
+                  style={{
+                    background: "#1e5fa8",
+                    border: "none",
+                    borderRadius: 5,
+                    color: "#fff",
+                    cursor: "pointer",
+                    fontSize: 12,
+                    fontWeight: 600,
+                    padding: "0 10px",
+                  }}
+                >
+                  Add
+                </button>
+              </div>
+            )}
 
-            {emailRecipients.length > 0 && (
+            {canInvite && emailRecipients.length > 0 && (
               <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
                 {emailRecipients.map((recipient) => (
                   <span
@@ -257,29 +492,75 @@ export default function ProjectBar({
               }}
             />
 
+            {inviteNotice && (
+              <div
+                role={inviteNotice.isError ? "alert" : "status"}
+                style={{
+                  color: inviteNotice.isError ? "#f87171" : "#9ea8b8",
+                  fontSize: 11,
+                }}
+              >
+                {inviteNotice.text}
+              </div>
+            )}
+
             <div
               style={{
                 display: "flex",
-                justifyContent: "space-between",
+                justifyContent: canInvite ? "space-between" : "flex-end",
                 gap: 8,
               }}
             >
-              <button
-                disabled
-                style={{
-                  background: "rgba(58,123,213,0.45)",
-                  border: "none",
-                  borderRadius: 5,
-                  color: "#fff",
-                  cursor: "not-allowed",
-                  fontSize: 12,
-                  fontWeight: 600,
-                  padding: "6px 10px",
-                  opacity: 0.7,
-                }}
-              >
-                Email link (UI only)
-              </button>
+              {canInvite && (
+                <div style={{ display: "flex", gap: 6 }}>
+                  <select
+                    value={inviteRole}
+                    onChange={(e) =>
+                      setInviteRole(e.target.value as ApiProjectRole)
+                    }
+                    aria-label="Invitation role"
+                    style={{
+                      background: "rgba(255,255,255,0.07)",
+                      border: "1px solid #2a2e3d",
+                      borderRadius: 5,
+                      color: "#ddd",
+                      fontSize: 11,
+                      padding: "5px 6px",
+                      outline: "none",
+                      fontFamily: "system-ui, -apple-system, sans-serif",
+                    }}
+                  >
+                    {INVITE_ROLES.map(({ role, label }) => (
+                      <option key={role} value={role}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleSendInvites}
+                    disabled={isSendingInvites || emailRecipients.length === 0}
+                    style={{
+                      background: "#1e5fa8",
+                      border: "none",
+                      borderRadius: 5,
+                      color: "#fff",
+                      cursor:
+                        isSendingInvites || emailRecipients.length === 0
+                          ? "not-allowed"
+                          : "pointer",
+                      fontSize: 12,
+                      fontWeight: 600,
+                      padding: "6px 10px",
+                      opacity:
+                        isSendingInvites || emailRecipients.length === 0
+                          ? 0.5
+                          : 1,
+                    }}
+                  >
+                    {isSendingInvites ? "Sending…" : "Email invite"}
+                  </button>
+                </div>
+              )}
               <button
                 onClick={handleCopyShareLink}
                 style={{
@@ -296,8 +577,19 @@ export default function ProjectBar({
                 {isCopied ? "Copied" : "Copy link"}
               </button>
             </div>
+
+            {canInvite && activeProject && (
+              <PublicLinksSection
+                projectId={activeProject.id}
+                links={publicLinks}
+                onCreate={onCreatePublicLink}
+                onRevoke={onRevokePublicLink}
+              />
+            )}
           </div>
         </Popover>
+
+        <PresenceAvatars users={presentUsers} />
       </div>
 
       {isOpen && (
@@ -387,45 +679,110 @@ export default function ProjectBar({
                   </span>
                 )}
 
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    startRename(project);
-                  }}
-                  title="Rename project"
-                  style={{
-                    background: "none",
-                    border: "none",
-                    color: "#555",
-                    cursor: "pointer",
-                    fontSize: 11,
-                    padding: "2px 4px",
-                    lineHeight: 1,
-                  }}
-                >
-                  ✎
-                </button>
+                {project.role === "owner" && (
+                  <>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startRename(project);
+                      }}
+                      title="Rename project"
+                      style={{
+                        background: "none",
+                        border: "none",
+                        color: "#555",
+                        cursor: "pointer",
+                        fontSize: 11,
+                        padding: "2px 4px",
+                        lineHeight: 1,
+                      }}
+                    >
+                      ✎
+                    </button>
 
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onDeleteProject(project.id);
-                  }}
-                  title="Delete project"
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDeleteProject(project.id);
+                      }}
+                      title="Delete project"
+                      style={{
+                        background: "none",
+                        border: "none",
+                        color: "#555",
+                        cursor: "pointer",
+                        fontSize: 16,
+                        padding: "0 3px",
+                        lineHeight: 1,
+                      }}
+                    >
+                      ×
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+
+            {deletedProjects.length > 0 && (
+              <div style={{ borderTop: "1px solid #1e2230", padding: "6px 0" }}>
+                <div
                   style={{
-                    background: "none",
-                    border: "none",
+                    padding: "2px 12px 4px",
                     color: "#555",
-                    cursor: "pointer",
-                    fontSize: 16,
-                    padding: "0 3px",
-                    lineHeight: 1,
+                    fontSize: 10,
+                    fontWeight: 600,
+                    textTransform: "uppercase",
+                    letterSpacing: 0.5,
                   }}
                 >
-                  ×
-                </button>
+                  Recently deleted
+                </div>
+                {deletedProjects.map((project) => (
+                  <div
+                    key={project.id}
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: 6,
+                      padding: "4px 12px",
+                    }}
+                  >
+                    <span style={{ flex: 1, fontSize: 12, color: "#777" }}>
+                      {project.name}
+                    </span>
+                    {project.role === "owner" && (
+                      <button
+                        onClick={() => handleRestore(project.id)}
+                        title="Restore project"
+                        style={{
+                          background: "none",
+                          border: "1px solid #2a2e3d",
+                          borderRadius: 4,
+                          color: "#aaa",
+                          cursor: "pointer",
+                          fontSize: 11,
+                          padding: "1px 6px",
+                        }}
+                      >
+                        Restore
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {restoreError && (
+                  <div
+                    role="alert"
+                    style={{
+                      color: "#f87171",
+                      fontSize: 11,
+                      padding: "2px 12px",
+                    }}
+                  >
+                    {restoreError}
+                  </div>
+                )}
               </div>
-            ))}
+            )}
 
             {/* New project row */}
             <div
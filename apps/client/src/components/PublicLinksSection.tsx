@@ -0,0 +1,215 @@
+"use client";
+
+import { useState } from "react";
+import type { ApiShareLink } from "@/lib/api-types";
+import { errorMessage } from "@/lib/api";
+
+const LIFETIMES: { hours: number; label: string }[] = [
+  { hours: 24, label: "1 day" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "1 week" },
+  { hours: 720, label: "30 days" },
+];
+
+export interface IPublicLinkOptions {
+  expiresInHours: number;
+  isVisibleLayersOnly: boolean;
+}
+
+interface IPublicLinksSectionProps {
+  projectId: string;
+  links: ApiShareLink[];
+  // Resolves to the URL to hand out
+  onCreate: (
+    projectId: string,
+    options: IPublicLinkOptions,
+  ) => Promise<string | null>;
+  onRevoke: (linkId: string) => void;
+}
+
+const fieldStyle: React.CSSProperties = {
+  background: "rgba(255,255,255,0.07)",
+  border: "1px solid #2a2e3d",
+  borderRadius: 5,
+  color: "#ddd",
+  fontSize: 11,
+  padding: "5px 6px",
+  outline: "none",
+  fontFamily: "system-ui, -apple-system, sans-serif",
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  color: "#888",
+  cursor: "pointer",
+  fontSize: 11,
+  padding: 0,
+};
+
+/**
+ * Owner controls in the share popover for links that open the project
+ * read-only without an account, e.g. for a utility company's records desk.
+ */
+export default function PublicLinksSection({
+  projectId,
+  links,
+  onCreate,
+  onRevoke,
+}: IPublicLinksSectionProps) {
+  const [expiresInHours, setExpiresInHours] = useState(72);
+  const [isVisibleLayersOnly, setIsVisibleLayersOnly] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+
+  async function handleCreate() {
+    setIsCreating(true);
+    setError(null);
+    try {
+      setCreatedUrl(
+        await onCreate(projectId, { expiresInHours, isVisibleLayersOnly }),
+      );
+    } catch (err) {
+      setError(errorMessage(err, "Could not create link"));
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  async function handleCopy() {
+    if (!createdUrl) return;
+    try {
+      await navigator.clipboard.writeText(createdUrl);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 1200);
+    } catch {
+      // Clipboard denied; the URL stays selectable in the field
+    }
+  }
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+        paddingTop: 10,
+        borderTop: "1px solid #1e2230",
+      }}
+    >
+      <div style={{ color: "#fff", fontSize: 12, fontWeight: 600 }}>
+        Public read-only link
+      </div>
+
+      <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+        <select
+          value={expiresInHours}
+          onChange={(e) => setExpiresInHours(Number(e.target.value))}
+          aria-label="Link lifetime"
+          style={fieldStyle}
+        >
+          {LIFETIMES.map(({ hours, label }) => (
+            <option key={hours} value={hours}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 4,
+            color: "#9ea8b8",
+            fontSize: 11,
+            flex: 1,
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={isVisibleLayersOnly}
+            onChange={(e) => setIsVisibleLayersOnly(e.target.checked)}
+          />
+          Visible layers only
+        </label>
+        <button
+          onClick={handleCreate}
+          disabled={isCreating}
+          style={{
+            background: "#1e5fa8",
+            border: "none",
+            borderRadius: 5,
+            color: "#fff",
+            cursor: isCreating ? "not-allowed" : "pointer",
+            fontSize: 12,
+            fontWeight: 600,
+            padding: "5px 10px",
+            opacity: isCreating ? 0.5 : 1,
+          }}
+        >
+          Create
+        </button>
+      </div>
+
+      {error && (
+        <div role="alert" style={{ color: "#f87171", fontSize: 11 }}>
+          {error}
+        </div>
+      )}
+
+      {createdUrl && (
+        <div style={{ display: "flex", gap: 6 }}>
+          <input
+            readOnly
+            value={createdUrl}
+            onFocus={(e) => e.currentTarget.select()}
+            style={{
+              ...fieldStyle,
+              flex: 1,
+              color: "#9ea8b8",
+              fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+            }}
+          />
+          <button
+            onClick={handleCopy}
+            style={{ ...smallButtonStyle, color: "#3a7bd5" }}
+          >
+            {isCopied ? "Copied" : "Copy"}
+          </button>
+        </div>
+      )}
+
+      {links.length > 0 && (
+        <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+          {links.map((link) => (
+            <div
+              key={link.id}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                gap: 8,
+                color: "#9ea8b8",
+                fontSize: 11,
+              }}
+            >
+              <span>
+                {link.layerIds
+                  ? `${link.layerIds.length} layer${link.layerIds.length === 1 ? "" : "s"}`
+                  : "All layers"}{" "}
+                · until {new Date(link.expiresAt).toLocaleDateString()}
+              </span>
+              <button
+                onClick={() => onRevoke(link.id)}
+                aria-label="Revoke link"
+                style={smallButtonStyle}
+              >
+                Revoke
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
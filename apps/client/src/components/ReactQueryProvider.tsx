@@ -1,14 +1,43 @@
 "use client";
 
+import { useEffect } from "react";
+import { useAuth } from "react-oidc-context";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { ReactQueryDevtools } from "@tanstack/react-query-devtools";
 import { queryClient } from "@/lib/query-client";
+import { clearOfflineRecords, setOfflineUser } from "@/lib/offline-store";
+import { persistQueryCache, restoreQueryCache } from "@/lib/query-persistence";
+import { startWriteQueue } from "@/lib/write-queue";
 
 export default function ReactQueryProvider({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const auth = useAuth();
+  const userId = auth.user?.profile.sub;
+
+  // Offline-first: the last cache shows at once, and writes made without a
+  // connection are sent when it returns. Both are the signed-in user's own;
+  // share-link visitors have neither
+  useEffect(() => {
+    if (!userId) return;
+    setOfflineUser(userId);
+    restoreQueryCache(queryClient);
+    startWriteQueue({ onSynced: () => queryClient.invalidateQueries() });
+    return persistQueryCache(queryClient);
+  }, [userId]);
+
+  // Signing out leaves nothing of the user's data in the browser
+  useEffect(
+    () =>
+      auth.events.addUserUnloaded(() => {
+        clearOfflineRecords().catch(() => {});
+        queryClient.clear();
+      }),
+    [auth.events],
+  );
+
   return (
     <QueryClientProvider client={queryClient}>
       {children}
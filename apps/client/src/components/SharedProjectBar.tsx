@@ -0,0 +1,49 @@
+"use client";
+
+import { useSharedProject } from "@/hooks/useShareLinks";
+import { errorMessage } from "@/lib/api";
+
+/** Stands in for ProjectBar on a public share link: name and expiry only. */
+export default function SharedProjectBar() {
+  const { sharedProject, error } = useSharedProject();
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        top: 16,
+        left: "50%",
+        transform: "translateX(-50%)",
+        zIndex: 20,
+        display: "flex",
+        alignItems: "center",
+        gap: 8,
+        padding: "8px 14px",
+        background: "rgba(10, 14, 22, 0.88)",
+        backdropFilter: "blur(10px)",
+        boxShadow: "0 4px 24px rgba(0,0,0,0.6)",
+        border: "1px solid rgba(255,255,255,0.12)",
+        borderRadius: 8,
+        color: "#fff",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: 13,
+        userSelect: "none",
+      }}
+    >
+      <span style={{ color: "#3a7bd5", fontSize: 14 }}>◈</span>
+      <span style={{ fontWeight: 600 }}>
+        {sharedProject
+          ? sharedProject.name
+          : error
+            ? errorMessage(error, "Could not open the shared project")
+            : "Loading shared project…"}
+      </span>
+      {sharedProject && (
+        <span style={{ color: "#888", fontSize: 11 }}>
+          Read-only · link expires{" "}
+          {new Date(sharedProject.expiresAt).toLocaleString()}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import type { SyncStatus } from "@/lib/write-queue";
+
+interface SyncPanelProps {
+  status: SyncStatus;
+  // Sits beside whichever panels are open to its left
+  left: number;
+  onDismiss: (writeId?: string) => void;
+}
+
+const rowStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "flex-start",
+  gap: 6,
+  padding: "4px 6px",
+  borderRadius: 5,
+  background: "rgba(255,255,255,0.02)",
+};
+
+const dismissButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: "1px solid #2a2e3d",
+  borderRadius: 4,
+  color: "#aaa",
+  cursor: "pointer",
+  fontSize: 11,
+  padding: "1px 6px",
+  flexShrink: 0,
+};
+
+function describeStatus({ state, pending }: SyncStatus) {
+  const changes = `${pending} change${pending === 1 ? "" : "s"}`;
+  if (state === "offline") {
+    return pending > 0
+      ? `Offline; ${changes} will be sent when the connection returns`
+      : "Offline; changes will be sent when the connection returns";
+  }
+  if (state === "syncing") return `Sending ${changes}…`;
+  return "All changes saved";
+}
+
+function formatRejectedAt(rejectedAt: string) {
+  return new Date(rejectedAt).toLocaleTimeString(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Where this tab's writes stand, and the ones made offline that the server
+ * refused once they were sent, typically because someone else changed or
+ * deleted the record in the meantime.
+ */
+export default function SyncPanel({ status, left, onDismiss }: SyncPanelProps) {
+  const { rejected } = status;
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        bottom: 52,
+        left,
+        width: 260,
+        maxHeight: 360,
+        overflowY: "auto",
+        background: "rgba(10, 14, 22, 0.88)",
+        borderRadius: 10,
+        padding: "14px 14px",
+        color: "#fff",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: 13,
+        boxShadow: "0 4px 24px rgba(0,0,0,0.6)",
+        backdropFilter: "blur(10px)",
+        zIndex: 10,
+        userSelect: "none",
+      }}
+    >
+      <div style={{ fontWeight: 600, fontSize: 14, marginBottom: 4 }}>Sync</div>
+      <div style={{ color: "#555", fontSize: 11 }}>
+        {describeStatus(status)}
+      </div>
+
+      {rejected.length > 0 && (
+        <>
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              margin: "10px 0 4px",
+            }}
+          >
+            <span
+              style={{
+                color: "#666",
+                fontSize: 10,
+                fontWeight: 600,
+                textTransform: "uppercase",
+                letterSpacing: 0.5,
+              }}
+            >
+              Not saved
+            </span>
+            <button
+              onClick={() => onDismiss()}
+              style={{ ...dismissButtonStyle, border: "none", padding: 0 }}
+            >
+              Dismiss all
+            </button>
+          </div>
+          <div style={{ display: "flex", flexDirection: "column", gap: 3 }}>
+            {rejected.map(({ write, status: code, message, rejectedAt }) => (
+              <div key={write.id} style={rowStyle}>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ color: "#ddd", fontSize: 12 }}>
+                    {write.label}
+                    <span style={{ color: "#444", fontSize: 10 }}>
+                      {" "}
+                      · {formatRejectedAt(rejectedAt)}
+                    </span>
+                  </div>
+                  <div
+                    style={{
+                      color: code === 409 ? "#e0a040" : "#e05050",
+                      fontSize: 11,
+                    }}
+                  >
+                    {message}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onDismiss(write.id)}
+                  style={dismissButtonStyle}
+                >
+                  Dismiss
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useState } from "react";
+import type { ApiTrash } from "@/lib/api-types";
+import type { TrashEntity } from "@/hooks/useTrash";
+import { errorMessage } from "@/lib/api";
+
+interface TrashPanelProps {
+  trash: ApiTrash;
+  // Sits beside the layers panel when that is open
+  left: number;
+  onRestore: (entity: TrashEntity, id: string) => Promise<unknown>;
+}
+
+// Matches the server's default TRASH_RETENTION_DAYS
+const RETENTION_DAYS = 30;
+
+const sectionTitleStyle: React.CSSProperties = {
+  color: "#666",
+  fontSize: 10,
+  fontWeight: 600,
+  textTransform: "uppercase",
+  letterSpacing: 0.5,
+  margin: "8px 0 4px",
+};
+
+const rowStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: 6,
+  padding: "4px 6px",
+  borderRadius: 5,
+  background: "rgba(255,255,255,0.02)",
+};
+
+const restoreButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: "1px solid #2a2e3d",
+  borderRadius: 4,
+  color: "#aaa",
+  cursor: "pointer",
+  fontSize: 11,
+  padding: "1px 6px",
+  flexShrink: 0,
+};
+
+function formatDeletedAt(deletedAt: string) {
+  return new Date(deletedAt).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export default function TrashPanel({
+  trash,
+  left,
+  onRestore,
+}: TrashPanelProps) {
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isEmpty = trash.layers.length === 0 && trash.paths.length === 0;
+
+  async function handleRestore(entity: TrashEntity, id: string) {
+    setRestoringId(id);
+    setError(null);
+    try {
+      await onRestore(entity, id);
+    } catch (err) {
+      setError(errorMessage(err, "Could not restore"));
+    } finally {
+      setRestoringId(null);
+    }
+  }
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        bottom: 52,
+        left,
+        width: 240,
+        maxHeight: 360,
+        overflowY: "auto",
+        background: "rgba(10, 14, 22, 0.88)",
+        borderRadius: 10,
+        padding: "14px 14px",
+        color: "#fff",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: 13,
+        boxShadow: "0 4px 24px rgba(0,0,0,0.6)",
+        backdropFilter: "blur(10px)",
+        zIndex: 10,
+        userSelect: "none",
+      }}
+    >
+      <div style={{ fontWeight: 600, fontSize: 14, marginBottom: 4 }}>
+        Trash
+      </div>
+      <div style={{ color: "#555", fontSize: 11 }}>
+        Deleted items are removed for good after {RETENTION_DAYS} days
+      </div>
+
+      {isEmpty && (
+        <div style={{ color: "#555", fontSize: 12, marginTop: 10 }}>
+          Nothing in the trash
+        </div>
+      )}
+
+      {trash.layers.length > 0 && (
+        <>
+          <div style={sectionTitleStyle}>Layers</div>
+          <div style={{ display: "flex", flexDirection: "column", gap: 3 }}>
+            {trash.layers.map((layer) => (
+              <div key={layer.id} style={rowStyle}>
+                <span
+                  style={{ flex: 1, color: "#ddd", fontSize: 12, minWidth: 0 }}
+                >
+                  {layer.name}
+                </span>
+                <span style={{ color: "#444", fontSize: 10, flexShrink: 0 }}>
+                  {formatDeletedAt(layer.deletedAt)}
+                </span>
+                <button
+                  onClick={() => handleRestore("layers", layer.id)}
+                  disabled={restoringId === layer.id}
+                  style={restoreButtonStyle}
+                >
+                  Restore
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {trash.paths.length > 0 && (
+        <>
+          <div style={sectionTitleStyle}>Paths</div>
+          <div style={{ display: "flex", flexDirection: "column", gap: 3 }}>
+            {trash.paths.map((path) => (
+              <div key={path.id} style={rowStyle}>
+                <span
+                  style={{
+                    width: 8,
+                    height: 8,
+                    borderRadius: "50%",
+                    background: path.color,
+                    flexShrink: 0,
+                  }}
+                />
+                <span
+                  title={`Layer: ${path.layerName}`}
+                  style={{ flex: 1, color: "#ddd", fontSize: 12, minWidth: 0 }}
+                >
+                  {path.name}
+                </span>
+                <span style={{ color: "#444", fontSize: 10, flexShrink: 0 }}>
+                  {formatDeletedAt(path.deletedAt)}
+                </span>
+                <button
+                  onClick={() => handleRestore("paths", path.id)}
+                  disabled={path.isLayerDeleted || restoringId === path.id}
+                  title={
+                    path.isLayerDeleted
+                      ? `Restore layer "${path.layerName}" first`
+                      : undefined
+                  }
+                  style={{
+                    ...restoreButtonStyle,
+                    ...(path.isLayerDeleted && {
+                      color: "#444",
+                      cursor: "not-allowed",
+                    }),
+                  }}
+                >
+                  Restore
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {error && (
+        <div
+          role="alert"
+          style={{ color: "#f87171", fontSize: 11, marginTop: 8 }}
+        >
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
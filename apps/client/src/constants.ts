@@ -36,3 +36,18 @@ export const UTILITY_PRESETS = [
     desc: "Temporary survey markings",
   },
 ] as const;
+
+// Coordinate systems offered for DXF export. An empty value lets the server
+// pick the project's WGS84 UTM zone.
+export const DXF_CRS_OPTIONS: { value: string; label: string }[] = [
+  { value: "", label: "Auto (UTM zone, WGS84)" },
+  ...Array.from({ length: 16 }, (_, i) => ({
+    value: `EPSG:${26907 + i}`,
+    label: `UTM zone ${7 + i}N (NAD83)`,
+  })),
+  ...Array.from({ length: 17 }, (_, i) => ({
+    value: `EPSG:${32181 + i}`,
+    label: `MTM zone ${1 + i} (NAD83)`,
+  })),
+  { value: "EPSG:4326", label: "Longitude / latitude (WGS84)" },
+];
@@ -0,0 +1,109 @@
+"use client";
+
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/query-client";
+import { queryKeys } from "@/lib/query-keys";
+import type { ApiClearanceRule } from "@/lib/api-types";
+import api from "@/lib/api";
+
+export type ClearanceRuleValues = {
+  horizontalClearanceM: number;
+  verticalClearanceM: number;
+  minCoverM?: number;
+};
+
+export type NewClearanceRule = ClearanceRuleValues & {
+  utilityA: string;
+  utilityB: string;
+};
+
+/**
+ * The organization's clearance rules. The server seeds the default table the
+ * first time an organization is read; every change refetches conflicts.
+ */
+export function useClearanceRules(organizationId: string | null) {
+  const key = queryKeys.clearanceRules(organizationId ?? "");
+
+  const { data: rules = [], isLoading } = useQuery<ApiClearanceRule[]>({
+    queryKey: key,
+    queryFn: async () => {
+      const res = await api.get<ApiClearanceRule[]>(
+        `/organizations/${organizationId}/clearance-rules`,
+      );
+      return res.data;
+    },
+    enabled: !!organizationId,
+  });
+
+  function invalidate() {
+    queryClient.invalidateQueries({ queryKey: key });
+    queryClient.invalidateQueries({ queryKey: ["conflicts"] });
+    queryClient.invalidateQueries({ queryKey: ["cover-violations"] });
+  }
+
+  const createRuleMutation = useMutation({
+    mutationFn: (rule: NewClearanceRule) =>
+      api
+        .post<ApiClearanceRule>(
+          `/organizations/${organizationId}/clearance-rules`,
+          rule,
+        )
+        .then((r) => r.data),
+    onSettled: invalidate,
+  });
+
+  const updateRuleMutation = useMutation({
+    mutationFn: ({
+      id,
+      values,
+    }: {
+      id: string;
+      values: Partial<ClearanceRuleValues>;
+    }) =>
+      api
+        .patch<ApiClearanceRule>(
+          `/organizations/${organizationId}/clearance-rules/${id}`,
+          values,
+        )
+        .then((r) => r.data),
+    onMutate: async ({ id, values }) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const snapshot = queryClient.getQueryData<ApiClearanceRule[]>(key);
+      queryClient.setQueryData<ApiClearanceRule[]>(key, (old = []) =>
+        old.map((r) => (r.id === id ? { ...r, ...values } : r)),
+      );
+      return { snapshot };
+    },
+    onError: (_, __, ctx) => {
+      if (ctx?.snapshot) queryClient.setQueryData(key, ctx.snapshot);
+    },
+    onSettled: invalidate,
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: (id: string) =>
+      api.delete(`/organizations/${organizationId}/clearance-rules/${id}`),
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const snapshot = queryClient.getQueryData<ApiClearanceRule[]>(key);
+      queryClient.setQueryData<ApiClearanceRule[]>(key, (old = []) =>
+        old.filter((r) => r.id !== id),
+      );
+      return { snapshot };
+    },
+    onError: (_, __, ctx) => {
+      if (ctx?.snapshot) queryClient.setQueryData(key, ctx.snapshot);
+    },
+    onSettled: invalidate,
+  });
+
+  return {
+    rules,
+    isLoading,
+    createRule: createRuleMutation.mutateAsync,
+    isCreating: createRuleMutation.isPending,
+    updateRule: (id: string, values: Partial<ClearanceRuleValues>) =>
+      updateRuleMutation.mutate({ id, values }),
+    deleteRule: (id: string) => deleteRuleMutation.mutate(id),
+  };
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useMemo } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query-keys";
+import type { ApiConflict, ApiCoverViolation } from "@/lib/api-types";
+import type { DrawnPath } from "@/lib/geometry/types";
+import api from "@/lib/api";
+
+// FNV-1a over every path's nodes, so the query refetches after geometry edits
+// without keeping every coordinate in the query key.
+function geometryKey(paths: DrawnPath[]): string {
+  let hash = 0x811c9dc5;
+  const feed = (value: string) => {
+    for (let i = 0; i < value.length; i += 1) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  };
+  for (const p of paths) {
+    feed(`${p.id}|${p.color}|${p.isClosed}`);
+    for (const n of p.nodes) feed(`${n.coords[0]},${n.coords[1]},${n.z};`);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+/**
+ * Clearance conflicts between project paths, and paths buried shallower than
+ * their minimum cover, both under the organization's rules. Paused while `enabled` is false
+ * (e.g. mid-drag); the previous result is kept until a refetch lands.
+ */
+export function useConflicts(
+  activeProjectId: string | null,
+  paths: DrawnPath[],
+  enabled: boolean,
+) {
+  const key = useMemo(() => geometryKey(paths), [paths]);
+
+  const { data, isFetching, isError } = useQuery<ApiConflict[]>({
+    queryKey: queryKeys.conflicts(activeProjectId ?? "", key),
+    queryFn: async () => {
+      const res = await api.get<ApiConflict[]>(
+        `/projects/${activeProjectId}/conflicts`,
+      );
+      return res.data;
+    },
+    enabled: !!activeProjectId && enabled,
+    placeholderData: keepPreviousData,
+  });
+
+  const coverQuery = useQuery<ApiCoverViolation[]>({
+    queryKey: queryKeys.coverViolations(activeProjectId ?? "", key),
+    queryFn: async () => {
+      const res = await api.get<ApiCoverViolation[]>(
+        `/projects/${activeProjectId}/cover-violations`,
+      );
+      return res.data;
+    },
+    enabled: !!activeProjectId && enabled,
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    conflicts: data ?? [],
+    coverViolations: coverQuery.data ?? [],
+    isCheckingConflicts: isFetching || coverQuery.isFetching,
+    isConflictsError: isError || coverQuery.isError,
+  };
+}
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * A reversible edit. `undo` and `redo` each send the server write that takes
+ * the edit back or puts it back, and settle once it has been written.
+ */
+export interface EditCommand {
+  label: string;
+  undo: () => Promise<unknown>;
+  redo: () => Promise<unknown>;
+  // Commands recorded back to back with the same key undo as one step
+  coalesceKey?: string;
+}
+
+type HistoryEntry = EditCommand & { recordedAt: number };
+
+const MAX_ENTRIES = 100;
+const COALESCE_MS = 1000;
+
+/**
+ * An undo/redo stack of edits. Steps run one at a time, in the order they
+ * were asked for; one that fails is dropped from the history and passed to
+ * `onError`.
+ */
+export function useEditHistory(onError?: (err: unknown) => void) {
+  const undoStackRef = useRef<HistoryEntry[]>([]);
+  const redoStackRef = useRef<HistoryEntry[]>([]);
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onErrorRef.current = onError;
+  });
+
+  function record(command: EditCommand) {
+    const now = Date.now();
+    const undoStack = undoStackRef.current;
+    const top = undoStack[undoStack.length - 1];
+    redoStackRef.current = [];
+
+    // Keeps the first edit's undo, so the whole run is taken back at once
+    if (
+      top &&
+      command.coalesceKey &&
+      top.coalesceKey === command.coalesceKey &&
+      now - top.recordedAt < COALESCE_MS
+    ) {
+      undoStack[undoStack.length - 1] = {
+        ...top,
+        redo: command.redo,
+        recordedAt: now,
+      };
+      return;
+    }
+    undoStack.push({ ...command, recordedAt: now });
+    if (undoStack.length > MAX_ENTRIES) undoStack.shift();
+  }
+
+  // The entry moves to the other stack straight away so repeated presses
+  // walk the history without waiting on the server
+  function step(
+    fromRef: { current: HistoryEntry[] },
+    toRef: { current: HistoryEntry[] },
+    run: (entry: HistoryEntry) => Promise<unknown>,
+  ) {
+    const entry = fromRef.current.pop();
+    if (!entry) return;
+    toRef.current.push({ ...entry, coalesceKey: undefined });
+    const moved = toRef.current[toRef.current.length - 1];
+
+    queueRef.current = queueRef.current
+      .then(() => run(entry))
+      .catch((err) => {
+        toRef.current = toRef.current.filter((e) => e !== moved);
+        onErrorRef.current?.(err);
+      });
+  }
+
+  function undo() {
+    step(undoStackRef, redoStackRef, (entry) => entry.undo());
+  }
+
+  function redo() {
+    step(redoStackRef, undoStackRef, (entry) => entry.redo());
+  }
+
+  const clear = useCallback(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+  }, []);
+
+  return { record, undo, redo, clear };
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query-keys";
+import type { ApiIdentifyResult } from "@/lib/api-types";
+import api from "@/lib/api";
+
+export interface IdentifyTarget {
+  coords: [number, number];
+  // Screen position of the click, used to anchor the results popup
+  x: number;
+  y: number;
+}
+
+const IDENTIFY_LIMIT = 5;
+
+/** "What is under me": nearest paths and nodes to a clicked map point. */
+export function useIdentify(activeProjectId: string | null) {
+  const [target, setTarget] = useState<IdentifyTarget | null>(null);
+  const clearIdentify = useCallback(() => setTarget(null), []);
+
+  const [lng, lat] = target?.coords ?? [0, 0];
+  const { data, isFetching, isError } = useQuery<ApiIdentifyResult>({
+    queryKey: queryKeys.identify(activeProjectId ?? "", lng, lat),
+    queryFn: async () => {
+      const res = await api.get<ApiIdentifyResult>("/paths/identify", {
+        params: {
+          projectId: activeProjectId,
+          lng,
+          lat,
+          limit: IDENTIFY_LIMIT,
+        },
+      });
+      return res.data;
+    },
+    enabled: !!activeProjectId && !!target,
+    staleTime: 0,
+  });
+
+  return {
+    identifyTarget: target,
+    identifyResult: target ? data : undefined,
+    isIdentifying: isFetching,
+    isIdentifyError: isError,
+    identifyAt: setTarget,
+    clearIdentify,
+  };
+}
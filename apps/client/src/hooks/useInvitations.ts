@@ -0,0 +1,51 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/query-client";
+import { queryKeys } from "@/lib/query-keys";
+import type {
+  ApiAcceptedInvitation,
+  ApiProjectInvitation,
+  ApiProjectRole,
+} from "@/lib/api-types";
+import type { IMapViewState } from "@/hooks/useShareableViewState";
+import api from "@/lib/api";
+
+export type NewInvitations = {
+  projectId: string;
+  emails: string[];
+  role: ApiProjectRole;
+  // The map view the emailed link opens at
+  view?: IMapViewState;
+};
+
+/**
+ * Emailed project invitations. Sending needs the owner role; accepting makes
+ * the signed-in user a member, so the project list is refetched.
+ */
+export function useInvitations() {
+  const inviteMutation = useMutation({
+    mutationFn: ({ projectId, ...body }: NewInvitations) =>
+      api
+        .post<ApiProjectInvitation[]>(
+          `/projects/${projectId}/invitations`,
+          body,
+        )
+        .then((r) => r.data),
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: (token: string) =>
+      api
+        .post<ApiAcceptedInvitation>("/invitations/accept", { token })
+        .then((r) => r.data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects() });
+    },
+  });
+
+  return {
+    inviteToProject: inviteMutation.mutateAsync,
+    acceptInvitation: acceptMutation.mutateAsync,
+  };
+}
@@ -4,6 +4,9 @@ interface UseKeyboardListenerOptions {
   event?: "keydown" | "keyup";
   skipInputElements?: boolean;
   enabled?: boolean;
+  // Modifiers are only checked when set; ctrlOrMeta is Ctrl, or ⌘ on macOS
+  ctrlOrMeta?: boolean;
+  shift?: boolean;
 }
 
 export function useKeyboardListener(
@@ -15,6 +18,8 @@ export function useKeyboardListener(
     event = "keydown",
     skipInputElements = false,
     enabled = true,
+    ctrlOrMeta,
+    shift,
   } = options ?? {};
 
   // Ref keeps the handler stable so callers don't need to memoize it
@@ -27,7 +32,11 @@ export function useKeyboardListener(
     if (!enabled) return;
 
     function listener(e: KeyboardEvent) {
-      if (e.key !== key) return;
+      // Shift turns "z" into "Z", so letters match either case
+      if (e.key.toLowerCase() !== key.toLowerCase()) return;
+      if (ctrlOrMeta !== undefined && (e.ctrlKey || e.metaKey) !== ctrlOrMeta)
+        return;
+      if (shift !== undefined && e.shiftKey !== shift) return;
       if (skipInputElements && (e.target as HTMLElement).tagName === "INPUT")
         return;
       handlerRef.current();
@@ -35,5 +44,5 @@ export function useKeyboardListener(
 
     window.addEventListener(event, listener);
     return () => window.removeEventListener(event, listener);
-  }, [key, event, skipInputElements, enabled]);
+  }, [key, event, skipInputElements, enabled, ctrlOrMeta, shift]);
 }
@@ -3,8 +3,11 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/query-client";
 import { queryKeys } from "@/lib/query-keys";
-import type { ApiLayer } from "@/lib/api-types";
-import api from "@/lib/api";
+import type { ApiLayer, ApiPath } from "@/lib/api-types";
+import api, { readPath } from "@/lib/api";
+import { mergeRows } from "@/lib/project-events";
+import { useProjectEvents } from "@/hooks/useProjectEvents";
+import { randomUuid } from "@/lib/random-uuid";
 
 export type Layer = {
   id: string;
@@ -16,23 +19,56 @@ export type Layer = {
 // Kept for backward compatibility with paths stored before the project model
 export const DEFAULT_LAYER_ID = "default";
 
+function toLayer(l: ApiLayer): Layer {
+  return {
+    id: l.id,
+    name: l.name,
+    isVisible: l.isVisible,
+    projectId: l.projectId,
+  };
+}
+
 export function useLayers(activeProjectId: string | null) {
   const { data: layers = [] } = useQuery<Layer[]>({
     queryKey: queryKeys.layers(activeProjectId ?? ""),
     queryFn: async () => {
       const res = await api.get<ApiLayer[]>(
-        `/layers?projectId=${activeProjectId}`,
+        readPath(`/layers?projectId=${activeProjectId}`),
       );
-      return res.data.map((l) => ({
-        id: l.id,
-        name: l.name,
-        isVisible: l.isVisible,
-        projectId: l.projectId,
-      }));
+      return res.data.map(toLayer);
     },
     enabled: !!activeProjectId,
   });
 
+  // Layers other people add, rename, toggle, delete or restore
+  useProjectEvents(activeProjectId, {
+    onEvent: (event) => {
+      if (event.entityType !== "layer") return;
+      const key = queryKeys.layers(event.projectId);
+      if (event.action === "delete") {
+        const ids = new Set(event.rows.map((l) => l.id));
+        queryClient.setQueryData<Layer[]>(key, (old) =>
+          old?.filter((l) => !ids.has(l.id)),
+        );
+      } else {
+        queryClient.setQueryData<Layer[]>(
+          key,
+          (old) => old && mergeRows(old, event.rows.map(toLayer)),
+        );
+      }
+      if (event.action === "delete" || event.action === "restore") {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.trash(event.projectId),
+        });
+      }
+    },
+    onReconnect: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.layers(activeProjectId ?? ""),
+      });
+    },
+  });
+
   function getProjectLayers(projectId: string): Layer[] {
     return layers.filter((l) => l.projectId === projectId);
   }
@@ -53,7 +89,7 @@ export function useLayers(activeProjectId: string | null) {
       await queryClient.cancelQueries({ queryKey: key });
       const snapshot = queryClient.getQueryData<Layer[]>(key);
       const optimistic: Layer = {
-        id: crypto.randomUUID(),
+        id: randomUuid(),
         name,
         isVisible: true,
         projectId,
@@ -70,11 +106,7 @@ export function useLayers(activeProjectId: string | null) {
       queryClient.setQueryData<Layer[]>(
         queryKeys.layers(vars.projectId),
         (old = []) =>
-          old.map((l) =>
-            l.id === ctx?.optimisticId
-              ? { id: data.id, name: data.name, isVisible: data.isVisible, projectId: data.projectId }
-              : l,
-          ),
+          old.map((l) => (l.id === ctx?.optimisticId ? toLayer(data) : l)),
       );
     },
     onError: (_, vars, ctx) => {
@@ -140,30 +172,45 @@ export function useLayers(activeProjectId: string | null) {
     },
   });
 
+  // The server deletes the layer's paths and nodes with it
   const deleteLayerMutation = useMutation({
     mutationFn: ({ id }: { id: string; projectId: string }) =>
       api.delete(`/layers/${id}`),
     onMutate: async ({ id, projectId }) => {
       const key = queryKeys.layers(projectId);
+      const pathsKey = queryKeys.paths(projectId);
       await queryClient.cancelQueries({ queryKey: key });
+      await queryClient.cancelQueries({ queryKey: pathsKey });
       const snapshot = queryClient.getQueryData<Layer[]>(key);
+      const pathsSnapshot = queryClient.getQueryData<ApiPath[]>(pathsKey);
       queryClient.setQueryData<Layer[]>(key, (old = []) =>
         old.filter((l) => l.id !== id),
       );
-      return { snapshot, projectId };
+      queryClient.setQueryData<ApiPath[]>(pathsKey, (old = []) =>
+        old.filter((p) => p.layerId !== id),
+      );
+      return { snapshot, pathsSnapshot, projectId };
     },
     onError: (_, vars, ctx) => {
       if (ctx?.snapshot) {
         queryClient.setQueryData(queryKeys.layers(vars.projectId), ctx.snapshot);
       }
+      if (ctx?.pathsSnapshot) {
+        queryClient.setQueryData(
+          queryKeys.paths(vars.projectId),
+          ctx.pathsSnapshot,
+        );
+      }
     },
     onSettled: (_, __, vars) => {
       queryClient.invalidateQueries({ queryKey: queryKeys.layers(vars.projectId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.paths(vars.projectId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash(vars.projectId) });
     },
   });
 
   function createLayer(name: string, projectId: string, onCreated?: (id: string) => void): string {
-    const tempId = crypto.randomUUID();
+    const tempId = randomUuid();
     createLayerMutation.mutate({ name, projectId }, {
       onSuccess: (created) => onCreated?.(created.id),
     });
@@ -192,11 +239,6 @@ export function useLayers(activeProjectId: string | null) {
     deleteLayerMutation.mutate({ id, projectId: layer.projectId });
   }
 
-  function deleteProjectLayers(projectId: string) {
-    // Invalidate the layer cache for this project; server cascades on project delete
-    queryClient.removeQueries({ queryKey: queryKeys.layers(projectId) });
-  }
-
   return {
     layers,
     getProjectLayers,
@@ -204,6 +246,5 @@ export function useLayers(activeProjectId: string | null) {
     updateLayerName,
     toggleLayerVisibility,
     deleteLayer,
-    deleteProjectLayers,
   };
 }
@@ -1,23 +1,57 @@
 "use client";
 
-import { useEffect, useRef, useMemo } from "react";
+import { useEffect, useRef, useMemo, useState } from "react";
 import { useQuery, useQueries, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/query-client";
 import { queryKeys } from "@/lib/query-keys";
-import type { ApiPath, ApiPathNode } from "@/lib/api-types";
-import api from "@/lib/api";
+import type {
+  ApiPath,
+  ApiPathNode,
+  ApiPathWithNodes,
+  ApiProjectEvent,
+} from "@/lib/api-types";
+import api, { conflictCurrent, errorMessage, readPath } from "@/lib/api";
+import { queueWrite } from "@/lib/write-queue";
 import { insertSubdivisionNode } from "@/lib/geometry/subdivide-path";
 import { mergePaths } from "@/lib/geometry/node-mapping";
+import { mergeRows } from "@/lib/project-events";
+import { useProjectEvents } from "@/hooks/useProjectEvents";
+import { useEditHistory } from "@/hooks/useEditHistory";
 import type { Node, DrawnPath } from "@/lib/geometry/types";
+import { randomUuid } from "@/lib/random-uuid";
 
 export type { Node, DrawnPath } from "@/lib/geometry/types";
 
+type NodePointUpdate = { id: string; point: ApiPathNode["point"] };
+
+/**
+ * An edit the server refused because someone changed the record first.
+ * `mine` is what this client tried to write, `theirs` the server's record(s)
+ * now; the edit stays on screen until the user picks one.
+ */
+export type EditConflict =
+  | { kind: "path"; id: string; mine: Partial<ApiPath>; theirs: ApiPath }
+  | {
+      kind: "node";
+      id: string;
+      pathId: string;
+      mine: Partial<ApiPathNode>;
+      theirs: ApiPathNode;
+    }
+  | {
+      kind: "nodes";
+      id: string;
+      pathId: string;
+      mine: NodePointUpdate[];
+      theirs: ApiPathNode[];
+    };
+
 export function usePaths(activeProjectId: string | null) {
   const { data: rawPaths = [] } = useQuery<ApiPath[]>({
     queryKey: queryKeys.paths(activeProjectId ?? ""),
     queryFn: async () => {
       const res = await api.get<ApiPath[]>(
-        `/paths?projectId=${activeProjectId}`,
+        readPath(`/paths?projectId=${activeProjectId}`),
       );
       return res.data;
     },
@@ -32,9 +66,10 @@ export function usePaths(activeProjectId: string | null) {
     queryKey: ["path-nodes-batch", pathIdsKey],
     queryFn: async () => {
       if (pathIds.length === 0) return [];
-      const res = await api.post<ApiPathNode[]>("/path-nodes/batch-fetch", {
-        pathIds,
-      });
+      const res = await api.post<ApiPathNode[]>(
+        readPath("/path-nodes/batch-fetch"),
+        { pathIds },
+      );
       const grouped: Record<string, ApiPathNode[]> = {};
       for (const node of res.data) (grouped[node.pathId] ??= []).push(node);
       for (const id of pathIds)
@@ -51,7 +86,7 @@ export function usePaths(activeProjectId: string | null) {
           queryKey: queryKeys.pathNodes(p.id),
           queryFn: async () => {
             const res = await api.get<ApiPathNode[]>(
-              `/path-nodes?pathId=${p.id}`,
+              readPath(`/path-nodes?pathId=${p.id}`),
             );
             return res.data;
           },
@@ -75,12 +110,31 @@ export function usePaths(activeProjectId: string | null) {
       string,
       {
         timer: ReturnType<typeof setTimeout>;
-        nodes: { id: string; point: ApiPathNode["point"] }[];
+        nodes: NodePointUpdate[];
       }
     >(),
   );
+  // Where each path's nodes sat when the drag now under way began
+  const dragOriginsRef = useRef(new Map<string, NodePointUpdate[]>());
+  const [conflicts, setConflicts] = useState<EditConflict[]>([]);
+  // A refused write with no newer version to offer, e.g. drawing on a path
+  // someone moved to the trash; shown until dismissed
+  const [editError, setEditError] = useState<string | null>(null);
   const NODE_WRITE_DEBOUNCE_MS = 500;
 
+  // A step the server refuses leaves the caches showing it; reload them,
+  // unless a conflict prompt is holding the edit on screen
+  const history = useEditHistory((err) => {
+    if (conflictCurrent(err)) return;
+    invalidatePaths();
+    queryClient.invalidateQueries({ queryKey: ["path-nodes"] });
+  });
+
+  const { clear: clearHistory } = history;
+  useEffect(() => {
+    clearHistory();
+  }, [activeProjectId, clearHistory]);
+
   // Path count for default naming (e.g. "Path 3")
   const pathCount = paths.length + 1;
 
@@ -92,6 +146,144 @@ export function usePaths(activeProjectId: string | null) {
     }
   }
 
+  // Versions are read when a request is sent, not when it is queued, so a
+  // run of edits to one record each builds on the version the last returned
+  function getPathVersion(id: string) {
+    if (!activeProjectId) return undefined;
+    return queryClient
+      .getQueryData<ApiPath[]>(queryKeys.paths(activeProjectId))
+      ?.find((p) => p.id === id)?.version;
+  }
+
+  // Names the path in the sync panel should a write to it be refused
+  function pathLabel(action: string, pathId: string) {
+    const name = getCachedPath(pathId)?.name;
+    return name ? `${action} "${name}"` : action;
+  }
+
+  function getNodeVersion(pathId: string, nodeId: string) {
+    return queryClient
+      .getQueryData<ApiPathNode[]>(queryKeys.pathNodes(pathId))
+      ?.find((n) => n.id === nodeId)?.version;
+  }
+
+  // Takes the server's version without touching fields edited since
+  function adoptPathVersion(row: ApiPath) {
+    if (!activeProjectId) return;
+    queryClient.setQueryData<ApiPath[]>(
+      queryKeys.paths(activeProjectId),
+      (old = []) =>
+        old.map((p) =>
+          p.id === row.id
+            ? { ...p, version: row.version, updatedAt: row.updatedAt }
+            : p,
+        ),
+    );
+  }
+
+  function adoptNodeVersions(pathId: string, rows: ApiPathNode[]) {
+    const byId = new Map(rows.map((r) => [r.id, r]));
+    queryClient.setQueryData<ApiPathNode[]>(
+      queryKeys.pathNodes(pathId),
+      (old = []) =>
+        old.map((n) => {
+          const row = byId.get(n.id);
+          return row
+            ? { ...n, version: row.version, updatedAt: row.updatedAt }
+            : n;
+        }),
+    );
+  }
+
+  // Other people's edits, patched into the caches as the server sends them
+  useProjectEvents(activeProjectId, {
+    onEvent: (event) => {
+      if (event.entityType === "path") {
+        applyPathChange(event.projectId, event.action, event.rows);
+      } else if (event.entityType === "path_node") {
+        applyNodeChange(event.action, event.rows);
+      }
+    },
+    onReconnect: () => {
+      invalidatePaths();
+      queryClient.invalidateQueries({ queryKey: ["path-nodes"] });
+    },
+  });
+
+  function applyPathChange(
+    projectId: string,
+    action: ApiProjectEvent["action"],
+    rows: ApiPath[],
+  ) {
+    const key = queryKeys.paths(projectId);
+    if (action === "delete") {
+      const ids = new Set(rows.map((p) => p.id));
+      queryClient.setQueryData<ApiPath[]>(key, (old) =>
+        old?.filter((p) => !ids.has(p.id)),
+      );
+    } else {
+      const live = rows.map((p) => ({ ...p, deletedAt: null }));
+      queryClient.setQueryData<ApiPath[]>(
+        key,
+        (old) => old && mergeRows(old, live),
+      );
+    }
+    if (action === "delete" || action === "restore") {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash(projectId) });
+    }
+  }
+
+  // Inserts and deletes shift the positions after them without an event of
+  // their own, so those are renumbered here the way the server does it
+  function applyNodeChange(
+    action: ApiProjectEvent["action"],
+    rows: ApiPathNode[],
+  ) {
+    const byPosition = (a: ApiPathNode, b: ApiPathNode) =>
+      a.position - b.position;
+    const byPath = new Map<string, ApiPathNode[]>();
+    for (const row of rows) {
+      byPath.set(row.pathId, [...(byPath.get(row.pathId) ?? []), row]);
+    }
+
+    for (const [pathId, pathRows] of byPath) {
+      queryClient.setQueryData<ApiPathNode[]>(
+        queryKeys.pathNodes(pathId),
+        (old) => {
+          if (!old) return old;
+          if (action === "update") return mergeRows(old, pathRows);
+          const ids = new Set(pathRows.map((n) => n.id));
+          const nodes = old.filter((n) => !ids.has(n.id)).sort(byPosition);
+          if (action !== "delete") {
+            for (const row of [...pathRows].sort(byPosition)) {
+              nodes.splice(row.position, 0, { ...row, deletedAt: null });
+            }
+          }
+          return nodes.map((n, position) =>
+            n.position === position ? n : { ...n, position },
+          );
+        },
+      );
+    }
+  }
+
+  // A second refusal for the same record folds into the first, keeping
+  // every change this client tried to make
+  function reportConflict(conflict: EditConflict) {
+    setConflicts((prev) => {
+      const existing = prev.find(
+        (c) => c.kind === conflict.kind && c.id === conflict.id,
+      );
+      if (!existing) return [...prev, conflict];
+      const merged = (
+        conflict.kind === "nodes"
+          ? conflict
+          : { ...conflict, mine: { ...existing.mine, ...conflict.mine } }
+      ) as EditConflict;
+      return prev.map((c) => (c === existing ? merged : c));
+    });
+  }
+
   function getNodePoint(pathId: string, nodeId: string) {
     const cached =
       queryClient.getQueryData<ApiPathNode[]>(queryKeys.pathNodes(pathId)) ??
@@ -105,10 +297,46 @@ export function usePaths(activeProjectId: string | null) {
   // Path-level mutations
   // ---------------------------------------------------------------------------
 
+  // Writes wait in the write queue while offline, so these run whatever the
+  // connection. The queue sends them in order and swaps in the version each
+  // earlier write of the same record returned
   const batchUpdateNodesMutation = useMutation({
-    mutationFn: (
-      nodes: { id: string; point: { lng: number; lat: number; z: number } }[],
-    ) => api.patch("/path-nodes/batch", { nodes }).then((r) => r.data),
+    networkMode: "always",
+    mutationFn: ({
+      pathId,
+      nodes,
+    }: {
+      pathId: string;
+      nodes: NodePointUpdate[];
+    }) =>
+      queueWrite<ApiPathNode[]>({
+        method: "patch",
+        url: "/path-nodes/batch",
+        body: {
+          nodes: nodes.map((n) => ({
+            ...n,
+            version: getNodeVersion(pathId, n.id),
+          })),
+        },
+        label: pathLabel("Move nodes of", pathId),
+      }),
+    onSuccess: (rows, { pathId }) => adoptNodeVersions(pathId, rows),
+    onError: (err, { pathId, nodes }) => {
+      const theirs = conflictCurrent<ApiPathNode[]>(err);
+      if (theirs) {
+        reportConflict({
+          kind: "nodes",
+          id: pathId,
+          pathId,
+          mine: nodes,
+          theirs,
+        });
+      } else {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.pathNodes(pathId),
+        });
+      }
+    },
   });
 
   const updatePathMutation = useMutation<
@@ -116,8 +344,14 @@ export function usePaths(activeProjectId: string | null) {
     Error,
     { id: string } & Partial<ApiPath>
   >({
+    networkMode: "always",
     mutationFn: ({ id, ...patch }) =>
-      api.patch<ApiPath>(`/paths/${id}`, patch).then((r) => r.data),
+      queueWrite<ApiPath>({
+        method: "patch",
+        url: `/paths/${id}`,
+        body: { ...patch, version: getPathVersion(id) },
+        label: pathLabel("Edit", id),
+      }),
     onMutate: async ({ id, ...patch }) => {
       if (!activeProjectId) return;
       const key = queryKeys.paths(activeProjectId);
@@ -128,13 +362,22 @@ export function usePaths(activeProjectId: string | null) {
       );
       return { snapshot };
     },
-    onError: (_, __, ctx) => {
+    onSuccess: (row) => adoptPathVersion(row),
+    onError: (err, { id, ...patch }, ctx) => {
+      // A stale edit stays on screen until the user resolves it
+      const theirs = conflictCurrent<ApiPath>(err);
+      if (theirs) {
+        reportConflict({ kind: "path", id, mine: patch, theirs });
+        return;
+      }
       const snap = (ctx as { snapshot?: ApiPath[] } | undefined)?.snapshot;
       if (snap && activeProjectId) {
         queryClient.setQueryData(queryKeys.paths(activeProjectId), snap);
       }
     },
-    onSettled: () => invalidatePaths(),
+    onSettled: (_, err) => {
+      if (!conflictCurrent(err)) invalidatePaths();
+    },
   });
 
   const updateNodeMutation = useMutation<
@@ -142,8 +385,14 @@ export function usePaths(activeProjectId: string | null) {
     Error,
     { id: string; pathId: string } & Partial<ApiPathNode>
   >({
-    mutationFn: ({ id, pathId: _pathId, ...patch }) =>
-      api.patch<ApiPathNode>(`/path-nodes/${id}`, patch).then((r) => r.data),
+    networkMode: "always",
+    mutationFn: ({ id, pathId, ...patch }) =>
+      queueWrite<ApiPathNode>({
+        method: "patch",
+        url: `/path-nodes/${id}`,
+        body: { ...patch, version: getNodeVersion(pathId, id) },
+        label: pathLabel("Edit a node of", pathId),
+      }),
     onMutate: async ({ id, pathId, ...patch }) => {
       const key = queryKeys.pathNodes(pathId);
       await queryClient.cancelQueries({ queryKey: key });
@@ -153,19 +402,73 @@ export function usePaths(activeProjectId: string | null) {
       );
       return { snapshot, pathId };
     },
-    onError: (_, vars, ctx) => {
+    onSuccess: (row, { pathId }) => adoptNodeVersions(pathId, [row]),
+    onError: (err, { id, pathId, ...patch }, ctx) => {
+      const theirs = conflictCurrent<ApiPathNode>(err);
+      if (theirs) {
+        reportConflict({ kind: "node", id, pathId, mine: patch, theirs });
+        return;
+      }
       const snap = (ctx as { snapshot?: ApiPathNode[] } | undefined)?.snapshot;
       if (snap) {
-        queryClient.setQueryData(queryKeys.pathNodes(vars.pathId), snap);
+        queryClient.setQueryData(queryKeys.pathNodes(pathId), snap);
       }
     },
-    onSettled: (_, __, vars) => {
+    onSettled: (_, err, vars) => {
+      if (conflictCurrent(err)) return;
       queryClient.invalidateQueries({
         queryKey: queryKeys.pathNodes(vars.pathId),
       });
     },
   });
 
+  /**
+   * Settles the oldest conflict: keeping mine re-sends the edit on top of
+   * their version; taking theirs shows the server's record.
+   */
+  function resolveConflict(isKeepingMine: boolean) {
+    const [conflict] = conflicts;
+    if (!conflict) return;
+    setConflicts((prev) => prev.slice(1));
+
+    if (conflict.kind === "path") {
+      if (activeProjectId) {
+        queryClient.setQueryData<ApiPath[]>(
+          queryKeys.paths(activeProjectId),
+          (old = []) =>
+            old.map((p) => (p.id === conflict.id ? conflict.theirs : p)),
+        );
+      }
+      if (isKeepingMine) {
+        updatePathMutation.mutate({ id: conflict.id, ...conflict.mine });
+      }
+    } else if (conflict.kind === "node") {
+      queryClient.setQueryData<ApiPathNode[]>(
+        queryKeys.pathNodes(conflict.pathId),
+        (old = []) =>
+          old.map((n) => (n.id === conflict.id ? conflict.theirs : n)),
+      );
+      if (isKeepingMine) {
+        updateNodeMutation.mutate({
+          id: conflict.id,
+          pathId: conflict.pathId,
+          ...conflict.mine,
+        });
+      }
+    } else if (isKeepingMine) {
+      adoptNodeVersions(conflict.pathId, conflict.theirs);
+      batchUpdateNodesMutation.mutate({
+        pathId: conflict.pathId,
+        nodes: conflict.mine,
+      });
+    } else {
+      // Nothing in the batch was written, so reload every node of the path
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.pathNodes(conflict.pathId),
+      });
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // Public API — same shape as the old localStorage hook
   // ---------------------------------------------------------------------------
@@ -180,11 +483,16 @@ export function usePaths(activeProjectId: string | null) {
       layerId: string;
     },
   ) {
-    const tempId = crypto.randomUUID();
+    const tempId = randomUuid();
+    const now = new Date().toISOString();
+    const apiNodes = nodes.map((n) => ({
+      name: n.name,
+      point: { lng: n.coords[0], lat: n.coords[1], z: n.z },
+    }));
 
-    // Optimistic: add path + empty nodes immediately
+    // Optimistic: add path + nodes immediately, under temp IDs until the
+    // server gives them theirs
     if (activeProjectId) {
-      const now = new Date().toISOString();
       queryClient.setQueryData<ApiPath[]>(
         queryKeys.paths(activeProjectId),
         (old = []) => [
@@ -193,36 +501,52 @@ export function usePaths(activeProjectId: string | null) {
             id: tempId,
             ...opts,
             isHidden: false,
+            metadata: null,
+            lengthM: 0,
+            length3dM: 0,
+            areaM2: 0,
+            version: 1,
             createdAt: now,
             updatedAt: now,
             deletedAt: null,
           },
         ],
       );
-      queryClient.setQueryData<ApiPathNode[]>(queryKeys.pathNodes(tempId), []);
+      queryClient.setQueryData<ApiPathNode[]>(
+        queryKeys.pathNodes(tempId),
+        apiNodes.map((n, position) => ({
+          ...n,
+          id: nodes[position].id,
+          position,
+          pathId: tempId,
+          version: 1,
+          createdAt: now,
+          updatedAt: now,
+          deletedAt: null,
+        })),
+      );
     }
 
     try {
-      const created = await api
-        .post<ApiPath>("/paths", {
-          name: opts.name,
-          layerId: opts.layerId,
-          color: opts.color,
-          width: opts.width,
-          isClosed: opts.isClosed,
-        })
-        .then((r) => r.data);
-
-      const apiNodes = nodes.map((n, i) => ({
-        name: n.name,
-        position: i,
-        pathId: created.id,
-        point: { lng: n.coords[0], lat: n.coords[1], z: n.z },
-      }));
-
-      const createdNodes = await api
-        .post<ApiPathNode[]>("/path-nodes/batch", { nodes: apiNodes })
-        .then((r) => r.data);
+      // Path and nodes are written in one transaction server-side
+      const { nodes: createdNodes, ...created } =
+        await queueWrite<ApiPathWithNodes>({
+          method: "post",
+          url: "/paths/with-nodes",
+          body: {
+            name: opts.name,
+            layerId: opts.layerId,
+            color: opts.color,
+            width: opts.width,
+            isClosed: opts.isClosed,
+            nodes: apiNodes,
+          },
+          label: `Draw "${opts.name}"`,
+          tempIds: [
+            { tempId, field: "id" },
+            ...nodes.map((n, i) => ({ tempId: n.id, field: `nodes.${i}.id` })),
+          ],
+        });
 
       // Replace optimistic entry with confirmed server data
       if (activeProjectId) {
@@ -242,7 +566,12 @@ export function usePaths(activeProjectId: string | null) {
           });
         }
       }
-    } catch {
+      history.record({
+        label: "Draw path",
+        undo: () => removePath(created.id),
+        redo: () => restorePath(created.id),
+      });
+    } catch (err) {
       // Roll back optimistic update on failure
       if (activeProjectId) {
         queryClient.setQueryData<ApiPath[]>(
@@ -251,6 +580,7 @@ export function usePaths(activeProjectId: string | null) {
         );
         queryClient.removeQueries({ queryKey: queryKeys.pathNodes(tempId) });
       }
+      setEditError(errorMessage(err, `Could not draw "${opts.name}"`));
     }
   }
 
@@ -263,6 +593,7 @@ export function usePaths(activeProjectId: string | null) {
       queryClient.getQueryData<ApiPathNode[]>(queryKeys.pathNodes(pathId)) ??
       [];
     const startPosition = existingNodes.length;
+    const wasClosed = !!getCachedPath(pathId)?.isClosed;
     const now = new Date().toISOString();
 
     const apiNodes = newNodes.map((n, i) => ({
@@ -275,7 +606,8 @@ export function usePaths(activeProjectId: string | null) {
     // Optimistic: append nodes with temp IDs
     const tempNodes: ApiPathNode[] = apiNodes.map((n) => ({
       ...n,
-      id: crypto.randomUUID(),
+      id: randomUuid(),
+      version: 1,
       createdAt: now,
       updatedAt: now,
       deletedAt: null,
@@ -295,35 +627,60 @@ export function usePaths(activeProjectId: string | null) {
     }
 
     try {
-      const created = await api
-        .post<ApiPathNode[]>("/path-nodes/batch", { nodes: apiNodes })
-        .then((r) => r.data);
+      const updated = await queueWrite<ApiPathWithNodes>({
+        method: "post",
+        url: `/paths/${pathId}/append-nodes`,
+        body: {
+          nodes: apiNodes.map(({ name, point }) => ({ name, point })),
+          ...(isClosed && { isClosed: true }),
+        },
+        label: pathLabel("Extend", pathId),
+        tempIds: tempNodes.map((n, i) => ({
+          tempId: n.id,
+          field: `nodes.${i - tempNodes.length}.id`,
+        })),
+      });
 
-      // Replace temp nodes with server-confirmed ones
+      // Replace temp nodes with the server-confirmed list
       queryClient.setQueryData<ApiPathNode[]>(
         queryKeys.pathNodes(pathId),
-        (old = []) => [
-          ...old.filter((n) => !tempNodes.some((t) => t.id === n.id)),
-          ...created,
-        ],
+        updated.nodes,
       );
 
-      if (isClosed) {
-        await api.patch(`/paths/${pathId}`, { isClosed: true });
-        invalidatePaths();
-      }
-    } catch {
+      if (isClosed) invalidatePaths();
+
+      const existingIds = new Set(existingNodes.map((n) => n.id));
+      const addedIds = updated.nodes
+        .filter((n) => !existingIds.has(n.id))
+        .map((n) => n.id);
+      const isClosing = isClosed && !wasClosed;
+      history.record({
+        label: "Extend path",
+        undo: async () => {
+          if (isClosing) await setPathFields(pathId, { isClosed: false });
+          await deleteNodes(pathId, addedIds);
+        },
+        redo: async () => {
+          await restoreNodes(pathId, addedIds);
+          if (isClosing) await setPathFields(pathId, { isClosed: true });
+        },
+      });
+    } catch (err) {
       queryClient.invalidateQueries({ queryKey: queryKeys.pathNodes(pathId) });
+      if (isClosed) invalidatePaths();
+      setEditError(errorMessage(err, "Could not extend the path"));
     }
   }
 
   function updatePathName(id: string, name: string) {
+    recordPathEdit(id, "Rename path", { name });
     updatePathMutation.mutate({ id, name } as Parameters<
       typeof updatePathMutation.mutate
     >[0]);
   }
 
   function updatePathColor(id: string, color: string) {
+    recordPathEdit(id, "Recolor path", { color });
     updatePathMutation.mutate({ id, color } as Parameters<
       typeof updatePathMutation.mutate
     >[0]);
@@ -331,6 +688,7 @@ export function usePaths(activeProjectId: string | null) {
 
   function updatePathWidth(id: string, width: number) {
     const clamped = Math.max(1, Math.min(20, width));
+    recordPathEdit(id, "Resize path", { width: clamped });
     updatePathMutation.mutate({ id, width: clamped } as Parameters<
       typeof updatePathMutation.mutate
     >[0]);
@@ -358,14 +716,12 @@ export function usePaths(activeProjectId: string | null) {
   }
 
   function deletePath(id: string) {
-    flushPendingNodeUpdate(id);
-    if (activeProjectId) {
-      queryClient.setQueryData<ApiPath[]>(
-        queryKeys.paths(activeProjectId),
-        (old = []) => old.filter((p) => p.id !== id),
-      );
-    }
-    api.delete(`/paths/${id}`).catch(() => invalidatePaths());
+    history.record({
+      label: "Delete path",
+      undo: () => restorePath(id),
+      redo: () => removePath(id),
+    });
+    removePath(id).catch(() => invalidatePaths());
   }
 
   function removeNodes(pathId: string, nodeIds: Set<string>) {
@@ -396,13 +752,20 @@ export function usePaths(activeProjectId: string | null) {
       );
     }
 
-    Promise.all([...nodeIds].map((nid) => api.delete(`/path-nodes/${nid}`))).catch(
-      () => {
-        queryClient.invalidateQueries({
-          queryKey: queryKeys.pathNodes(pathId),
-        });
-      },
-    );
+    const removedIds = nodes
+      .filter((n) => nodeIds.has(n.id))
+      .sort((a, b) => a.position - b.position)
+      .map((n) => n.id);
+    history.record({
+      label: "Delete nodes",
+      undo: () => restoreNodes(pathId, removedIds),
+      redo: () => deleteNodes(pathId, removedIds),
+    });
+    deleteNodes(pathId, removedIds).catch(() => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.pathNodes(pathId),
+      });
+    });
   }
 
   // Called on every onDrag frame — updates React Query cache only, no API call.
@@ -412,6 +775,17 @@ export function usePaths(activeProjectId: string | null) {
     dx: number,
     dy: number,
   ) {
+    if (!dragOriginsRef.current.has(pathId)) {
+      const cached =
+        queryClient.getQueryData<ApiPathNode[]>(queryKeys.pathNodes(pathId)) ??
+        [];
+      dragOriginsRef.current.set(
+        pathId,
+        cached
+          .filter((n) => startCoords.has(n.id))
+          .map((n) => ({ id: n.id, point: n.point })),
+      );
+    }
     queryClient.setQueryData<ApiPathNode[]>(
       queryKeys.pathNodes(pathId),
       (old = []) =>
@@ -431,7 +805,7 @@ export function usePaths(activeProjectId: string | null) {
     if (!entry) return;
     clearTimeout(entry.timer);
     pendingNodeUpdatesRef.current.delete(pathId);
-    batchUpdateNodesMutation.mutate(entry.nodes);
+    batchUpdateNodesMutation.mutate({ pathId, nodes: entry.nodes });
   }
 
   function cancelPendingNodeUpdate(pathId: string) {
@@ -441,10 +815,7 @@ export function usePaths(activeProjectId: string | null) {
     pendingNodeUpdatesRef.current.delete(pathId);
   }
 
-  function queuePendingNodeUpdate(
-    pathId: string,
-    nodes: { id: string; point: ApiPathNode["point"] }[],
-  ) {
+  function queuePendingNodeUpdate(pathId: string, nodes: NodePointUpdate[]) {
     const existing = pendingNodeUpdatesRef.current.get(pathId);
     if (existing) {
       clearTimeout(existing.timer);
@@ -468,6 +839,8 @@ export function usePaths(activeProjectId: string | null) {
     const nodes =
       queryClient.getQueryData<ApiPathNode[]>(queryKeys.pathNodes(pathId)) ??
       [];
+    const before = dragOriginsRef.current.get(pathId);
+    dragOriginsRef.current.delete(pathId);
     if (nodes.length === 0) {
       cancelPendingNodeUpdate(pathId);
       return;
@@ -476,6 +849,17 @@ export function usePaths(activeProjectId: string | null) {
       pathId,
       nodes.map((n) => ({ id: n.id, point: n.point })),
     );
+
+    if (!before || before.length === 0) return;
+    const moved = new Set(before.map((n) => n.id));
+    const after = nodes
+      .filter((n) => moved.has(n.id))
+      .map((n) => ({ id: n.id, point: n.point }));
+    history.record({
+      label: before.length === 1 ? "Move node" : "Move nodes",
+      undo: () => writeNodePoints(pathId, before),
+      redo: () => writeNodePoints(pathId, after),
+    });
   }
 
   async function subdivideEdge(
@@ -487,6 +871,11 @@ export function usePaths(activeProjectId: string | null) {
     if (!path) return;
 
     const updated = insertSubdivisionNode(path, nodeId1, nodeId2);
+    const index = updated.nodes.findIndex(
+      (n) => !path.nodes.some((o) => o.id === n.id),
+    );
+    if (index === -1) return;
+    const inserted = updated.nodes[index];
     const serverNodes =
       queryClient.getQueryData<ApiPathNode[]>(queryKeys.pathNodes(pathId)) ??
       [];
@@ -505,6 +894,7 @@ export function usePaths(activeProjectId: string | null) {
               position: i,
               pathId,
               point: { lng: n.coords[0], lat: n.coords[1], z: n.z },
+              version: 1,
               createdAt: now,
               updatedAt: now,
               deletedAt: null,
@@ -513,38 +903,159 @@ export function usePaths(activeProjectId: string | null) {
     );
 
     try {
-      // Delete all existing server nodes, then re-create in correct order
-      // (avoids unique constraint issues with position reordering)
-      await Promise.all(serverNodes.map((n) => api.delete(`/path-nodes/${n.id}`)));
-      await api.post("/path-nodes/batch", {
-        nodes: updated.nodes.map((n, i) => ({
-          name: n.name,
-          position: i,
-          pathId,
-          point: { lng: n.coords[0], lat: n.coords[1], z: n.z },
-        })),
+      // Server shifts later positions in one transaction; existing IDs stay.
+      const res = await queueWrite<{ node: ApiPathNode; nodes: ApiPathNode[] }>(
+        {
+          method: "post",
+          url: `/paths/${pathId}/nodes/insert`,
+          body: {
+            index,
+            name: inserted.name,
+            point: {
+              lng: inserted.coords[0],
+              lat: inserted.coords[1],
+              z: inserted.z,
+            },
+          },
+          label: pathLabel("Add a node to", pathId),
+          tempIds: [{ tempId: inserted.id, field: "node.id" }],
+        },
+      );
+      queryClient.setQueryData<ApiPathNode[]>(
+        queryKeys.pathNodes(pathId),
+        res.nodes,
+      );
+      const nodeId = res.node.id;
+      history.record({
+        label: "Add node",
+        undo: () => deleteNodes(pathId, [nodeId]),
+        redo: () => restoreNodes(pathId, [nodeId]),
       });
+    } catch (err) {
       queryClient.invalidateQueries({ queryKey: queryKeys.pathNodes(pathId) });
-    } catch {
-      queryClient.invalidateQueries({ queryKey: queryKeys.pathNodes(pathId) });
+      setEditError(errorMessage(err, "Could not add the node"));
     }
   }
 
-  function movePathsToLayer(fromLayerId: string, toLayerId: string) {
-    if (!activeProjectId) return;
-    const toMove = pathsRef.current.filter((p) => p.layerId === fromLayerId);
+  // ---------------------------------------------------------------------------
+  // Undo/redo — the server writes each history step sends
+  // ---------------------------------------------------------------------------
 
-    queryClient.setQueryData<ApiPath[]>(
-      queryKeys.paths(activeProjectId),
-      (old = []) =>
-        old.map((p) =>
-          p.layerId === fromLayerId ? { ...p, layerId: toLayerId } : p,
+  function getCachedPath(id: string) {
+    if (!activeProjectId) return undefined;
+    return queryClient
+      .getQueryData<ApiPath[]>(queryKeys.paths(activeProjectId))
+      ?.find((p) => p.id === id);
+  }
+
+  // Typing a name or scrubbing a color picker undoes as one step
+  function recordPathEdit(
+    id: string,
+    label: string,
+    patch: Pick<Partial<ApiPath>, "name" | "color" | "width">,
+  ) {
+    const path = getCachedPath(id);
+    if (!path) return;
+    const [field] = Object.keys(patch) as (keyof typeof patch)[];
+    if (path[field] === patch[field]) return;
+    const before = { [field]: path[field] };
+    history.record({
+      label,
+      coalesceKey: `${field}:${id}`,
+      undo: () => setPathFields(id, before),
+      redo: () => setPathFields(id, patch),
+    });
+  }
+
+  function setPathFields(id: string, patch: Partial<ApiPath>) {
+    return updatePathMutation.mutateAsync({ id, ...patch });
+  }
+
+  async function removePath(id: string) {
+    flushPendingNodeUpdate(id);
+    const label = pathLabel("Delete", id);
+    if (activeProjectId) {
+      queryClient.setQueryData<ApiPath[]>(
+        queryKeys.paths(activeProjectId),
+        (old = []) => old.filter((p) => p.id !== id),
+      );
+    }
+    await queueWrite({ method: "delete", url: `/paths/${id}`, label });
+    if (activeProjectId) {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.trash(activeProjectId),
+      });
+    }
+  }
+
+  async function restorePath(id: string) {
+    await queueWrite<ApiPath>({
+      method: "post",
+      url: `/paths/${id}/restore`,
+      label: "Restore a deleted path",
+    });
+    invalidatePaths();
+    queryClient.invalidateQueries({ queryKey: queryKeys.pathNodes(id) });
+    if (activeProjectId) {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.trash(activeProjectId),
+      });
+    }
+  }
+
+  // `nodeIds` in path order. Deleting from the last one keeps each node's
+  // position as it was, which is where restoreNodes puts it back
+  async function deleteNodes(pathId: string, nodeIds: string[]) {
+    flushPendingNodeUpdate(pathId);
+    const label = pathLabel("Delete a node of", pathId);
+    const ids = new Set(nodeIds);
+    queryClient.setQueryData<ApiPathNode[]>(
+      queryKeys.pathNodes(pathId),
+      (old = []) => old.filter((n) => !ids.has(n.id)),
+    );
+    // All queued at once; the queue sends them in this order
+    await Promise.all(
+      [...nodeIds]
+        .reverse()
+        .map((id) =>
+          queueWrite({ method: "delete", url: `/path-nodes/${id}`, label }),
         ),
     );
+  }
 
-    Promise.all(
-      toMove.map((p) => api.patch(`/paths/${p.id}`, { layerId: toLayerId })),
-    ).catch(() => invalidatePaths());
+  // `nodeIds` in path order, so each lands back between its old neighbours
+  async function restoreNodes(pathId: string, nodeIds: string[]) {
+    const label = pathLabel("Restore a node of", pathId);
+    const results = await Promise.all(
+      nodeIds.map((id) =>
+        queueWrite<{ node: ApiPathNode; nodes: ApiPathNode[] }>({
+          method: "post",
+          url: `/path-nodes/${id}/restore`,
+          label,
+        }),
+      ),
+    );
+    const last = results[results.length - 1];
+    if (last) {
+      queryClient.setQueryData<ApiPathNode[]>(
+        queryKeys.pathNodes(pathId),
+        last.nodes,
+      );
+    }
+  }
+
+  async function writeNodePoints(pathId: string, nodes: NodePointUpdate[]) {
+    flushPendingNodeUpdate(pathId);
+    const points = new Map(nodes.map((n) => [n.id, n.point]));
+    queryClient.setQueryData<ApiPathNode[]>(
+      queryKeys.pathNodes(pathId),
+      (old = []) =>
+        old.map((n) => {
+          const point = points.get(n.id);
+          return point ? { ...n, point } : n;
+        }),
+    );
+    await batchUpdateNodesMutation.mutateAsync({ pathId, nodes });
   }
 
   return {
@@ -564,6 +1075,11 @@ export function usePaths(activeProjectId: string | null) {
     persistDraggedNodes,
     subdivideEdge,
     togglePathVisibility,
-    movePathsToLayer,
+    conflict: conflicts[0] ?? null,
+    editError,
+    dismissEditError: () => setEditError(null),
+    resolveConflict,
+    undo: history.undo,
+    redo: history.redo,
   };
 }
@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import api, { getClientId } from "@/lib/api";
+import type { ApiPresence, ApiPresenceMessage } from "@/lib/api-types";
+import { useProjectEvents } from "@/hooks/useProjectEvents";
+
+type Cursor = ApiPresence["cursor"];
+
+// Cursor moves are sent at most this often
+const CURSOR_SEND_INTERVAL_MS = 100;
+
+/**
+ * The other tabs that have the project open, with their cursors and the
+ * paths they are editing; sends this tab's own in return. Presence travels
+ * over the project's event stream, so it is empty on a share link.
+ */
+export function usePresence(
+  projectId: string | null,
+  editingPathId: string | null,
+) {
+  const [presence, setPresence] = useState<ApiPresenceMessage | null>(null);
+  const editingPathIdRef = useRef(editingPathId);
+  const isEditingPathSendingRef = useRef(false);
+  const cursorRef = useRef<Cursor>(null);
+  const cursorTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clientId = getClientId();
+  const users = presence?.projectId === projectId ? presence.users : [];
+  const self = users.find((u) => u.clientId === clientId);
+  const others = users.filter((u) => u.clientId !== clientId);
+
+  // The server only takes updates from a tab whose stream is connected,
+  // and presence is best effort: a lost update is corrected by the next
+  // message, which shows what the server has
+  function send(body: { cursor?: Cursor; editingPathId?: string | null }) {
+    return api.put(`/projects/${projectId}/presence`, body).catch(() => {});
+  }
+
+  // Resends the edited path whenever the server's copy differs, which also
+  // covers a reconnect, where it starts over empty
+  function syncEditingPath(listed: ApiPresence | undefined) {
+    if (!listed || isEditingPathSendingRef.current) return;
+    if (listed.editingPathId === editingPathIdRef.current) return;
+    isEditingPathSendingRef.current = true;
+    void send({ editingPathId: editingPathIdRef.current }).finally(() => {
+      isEditingPathSendingRef.current = false;
+    });
+  }
+
+  useProjectEvents(projectId, {
+    onPresence: (message) => {
+      setPresence(message);
+      syncEditingPath(message.users.find((u) => u.clientId === clientId));
+    },
+  });
+
+  // self only matters once editingPathId changes; messages resync the rest
+  const onEditingPathChange = useEffectEvent(() => syncEditingPath(self));
+  useEffect(() => {
+    editingPathIdRef.current = editingPathId;
+    onEditingPathChange();
+  }, [editingPathId]);
+
+  useEffect(
+    () => () => {
+      if (cursorTimerRef.current) clearTimeout(cursorTimerRef.current);
+    },
+    [],
+  );
+
+  /** Shares where this tab's pointer is on the map; null when it leaves. */
+  function reportCursor(coords: [number, number] | null) {
+    if (!self) return;
+    cursorRef.current = coords && { lng: coords[0], lat: coords[1] };
+    if (cursorTimerRef.current) return;
+    cursorTimerRef.current = setTimeout(() => {
+      cursorTimerRef.current = null;
+      void send({ cursor: cursorRef.current });
+    }, CURSOR_SEND_INTERVAL_MS);
+  }
+
+  // Paths someone else has in edit mode, with who has them
+  const lockedPaths = new Map<string, ApiPresence>();
+  for (const user of others) {
+    if (user.editingPathId) lockedPaths.set(user.editingPathId, user);
+  }
+
+  return { others, lockedPaths, reportCursor };
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { getShareToken } from "@/lib/api";
+import {
+  subscribeToProject,
+  type ProjectEventListener,
+} from "@/lib/project-events";
+
+/**
+ * Calls `listener` with the project's change and presence events while
+ * `projectId` is set. Share links have no event stream, so nothing is subscribed there.
+ */
+export function useProjectEvents(
+  projectId: string | null,
+  listener: ProjectEventListener,
+) {
+  // Keep listener ref stable so callers don't need to memoize
+  const listenerRef = useRef(listener);
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  useEffect(() => {
+    if (!projectId || getShareToken()) return;
+    return subscribeToProject(projectId, {
+      onEvent: (event) => listenerRef.current.onEvent?.(event),
+      onPresence: (message) => listenerRef.current.onPresence?.(message),
+      onReconnect: () => listenerRef.current.onReconnect?.(),
+    });
+  }, [projectId]);
+}
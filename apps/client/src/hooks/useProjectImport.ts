@@ -0,0 +1,80 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/query-client";
+import { queryKeys } from "@/lib/query-keys";
+import type { ApiImportPreview, ApiImportResult } from "@/lib/api-types";
+import api from "@/lib/api";
+
+export interface ImportTarget {
+  projectId: string;
+  layerId?: string;
+  layerName?: string;
+}
+
+export interface GeoJsonImportRequest extends ImportTarget {
+  featureCollection: GeoJSON.FeatureCollection;
+  nameProperty?: string;
+  colorProperty?: string;
+  colorMap?: Record<string, string>;
+  defaultColor?: string;
+}
+
+export interface FileImportRequest extends ImportTarget {
+  file: File;
+  nameProperty?: string;
+}
+
+function fileForm({ file, layerId, layerName, nameProperty }: FileImportRequest) {
+  const form = new FormData();
+  form.append("file", file);
+  if (layerId) form.append("layerId", layerId);
+  if (layerName) form.append("layerName", layerName);
+  if (nameProperty) form.append("nameProperty", nameProperty);
+  return form;
+}
+
+function invalidateProject(projectId: string) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.layers(projectId) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.paths(projectId) });
+}
+
+/** Imports files into a project layer, then refetches its layers and paths. */
+export function useProjectImport() {
+  const importGeoJsonMutation = useMutation({
+    mutationFn: ({ projectId, ...body }: GeoJsonImportRequest) =>
+      api
+        .post<ApiImportResult>(`/projects/${projectId}/import`, body)
+        .then((r) => r.data),
+    onSuccess: (_, { projectId }) => invalidateProject(projectId),
+  });
+
+  // KML/KMZ and zipped shapefiles are parsed server-side, by file extension
+  const importFileMutation = useMutation({
+    mutationFn: (req: FileImportRequest) =>
+      api
+        .post<ApiImportResult>(
+          `/projects/${req.projectId}/import/file`,
+          fileForm(req),
+        )
+        .then((r) => r.data),
+    onSuccess: (_, { projectId }) => invalidateProject(projectId),
+  });
+
+  async function previewFile(projectId: string, file: File) {
+    const res = await api.post<ApiImportPreview>(
+      `/projects/${projectId}/import/file`,
+      fileForm({ projectId, file }),
+      { params: { dryRun: true } },
+    );
+    return res.data;
+  }
+
+  return {
+    importGeoJson: importGeoJsonMutation.mutateAsync,
+    importFile: importFileMutation.mutateAsync,
+    previewFile,
+    isImporting:
+      importGeoJsonMutation.isPending || importFileMutation.isPending,
+  };
+}
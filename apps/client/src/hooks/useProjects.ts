@@ -5,32 +5,72 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/query-client";
 import { queryKeys } from "@/lib/query-keys";
 import { loadFromStorage, saveToStorage } from "@/lib/storage";
-import type { ApiProject } from "@/lib/api-types";
-import api from "@/lib/api";
+import type { ApiProject, ApiProjectRole } from "@/lib/api-types";
+import api, { getShareToken } from "@/lib/api";
+import { downloadBlob, filenameFromDisposition } from "@/lib/download";
+import { useSharedProject } from "@/hooks/useShareLinks";
+import { randomUuid } from "@/lib/random-uuid";
 
-export type Project = { id: string; name: string };
+// organizationId is null on an optimistic record until the server confirms it
+export type Project = {
+  id: string;
+  name: string;
+  organizationId: string | null;
+  role: ApiProjectRole;
+};
+
+export type ProjectExportFormat = "geojson" | "kml" | "kmz" | "dxf";
 
 const STORAGE_KEY_ACTIVE_PROJECT = "utilitix_activeProjectId";
 
 export function useProjects() {
-  const [activeProjectId, setActiveProjectIdState] = useState<string | null>(
+  const [storedProjectId, setActiveProjectIdState] = useState<string | null>(
     () => loadFromStorage<string | null>(STORAGE_KEY_ACTIVE_PROJECT, null),
   );
 
+  // A share link opens its one project without an account, and must not
+  // change the project this browser's signed-in user last had open
+  const isShared = !!getShareToken();
+  const { sharedProject } = useSharedProject();
+  const activeProjectId = isShared
+    ? (sharedProject?.id ?? null)
+    : storedProjectId;
+
   function setActiveProject(id: string | null) {
+    if (isShared) return;
     setActiveProjectIdState(id);
     saveToStorage(STORAGE_KEY_ACTIVE_PROJECT, id);
   }
 
-  const { data: projects = [] } = useQuery<Project[]>({
+  const { data: memberProjects = [] } = useQuery<Project[]>({
     queryKey: queryKeys.projects(),
     queryFn: async () => {
       const res = await api.get<ApiProject[]>("/projects");
-      return res.data.map((p) => ({ id: p.id, name: p.name }));
+      return res.data.map((p) => ({
+        id: p.id,
+        name: p.name,
+        organizationId: p.organizationId,
+        role: p.role ?? "viewer",
+      }));
     },
+    enabled: !isShared,
   });
+  const projects: Project[] =
+    isShared && sharedProject
+      ? [
+          {
+            id: sharedProject.id,
+            name: sharedProject.name,
+            organizationId: null,
+            role: "viewer",
+          },
+        ]
+      : memberProjects;
 
   const activeProject = projects.find((p) => p.id === activeProjectId) ?? null;
+  // Viewers only read; the server rejects their edits with 403 regardless
+  const canEditActiveProject =
+    !!activeProject && activeProject.role !== "viewer";
 
   const createProjectMutation = useMutation({
     mutationFn: ({ name }: { name: string; tempId: string }) =>
@@ -38,7 +78,12 @@ export function useProjects() {
     onMutate: async ({ name, tempId }) => {
       await queryClient.cancelQueries({ queryKey: queryKeys.projects() });
       const snapshot = queryClient.getQueryData<Project[]>(queryKeys.projects());
-      const optimistic: Project = { id: tempId, name };
+      const optimistic: Project = {
+        id: tempId,
+        name,
+        organizationId: null,
+        role: "owner",
+      };
       queryClient.setQueryData<Project[]>(queryKeys.projects(), (old = []) => [
         ...old,
         optimistic,
@@ -49,7 +94,14 @@ export function useProjects() {
       // Replace optimistic record with server-confirmed one and update active project
       queryClient.setQueryData<Project[]>(queryKeys.projects(), (old = []) =>
         old.map((p) =>
-          p.id === ctx?.optimisticId ? { id: created.id, name: created.name } : p,
+          p.id === ctx?.optimisticId
+            ? {
+                id: created.id,
+                name: created.name,
+                organizationId: created.organizationId,
+                role: created.role ?? "owner",
+              }
+            : p,
         ),
       );
       // If we were tracking the optimistic id, switch to real id
@@ -88,6 +140,7 @@ export function useProjects() {
     },
   });
 
+  // The server deletes the project's layers, paths and nodes with it
   const deleteProjectMutation = useMutation({
     mutationFn: (id: string) => api.delete(`/projects/${id}`),
     onMutate: async (id) => {
@@ -103,13 +156,18 @@ export function useProjects() {
         queryClient.setQueryData(queryKeys.projects(), ctx.snapshot);
       }
     },
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.layers(id) });
+      queryClient.removeQueries({ queryKey: queryKeys.paths(id) });
+    },
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.projects() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.deletedProjects() });
     },
   });
 
   function createProject(name: string, onCreated?: (id: string) => void): string {
-    const tempId = crypto.randomUUID();
+    const tempId = randomUuid();
     // Set active project optimistically before mutation resolves
     setActiveProject(tempId);
     createProjectMutation.mutate({ name, tempId }, {
@@ -130,13 +188,35 @@ export function useProjects() {
     deleteProjectMutation.mutate(id);
   }
 
+  /** Downloads the project's layers, paths and nodes in an interchange format. */
+  // `crs` (an EPSG code) only applies to DXF; omitted, the server picks UTM
+  async function exportProject(
+    id: string,
+    format: ProjectExportFormat,
+    crs?: string,
+  ) {
+    const res = await api.get<Blob>(`/projects/${id}/export.${format}`, {
+      params: crs ? { crs } : undefined,
+      responseType: "blob",
+    });
+    downloadBlob(
+      res.data,
+      filenameFromDisposition(
+        res.headers["content-disposition"],
+        `project.${format}`,
+      ),
+    );
+  }
+
   return {
     projects,
     activeProject,
     activeProjectId,
+    canEditActiveProject,
     setActiveProject,
     createProject,
     renameProject,
     deleteProject,
+    exportProject,
   };
 }
@@ -0,0 +1,90 @@
+"use client";
+
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/query-client";
+import { queryKeys } from "@/lib/query-keys";
+import type { ApiShareLink, ApiSharedProject } from "@/lib/api-types";
+import api, { getShareToken } from "@/lib/api";
+
+export type NewShareLink = {
+  projectId: string;
+  label?: string;
+  // Omitted shares every layer
+  layerIds?: string[];
+  expiresInHours: number;
+};
+
+/**
+ * The project a share token opens; sharedProject is null outside the public
+ * /share route and while loading.
+ */
+export function useSharedProject() {
+  const { data = null, error } = useQuery<ApiSharedProject>({
+    queryKey: queryKeys.sharedProject(),
+    queryFn: async () => {
+      const res = await api.get<ApiSharedProject>("/shared/project");
+      return res.data;
+    },
+    enabled: !!getShareToken(),
+    staleTime: Infinity,
+    // An expired or revoked link stays that way
+    retry: false,
+  });
+  return { sharedProject: data, error };
+}
+
+/**
+ * Public read-only links to a project; only owners may list or create them.
+ * Pass null to skip loading.
+ */
+export function useShareLinks(projectId: string | null) {
+  const key = queryKeys.shareLinks(projectId ?? "");
+
+  const { data: shareLinks = [] } = useQuery<ApiShareLink[]>({
+    queryKey: key,
+    queryFn: async () => {
+      const res = await api.get<ApiShareLink[]>(
+        `/projects/${projectId}/share-links`,
+      );
+      return res.data;
+    },
+    enabled: !!projectId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: ({ projectId: id, ...body }: NewShareLink) =>
+      api
+        .post<ApiShareLink>(`/projects/${id}/share-links`, body)
+        .then((r) => r.data),
+    onSuccess: (_, vars) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.shareLinks(vars.projectId),
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (linkId: string) =>
+      api.delete(`/projects/${projectId}/share-links/${linkId}`),
+    onMutate: async (linkId) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const snapshot = queryClient.getQueryData<ApiShareLink[]>(key);
+      queryClient.setQueryData<ApiShareLink[]>(key, (old = []) =>
+        old.filter((l) => l.id !== linkId),
+      );
+      return { snapshot };
+    },
+    onError: (_, __, ctx) => {
+      if (ctx?.snapshot) queryClient.setQueryData(key, ctx.snapshot);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: key });
+    },
+  });
+
+  return {
+    shareLinks,
+    createShareLink: createMutation.mutateAsync,
+    revokeShareLink: revokeMutation.mutate,
+  };
+}
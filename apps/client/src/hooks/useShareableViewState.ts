@@ -10,6 +10,7 @@ const QUERY_PARAM_LATITUDE = "lat";
 const QUERY_PARAM_ZOOM = "zoom";
 const QUERY_PARAM_PITCH = "pitch";
 const QUERY_PARAM_BEARING = "bearing";
+export const QUERY_PARAM_SHARE_TOKEN = "token";
 
 export interface IMapViewState {
   longitude: number;
@@ -84,6 +85,8 @@ export function useShareableViewState({
     saveToStorage(STORAGE_KEY_VIEW_STATE, viewState);
   }, []);
 
+  const getShareViewState = useCallback(() => viewStateRef.current, []);
+
   const getShareViewStateLink = useCallback((): string | null => {
     if (typeof window === "undefined") return null;
     const currentViewState = viewStateRef.current;
@@ -106,6 +109,19 @@ export function useShareableViewState({
     );
   }, [activeProjectId]);
 
+  // The same view on the public /share route, readable without an account
+  const getPublicShareLink = useCallback(
+    (token: string): string | null => {
+      const link = getShareViewStateLink();
+      if (!link) return null;
+      const url = new URL(link);
+      url.pathname = "/share";
+      url.searchParams.set(QUERY_PARAM_SHARE_TOKEN, token);
+      return url.toString();
+    },
+    [getShareViewStateLink],
+  );
+
   const copyShareViewStateLink = useCallback(async (): Promise<boolean> => {
     const shareUrl = getShareViewStateLink();
     if (!shareUrl) return false;
@@ -120,7 +136,9 @@ export function useShareableViewState({
   return {
     initialViewState,
     handleViewStateChange,
+    getShareViewState,
     getShareViewStateLink,
+    getPublicShareLink,
     copyShareViewStateLink,
   };
 }
@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from "react";
+import { getSyncStatus, subscribeToSync } from "@/lib/write-queue";
+
+const SERVER_STATUS = getSyncStatus();
+
+/** Whether this tab's writes have reached the server, and which were refused. */
+export function useSyncStatus() {
+  return useSyncExternalStore(
+    subscribeToSync,
+    getSyncStatus,
+    () => SERVER_STATUS,
+  );
+}
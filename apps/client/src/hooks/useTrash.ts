@@ -0,0 +1,63 @@
+"use client";
+
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/query-client";
+import { queryKeys } from "@/lib/query-keys";
+import type { ApiDeletedProject, ApiTrash } from "@/lib/api-types";
+import api from "@/lib/api";
+
+export type TrashEntity = "projects" | "layers" | "paths";
+
+const EMPTY_TRASH: ApiTrash = { layers: [], paths: [] };
+
+/**
+ * Deleted layers and paths of a project, and deleted projects the caller is
+ * in. Pass null to skip loading the project's trash; pass isEnabled false to
+ * skip both, e.g. on a share link.
+ */
+export function useTrash(projectId: string | null, isEnabled = true) {
+  const { data: trash = EMPTY_TRASH } = useQuery<ApiTrash>({
+    queryKey: queryKeys.trash(projectId ?? ""),
+    queryFn: async () => {
+      const res = await api.get<ApiTrash>(`/projects/${projectId}/trash`);
+      return res.data;
+    },
+    enabled: isEnabled && !!projectId,
+  });
+
+  const { data: deletedProjects = [] } = useQuery<ApiDeletedProject[]>({
+    queryKey: queryKeys.deletedProjects(),
+    queryFn: async () => {
+      const res = await api.get<ApiDeletedProject[]>("/projects/trash");
+      return res.data;
+    },
+    enabled: isEnabled,
+  });
+
+  // The server refuses (409) a path whose layer, or anything whose project,
+  // is still deleted; callers show that message
+  const restoreMutation = useMutation({
+    mutationFn: ({ entity, id }: { entity: TrashEntity; id: string }) =>
+      api.post(`/${entity}/${id}/restore`),
+    onSettled: (_, __, { entity }) => {
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+      if (entity === "projects") {
+        queryClient.invalidateQueries({ queryKey: queryKeys.projects() });
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.deletedProjects(),
+        });
+      } else if (projectId) {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.layers(projectId),
+        });
+        queryClient.invalidateQueries({ queryKey: queryKeys.paths(projectId) });
+      }
+    },
+  });
+
+  function restore(entity: TrashEntity, id: string) {
+    return restoreMutation.mutateAsync({ entity, id });
+  }
+
+  return { trash, deletedProjects, restore };
+}
@@ -1,6 +1,8 @@
 // API response shapes — mirrors what the server's Drizzle queries return.
 // Keep in sync with the server's Drizzle schema in packages/db/src/schema.ts.
 
+export type ApiProjectRole = "viewer" | "editor" | "owner";
+
 export interface ApiProject {
   id: string;
   name: string;
@@ -9,6 +11,8 @@ export interface ApiProject {
   createdAt: string;
   updatedAt: string;
   deletedAt: string | null;
+  /** The caller's role; returned by the project list and on create. */
+  role?: ApiProjectRole;
 }
 
 export interface ApiLayer {
@@ -29,6 +33,14 @@ export interface ApiPath {
   isClosed: boolean;
   isHidden: boolean;
   layerId: string;
+  // Source attributes kept from an import (e.g. shapefile DBF fields)
+  metadata: Record<string, unknown> | null;
+  // Geodesic measurements of the stored geometry (metres / m²), server-computed
+  lengthM: number;
+  length3dM: number;
+  areaM2: number;
+  // Sent back on PATCH; the server refuses (409) an edit of a stale version
+  version: number;
   createdAt: string;
   updatedAt: string;
   deletedAt: string | null;
@@ -40,7 +52,191 @@ export interface ApiPathNode {
   position: number;
   pathId: string;
   point: { lng: number; lat: number; z: number };
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt: string | null;
+}
+
+// Returned by the transactional create/append endpoints
+export interface ApiPathWithNodes extends ApiPath {
+  nodes: ApiPathNode[];
+}
+
+export interface ApiIdentifyVertex {
+  id: string;
+  name: string;
+  position: number;
+  lng: number;
+  lat: number;
+  z: number;
+}
+
+// GET /paths/identify — nearest assets to a point, nearest first
+export interface ApiIdentifyResult {
+  paths: (ApiPath & {
+    layerName: string;
+    distanceM: number;
+    closestVertex: ApiIdentifyVertex | null;
+  })[];
+  nodes: (ApiPathNode & { pathName: string; distanceM: number })[];
+}
+
+export interface ApiConflictPath {
+  id: string;
+  name: string;
+  color: string;
+  layerId: string;
+  // APWA utility type matched from the path colour
+  utility: string | null;
+}
+
+// GET /projects/:id/conflicts — path pairs inside both their horizontal and
+// vertical clearance
+export interface ApiConflict {
+  pathA: ApiConflictPath;
+  pathB: ApiConflictPath;
+  distance3dM: number;
+  horizontalM: number;
+  verticalM: number;
+  requiredHorizontalM: number;
+  requiredVerticalM: number;
+  // Point on pathA closest to pathB
+  point: { lng: number; lat: number; z: number };
+}
+
+// GET /projects/:id/cover-violations — paths whose shallowest node is above
+// their utility's minimum depth of cover
+export interface ApiCoverViolation {
+  path: ApiConflictPath;
+  node: { id: string; name: string };
+  coverM: number;
+  requiredCoverM: number;
+  point: { lng: number; lat: number; z: number };
+}
+
+// GET /organizations/:id/clearance-rules — utilityA <= utilityB; minCoverM is
+// only set when both are the same type
+export interface ApiClearanceRule {
+  id: string;
+  organizationId: string;
+  utilityA: string;
+  utilityB: string;
+  horizontalClearanceM: number;
+  verticalClearanceM: number;
+  minCoverM: number | null;
   createdAt: string;
   updatedAt: string;
   deletedAt: string | null;
 }
+
+// POST /projects/:id/import
+export interface ApiImportResult {
+  layer: ApiLayer;
+  paths: ApiPath[];
+  nodeCount: number;
+  skipped: number;
+}
+
+// POST /projects/:id/import/file?dryRun=true
+export interface ApiImportPreview {
+  pathCount: number;
+  nodeCount: number;
+  skipped: number;
+  extent: [number, number, number, number] | null;
+  // Shapefile DBF fields, usable as nameProperty
+  attributeKeys: string[];
+}
+
+// POST /projects/:id/invitations (one per recipient)
+export interface ApiProjectInvitation {
+  id: string;
+  projectId: string;
+  email: string;
+  role: ApiProjectRole;
+  invitedById: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+  createdAt: string;
+}
+
+// POST /invitations/accept — the project joined and the caller's role in it
+export interface ApiAcceptedInvitation {
+  projectId: string;
+  role: ApiProjectRole;
+}
+
+// POST /projects/:id/share-links; the token opens the project read-only
+export interface ApiShareLink {
+  id: string;
+  projectId: string;
+  label: string | null;
+  // null shares every layer of the project
+  layerIds: string[] | null;
+  createdById: string;
+  expiresAt: string;
+  createdAt: string;
+  token: string;
+}
+
+// GET /shared/project — what a share token opens
+export interface ApiSharedProject {
+  id: string;
+  name: string;
+  label: string | null;
+  layerIds: string[] | null;
+  expiresAt: string;
+}
+
+// GET /projects/:id/trash — deleted layers and paths, newest first
+export interface ApiTrash {
+  layers: { id: string; name: string; deletedAt: string }[];
+  paths: {
+    id: string;
+    name: string;
+    color: string;
+    layerId: string;
+    layerName: string;
+    // Restoring the path needs its layer restored first
+    isLayerDeleted: boolean;
+    deletedAt: string;
+  }[];
+}
+
+// GET /projects/trash — deleted projects the caller is a member of
+export interface ApiDeletedProject {
+  id: string;
+  name: string;
+  deletedAt: string;
+  role: ApiProjectRole;
+}
+
+// GET /projects/:id/events — one message per kind of change a write made,
+// with the rows as they read back after it
+export type ApiProjectEvent = {
+  projectId: string;
+  action: "create" | "update" | "delete" | "restore";
+  actorId: string | null;
+  // The X-Client-Id of the tab that made the change
+  originId: string | null;
+} & (
+  | { entityType: "project"; rows: ApiProject[] }
+  | { entityType: "layer"; rows: ApiLayer[] }
+  | { entityType: "path"; rows: ApiPath[] }
+  | { entityType: "path_node"; rows: ApiPathNode[] }
+);
+
+// GET /projects/:id/events, "presence" messages — one entry per open tab
+export interface ApiPresence {
+  clientId: string;
+  profileId: string;
+  name: string;
+  avatarUrl: string | null;
+  cursor: { lng: number; lat: number } | null;
+  editingPathId: string | null;
+}
+
+export interface ApiPresenceMessage {
+  projectId: string;
+  users: ApiPresence[];
+}
@@ -1,8 +1,13 @@
-import axios from "axios";
+import axios, { isAxiosError } from "axios";
+import { randomUuid } from "@/lib/random-uuid";
 
 let accessToken: string | null = null;
+// Set on the public /share route; reads then go to the server's /shared API
+let shareToken: string | null = null;
 let baseURL = process.env.NEXT_PUBLIC_API_URL ?? "";
 
+let clientId: string | null = null;
+
 export function initApi(config: { baseURL: string }) {
   baseURL = config.baseURL;
 }
@@ -11,6 +16,31 @@ export function setAccessToken(token: string | null) {
   accessToken = token;
 }
 
+export function setShareToken(token: string | null) {
+  shareToken = token;
+}
+
+export function getShareToken() {
+  return shareToken;
+}
+
+/**
+ * Identifies this tab's writes in the server's change events, so it can skip
+ * its own echoes. Made on first use rather than at import.
+ */
+export function getClientId() {
+  clientId ??= randomUuid();
+  return clientId;
+}
+
+/**
+ * The route to read from: under a share token, its mirror in the public
+ * /shared API, which scopes every read to the token's project.
+ */
+export function readPath(path: string) {
+  return shareToken ? `/shared${path}` : path;
+}
+
 const api = axios.create({
   baseURL,
 });
@@ -19,7 +49,78 @@ api.interceptors.request.use((config) => {
   if (accessToken) {
     config.headers.Authorization = `Bearer ${accessToken}`;
   }
+  if (shareToken) {
+    config.headers["X-Share-Token"] = shareToken;
+  }
+  config.headers["X-Client-Id"] = getClientId();
   return config;
 });
 
+/**
+ * Reads the server-sent events at `path`, handing each message's type
+ * ("message" unless named) and parsed data to `onData`, until the server ends
+ * the stream or `signal` aborts. Uses fetch because EventSource cannot send
+ * the bearer token.
+ */
+export async function readEventStream(
+  path: string,
+  handlers: {
+    onOpen: () => void;
+    onData: (type: string, data: unknown) => void;
+  },
+  signal: AbortSignal,
+) {
+  const res = await fetch(`${baseURL}${path}`, {
+    headers: {
+      Accept: "text/event-stream",
+      "X-Client-Id": getClientId(),
+      ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+    },
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    throw new Error(`Event stream failed with status ${res.status}`);
+  }
+  handlers.onOpen();
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    // Messages end with a blank line; the last piece may be incomplete
+    const messages = (buffered + value).split("\n\n");
+    buffered = messages.pop() ?? "";
+    for (const message of messages) {
+      const lines = message.split("\n");
+      const field = (name: string) =>
+        lines
+          .filter((line) => line.startsWith(`${name}:`))
+          .map((line) => line.slice(name.length + 1).trimStart());
+      const data = field("data").join("\n");
+      if (data)
+        handlers.onData(field("event")[0] ?? "message", JSON.parse(data));
+    }
+  }
+}
+
+/** The server's error message for a failed request, else the fallback. */
+export function errorMessage(err: unknown, fallback: string) {
+  if (isAxiosError(err)) {
+    const message = (err.response?.data as { message?: string } | undefined)
+      ?.message;
+    if (message) return message;
+  }
+  return err instanceof Error ? err.message : fallback;
+}
+
+/**
+ * The record(s) as the server has them now, when a write was refused (409)
+ * because it was based on a stale version; otherwise null.
+ */
+export function conflictCurrent<T>(err: unknown): T | null {
+  if (!isAxiosError(err) || err.response?.status !== 409) return null;
+  return (err.response.data as { current?: T } | undefined)?.current ?? null;
+}
+
 export default api;
@@ -0,0 +1,20 @@
+/** Saves a blob through a temporary object-URL anchor. */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** Reads `filename="..."` from a Content-Disposition header. */
+export function filenameFromDisposition(
+  header: string | undefined,
+  fallback: string,
+): string {
+  const match = header?.match(/filename="?([^";]+)"?/i);
+  return match?.[1] ?? fallback;
+}
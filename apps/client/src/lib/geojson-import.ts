@@ -0,0 +1,95 @@
+// Client-side preview of a GeoJSON file before it is sent to
+// POST /projects/:id/import. Mirrors the server's geometry rules: lines and
+// polygons (and their Multi* forms) are importable, everything else is skipped.
+
+const IMPORTABLE_TYPES = new Set([
+  "LineString",
+  "MultiLineString",
+  "Polygon",
+  "MultiPolygon",
+]);
+
+export type Extent = [minLng: number, minLat: number, maxLng: number, maxLat: number];
+
+export interface GeoJsonImportSummary {
+  featureCount: number;
+  importableCount: number;
+  extent: Extent | null;
+  propertyKeys: string[];
+}
+
+/** Parses file text as a FeatureCollection, throwing a readable error. */
+export function parseFeatureCollection(text: string): GeoJSON.FeatureCollection {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+  const fc = parsed as GeoJSON.FeatureCollection;
+  if (fc?.type !== "FeatureCollection" || !Array.isArray(fc.features)) {
+    throw new Error("File is not a GeoJSON FeatureCollection");
+  }
+  return fc;
+}
+
+function extendExtent(extent: Extent | null, coords: unknown): Extent | null {
+  if (!Array.isArray(coords)) return extent;
+  if (typeof coords[0] === "number" && typeof coords[1] === "number") {
+    const [lng, lat] = coords as number[];
+    if (!extent) return [lng, lat, lng, lat];
+    return [
+      Math.min(extent[0], lng),
+      Math.min(extent[1], lat),
+      Math.max(extent[2], lng),
+      Math.max(extent[3], lat),
+    ];
+  }
+  return coords.reduce<Extent | null>(extendExtent, extent);
+}
+
+export function summarizeFeatureCollection(
+  fc: GeoJSON.FeatureCollection,
+): GeoJsonImportSummary {
+  let importableCount = 0;
+  let extent: Extent | null = null;
+  const keys = new Set<string>();
+
+  for (const feature of fc.features) {
+    const geometry = feature?.geometry;
+    if (geometry && IMPORTABLE_TYPES.has(geometry.type)) {
+      importableCount++;
+      extent = extendExtent(
+        extent,
+        (geometry as GeoJSON.LineString | GeoJSON.Polygon).coordinates,
+      );
+    }
+    for (const key of Object.keys(feature?.properties ?? {})) keys.add(key);
+  }
+
+  return {
+    featureCount: fc.features.length,
+    importableCount,
+    extent,
+    propertyKeys: [...keys].sort(),
+  };
+}
+
+/** Distinct stringified values of a property, most frequent first. */
+export function distinctPropertyValues(
+  fc: GeoJSON.FeatureCollection,
+  key: string,
+  limit: number,
+): string[] {
+  const counts = new Map<string, number>();
+  for (const feature of fc.features) {
+    const value = feature?.properties?.[key];
+    if (value === undefined || value === null) continue;
+    const str = String(value);
+    counts.set(str, (counts.get(str) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
@@ -1,4 +1,5 @@
 import type { Node, DrawnPath } from "./types";
+import { randomUuid } from "../random-uuid";
 
 export interface AreNodesAdjacentFn {
   (path: DrawnPath, nodeId1: string, nodeId2: string): boolean;
@@ -36,7 +37,7 @@ export const areNodesAdjacent: AreNodesAdjacentFn = (
  * a fresh id; the caller is responsible for inserting it into a path.
  */
 export const computeMidpointNode: ComputeMidpointNodeFn = (node1, node2) => ({
-  id: crypto.randomUUID(),
+  id: randomUuid(),
   name: "",
   coords: [
     (node1.coords[0] + node2.coords[0]) / 2,
@@ -1,6 +1,12 @@
-import { GeoJsonLayer, TextLayer } from "@deck.gl/layers";
+import { GeoJsonLayer, ScatterplotLayer, TextLayer } from "@deck.gl/layers";
 import type { PickingInfo } from "@deck.gl/core";
 import type { Node, DrawnPath } from "@/lib/geometry/types";
+import type {
+  ApiConflict,
+  ApiCoverViolation,
+  ApiPresence,
+} from "@/lib/api-types";
+import { presenceColor } from "@/lib/presence";
 
 // ---------------------------------------------------------------------------
 // Utilities
@@ -402,3 +408,136 @@ export function buildClosedAreaLabelsLayer(
     },
   });
 }
+
+/**
+ * Red markers where two paths come closer than their required clearance, and
+ * orange ones at the shallowest node of paths with too little cover. Each
+ * feature carries its conflict or cover violation for hover tooltips.
+ */
+export function buildConflictsLayer(
+  conflicts: ApiConflict[],
+  coverViolations: ApiCoverViolation[] = [],
+): GeoJsonLayer | null {
+  if (conflicts.length === 0 && coverViolations.length === 0) return null;
+  return new GeoJsonLayer({
+    id: "conflicts",
+    data: {
+      type: "FeatureCollection" as const,
+      features: [
+        ...conflicts.map((c) => ({
+          type: "Feature" as const,
+          geometry: {
+            type: "Point" as const,
+            coordinates: [c.point.lng, c.point.lat],
+          },
+          properties: { conflict: c },
+        })),
+        ...coverViolations.map((v) => ({
+          type: "Feature" as const,
+          geometry: {
+            type: "Point" as const,
+            coordinates: [v.point.lng, v.point.lat],
+          },
+          properties: { coverViolation: v },
+        })),
+      ],
+    },
+    getFillColor: (f: GeoJSON.Feature) => {
+      const props = f.properties as { coverViolation?: ApiCoverViolation };
+      return (
+        props.coverViolation ? [255, 140, 0, 235] : [230, 30, 30, 235]
+      ) as [number, number, number, number];
+    },
+    getLineColor: [255, 255, 255, 230] as [number, number, number, number],
+    getPointRadius: 9,
+    pointRadiusMinPixels: 8,
+    filled: true,
+    stroked: true,
+    getLineWidth: 2,
+    lineWidthMinPixels: 2,
+    pickable: true,
+  });
+}
+
+/** Other people's pointers on the map, in their presence colors. */
+export function buildPresenceCursorsLayer(
+  users: ApiPresence[],
+): ScatterplotLayer<ApiPresence> | null {
+  const pointing = users.filter((u) => u.cursor);
+  if (pointing.length === 0) return null;
+  return new ScatterplotLayer<ApiPresence>({
+    id: "presence-cursors",
+    data: pointing,
+    getPosition: (u) => [u.cursor!.lng, u.cursor!.lat],
+    getFillColor: (u) =>
+      [...hexToRgb(presenceColor(u.profileId)), 255] as [
+        number,
+        number,
+        number,
+        number,
+      ],
+    getLineColor: [255, 255, 255, 230] as [number, number, number, number],
+    getRadius: 5,
+    radiusUnits: "pixels" as const,
+    stroked: true,
+    lineWidthMinPixels: 1.5,
+  });
+}
+
+type PresenceLabel = {
+  position: [number, number];
+  text: string;
+  color: string;
+  isCursor: boolean;
+};
+
+/**
+ * Names beside other people's cursors, and "<name> is editing" under the
+ * centroid of each path someone else has in edit mode.
+ */
+export function buildPresenceLabelsLayer(
+  users: ApiPresence[],
+  paths: DrawnPath[],
+): TextLayer<PresenceLabel> | null {
+  const labels: PresenceLabel[] = [];
+  for (const user of users) {
+    const color = presenceColor(user.profileId);
+    if (user.cursor) {
+      labels.push({
+        position: [user.cursor.lng, user.cursor.lat],
+        text: user.name,
+        color,
+        isCursor: true,
+      });
+    }
+    const editing = paths.find((p) => p.id === user.editingPathId);
+    if (editing && editing.nodes.length > 0) {
+      labels.push({
+        position: computeCentroid(editing.nodes),
+        text: `${user.name} is editing`,
+        color,
+        isCursor: false,
+      });
+    }
+  }
+  if (labels.length === 0) return null;
+  return new TextLayer<PresenceLabel>({
+    id: "presence-labels",
+    data: labels,
+    getPosition: (l) => l.position,
+    getText: (l) => l.text,
+    getColor: (l) =>
+      [...hexToRgb(l.color), 255] as [number, number, number, number],
+    getPixelOffset: (l) => (l.isCursor ? [8, -10] : [0, 16]),
+    getTextAnchor: (l) => (l.isCursor ? "start" : "middle"),
+    getAlignmentBaseline: "center" as const,
+    getSize: 12,
+    sizeUnits: "pixels" as const,
+    characterSet: "auto",
+    fontFamily: "system-ui, -apple-system, sans-serif",
+    fontWeight: 600,
+    fontSettings: { sdf: true },
+    outlineWidth: 3,
+    outlineColor: [0, 0, 0, 200] as [number, number, number, number],
+  });
+}
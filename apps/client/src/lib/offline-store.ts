@@ -0,0 +1,71 @@
+// What the app keeps in IndexedDB to work without a connection: the query
+// cache and the queue of writes not yet sent, each kept per signed-in user
+const DB_NAME = "utilitix-offline";
+const STORE = "records";
+const RECORD_KEYS = ["query-cache", "write-queue"] as const;
+
+export type OfflineRecordKey = (typeof RECORD_KEYS)[number];
+
+let opening: Promise<IDBDatabase> | null = null;
+// Whose records reads and writes go to; none until someone signs in
+let userId: string | null = null;
+
+/** Points reads and writes at `id`'s records, or at none. */
+export function setOfflineUser(id: string | null) {
+  userId = id;
+}
+
+function openDb() {
+  opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return opening;
+}
+
+async function run<T>(
+  mode: IDBTransactionMode,
+  op: (store: IDBObjectStore) => IDBRequest,
+) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const req = op(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function storeKey(key: OfflineRecordKey, id: string) {
+  return `${key}:${id}`;
+}
+
+/** Reads the signed-in user's record; there is none when nobody is. */
+export async function readRecord<T>(key: OfflineRecordKey) {
+  const id = userId;
+  if (!id) return undefined;
+  return run<T | undefined>("readonly", (store) =>
+    store.get(storeKey(key, id)),
+  );
+}
+
+/** Saves the signed-in user's record; without one nothing is kept. */
+export async function writeRecord(key: OfflineRecordKey, value: unknown) {
+  const id = userId;
+  if (!id) return;
+  await run("readwrite", (store) => store.put(value, storeKey(key, id)));
+}
+
+/**
+ * Deletes the signed-in user's records and stops keeping any, so the next
+ * person to use the browser sees none of them.
+ */
+export async function clearOfflineRecords() {
+  const id = userId;
+  userId = null;
+  if (!id) return;
+  for (const key of RECORD_KEYS) {
+    await run("readwrite", (store) => store.delete(storeKey(key, id)));
+  }
+}
@@ -0,0 +1,29 @@
+// Distinct on the dark map and panels; a user keeps theirs across tabs
+const PRESENCE_COLORS = [
+  "#f97316",
+  "#22c55e",
+  "#a855f7",
+  "#eab308",
+  "#ec4899",
+  "#14b8a6",
+  "#f43f5e",
+  "#84cc16",
+];
+
+/** The color of a user's avatar ring, cursor and editing label. */
+export function presenceColor(profileId: string) {
+  let hash = 0;
+  for (const char of profileId) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+}
+
+export function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
@@ -0,0 +1,122 @@
+import { getClientId, readEventStream } from "@/lib/api";
+import type { ApiPresenceMessage, ApiProjectEvent } from "@/lib/api-types";
+
+export interface ProjectEventListener {
+  onEvent?: (event: ApiProjectEvent) => void;
+  // Everyone with the project open, sent on connect and on every change
+  onPresence?: (message: ApiPresenceMessage) => void;
+  // The stream dropped and is back; whatever changed in between was missed
+  onReconnect?: () => void;
+}
+
+type ProjectStream = {
+  listeners: Set<ProjectEventListener>;
+  controller: AbortController;
+};
+
+const RETRY_MIN_MS = 1_000;
+const RETRY_MAX_MS = 30_000;
+
+// One connection per project, however many hooks listen to it
+const streams = new Map<string, ProjectStream>();
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+}
+
+async function connect(projectId: string, stream: ProjectStream) {
+  const { signal } = stream.controller;
+  let retryMs = RETRY_MIN_MS;
+  let hasConnected = false;
+  while (!signal.aborted) {
+    try {
+      await readEventStream(
+        `/projects/${projectId}/events`,
+        {
+          onOpen: () => {
+            if (hasConnected) {
+              stream.listeners.forEach((listener) => listener.onReconnect?.());
+            }
+            hasConnected = true;
+            retryMs = RETRY_MIN_MS;
+          },
+          onData: (type, data) => {
+            if (type === "presence") {
+              const message = data as ApiPresenceMessage;
+              stream.listeners.forEach((listener) =>
+                listener.onPresence?.(message),
+              );
+              return;
+            }
+            const event = data as ApiProjectEvent;
+            // This tab's own writes are already in its caches
+            if (event.originId === getClientId()) return;
+            stream.listeners.forEach((listener) => listener.onEvent?.(event));
+          },
+        },
+        signal,
+      );
+    } catch {
+      // Dropped or refused; retried below unless unsubscribed
+    }
+    await wait(retryMs, signal);
+    retryMs = Math.min(retryMs * 2, RETRY_MAX_MS);
+  }
+}
+
+/**
+ * Listens to the changes other tabs and people make to a project, as the
+ * server broadcasts them, reconnecting with backoff when the stream drops.
+ * Returns the unsubscribe function.
+ */
+export function subscribeToProject(
+  projectId: string,
+  listener: ProjectEventListener,
+) {
+  let stream = streams.get(projectId);
+  if (!stream) {
+    stream = { listeners: new Set(), controller: new AbortController() };
+    streams.set(projectId, stream);
+    void connect(projectId, stream);
+  }
+  stream.listeners.add(listener);
+
+  const subscribed = stream;
+  return () => {
+    subscribed.listeners.delete(listener);
+    if (subscribed.listeners.size === 0) {
+      subscribed.controller.abort();
+      streams.delete(projectId);
+    }
+  };
+}
+
+/**
+ * `list` with each of `rows` in place of the entry with its ID, or appended.
+ * A row older than the cached entry's `version` is skipped: an event can
+ * arrive after a refetch that already holds a later edit.
+ */
+export function mergeRows<T extends { id: string; version?: number }>(
+  list: T[],
+  rows: T[],
+): T[] {
+  const cached = new Map(list.map((item) => [item.id, item]));
+  const fresh = rows.filter(
+    (row) => (cached.get(row.id)?.version ?? 0) <= (row.version ?? 0),
+  );
+  const byId = new Map(fresh.map((row) => [row.id, row]));
+  return [
+    ...list.map((item) => byId.get(item.id) ?? item),
+    ...fresh.filter((row) => !cached.has(row.id)),
+  ];
+}
@@ -3,4 +3,16 @@ export const queryKeys = {
   layers: (projectId: string) => ["layers", projectId] as const,
   paths: (projectId: string) => ["paths", projectId] as const,
   pathNodes: (pathId: string) => ["path-nodes", pathId] as const,
+  conflicts: (projectId: string, geometryKey: string) =>
+    ["conflicts", projectId, geometryKey] as const,
+  coverViolations: (projectId: string, geometryKey: string) =>
+    ["cover-violations", projectId, geometryKey] as const,
+  clearanceRules: (organizationId: string) =>
+    ["clearance-rules", organizationId] as const,
+  identify: (projectId: string, lng: number, lat: number) =>
+    ["identify", projectId, lng, lat] as const,
+  shareLinks: (projectId: string) => ["share-links", projectId] as const,
+  sharedProject: () => ["shared-project"] as const,
+  trash: (projectId: string) => ["trash", projectId] as const,
+  deletedProjects: () => ["deleted-projects"] as const,
 };
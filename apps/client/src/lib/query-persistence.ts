@@ -0,0 +1,55 @@
+import {
+  dehydrate,
+  hydrate,
+  type DehydratedState,
+  type QueryClient,
+} from "@tanstack/react-query";
+import { getShareToken } from "@/lib/api";
+import { readRecord, writeRecord } from "@/lib/offline-store";
+
+type PersistedCache = { savedAt: number; state: DehydratedState };
+
+// Older than this, a saved cache is more likely to mislead than help
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const SAVE_DEBOUNCE_MS = 1000;
+
+/**
+ * Loads the cache saved by persistQueryCache into `client`, so the last
+ * projects, layers and paths show without a connection. Queries the client
+ * has fetched since keep their newer data.
+ */
+export async function restoreQueryCache(client: QueryClient) {
+  try {
+    const saved = await readRecord<PersistedCache>("query-cache");
+    if (saved && Date.now() - saved.savedAt < MAX_AGE_MS) {
+      hydrate(client, saved.state);
+    }
+  } catch {
+    // No IndexedDB (e.g. private browsing): start from the server as before
+  }
+}
+
+/**
+ * Saves `client`'s successful queries to IndexedDB shortly after each change.
+ * Share-link views are read-only and scoped to a token, so they are not
+ * saved. Returns the unsubscribe.
+ */
+export function persistQueryCache(client: QueryClient) {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const unsubscribe = client.getQueryCache().subscribe(() => {
+    if (timer || getShareToken()) return;
+    timer = setTimeout(() => {
+      timer = null;
+      writeRecord("query-cache", {
+        savedAt: Date.now(),
+        state: dehydrate(client),
+      } satisfies PersistedCache).catch(() => {});
+    }, SAVE_DEBOUNCE_MS);
+  });
+
+  return () => {
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+  };
+}
@@ -0,0 +1,367 @@
+import { isAxiosError } from "axios";
+import api, { errorMessage } from "@/lib/api";
+import { readRecord, writeRecord } from "@/lib/offline-store";
+import { randomUuid } from "@/lib/random-uuid";
+
+/** A write to send to the server, kept until it has been. */
+export interface WriteRequest {
+  method: "post" | "patch" | "delete";
+  url: string;
+  body?: unknown;
+  // What the user did, e.g. "Rename path"; names the write if it is refused
+  label: string;
+  // Temp IDs the response gives server IDs for, each with the response field
+  // holding it, e.g. "id" or "nodes.-1.id" (negative indexes count from the end)
+  tempIds?: { tempId: string; field: string }[];
+}
+
+export interface QueuedWrite extends WriteRequest {
+  id: string;
+  queuedAt: string;
+  // For each record whose version the body sends, the writes queued ahead
+  // of it then that touch the record, oldest first
+  versionSources?: Record<string, string[]>;
+}
+
+/** A queued write the server turned down when it was finally sent. */
+export interface RejectedWrite {
+  write: QueuedWrite;
+  status: number;
+  message: string;
+  rejectedAt: string;
+}
+
+export interface SyncStatus {
+  state: "synced" | "syncing" | "offline";
+  pending: number;
+  rejected: RejectedWrite[];
+}
+
+type PersistedQueue = {
+  writes: QueuedWrite[];
+  rejected: RejectedWrite[];
+  idMap: Record<string, string>;
+  versions?: Record<string, Record<string, number>>;
+};
+
+const RETRY_MIN_MS = 2_000;
+const RETRY_MAX_MS = 60_000;
+
+let writes: QueuedWrite[] = [];
+let rejected: RejectedWrite[] = [];
+// Temp ID → server ID, for writes queued before the create they refer to ran
+let idMap: Record<string, string> = {};
+// Write ID → the record versions its response carried, until the queue empties
+let producedVersions: Record<string, Record<string, number>> = {};
+// Callers still waiting on their write; gone after a reload
+const waiters = new Map<
+  string,
+  { resolve: (data: unknown) => void; reject: (err: unknown) => void }
+>();
+
+let loaded: Promise<void> = Promise.resolve();
+let saving: Promise<void> = Promise.resolve();
+let isStarted = false;
+let isFlushing = false;
+let isOffline = false;
+// Writes waited on a connection (or a reload); the caches may be behind
+let isCatchingUp = false;
+let retryMs = RETRY_MIN_MS;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let onSynced: (() => void) | undefined;
+
+const listeners = new Set<() => void>();
+let status: SyncStatus = { state: "synced", pending: 0, rejected: [] };
+
+function notify() {
+  status = {
+    state: isOffline ? "offline" : writes.length > 0 ? "syncing" : "synced",
+    pending: writes.length,
+    rejected,
+  };
+  listeners.forEach((listener) => listener());
+}
+
+function save() {
+  const snapshot: PersistedQueue = {
+    writes,
+    rejected,
+    // Only writes still queued can refer to a temp ID or an earlier version
+    idMap: writes.length > 0 ? idMap : {},
+    versions: writes.length > 0 ? producedVersions : {},
+  };
+  saving = saving
+    .then(() => writeRecord("write-queue", snapshot))
+    .catch(() => {});
+}
+
+// UUIDs don't occur by chance, so swapping them as text is safe
+function remapIds<T>(value: T): T {
+  const entries = Object.entries(idMap);
+  if (entries.length === 0 || value === undefined) return value;
+  let text = JSON.stringify(value);
+  for (const [tempId, serverId] of entries) {
+    text = text.split(tempId).join(serverId);
+  }
+  return JSON.parse(text) as T;
+}
+
+function readField(data: unknown, field: string) {
+  let value = data;
+  for (const part of field.split(".")) {
+    if (Array.isArray(value)) {
+      const index = Number(part);
+      value = value[index < 0 ? value.length + index : index];
+    } else {
+      value = (value as Record<string, unknown> | null)?.[part];
+    }
+  }
+  return typeof value === "string" ? value : null;
+}
+
+function collectVersions(value: unknown, into: Record<string, number>) {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectVersions(item, into));
+    return into;
+  }
+  if (!value || typeof value !== "object") return into;
+  const { id, version } = value as { id?: unknown; version?: unknown };
+  if (typeof id === "string" && typeof version === "number") {
+    into[id] = version;
+  }
+  Object.values(value).forEach((item) => collectVersions(item, into));
+  return into;
+}
+
+// Rewrites each version the body sends (a record's own, or its nodes'),
+// given the ID of the record it belongs to
+function mapVersions(
+  url: string,
+  body: unknown,
+  fn: (id: string, version: number) => number,
+) {
+  if (!body || typeof body !== "object") return body;
+  const next = { ...(body as Record<string, unknown>) };
+  if (typeof next.version === "number") {
+    next.version = fn(url.split("/").pop() ?? "", next.version);
+  }
+  if (Array.isArray(next.nodes)) {
+    next.nodes = next.nodes.map((n: { id?: string; version?: unknown }) =>
+      typeof n.version === "number" && n.id
+        ? { ...n, version: fn(n.id, n.version) }
+        : n,
+    );
+  }
+  return next;
+}
+
+// The edit was based on the version in the cache when it was queued, so
+// only writes queued ahead of it that touch the same record can have moved
+// that version on; any other change is someone else's and should conflict
+function versionSourcesOf(request: WriteRequest) {
+  const sources: Record<string, string[]> = {};
+  mapVersions(request.url, request.body, (id, version) => {
+    const touching = writes
+      .filter((w) => JSON.stringify([w.url, w.body]).includes(id))
+      .map((w) => w.id);
+    if (touching.length > 0) sources[id] = touching;
+    return version;
+  });
+  return Object.keys(sources).length > 0 ? sources : undefined;
+}
+
+function withQueuedVersions(write: QueuedWrite, url: string, body: unknown) {
+  const sources = remapIds(write.versionSources);
+  if (!sources) return body;
+  return mapVersions(url, body, (id, version) => {
+    for (const writeId of [...(sources[id] ?? [])].reverse()) {
+      const produced = producedVersions[writeId]?.[id];
+      if (produced !== undefined) return produced;
+    }
+    return version;
+  });
+}
+
+// No answer, or one that may be different if asked again later
+function isTransient(err: unknown) {
+  if (!isAxiosError(err)) return false;
+  if (!err.response) return true;
+  const { status } = err.response;
+  return status >= 500 || status === 401 || status === 408 || status === 429;
+}
+
+function scheduleRetry() {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flush();
+  }, retryMs);
+  retryMs = Math.min(retryMs * 2, RETRY_MAX_MS);
+}
+
+async function send(write: QueuedWrite) {
+  const url = remapIds(write.url);
+  const res = await api.request({
+    method: write.method,
+    url,
+    data: withQueuedVersions(write, url, remapIds(write.body)),
+  });
+  return res.data as unknown;
+}
+
+// Sends queued writes one at a time, oldest first, stopping at the first
+// that gets no answer and picking up from it on the next attempt
+async function flush() {
+  if (isFlushing || writes.length === 0) return;
+  if (!navigator.onLine) {
+    isOffline = isCatchingUp = true;
+    notify();
+    return;
+  }
+  isFlushing = true;
+  try {
+    while (writes.length > 0) {
+      const write = writes[0];
+      let data: unknown;
+      try {
+        data = await send(write);
+      } catch (err) {
+        if (isTransient(err)) {
+          isOffline = isCatchingUp = true;
+          scheduleRetry();
+          return;
+        }
+        writes = writes.slice(1);
+        // Refusals of writes sent as they were made reach their caller
+        // alone; ones that had to wait are listed for the user to review
+        if (isCatchingUp) {
+          rejected = [
+            ...rejected,
+            {
+              write,
+              status: isAxiosError(err) ? (err.response?.status ?? 0) : 0,
+              message: errorMessage(err, "Refused by the server"),
+              rejectedAt: new Date().toISOString(),
+            },
+          ];
+        }
+        save();
+        waiters.get(write.id)?.reject(err);
+        waiters.delete(write.id);
+        continue;
+      }
+
+      for (const { tempId, field } of write.tempIds ?? []) {
+        const serverId = readField(data, field);
+        if (serverId && serverId !== tempId) idMap[tempId] = serverId;
+      }
+      producedVersions[write.id] = collectVersions(data, {});
+      isOffline = false;
+      retryMs = RETRY_MIN_MS;
+      writes = writes.slice(1);
+      save();
+      notify();
+      waiters.get(write.id)?.resolve(data);
+      waiters.delete(write.id);
+    }
+    producedVersions = {};
+    if (isCatchingUp) {
+      isCatchingUp = false;
+      onSynced?.();
+    }
+  } finally {
+    isFlushing = false;
+    notify();
+  }
+}
+
+/**
+ * Loads the writes a previous session left unsent and starts sending them,
+ * and any queued later, whenever the browser is online. `onSynced` runs each
+ * time the queue empties after writes had to wait, when data read in the
+ * meantime may be missing them. Later calls do nothing.
+ */
+export function startWriteQueue(options: { onSynced?: () => void } = {}) {
+  if (isStarted) return;
+  isStarted = true;
+  isOffline = !navigator.onLine;
+  onSynced = options.onSynced;
+
+  loaded = readRecord<PersistedQueue>("write-queue")
+    .then((saved) => {
+      if (!saved) return;
+      writes = [...saved.writes, ...writes];
+      rejected = saved.rejected;
+      idMap = { ...saved.idMap, ...idMap };
+      producedVersions = { ...saved.versions, ...producedVersions };
+      if (saved.writes.length > 0) isCatchingUp = true;
+    })
+    .catch(() => {
+      // No IndexedDB: the queue still works, for this session only
+    })
+    .finally(() => {
+      notify();
+      flush();
+    });
+
+  window.addEventListener("online", () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    retryMs = RETRY_MIN_MS;
+    isOffline = false;
+    notify();
+    flush();
+  });
+  window.addEventListener("offline", () => {
+    isOffline = true;
+    notify();
+  });
+}
+
+/**
+ * Sends a write after every write queued before it, keeping it in
+ * IndexedDB until then so it survives a lost connection or a reload. Temp IDs
+ * in the URL or body are swapped for the server IDs earlier writes were
+ * given, and versions it sends for records those writes changed for the
+ * versions they returned. Settles with the response data once sent, or
+ * rejects if the server refuses it.
+ */
+export function queueWrite<T>(request: WriteRequest): Promise<T> {
+  const write: QueuedWrite = {
+    ...request,
+    id: randomUuid(),
+    queuedAt: new Date().toISOString(),
+  };
+  const result = new Promise<T>((resolve, reject) => {
+    waiters.set(write.id, {
+      resolve: resolve as (data: unknown) => void,
+      reject,
+    });
+  });
+  loaded.then(() => {
+    write.versionSources = versionSourcesOf(write);
+    writes = [...writes, write];
+    save();
+    notify();
+    flush();
+  });
+  return result;
+}
+
+/** Clears one refused write from the list, or all of them. */
+export function dismissRejected(writeId?: string) {
+  rejected = writeId ? rejected.filter((r) => r.write.id !== writeId) : [];
+  save();
+  notify();
+}
+
+export function getSyncStatus() {
+  return status;
+}
+
+export function subscribeToSync(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
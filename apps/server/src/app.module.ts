@@ -8,6 +8,10 @@ import { LayersModule } from './layers/layers.module';
 import { PathsModule } from './paths/paths.module';
 import { PathNodesModule } from './path-nodes/path-nodes.module';
 import { AuthModule } from './auth/auth.module';
+import { InvitationsModule } from './invitations/invitations.module';
+import { ShareLinksModule } from './share-links/share-links.module';
+import { AuditModule } from './audit/audit.module';
+import { RealtimeModule } from './realtime/realtime.module';
 import { ExampleModule } from './example/example.module';
 
 @Module({
@@ -20,6 +24,11 @@ import { ExampleModule } from './example/example.module';
     PathsModule,
     PathNodesModule,
     AuthModule,
+    InvitationsModule,
+    ShareLinksModule,
+    AuditModule,
+    // After AuditModule, whose interceptor opens the context this one reads
+    RealtimeModule,
     ExampleModule,
     DrizzleModule.forRoot({ connectionString: process.env.DATABASE_URL! }),
   ],
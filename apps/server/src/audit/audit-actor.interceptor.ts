@@ -0,0 +1,35 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { Observable } from 'rxjs';
+import { USER_PROFILE_KEY } from '../auth/guards/ensure-profile.guard';
+import type { UserProfile } from '../auth/decorators/current-profile.decorator';
+import { runAsActor } from './audit-context';
+
+/**
+ * Attributes the audit events a handler records to the caller's profile, so
+ * repositories need not be handed the actor. Runs after the guards, once
+ * EnsureProfileGuard has set the profile; routes without one record a null
+ * actor.
+ */
+@Injectable()
+export class AuditActorInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') return next.handle();
+    const request = context.switchToHttp().getRequest<Request>();
+    const profile = (request as unknown as Record<string, unknown>)[
+      USER_PROFILE_KEY
+    ] as UserProfile | undefined;
+
+    // next.handle() binds the handler to the context it is called in
+    return new Observable((subscriber) =>
+      runAsActor(profile?.id ?? null, () =>
+        next.handle().subscribe(subscriber),
+      ),
+    );
+  }
+}
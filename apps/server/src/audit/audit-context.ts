@@ -0,0 +1,49 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { AuditAction, AuditEntityType } from '@utilitix/db';
+
+/** Rows a request wrote, as they read back after the write. */
+export interface RecordedChange {
+  entityType: AuditEntityType;
+  action: AuditAction;
+  rows: Record<string, unknown>[];
+}
+
+interface AuditContext {
+  actorId: string | null;
+  // Collected for ProjectEventsInterceptor to broadcast once the handler succeeds
+  changes: RecordedChange[];
+}
+
+const storage = new AsyncLocalStorage<AuditContext>();
+
+/** Runs `fn` with every audit event it records attributed to `actorId`. */
+export function runAsActor<T>(actorId: string | null, fn: () => T): T {
+  return storage.run({ actorId, changes: [] }, fn);
+}
+
+/** The profile behind the current request; null outside one. */
+export function currentActorId(): string | null {
+  return storage.getStore()?.actorId ?? null;
+}
+
+/** Notes rows the current request wrote; a no-op outside one. */
+export function recordChange(
+  entityType: AuditEntityType,
+  action: AuditAction,
+  rows: object[],
+) {
+  if (rows.length === 0) return;
+  storage.getStore()?.changes.push({
+    entityType,
+    action,
+    rows: rows as Record<string, unknown>[],
+  });
+}
+
+/**
+ * The changes noted so far in the current request, as a live list that
+ * grows with later writes; null outside one.
+ */
+export function recordedChanges(): RecordedChange[] | null {
+  return storage.getStore()?.changes ?? null;
+}
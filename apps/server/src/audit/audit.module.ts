@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { ProjectAuditController } from './project-audit.controller';
+import { AuditService } from './audit.service';
+import { AuditActorInterceptor } from './audit-actor.interceptor';
+import { AuthModule } from '../auth/auth.module';
+import { AuditEventsRepository } from '../database/audit-events.repository';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [ProjectAuditController],
+  providers: [
+    AuditService,
+    AuditEventsRepository,
+    { provide: APP_INTERCEPTOR, useClass: AuditActorInterceptor },
+  ],
+})
+export class AuditModule {}
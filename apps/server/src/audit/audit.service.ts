@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import { AuditEventsRepository } from '../database/audit-events.repository';
+import { OrganizationScopeService } from '../auth/organization-scope.service';
+
+@Injectable()
+export class AuditService {
+  constructor(
+    private readonly repo: AuditEventsRepository,
+    private readonly scope: OrganizationScopeService,
+  ) {}
+
+  async findByProject(
+    organizationId: string,
+    projectId: string,
+    limit: number,
+    offset: number,
+  ) {
+    await this.scope.findProject(organizationId, projectId);
+    const { events, total } = await this.repo.findByProject(projectId, {
+      limit,
+      offset,
+    });
+    return { events, total, limit, offset };
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Authentication } from '@nestjs-cognito/auth';
+import { AuditService } from './audit.service';
+import { EnsureProfileGuard } from '../auth/guards/ensure-profile.guard';
+import { ProjectRoleGuard } from '../auth/guards/project-role.guard';
+import {
+  fromParam,
+  RequireProjectRole,
+} from '../auth/decorators/project-role.decorator';
+import {
+  CurrentProfile,
+  type UserProfile,
+} from '../auth/decorators/current-profile.decorator';
+import { parseFiniteNumber, parseLimit } from '../paths/spatial-params';
+
+const AUDIT_DEFAULT_LIMIT = 50;
+const AUDIT_MAX_LIMIT = 200;
+
+function parseOffset(value?: string): number {
+  if (value === undefined) return 0;
+  const parsed = parseFiniteNumber('offset', value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new BadRequestException('offset must be a non-negative integer');
+  }
+  return parsed;
+}
+
+@ApiTags('audit')
+@UseGuards(EnsureProfileGuard, ProjectRoleGuard)
+@Authentication()
+@Controller('projects/:id/audit')
+@ApiParam({ name: 'id', format: 'uuid' })
+export class ProjectAuditController {
+  constructor(private readonly service: AuditService) {}
+
+  @Get()
+  @RequireProjectRole('viewer', { project: fromParam('id') })
+  @ApiOperation({
+    summary:
+      'Page through who changed the project, its layers, paths and nodes',
+    description:
+      'Newest first. Creates carry the new row in `after`; updates and ' +
+      'deletes carry only the changed columns in `before` and `after`.',
+  })
+  @ApiQuery({ name: 'limit', required: false, example: AUDIT_DEFAULT_LIMIT })
+  @ApiQuery({ name: 'offset', required: false, example: 0 })
+  @ApiResponse({
+    status: 200,
+    description: '{ events, total, limit, offset }',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid limit or offset' })
+  @ApiResponse({ status: 403, description: 'Not a project member' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  findByProject(
+    @Param('id') id: string,
+    @CurrentProfile() profile: UserProfile,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    return this.service.findByProject(
+      profile.organizationId,
+      id,
+      parseLimit(limit, AUDIT_DEFAULT_LIMIT, AUDIT_MAX_LIMIT),
+      parseOffset(offset),
+    );
+  }
+}
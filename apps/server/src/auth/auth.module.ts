@@ -2,6 +2,10 @@ import { Module } from '@nestjs/common';
 import { CognitoAuthModule } from '@nestjs-cognito/auth';
 import { UserProfilesModule } from '../user-profiles/user-profiles.module';
 import { EnsureProfileGuard } from './guards/ensure-profile.guard';
+import { ProjectRoleGuard } from './guards/project-role.guard';
+import { OrganizationScopeService } from './organization-scope.service';
+import { ProjectAccessService } from './project-access.service';
+import { ProjectMembersRepository } from '../database/project-members.repository';
 
 @Module({
   imports: [
@@ -14,7 +18,20 @@ import { EnsureProfileGuard } from './guards/ensure-profile.guard';
     }),
     UserProfilesModule,
   ],
-  providers: [EnsureProfileGuard],
-  exports: [EnsureProfileGuard, UserProfilesModule],
+  providers: [
+    EnsureProfileGuard,
+    ProjectRoleGuard,
+    OrganizationScopeService,
+    ProjectAccessService,
+    ProjectMembersRepository,
+  ],
+  exports: [
+    EnsureProfileGuard,
+    ProjectRoleGuard,
+    OrganizationScopeService,
+    ProjectAccessService,
+    ProjectMembersRepository,
+    UserProfilesModule,
+  ],
 })
 export class AuthModule {}
@@ -1,7 +1,11 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
 import type { Request } from 'express';
+import { userProfiles } from '@utilitix/db';
 import { USER_PROFILE_KEY } from '../guards/ensure-profile.guard';
 
+export type UserProfile = typeof userProfiles.$inferSelect;
+
+/** The caller's profile, set by EnsureProfileGuard. */
 export const CurrentProfile = createParamDecorator(
   (_data: unknown, ctx: ExecutionContext) => {
     const request = ctx.switchToHttp().getRequest<Request>();
@@ -0,0 +1,52 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Request } from 'express';
+import type { ProjectRole } from '@utilitix/db';
+import type { ScopedEntity } from '../organization-scope.service';
+
+export const PROJECT_ROLE_KEY = 'projectRole';
+
+/** Reads one ID, or an array of IDs, from the request. */
+export type IdSource = (request: Request) => unknown;
+
+export type ProjectRoleRequirement = {
+  role: ProjectRole;
+  refs: Partial<Record<ScopedEntity, IdSource>>;
+  // Restores reference records in the trash
+  includeDeleted?: boolean;
+};
+
+/**
+ * Requires `role` on every project the referenced records belong to; checked
+ * by ProjectRoleGuard. A reference that is absent from the request is skipped,
+ * so the handler still validates required IDs itself.
+ */
+export const RequireProjectRole = (
+  role: ProjectRole,
+  refs: ProjectRoleRequirement['refs'],
+  options: { includeDeleted?: boolean } = {},
+) => SetMetadata(PROJECT_ROLE_KEY, { role, refs, ...options });
+
+export const fromParam =
+  (name: string): IdSource =>
+  (request) =>
+    request.params?.[name];
+
+export const fromQuery =
+  (name: string): IdSource =>
+  (request) =>
+    request.query?.[name];
+
+export const fromBody =
+  (name: string): IdSource =>
+  (request) =>
+    (request.body as Record<string, unknown> | undefined)?.[name];
+
+/** `field` of every element of the body array `name`, e.g. nodes[].pathId. */
+export const fromBodyItems =
+  (name: string, field: string): IdSource =>
+  (request) => {
+    const items = (request.body as Record<string, unknown> | undefined)?.[name];
+    return Array.isArray(items)
+      ? items.map((item) => (item as Record<string, unknown> | null)?.[field])
+      : undefined;
+  };
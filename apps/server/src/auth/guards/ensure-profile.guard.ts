@@ -1,6 +1,11 @@
-import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
 import type { Request } from 'express';
-import type { CognitoJwtPayload } from '@nestjs-cognito/core';
+import type { CognitoJwtPayload } from 'aws-jwt-verify/jwt-model';
 import { UserProfilesService } from '../../user-profiles/user-profiles.service';
 
 const COGNITO_JWT_PAYLOAD_KEY = 'cognito_jwt_payload';
@@ -17,7 +22,9 @@ export class EnsureProfileGuard implements CanActivate {
       | CognitoJwtPayload
       | undefined;
 
-    if (!payload) return true;
+    // Runs after @Authentication(), so a missing payload means the route
+    // was declared without it; every handler relies on the profile.
+    if (!payload) throw new UnauthorizedException();
 
     req[USER_PROFILE_KEY] =
       await this.userProfilesService.findOrCreateFromAuth(payload);
@@ -0,0 +1,68 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { USER_PROFILE_KEY } from './ensure-profile.guard';
+import type { UserProfile } from '../decorators/current-profile.decorator';
+import {
+  PROJECT_ROLE_KEY,
+  type IdSource,
+  type ProjectRoleRequirement,
+} from '../decorators/project-role.decorator';
+import {
+  OrganizationScopeService,
+  type ScopedEntity,
+} from '../organization-scope.service';
+import { ProjectAccessService } from '../project-access.service';
+
+function toIds(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values.filter((v): v is string => typeof v === 'string' && v !== '');
+}
+
+/**
+ * Enforces @RequireProjectRole. Must run after EnsureProfileGuard; handlers
+ * without the decorator pass through.
+ */
+@Injectable()
+export class ProjectRoleGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly scope: OrganizationScopeService,
+    private readonly access: ProjectAccessService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requirement = this.reflector.get<ProjectRoleRequirement | undefined>(
+      PROJECT_ROLE_KEY,
+      context.getHandler(),
+    );
+    if (!requirement) return true;
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const profile = (request as unknown as Record<string, unknown>)[
+      USER_PROFILE_KEY
+    ] as UserProfile | undefined;
+    if (!profile) throw new UnauthorizedException();
+
+    const projectIds = new Set<string>();
+    const refs = Object.entries(requirement.refs) as [ScopedEntity, IdSource][];
+    for (const [entity, source] of refs) {
+      const resolved = await this.scope.resolveProjects(
+        profile.organizationId,
+        entity,
+        toIds(source(request)),
+        undefined,
+        requirement.includeDeleted,
+      );
+      resolved.forEach((projectId) => projectIds.add(projectId));
+    }
+
+    await this.access.assertRole(profile.id, [...projectIds], requirement.role);
+    return true;
+  }
+}
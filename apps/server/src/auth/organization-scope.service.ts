@@ -0,0 +1,227 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import {
+  and,
+  eq,
+  getTableColumns,
+  inArray,
+  isNull,
+  type SQL,
+} from 'drizzle-orm';
+import {
+  layers,
+  pathNodes,
+  paths,
+  projectMembers,
+  projects,
+} from '@utilitix/db';
+import { DRIZZLE, type DrizzleDB, type DrizzleExecutor } from '../drizzle';
+
+/** Records that resolve to a project: projects themselves and their content. */
+export type ScopedEntity = 'project' | 'layer' | 'path' | 'node';
+
+const ENTITY_NAME: Record<ScopedEntity, string> = {
+  project: 'Project',
+  layer: 'Layer',
+  path: 'Path',
+  node: 'Path node',
+};
+
+const ENTITY_ID = {
+  project: projects.id,
+  layer: layers.id,
+  path: paths.id,
+  node: pathNodes.id,
+};
+
+const ENTITY_DELETED_AT = {
+  project: projects.deletedAt,
+  layer: layers.deletedAt,
+  path: paths.deletedAt,
+  node: pathNodes.deletedAt,
+};
+
+/**
+ * Join condition from `projects` to the caller's live membership row, for
+ * lists that are not filtered to one project.
+ */
+export function isProjectMember(userProfileId: string): SQL {
+  return and(
+    eq(projectMembers.projectId, projects.id),
+    eq(projectMembers.userProfileId, userProfileId),
+    isNull(projectMembers.deletedAt),
+  ) as SQL;
+}
+
+/**
+ * Resolves records only when they belong to the caller's organization, by
+ * walking path_nodes → paths → layers → projects. A record in another
+ * organization is reported exactly like a missing one, so IDs cannot be
+ * probed across organizations. Only the record itself must be live; a
+ * soft-deleted parent still decides ownership.
+ */
+@Injectable()
+export class OrganizationScopeService {
+  constructor(@Inject(DRIZZLE) private readonly db: DrizzleDB) {}
+
+  async findProject(
+    organizationId: string,
+    projectId: string,
+    db: DrizzleExecutor = this.db,
+  ) {
+    const [row] = await db
+      .select()
+      .from(projects)
+      .where(
+        and(
+          eq(projects.id, projectId),
+          eq(projects.organizationId, organizationId),
+          isNull(projects.deletedAt),
+        ),
+      );
+    if (!row) throw new NotFoundException(`Project ${projectId} not found`);
+    return row;
+  }
+
+  async findLayer(
+    organizationId: string,
+    layerId: string,
+    db: DrizzleExecutor = this.db,
+  ) {
+    const [row] = await db
+      .select(getTableColumns(layers))
+      .from(layers)
+      .innerJoin(projects, eq(layers.projectId, projects.id))
+      .where(
+        and(
+          eq(layers.id, layerId),
+          eq(projects.organizationId, organizationId),
+          isNull(layers.deletedAt),
+        ),
+      );
+    if (!row) throw new NotFoundException(`Layer ${layerId} not found`);
+    return row;
+  }
+
+  async findPath(
+    organizationId: string,
+    pathId: string,
+    db: DrizzleExecutor = this.db,
+  ) {
+    const [row] = await db
+      .select(getTableColumns(paths))
+      .from(paths)
+      .innerJoin(layers, eq(paths.layerId, layers.id))
+      .innerJoin(projects, eq(layers.projectId, projects.id))
+      .where(
+        and(
+          eq(paths.id, pathId),
+          eq(projects.organizationId, organizationId),
+          isNull(paths.deletedAt),
+        ),
+      );
+    if (!row) throw new NotFoundException(`Path ${pathId} not found`);
+    return row;
+  }
+
+  async findPathNode(
+    organizationId: string,
+    nodeId: string,
+    db: DrizzleExecutor = this.db,
+  ) {
+    const [row] = await db
+      .select(getTableColumns(pathNodes))
+      .from(pathNodes)
+      .innerJoin(paths, eq(pathNodes.pathId, paths.id))
+      .innerJoin(layers, eq(paths.layerId, layers.id))
+      .innerJoin(projects, eq(layers.projectId, projects.id))
+      .where(
+        and(
+          eq(pathNodes.id, nodeId),
+          eq(projects.organizationId, organizationId),
+          isNull(pathNodes.deletedAt),
+        ),
+      );
+    if (!row) throw new NotFoundException(`Path node ${nodeId} not found`);
+    return row;
+  }
+
+  /** Throws for the first path that is missing or in another organization. */
+  async assertPaths(
+    organizationId: string,
+    pathIds: string[],
+    db: DrizzleExecutor = this.db,
+  ) {
+    await this.resolveProjects(organizationId, 'path', pathIds, db);
+  }
+
+  /** Throws for the first node that is missing or in another organization. */
+  async assertPathNodes(
+    organizationId: string,
+    nodeIds: string[],
+    db: DrizzleExecutor = this.db,
+  ) {
+    await this.resolveProjects(organizationId, 'node', nodeIds, db);
+  }
+
+  /**
+   * Maps each live record (or, with `includeDeleted`, each record) to its
+   * project ID. Throws for the first one that is missing or in another
+   * organization.
+   */
+  async resolveProjects(
+    organizationId: string,
+    entity: ScopedEntity,
+    ids: string[],
+    db: DrizzleExecutor = this.db,
+    includeDeleted = false,
+  ): Promise<Map<string, string>> {
+    const unique = [...new Set(ids)];
+    if (unique.length === 0) return new Map();
+    const rows = await this.projectIdQuery(entity, db).where(
+      and(
+        inArray(ENTITY_ID[entity], unique),
+        eq(projects.organizationId, organizationId),
+        includeDeleted ? undefined : isNull(ENTITY_DELETED_AT[entity]),
+      ),
+    );
+    const byId = new Map(rows.map((r) => [r.id, r.projectId]));
+    const missing = unique.find((id) => !byId.has(id));
+    if (missing) {
+      throw new NotFoundException(
+        `${ENTITY_NAME[entity]} ${missing} not found`,
+      );
+    }
+    return byId;
+  }
+
+  private projectIdQuery(entity: ScopedEntity, db: DrizzleExecutor) {
+    switch (entity) {
+      case 'project':
+        return db
+          .select({ id: projects.id, projectId: projects.id })
+          .from(projects)
+          .$dynamic();
+      case 'layer':
+        return db
+          .select({ id: layers.id, projectId: layers.projectId })
+          .from(layers)
+          .innerJoin(projects, eq(layers.projectId, projects.id))
+          .$dynamic();
+      case 'path':
+        return db
+          .select({ id: paths.id, projectId: layers.projectId })
+          .from(paths)
+          .innerJoin(layers, eq(paths.layerId, layers.id))
+          .innerJoin(projects, eq(layers.projectId, projects.id))
+          .$dynamic();
+      case 'node':
+        return db
+          .select({ id: pathNodes.id, projectId: layers.projectId })
+          .from(pathNodes)
+          .innerJoin(paths, eq(pathNodes.pathId, paths.id))
+          .innerJoin(layers, eq(paths.layerId, layers.id))
+          .innerJoin(projects, eq(layers.projectId, projects.id))
+          .$dynamic();
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { ForbiddenException } from '@nestjs/common';
+import { ProjectAccessService } from './project-access.service';
+import type { ProjectMembersRepository } from '../database/project-members.repository';
+
+const ORG = 'org-1';
+
+function setup() {
+  const members = {
+    findRoles: jest.fn(async () => [{ projectId: 'project-1', role: 'owner' }]),
+  };
+  const service = new ProjectAccessService(
+    members as unknown as ProjectMembersRepository,
+  );
+  return { service, members };
+}
+
+describe('ProjectAccessService', () => {
+  describe('isOrganizationAdmin', () => {
+    it('holds for an admin of the organization', () => {
+      const { service } = setup();
+      expect(
+        service.isOrganizationAdmin(
+          { organizationId: ORG, organizationRole: 'admin' },
+          ORG,
+        ),
+      ).toBe(true);
+    });
+
+    it('does not hold for an admin of another organization', () => {
+      const { service } = setup();
+      expect(
+        service.isOrganizationAdmin(
+          { organizationId: 'org-2', organizationRole: 'admin' },
+          ORG,
+        ),
+      ).toBe(false);
+    });
+
+    it('ignores project ownership', () => {
+      const { service, members } = setup();
+      expect(
+        service.isOrganizationAdmin(
+          { organizationId: ORG, organizationRole: 'member' },
+          ORG,
+        ),
+      ).toBe(false);
+      expect(members.findRoles).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertOrganizationAdmin', () => {
+    it('refuses a member with 403', () => {
+      const { service } = setup();
+      expect(() =>
+        service.assertOrganizationAdmin(
+          { organizationId: ORG, organizationRole: 'member' },
+          ORG,
+        ),
+      ).toThrow(ForbiddenException);
+    });
+  });
+});
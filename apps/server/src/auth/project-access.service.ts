@@ -0,0 +1,75 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import type { ProjectRole, userProfiles } from '@utilitix/db';
+import { ProjectMembersRepository } from '../database/project-members.repository';
+
+/** Ascending privilege: each role can do everything the previous one can. */
+const ROLE_RANK: Record<ProjectRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2,
+};
+
+type OrganizationMember = Pick<
+  typeof userProfiles.$inferSelect,
+  'organizationId' | 'organizationRole'
+>;
+
+export function hasProjectRole(role: ProjectRole, required: ProjectRole) {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Checks project membership. A project the caller is not a member of is
+ * reported as missing, like one in another organization; a member whose role
+ * is too low gets a 403.
+ */
+@Injectable()
+export class ProjectAccessService {
+  constructor(private readonly members: ProjectMembersRepository) {}
+
+  async assertRole(
+    userProfileId: string,
+    projectIds: string[],
+    required: ProjectRole,
+  ) {
+    const ids = [...new Set(projectIds)];
+    const roles = new Map(
+      (await this.members.findRoles(userProfileId, ids)).map((m) => [
+        m.projectId,
+        m.role,
+      ]),
+    );
+    for (const id of ids) {
+      const role = roles.get(id);
+      if (!role) throw new NotFoundException(`Project ${id} not found`);
+      if (!hasProjectRole(role, required)) {
+        throw new ForbiddenException(
+          `Requires the ${required} role on project ${id}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Organization settings are guarded by the profile's organization role;
+   * owning projects of the organization grants nothing here.
+   */
+  isOrganizationAdmin(profile: OrganizationMember, organizationId: string) {
+    return (
+      profile.organizationId === organizationId &&
+      profile.organizationRole === 'admin'
+    );
+  }
+
+  assertOrganizationAdmin(profile: OrganizationMember, organizationId: string) {
+    if (!this.isOrganizationAdmin(profile, organizationId)) {
+      throw new ForbiddenException(
+        'Requires the admin role in the organization',
+      );
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { InternalServerErrorException } from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/** What a token grants; part of the signature, so one kind can't pose as another. */
+export type TokenPurpose = 'invitation' | 'share';
+
+function secret(): string {
+  // INVITATION_SECRET is the name from before share links used it too
+  const value = process.env.LINK_SECRET ?? process.env.INVITATION_SECRET;
+  if (!value) {
+    throw new InternalServerErrorException('LINK_SECRET is not set');
+  }
+  return value;
+}
+
+function sign(purpose: TokenPurpose, payload: string): Buffer {
+  return createHmac('sha256', secret())
+    .update(`${purpose}.${payload}`)
+    .digest();
+}
+
+/**
+ * `<payload>.<signature>`, both base64url: the payload names a row and its
+ * expiry, the signature is an HMAC-SHA256 over purpose and payload. Callers
+ * still load the row, so revoking it voids the token.
+ */
+export function signToken(
+  purpose: TokenPurpose,
+  id: string,
+  expiresAt: Date,
+): string {
+  const payload = Buffer.from(
+    JSON.stringify({ i: id, e: expiresAt.getTime() }),
+  ).toString('base64url');
+  return `${payload}.${sign(purpose, payload).toString('base64url')}`;
+}
+
+/** The row ID of a well-signed, unexpired token; otherwise null. */
+export function verifyToken(
+  purpose: TokenPurpose,
+  token: string,
+): string | null {
+  const [payload, signature, extra] = token.split('.');
+  if (!payload || !signature || extra !== undefined) return null;
+  const expected = sign(purpose, payload);
+  const given = Buffer.from(signature, 'base64url');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return null;
+  }
+  try {
+    const { i, e } = JSON.parse(
+      Buffer.from(payload, 'base64url').toString('utf8'),
+    ) as { i?: unknown; e?: unknown };
+    if (typeof i !== 'string' || typeof e !== 'number') return null;
+    return e > Date.now() ? i : null;
+  } catch {
+    return null;
+  }
+}
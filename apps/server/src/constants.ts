@@ -0,0 +1,76 @@
+// APWA uniform colour code. Mirrors UTILITY_PRESETS in
+// apps/client/src/constants.ts — keep the two lists in sync.
+export const UTILITY_PRESETS = [
+  { label: 'Electrical / Power', color: '#FF0000' },
+  { label: 'Gas / Oil / Steam', color: '#FFCC00' },
+  { label: 'Potable Water', color: '#0070C0' },
+  { label: 'Sewer / Drain', color: '#00A550' },
+  { label: 'Telecommunications', color: '#FF8000' },
+  { label: 'Reclaimed Water', color: '#9900CC' },
+  { label: 'Proposed Excavation', color: '#FFFFFF' },
+  { label: 'Survey Markings', color: '#FF69B4' },
+] as const;
+
+export type UtilityPreset = (typeof UTILITY_PRESETS)[number];
+
+/** The preset with exactly this colour (case-insensitive), if any. */
+export function findUtilityPreset(color: string): UtilityPreset | undefined {
+  const upper = color.toUpperCase();
+  return UTILITY_PRESETS.find((p) => p.color === upper);
+}
+
+export type UtilityLabel = UtilityPreset['label'];
+
+/**
+ * Clearance used, both horizontally and vertically, between paths that have
+ * no rule: either side has a non-preset colour, or the org removed the rule.
+ */
+export const DEFAULT_CLEARANCE_M = 0.3;
+
+/**
+ * Seed clearances (metres) for a new organization's rules, in either order.
+ * Pairs not listed are seeded with DEFAULT_CLEARANCE_M both ways.
+ */
+export const DEFAULT_CLEARANCE_RULES: {
+  utilities: [UtilityLabel, UtilityLabel];
+  horizontalM: number;
+  verticalM: number;
+}[] = [
+  {
+    utilities: ['Gas / Oil / Steam', 'Electrical / Power'],
+    horizontalM: 0.3,
+    verticalM: 0.3,
+  },
+  {
+    utilities: ['Gas / Oil / Steam', 'Telecommunications'],
+    horizontalM: 0.3,
+    verticalM: 0.3,
+  },
+  {
+    utilities: ['Potable Water', 'Sewer / Drain'],
+    horizontalM: 2.5,
+    verticalM: 0.5,
+  },
+  {
+    utilities: ['Potable Water', 'Reclaimed Water'],
+    horizontalM: 1,
+    verticalM: 0.5,
+  },
+  {
+    utilities: ['Electrical / Power', 'Telecommunications'],
+    horizontalM: 0.3,
+    verticalM: 0.3,
+  },
+];
+
+/** Seed minimum depth of cover (metres) per utility type; 0 means unchecked. */
+export const DEFAULT_MIN_COVER_M: Record<UtilityLabel, number> = {
+  'Electrical / Power': 0.9,
+  'Gas / Oil / Steam': 0.6,
+  'Potable Water': 1.7,
+  'Sewer / Drain': 1.5,
+  Telecommunications: 0.6,
+  'Reclaimed Water': 1.2,
+  'Proposed Excavation': 0,
+  'Survey Markings': 0,
+};
@@ -0,0 +1,91 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { and, count, desc, eq, inArray, or } from 'drizzle-orm';
+import {
+  auditEvents,
+  layers,
+  pathNodes,
+  paths,
+  userProfiles,
+} from '@utilitix/db';
+import { DRIZZLE, type DrizzleDB, type DrizzleExecutor } from '../drizzle';
+
+/**
+ * Reads of the audit trail. Events are written alongside the change they
+ * record (see audit-trail.ts) and never updated, so this has no BaseRepository
+ * CRUD.
+ */
+@Injectable()
+export class AuditEventsRepository {
+  constructor(@Inject(DRIZZLE) private readonly db: DrizzleDB) {}
+
+  /**
+   * A page of events for the project and its layers, paths and nodes, newest
+   * first, with the acting profile and the total across pages. Deleted
+   * entities keep their history.
+   */
+  async findByProject(
+    projectId: string,
+    page: { limit: number; offset: number },
+    db: DrizzleExecutor = this.db,
+  ) {
+    const layerIds = db
+      .select({ id: layers.id })
+      .from(layers)
+      .where(eq(layers.projectId, projectId));
+    const pathIds = db
+      .select({ id: paths.id })
+      .from(paths)
+      .where(inArray(paths.layerId, layerIds));
+    const nodeIds = db
+      .select({ id: pathNodes.id })
+      .from(pathNodes)
+      .where(inArray(pathNodes.pathId, pathIds));
+    const scope = or(
+      and(
+        eq(auditEvents.entityType, 'project'),
+        eq(auditEvents.entityId, projectId),
+      ),
+      and(
+        eq(auditEvents.entityType, 'layer'),
+        inArray(auditEvents.entityId, layerIds),
+      ),
+      and(
+        eq(auditEvents.entityType, 'path'),
+        inArray(auditEvents.entityId, pathIds),
+      ),
+      and(
+        eq(auditEvents.entityType, 'path_node'),
+        inArray(auditEvents.entityId, nodeIds),
+      ),
+    );
+
+    const events = await db
+      .select({
+        id: auditEvents.id,
+        entityType: auditEvents.entityType,
+        entityId: auditEvents.entityId,
+        action: auditEvents.action,
+        before: auditEvents.before,
+        after: auditEvents.after,
+        createdAt: auditEvents.createdAt,
+        actor: {
+          id: userProfiles.id,
+          email: userProfiles.email,
+          firstName: userProfiles.firstName,
+          lastName: userProfiles.lastName,
+        },
+      })
+      .from(auditEvents)
+      .leftJoin(userProfiles, eq(auditEvents.actorId, userProfiles.id))
+      .where(scope)
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(page.limit)
+      .offset(page.offset);
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(auditEvents)
+      .where(scope);
+
+    return { events, total };
+  }
+}
@@ -0,0 +1,142 @@
+import {
+  auditEvents,
+  type AuditAction,
+  type AuditEntityType,
+} from '@utilitix/db';
+import type { DrizzleExecutor } from '../drizzle';
+import { currentActorId, recordChange } from '../audit/audit-context';
+
+type AuditedRow = { id: string };
+type Snapshot = Record<string, unknown>;
+
+/** Columns the server rewrites on its own; recording them is noise. */
+const UNAUDITED_COLUMNS = new Set([
+  'updatedAt',
+  'cachedGeometry',
+  'lengthM',
+  'length3dM',
+  'areaM2',
+  'version',
+]);
+
+// Keeps audit inserts well under Postgres' bind-parameter limit
+const INSERT_CHUNK_SIZE = 1000;
+
+/** The row as it will read back from jsonb: dates become ISO strings. */
+function snapshot(row: AuditedRow): Snapshot {
+  const json = JSON.parse(JSON.stringify(row)) as Snapshot;
+  for (const column of UNAUDITED_COLUMNS) delete json[column];
+  return json;
+}
+
+async function record(
+  db: DrizzleExecutor,
+  entityType: AuditEntityType,
+  events: {
+    entityId: string;
+    action: AuditAction;
+    before: Snapshot | null;
+    after: Snapshot | null;
+  }[],
+) {
+  const actorId = currentActorId();
+  for (let i = 0; i < events.length; i += INSERT_CHUNK_SIZE) {
+    await db
+      .insert(auditEvents)
+      .values(
+        events
+          .slice(i, i + INSERT_CHUNK_SIZE)
+          .map((e) => ({ ...e, entityType, actorId })),
+      );
+  }
+}
+
+/** Records the new rows whole. */
+export async function auditCreated(
+  db: DrizzleExecutor,
+  entityType: AuditEntityType,
+  rows: AuditedRow[],
+) {
+  recordChange(entityType, 'create', rows);
+  await record(
+    db,
+    entityType,
+    rows.map((row) => ({
+      entityId: row.id,
+      action: 'create',
+      before: null,
+      after: snapshot(row),
+    })),
+  );
+}
+
+/**
+ * Records the columns that differ between each row before and after the
+ * write, matched by ID. Rows with no audited change are skipped.
+ */
+export async function auditUpdated(
+  db: DrizzleExecutor,
+  entityType: AuditEntityType,
+  beforeRows: AuditedRow[],
+  afterRows: AuditedRow[],
+) {
+  recordChange(entityType, 'update', afterRows);
+  const beforeById = new Map(beforeRows.map((row) => [row.id, snapshot(row)]));
+  const events = afterRows.flatMap((row) => {
+    const before = beforeById.get(row.id);
+    if (!before) return [];
+    const after = snapshot(row);
+    const changed = Object.keys(after).filter(
+      (column) =>
+        JSON.stringify(before[column]) !== JSON.stringify(after[column]),
+    );
+    if (changed.length === 0) return [];
+    return [
+      {
+        entityId: row.id,
+        action: 'update' as const,
+        before: Object.fromEntries(changed.map((c) => [c, before[c]])),
+        after: Object.fromEntries(changed.map((c) => [c, after[c]])),
+      },
+    ];
+  });
+  await record(db, entityType, events);
+}
+
+/** Records soft deletes; the rest of the row is unchanged by them. */
+export async function auditDeleted(
+  db: DrizzleExecutor,
+  entityType: AuditEntityType,
+  rows: (AuditedRow & { deletedAt: Date | null })[],
+) {
+  recordChange(entityType, 'delete', rows);
+  await record(
+    db,
+    entityType,
+    rows.map((row) => ({
+      entityId: row.id,
+      action: 'delete',
+      before: { deletedAt: null },
+      after: { deletedAt: row.deletedAt?.toISOString() ?? null },
+    })),
+  );
+}
+
+/** Records rows taken out of the trash, given as they were while deleted. */
+export async function auditRestored(
+  db: DrizzleExecutor,
+  entityType: AuditEntityType,
+  rows: (AuditedRow & { deletedAt: Date | null })[],
+) {
+  recordChange(entityType, 'restore', rows);
+  await record(
+    db,
+    entityType,
+    rows.map((row) => ({
+      entityId: row.id,
+      action: 'restore',
+      before: { deletedAt: row.deletedAt?.toISOString() ?? null },
+      after: { deletedAt: null },
+    })),
+  );
+}
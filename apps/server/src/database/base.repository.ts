@@ -1,11 +1,29 @@
 import { Inject, NotFoundException } from '@nestjs/common';
-import { and, eq, isNull } from 'drizzle-orm';
+import { and, eq, isNotNull, isNull, sql } from 'drizzle-orm';
 import type { PgTableWithColumns } from 'drizzle-orm/pg-core';
-import { DRIZZLE, type DrizzleDB } from '../drizzle';
+import type { AuditEntityType } from '@utilitix/db';
+import { DRIZZLE, type DrizzleDB, type DrizzleExecutor } from '../drizzle';
+import {
+  auditCreated,
+  auditDeleted,
+  auditRestored,
+  auditUpdated,
+} from './audit-trail';
+import { versionConflict } from './version-conflict';
 
 /** Any pg table that has id and deletedAt columns (soft-delete pattern). */
 type TableWithSoftDelete = PgTableWithColumns<any>;
 
+/**
+ * Generic CRUD over a soft-delete table. Every method takes an optional
+ * executor so callers can run it inside an open transaction.
+ *
+ * Repositories constructed with an `auditEntity` also write an audit event
+ * for each create, update, delete and restore, in the same transaction as
+ * the change.
+ *
+ * Tables with a `version` column count their updates; see `update`.
+ */
 export abstract class BaseRepository<
   TTable extends TableWithSoftDelete,
   TSelect,
@@ -16,11 +34,12 @@ export abstract class BaseRepository<
     @Inject(DRIZZLE) protected readonly db: DrizzleDB,
     protected readonly table: TTable,
     protected readonly entityName: string,
+    protected readonly auditEntity?: AuditEntityType,
   ) {}
 
-  async findOne(id: string): Promise<TSelect> {
+  async findOne(id: string, db: DrizzleExecutor = this.db): Promise<TSelect> {
     const t = this.table as any;
-    const [row] = await this.db
+    const [row] = await db
       .select()
       .from(t)
       .where(and(eq(t.id, id), isNull(t.deletedAt)));
@@ -28,35 +47,118 @@ export abstract class BaseRepository<
     return row as TSelect;
   }
 
-  async findAll(): Promise<TSelect[]> {
+  async findAll(db: DrizzleExecutor = this.db): Promise<TSelect[]> {
     const t = this.table as any;
-    return this.db.select().from(t).where(isNull(t.deletedAt)) as Promise<TSelect[]>;
+    return db.select().from(t).where(isNull(t.deletedAt)) as Promise<TSelect[]>;
   }
 
-  async create(data: TCreate): Promise<TSelect> {
-    const [row] = await this.db.insert(this.table as any).values(data as any).returning();
-    return row as TSelect;
+  async create(data: TCreate, db: DrizzleExecutor = this.db): Promise<TSelect> {
+    return this.audited(db, async (tx) => {
+      const [row] = await tx
+        .insert(this.table as any)
+        .values(data as any)
+        .returning();
+      if (this.auditEntity) await auditCreated(tx, this.auditEntity, [row]);
+      return row as TSelect;
+    });
   }
 
-  async update(id: string, data: TUpdate): Promise<TSelect> {
+  /**
+   * With `expectedVersion`, the update only applies if the row is still at
+   * that version; otherwise it throws 409 with the row as it is now.
+   */
+  async update(
+    id: string,
+    data: TUpdate,
+    db: DrizzleExecutor = this.db,
+    expectedVersion?: number,
+  ): Promise<TSelect> {
     const t = this.table as any;
-    const [row] = await this.db
-      .update(t)
-      .set({ ...data, updatedAt: new Date() } as any)
-      .where(and(eq(t.id, id), isNull(t.deletedAt)))
-      .returning();
-    if (!row) throw new NotFoundException(`${this.entityName} ${id} not found`);
-    return row as TSelect;
+    return this.audited(db, async (tx) => {
+      const before = this.auditEntity ? await this.findOne(id, tx) : null;
+      const [row] = await tx
+        .update(t)
+        .set({
+          ...data,
+          updatedAt: new Date(),
+          ...(t.version && { version: sql`${t.version} + 1` }),
+        } as any)
+        .where(
+          and(
+            eq(t.id, id),
+            isNull(t.deletedAt),
+            expectedVersion === undefined
+              ? undefined
+              : eq(t.version, expectedVersion),
+          ),
+        )
+        .returning();
+      if (!row) {
+        // Throws 404 if the row is gone, so only a version mismatch remains
+        const current = await this.findOne(id, tx);
+        throw versionConflict(
+          `${this.entityName} ${id} has changed since version ${expectedVersion}`,
+          current,
+        );
+      }
+      if (this.auditEntity) {
+        await auditUpdated(tx, this.auditEntity, [before as any], [row as any]);
+      }
+      return row as TSelect;
+    });
   }
 
-  async remove(id: string): Promise<TSelect> {
+  async remove(id: string, db: DrizzleExecutor = this.db): Promise<TSelect> {
     const t = this.table as any;
-    const [row] = await this.db
-      .update(t)
-      .set({ deletedAt: new Date() } as any)
-      .where(and(eq(t.id, id), isNull(t.deletedAt)))
-      .returning();
-    if (!row) throw new NotFoundException(`${this.entityName} ${id} not found`);
-    return row as TSelect;
+    return this.audited(db, async (tx) => {
+      const [row] = await tx
+        .update(t)
+        .set({ deletedAt: new Date() } as any)
+        .where(and(eq(t.id, id), isNull(t.deletedAt)))
+        .returning();
+      if (!row)
+        throw new NotFoundException(`${this.entityName} ${id} not found`);
+      if (this.auditEntity)
+        await auditDeleted(tx, this.auditEntity, [row as any]);
+      return row as TSelect;
+    });
+  }
+
+  /** Takes a soft-deleted row out of the trash. */
+  async restore(id: string, db: DrizzleExecutor = this.db): Promise<TSelect> {
+    const t = this.table as any;
+    return this.audited(db, async (tx) => {
+      const [trashed] = await tx
+        .select()
+        .from(t)
+        .where(and(eq(t.id, id), isNotNull(t.deletedAt)));
+      if (!trashed) {
+        throw new NotFoundException(
+          `${this.entityName} ${id} not found in trash`,
+        );
+      }
+      const [row] = await tx
+        .update(t)
+        .set({ deletedAt: null, updatedAt: new Date() } as any)
+        .where(eq(t.id, id))
+        .returning();
+      if (this.auditEntity) {
+        await auditRestored(tx, this.auditEntity, [trashed as any]);
+      }
+      return row as TSelect;
+    });
+  }
+
+  /**
+   * Runs a write of an audited table in a transaction, so the change and its
+   * audit event commit together. Writes inside a caller's transaction, and
+   * writes of unaudited tables, run as they are.
+   */
+  private audited<T>(
+    db: DrizzleExecutor,
+    write: (db: DrizzleExecutor) => Promise<T>,
+  ): Promise<T> {
+    if (!this.auditEntity || db !== this.db) return write(db);
+    return this.db.transaction((tx) => write(tx));
   }
 }
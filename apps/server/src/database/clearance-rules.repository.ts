@@ -0,0 +1,63 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import { clearanceRules } from '@utilitix/db';
+import { DRIZZLE, type DrizzleDB, type DrizzleExecutor } from '../drizzle';
+import { UpdateClearanceRuleDto } from '../organizations/dto/update-clearance-rule.dto';
+import { BaseRepository } from './base.repository';
+
+export type CreateClearanceRuleInput = typeof clearanceRules.$inferInsert;
+
+@Injectable()
+export class ClearanceRulesRepository extends BaseRepository<
+  typeof clearanceRules,
+  typeof clearanceRules.$inferSelect,
+  CreateClearanceRuleInput,
+  UpdateClearanceRuleDto
+> {
+  constructor(@Inject(DRIZZLE) db: DrizzleDB) {
+    super(db, clearanceRules, 'Clearance rule');
+  }
+
+  /** Live rules of an organization, ordered by utility pair. */
+  async findByOrganization(
+    organizationId: string,
+    db: DrizzleExecutor = this.db,
+  ) {
+    return db
+      .select()
+      .from(clearanceRules)
+      .where(
+        and(
+          eq(clearanceRules.organizationId, organizationId),
+          isNull(clearanceRules.deletedAt),
+        ),
+      )
+      .orderBy(asc(clearanceRules.utilityA), asc(clearanceRules.utilityB));
+  }
+
+  /** True once the organization has had any rule, including deleted ones. */
+  async existsForOrganization(
+    organizationId: string,
+    db: DrizzleExecutor = this.db,
+  ) {
+    const [row] = await db
+      .select({ id: clearanceRules.id })
+      .from(clearanceRules)
+      .where(eq(clearanceRules.organizationId, organizationId))
+      .limit(1);
+    return !!row;
+  }
+
+  /** Inserts rules, skipping pairs that already have a live rule. */
+  async createMany(
+    rows: CreateClearanceRuleInput[],
+    db: DrizzleExecutor = this.db,
+  ) {
+    if (rows.length === 0) return [];
+    return db
+      .insert(clearanceRules)
+      .values(rows)
+      .onConflictDoNothing()
+      .returning();
+  }
+}
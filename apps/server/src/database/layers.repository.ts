@@ -13,6 +13,6 @@ export class LayersRepository extends BaseRepository<
   UpdateLayerDto
 > {
   constructor(@Inject(DRIZZLE) db: DrizzleDB) {
-    super(db, layers, 'Layer');
+    super(db, layers, 'Layer', 'layer');
   }
 }
@@ -14,7 +14,7 @@ export class OrganizationsRepository extends BaseRepository<
   UpdateOrganizationDto
 > {
   constructor(@Inject(DRIZZLE) db: DrizzleDB) {
-    super(db, organizations, 'Organization');
+    super(db, organizations, 'Organization', 'organization');
   }
 
   /** Returns the first active org, or creates a default one. */
@@ -25,10 +25,6 @@ export class OrganizationsRepository extends BaseRepository<
       .where(isNull(organizations.deletedAt))
       .limit(1);
     if (existing) return existing;
-    const [created] = await this.db
-      .insert(organizations)
-      .values({ name: 'Default Organization' })
-      .returning();
-    return created;
+    return this.create({ name: 'Default Organization' });
   }
 }
@@ -10,9 +10,9 @@ export class PathNodesRepository extends BaseRepository<
   typeof pathNodes,
   typeof pathNodes.$inferSelect,
   CreatePathNodeDto,
-  UpdatePathNodeDto
+  Omit<UpdatePathNodeDto, 'version'>
 > {
   constructor(@Inject(DRIZZLE) db: DrizzleDB) {
-    super(db, pathNodes, 'Path node');
+    super(db, pathNodes, 'Path node', 'path_node');
   }
 }
@@ -1,8 +1,10 @@
 import { Inject, Injectable } from '@nestjs/common';
-import { paths } from '@utilitix/db';
-import { DRIZZLE, type DrizzleDB } from '../drizzle';
+import { inArray, sql } from 'drizzle-orm';
+import { pathNodes, paths } from '@utilitix/db';
+import { DRIZZLE, type DrizzleDB, type DrizzleExecutor } from '../drizzle';
 import { CreatePathDto } from '../paths/dto/create-path.dto';
 import { UpdatePathDto } from '../paths/dto/update-path.dto';
+import { recordChange } from '../audit/audit-context';
 import { BaseRepository } from './base.repository';
 
 @Injectable()
@@ -10,9 +12,79 @@ export class PathsRepository extends BaseRepository<
   typeof paths,
   typeof paths.$inferSelect,
   CreatePathDto,
-  UpdatePathDto
+  Omit<UpdatePathDto, 'version'>
 > {
   constructor(@Inject(DRIZZLE) db: DrizzleDB) {
-    super(db, paths, 'Path');
+    super(db, paths, 'Path', 'path');
+  }
+
+  /**
+   * Rebuilds `cached_geometry` for the given paths from their live nodes,
+   * ordered by position. Closed paths with 3+ nodes become a POLYGONZ (ring
+   * closed on the first node), otherwise 2+ nodes become a LINESTRINGZ and
+   * anything less is stored as null.
+   *
+   * The geodesic measurements (`lengthM`, `length3dM`, `areaM2`) are then
+   * recomputed from the new geometry on the WGS-84 ellipsoid.
+   *
+   * Pass the transaction that changed the nodes so the cache never drifts.
+   */
+  async rebuildCachedGeometry(
+    pathIds: string[],
+    db: DrizzleExecutor = this.db,
+  ) {
+    const ids = [...new Set(pathIds)];
+    if (ids.length === 0) return [];
+
+    const line = sql`ST_MakeLine(${pathNodes.point} ORDER BY ${pathNodes.position})`;
+    const geometry = sql<string | null>`(
+      SELECT CASE
+        WHEN ${paths.isClosed} AND count(*) >= 3
+          THEN ST_MakePolygon(ST_AddPoint(${line}, ST_StartPoint(${line})))
+        WHEN count(*) >= 2
+          THEN ${line}
+      END
+      FROM ${pathNodes}
+      WHERE ${pathNodes.pathId} = ${paths.id} AND ${pathNodes.deletedAt} IS NULL
+    )`;
+
+    await db
+      .update(paths)
+      .set({ cachedGeometry: geometry, updatedAt: new Date() })
+      .where(inArray(paths.id, ids));
+
+    const rebuilt = await db
+      .update(paths)
+      .set(this.measurements())
+      .where(inArray(paths.id, ids))
+      .returning();
+    // Unaudited, but realtime subscribers still need the new measurements
+    recordChange('path', 'update', rebuilt);
+    return rebuilt;
+  }
+
+  /**
+   * Column values that measure the row's current `cached_geometry` with
+   * PostGIS geography functions (spheroid, so they agree with GeographicLib).
+   * Geography measures ignore Z, so the 3D length sums sqrt(geodesic² + dz²)
+   * over the segments `ST_DumpSegments` gives, closing ring included. Null
+   * geometry measures 0.
+   */
+  private measurements() {
+    const g = paths.cachedGeometry;
+    return {
+      lengthM: sql<number>`COALESCE(CASE
+        WHEN ST_Dimension(${g}) = 2 THEN ST_Perimeter(${g}::geography)
+        ELSE ST_Length(${g}::geography)
+      END, 0)`,
+      length3dM: sql<number>`COALESCE((
+        SELECT SUM(sqrt(
+          ST_Length(s.geom::geography) ^ 2 +
+          (ST_Z(ST_EndPoint(s.geom)) - ST_Z(ST_StartPoint(s.geom))) ^ 2
+        ))
+        FROM ST_DumpSegments(${g}) AS s
+      ), 0)`,
+      areaM2: sql<number>`COALESCE(ST_Area(${g}::geography), 0)`,
+    };
   }
 }
@@ -0,0 +1,121 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { and, desc, eq, gt, inArray, isNull } from 'drizzle-orm';
+import { projectInvitations, projects, userProfiles } from '@utilitix/db';
+import { DRIZZLE, type DrizzleDB, type DrizzleExecutor } from '../drizzle';
+import { BaseRepository } from './base.repository';
+
+export type CreateProjectInvitationInput =
+  typeof projectInvitations.$inferInsert;
+export type UpdateProjectInvitationInput = Pick<
+  CreateProjectInvitationInput,
+  'acceptedAt' | 'acceptedById'
+>;
+
+/** Not yet accepted, revoked or expired. */
+function isPending() {
+  return and(
+    isNull(projectInvitations.deletedAt),
+    isNull(projectInvitations.acceptedAt),
+    gt(projectInvitations.expiresAt, new Date()),
+  );
+}
+
+@Injectable()
+export class ProjectInvitationsRepository extends BaseRepository<
+  typeof projectInvitations,
+  typeof projectInvitations.$inferSelect,
+  CreateProjectInvitationInput,
+  UpdateProjectInvitationInput
+> {
+  constructor(@Inject(DRIZZLE) db: DrizzleDB) {
+    super(db, projectInvitations, 'Invitation');
+  }
+
+  /** Pending invitations of a project with their inviter, newest first. */
+  async findPendingByProject(projectId: string, db: DrizzleExecutor = this.db) {
+    return db
+      .select({
+        id: projectInvitations.id,
+        projectId: projectInvitations.projectId,
+        email: projectInvitations.email,
+        role: projectInvitations.role,
+        expiresAt: projectInvitations.expiresAt,
+        createdAt: projectInvitations.createdAt,
+        invitedBy: {
+          id: userProfiles.id,
+          email: userProfiles.email,
+          firstName: userProfiles.firstName,
+          lastName: userProfiles.lastName,
+        },
+      })
+      .from(projectInvitations)
+      .innerJoin(
+        userProfiles,
+        eq(projectInvitations.invitedById, userProfiles.id),
+      )
+      .where(and(eq(projectInvitations.projectId, projectId), isPending()))
+      .orderBy(desc(projectInvitations.createdAt));
+  }
+
+  /**
+   * Organization of the newest pending invitation to a live project for
+   * this email, or undefined. Decides where a first-time user lands.
+   */
+  async findInvitedOrganizationId(
+    email: string,
+    db: DrizzleExecutor = this.db,
+  ) {
+    const [row] = await db
+      .select({ organizationId: projects.organizationId })
+      .from(projectInvitations)
+      .innerJoin(projects, eq(projectInvitations.projectId, projects.id))
+      .where(
+        and(
+          eq(projectInvitations.email, email.toLowerCase()),
+          isPending(),
+          isNull(projects.deletedAt),
+        ),
+      )
+      .orderBy(desc(projectInvitations.createdAt))
+      .limit(1);
+    return row?.organizationId;
+  }
+
+  /** Soft-deletes pending invitations of a project for these emails. */
+  async revokePending(
+    projectId: string,
+    emails: string[],
+    db: DrizzleExecutor = this.db,
+  ) {
+    if (emails.length === 0) return [];
+    return db
+      .update(projectInvitations)
+      .set({ deletedAt: new Date() })
+      .where(
+        and(
+          eq(projectInvitations.projectId, projectId),
+          inArray(projectInvitations.email, emails),
+          isPending(),
+        ),
+      )
+      .returning();
+  }
+
+  /**
+   * Stamps the invitation accepted unless it already was, locking out a
+   * concurrent accept. Undefined when it was not pending.
+   */
+  async markAccepted(
+    id: string,
+    acceptedById: string,
+    db: DrizzleExecutor = this.db,
+  ) {
+    const now = new Date();
+    const [row] = await db
+      .update(projectInvitations)
+      .set({ acceptedAt: now, acceptedById, updatedAt: now })
+      .where(and(eq(projectInvitations.id, id), isPending()))
+      .returning();
+    return row;
+  }
+}
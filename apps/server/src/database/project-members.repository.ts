@@ -0,0 +1,122 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm';
+import { projectMembers, userProfiles } from '@utilitix/db';
+import { DRIZZLE, type DrizzleDB, type DrizzleExecutor } from '../drizzle';
+import { UpdateProjectMemberDto } from '../projects/dto/update-project-member.dto';
+import { BaseRepository } from './base.repository';
+
+export type CreateProjectMemberInput = typeof projectMembers.$inferInsert;
+
+@Injectable()
+export class ProjectMembersRepository extends BaseRepository<
+  typeof projectMembers,
+  typeof projectMembers.$inferSelect,
+  CreateProjectMemberInput,
+  UpdateProjectMemberDto
+> {
+  constructor(@Inject(DRIZZLE) db: DrizzleDB) {
+    super(db, projectMembers, 'Project member');
+  }
+
+  /** The profile's live memberships among the given projects. */
+  async findRoles(
+    userProfileId: string,
+    projectIds: string[],
+    db: DrizzleExecutor = this.db,
+  ) {
+    if (projectIds.length === 0) return [];
+    return db
+      .select({
+        projectId: projectMembers.projectId,
+        role: projectMembers.role,
+      })
+      .from(projectMembers)
+      .where(
+        and(
+          eq(projectMembers.userProfileId, userProfileId),
+          inArray(projectMembers.projectId, projectIds),
+          isNull(projectMembers.deletedAt),
+        ),
+      );
+  }
+
+  /** Live members of a project with their profile, by last then first name. */
+  async findByProject(projectId: string, db: DrizzleExecutor = this.db) {
+    return db
+      .select({
+        id: projectMembers.id,
+        projectId: projectMembers.projectId,
+        role: projectMembers.role,
+        createdAt: projectMembers.createdAt,
+        userProfile: {
+          id: userProfiles.id,
+          email: userProfiles.email,
+          firstName: userProfiles.firstName,
+          lastName: userProfiles.lastName,
+          avatarUrl: userProfiles.avatarUrl,
+        },
+      })
+      .from(projectMembers)
+      .innerJoin(
+        userProfiles,
+        eq(projectMembers.userProfileId, userProfiles.id),
+      )
+      .where(
+        and(
+          eq(projectMembers.projectId, projectId),
+          isNull(projectMembers.deletedAt),
+        ),
+      )
+      .orderBy(asc(userProfiles.lastName), asc(userProfiles.firstName));
+  }
+
+  /**
+   * Live owner rows of a project, locked until the transaction ends so two
+   * demotions cannot both see another owner.
+   */
+  async findOwners(projectId: string, db: DrizzleExecutor = this.db) {
+    return db
+      .select()
+      .from(projectMembers)
+      .where(
+        and(
+          eq(projectMembers.projectId, projectId),
+          eq(projectMembers.role, 'owner'),
+          isNull(projectMembers.deletedAt),
+        ),
+      )
+      .for('update');
+  }
+
+  /** The profile's live membership of a project, or undefined. */
+  async findMembership(
+    projectId: string,
+    userProfileId: string,
+    db: DrizzleExecutor = this.db,
+  ) {
+    const [row] = await db
+      .select()
+      .from(projectMembers)
+      .where(
+        and(
+          eq(projectMembers.projectId, projectId),
+          eq(projectMembers.userProfileId, userProfileId),
+          isNull(projectMembers.deletedAt),
+        ),
+      );
+    return row;
+  }
+
+  /** Inserts a membership, or returns undefined when it already exists. */
+  async createIfAbsent(
+    data: CreateProjectMemberInput,
+    db: DrizzleExecutor = this.db,
+  ) {
+    const [row] = await db
+      .insert(projectMembers)
+      .values(data)
+      .onConflictDoNothing()
+      .returning();
+    return row;
+  }
+}
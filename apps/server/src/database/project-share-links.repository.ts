@@ -0,0 +1,55 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { and, desc, eq, gt, isNull } from 'drizzle-orm';
+import { projectShareLinks, projects } from '@utilitix/db';
+import { DRIZZLE, type DrizzleDB, type DrizzleExecutor } from '../drizzle';
+import { BaseRepository } from './base.repository';
+
+export type CreateProjectShareLinkInput = typeof projectShareLinks.$inferInsert;
+
+/** Not revoked or expired. */
+function isActive() {
+  return and(
+    isNull(projectShareLinks.deletedAt),
+    gt(projectShareLinks.expiresAt, new Date()),
+  );
+}
+
+@Injectable()
+export class ProjectShareLinksRepository extends BaseRepository<
+  typeof projectShareLinks,
+  typeof projectShareLinks.$inferSelect,
+  CreateProjectShareLinkInput,
+  Pick<CreateProjectShareLinkInput, 'label'>
+> {
+  constructor(@Inject(DRIZZLE) db: DrizzleDB) {
+    super(db, projectShareLinks, 'Share link');
+  }
+
+  /** Active links of a project, newest first. */
+  async findActiveByProject(projectId: string, db: DrizzleExecutor = this.db) {
+    return db
+      .select()
+      .from(projectShareLinks)
+      .where(and(eq(projectShareLinks.projectId, projectId), isActive()))
+      .orderBy(desc(projectShareLinks.createdAt));
+  }
+
+  /** An active link of a live project, with the project; undefined otherwise. */
+  async findActive(id: string, db: DrizzleExecutor = this.db) {
+    const [row] = await db
+      .select({
+        link: projectShareLinks,
+        project: { id: projects.id, name: projects.name },
+      })
+      .from(projectShareLinks)
+      .innerJoin(projects, eq(projectShareLinks.projectId, projects.id))
+      .where(
+        and(
+          eq(projectShareLinks.id, id),
+          isActive(),
+          isNull(projects.deletedAt),
+        ),
+      );
+    return row;
+  }
+}
@@ -14,6 +14,6 @@ export class ProjectsRepository extends BaseRepository<
   UpdateProjectDto
 > {
   constructor(@Inject(DRIZZLE) db: DrizzleDB) {
-    super(db, projects, 'Project');
+    super(db, projects, 'Project', 'project');
   }
 }
@@ -0,0 +1,124 @@
+import { and, eq, inArray, isNull, type SQL } from 'drizzle-orm';
+import {
+  layers,
+  pathNodes,
+  paths,
+  projects,
+  type AuditEntityType,
+} from '@utilitix/db';
+import type { DrizzleExecutor } from '../drizzle';
+import { auditDeleted, auditRestored } from './audit-trail';
+
+/** A record whose soft delete takes its descendants with it. */
+export type CascadeRoot = 'project' | 'layer' | 'path';
+
+type CascadeStep = {
+  table: typeof layers | typeof paths | typeof pathNodes;
+  entityType: AuditEntityType;
+  where: SQL;
+};
+
+const ROOT_TABLES = { project: projects, layer: layers, path: paths };
+
+/** The layers, paths and nodes under a root, parents first. */
+function descendants(
+  db: DrizzleExecutor,
+  root: CascadeRoot,
+  id: string,
+): CascadeStep[] {
+  if (root === 'path') {
+    return [
+      {
+        table: pathNodes,
+        entityType: 'path_node',
+        where: eq(pathNodes.pathId, id),
+      },
+    ];
+  }
+
+  const pathsWhere =
+    root === 'layer'
+      ? eq(paths.layerId, id)
+      : inArray(
+          paths.layerId,
+          db
+            .select({ id: layers.id })
+            .from(layers)
+            .where(eq(layers.projectId, id)),
+        );
+  const steps: CascadeStep[] = [
+    { table: paths, entityType: 'path', where: pathsWhere },
+    {
+      table: pathNodes,
+      entityType: 'path_node',
+      where: inArray(
+        pathNodes.pathId,
+        db.select({ id: paths.id }).from(paths).where(pathsWhere),
+      ),
+    },
+  ];
+  if (root === 'project') {
+    steps.unshift({
+      table: layers,
+      entityType: 'layer',
+      where: eq(layers.projectId, id),
+    });
+  }
+  return steps;
+}
+
+/**
+ * Soft-deletes the live descendants of a just-deleted root, stamping them
+ * with the root's `deletedAt`. Run it in the transaction that deleted the
+ * root.
+ *
+ * The shared stamp is what `restoreDescendants` matches on, so records
+ * deleted on their own earlier stay in the trash when the root comes back.
+ */
+export async function deleteDescendants(
+  db: DrizzleExecutor,
+  root: CascadeRoot,
+  id: string,
+  deletedAt: Date,
+) {
+  for (const step of descendants(db, root, id)) {
+    const rows = await db
+      .update(step.table)
+      .set({ deletedAt })
+      .where(and(step.where, isNull(step.table.deletedAt)))
+      .returning();
+    await auditDeleted(db, step.entityType, rows);
+  }
+}
+
+/**
+ * Restores the descendants deleted together with a root, i.e. those stamped
+ * with its `deletedAt`. Call it before restoring the root itself, while the
+ * root still carries that stamp.
+ */
+export async function restoreDescendants(
+  db: DrizzleExecutor,
+  root: CascadeRoot,
+  id: string,
+) {
+  const table = ROOT_TABLES[root];
+  const [trashed] = await db
+    .select({ deletedAt: table.deletedAt })
+    .from(table)
+    .where(eq(table.id, id));
+  const deletedAt = trashed?.deletedAt;
+  if (!deletedAt) return;
+
+  for (const step of descendants(db, root, id)) {
+    const rows = await db
+      .update(step.table)
+      .set({ deletedAt: null, updatedAt: new Date() })
+      .where(and(step.where, eq(step.table.deletedAt, deletedAt)))
+      .returning();
+    await auditRestored(
+      db,
+      step.entityType,
+      rows.map((row) => ({ ...row, deletedAt })),
+    );
+  }
+}
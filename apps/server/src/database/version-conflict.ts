@@ -0,0 +1,21 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+
+/** Rejects a write that does not say which version of the record it read. */
+export function assertVersion(version: unknown, field = 'version') {
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    throw new BadRequestException(`${field} must be a positive integer`);
+  }
+}
+
+/**
+ * 409 for a write based on a stale read. The body carries the records as
+ * they are now, so the client can show what changed before retrying.
+ */
+export function versionConflict(message: string, current: unknown) {
+  return new ConflictException({
+    statusCode: 409,
+    error: 'Conflict',
+    message,
+    current,
+  });
+}
@@ -3,6 +3,10 @@ import { createDb, type Database } from '@utilitix/db';
 
 export const DRIZZLE = Symbol('DRIZZLE');
 export type DrizzleDB = Database;
+/** An open transaction handle, as passed to `db.transaction(async (tx) => ...)`. */
+export type DrizzleTx = Parameters<Parameters<Database['transaction']>[0]>[0];
+/** Anything that can run a query: the root client or a transaction. */
+export type DrizzleExecutor = DrizzleDB | DrizzleTx;
 
 export interface DrizzleModuleOptions {
   connectionString: string;
@@ -1,3 +1,8 @@
 export { DrizzleModule, DRIZZLE } from './drizzle.module';
-export type { DrizzleDB, DrizzleModuleOptions } from './drizzle.module';
+export type {
+  DrizzleDB,
+  DrizzleTx,
+  DrizzleExecutor,
+  DrizzleModuleOptions,
+} from './drizzle.module';
 export * from '@utilitix/db';
@@ -1,6 +1,6 @@
 import { Controller, Get } from '@nestjs/common';
 import { Authentication, CognitoUser } from '@nestjs-cognito/auth';
-import type { CognitoJwtPayload } from '@nestjs-cognito/core';
+import type { CognitoJwtPayload } from 'aws-jwt-verify/jwt-model';
 
 @Controller('example')
 @Authentication()
@@ -0,0 +1,6 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AcceptInvitationDto {
+  @ApiProperty({ description: 'The token from the emailed link' })
+  token: string;
+}
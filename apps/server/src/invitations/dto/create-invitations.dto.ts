@@ -0,0 +1,38 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PROJECT_ROLES, type ProjectRole } from '@utilitix/db';
+
+/** The inviter's map view, carried into the emailed link. */
+export class InvitationViewDto {
+  @ApiProperty({ example: -79.3832 })
+  longitude: number;
+
+  @ApiProperty({ example: 43.6532 })
+  latitude: number;
+
+  @ApiProperty({ example: 16 })
+  zoom: number;
+
+  @ApiProperty({ example: 45 })
+  pitch: number;
+
+  @ApiProperty({ example: 0 })
+  bearing: number;
+}
+
+export class CreateInvitationsDto {
+  @ApiProperty({
+    type: [String],
+    description: 'Recipients; each gets its own invitation and email',
+    example: ['records@enbridge.com'],
+  })
+  emails: string[];
+
+  @ApiProperty({ enum: PROJECT_ROLES, example: 'viewer' })
+  role: ProjectRole;
+
+  @ApiPropertyOptional({
+    type: InvitationViewDto,
+    description: 'Map view the link opens at',
+  })
+  view?: InvitationViewDto;
+}
@@ -0,0 +1,45 @@
+import type { ProjectRole } from '@utilitix/db';
+import type { MailMessage } from '../mail/mail-transport';
+
+const ROLE_LABEL: Record<ProjectRole, string> = {
+  viewer: 'view',
+  editor: 'edit',
+  owner: 'manage',
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function invitationEmail(args: {
+  to: string;
+  inviterName: string;
+  projectName: string;
+  role: ProjectRole;
+  link: string;
+  expiresAt: Date;
+}): MailMessage {
+  const { to, inviterName, projectName, role, link, expiresAt } = args;
+  const expiry = expiresAt.toUTCString();
+  const intro = `${inviterName} invited you to ${ROLE_LABEL[role]} the project "${projectName}" on Utilitix.`;
+  return {
+    to,
+    subject: `${inviterName} invited you to ${projectName}`,
+    text: [
+      intro,
+      '',
+      `Open the project: ${link}`,
+      '',
+      `This link expires ${expiry}.`,
+    ].join('\n'),
+    html: [
+      `<p>${escapeHtml(intro)}</p>`,
+      `<p><a href="${escapeHtml(link)}">Open the project</a></p>`,
+      `<p style="color:#666">This link expires ${escapeHtml(expiry)}.</p>`,
+    ].join('\n'),
+  };
+}
@@ -0,0 +1,37 @@
+import { Body, Controller, HttpCode, Post, UseGuards } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Authentication } from '@nestjs-cognito/auth';
+import { InvitationsService } from './invitations.service';
+import { EnsureProfileGuard } from '../auth/guards/ensure-profile.guard';
+import {
+  CurrentProfile,
+  type UserProfile,
+} from '../auth/decorators/current-profile.decorator';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+
+@ApiTags('invitations')
+@UseGuards(EnsureProfileGuard)
+@Authentication()
+@Controller('invitations')
+export class InvitationsController {
+  constructor(private readonly service: InvitationsService) {}
+
+  @Post('accept')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Accept an emailed invitation as the signed-in user',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'The project joined and the resulting role',
+  })
+  @ApiResponse({ status: 400, description: 'Token invalid or expired' })
+  @ApiResponse({ status: 403, description: 'Invitation is for another email' })
+  @ApiResponse({ status: 410, description: 'Already accepted by someone else' })
+  accept(
+    @Body() dto: AcceptInvitationDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.accept(profile, dto.token);
+  }
+}
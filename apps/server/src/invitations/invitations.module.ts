@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { InvitationsController } from './invitations.controller';
+import { ProjectInvitationsController } from './project-invitations.controller';
+import { InvitationsService } from './invitations.service';
+import { AuthModule } from '../auth/auth.module';
+import { MailModule } from '../mail/mail.module';
+import { ProjectInvitationsRepository } from '../database/project-invitations.repository';
+
+@Module({
+  imports: [AuthModule, MailModule],
+  controllers: [InvitationsController, ProjectInvitationsController],
+  providers: [InvitationsService, ProjectInvitationsRepository],
+})
+export class InvitationsModule {}
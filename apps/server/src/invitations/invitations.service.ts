@@ -0,0 +1,216 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { DRIZZLE, DrizzleDB } from '../drizzle';
+import { ProjectInvitationsRepository } from '../database/project-invitations.repository';
+import { ProjectMembersRepository } from '../database/project-members.repository';
+import { OrganizationScopeService } from '../auth/organization-scope.service';
+import { hasProjectRole } from '../auth/project-access.service';
+import type { UserProfile } from '../auth/decorators/current-profile.decorator';
+import { requireRole } from '../projects/project-members.service';
+import { MAIL_TRANSPORT, type MailTransport } from '../mail/mail-transport';
+import { signToken, verifyToken } from '../auth/signed-token';
+import { invitationEmail } from './invitation-email';
+import {
+  CreateInvitationsDto,
+  InvitationViewDto,
+} from './dto/create-invitations.dto';
+
+/** Loose on purpose: the mail server is the real judge of an address. */
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+const MAX_RECIPIENTS = 50;
+
+/** How long an emailed invitation stays valid, from INVITATION_TTL_HOURS. */
+function invitationTtlMs(): number {
+  const hours = Number(process.env.INVITATION_TTL_HOURS ?? 168);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 168) * 3_600_000;
+}
+
+/** Map view keys, named as the client reads them from the URL. */
+const VIEW_PARAMS: [keyof InvitationViewDto, string][] = [
+  ['longitude', 'lng'],
+  ['latitude', 'lat'],
+  ['zoom', 'zoom'],
+  ['pitch', 'pitch'],
+  ['bearing', 'bearing'],
+];
+
+function requireEmails(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new BadRequestException('emails must be a non-empty array');
+  }
+  if (value.length > MAX_RECIPIENTS) {
+    throw new BadRequestException(
+      `At most ${MAX_RECIPIENTS} recipients per request`,
+    );
+  }
+  const emails = value.map((v) =>
+    typeof v === 'string' ? v.trim().toLowerCase() : '',
+  );
+  const invalid = emails.find((e) => !EMAIL_PATTERN.test(e));
+  if (invalid !== undefined) {
+    throw new BadRequestException(`Invalid email address "${invalid}"`);
+  }
+  return [...new Set(emails)];
+}
+
+function requireView(value: unknown): InvitationViewDto | undefined {
+  if (value === undefined || value === null) return undefined;
+  const view = value as Record<string, unknown>;
+  for (const [key] of VIEW_PARAMS) {
+    if (typeof view[key] !== 'number' || !Number.isFinite(view[key])) {
+      throw new BadRequestException(`view.${key} must be a finite number`);
+    }
+  }
+  return view as unknown as InvitationViewDto;
+}
+
+function displayName(profile: UserProfile) {
+  return `${profile.firstName} ${profile.lastName}`.trim() || profile.email;
+}
+
+/**
+ * Emailed invitations to a project. Each carries a signed, expiring token;
+ * accepting it makes the recipient a member. A first-time recipient's
+ * profile is created in the inviting organization (see
+ * UserProfilesService.findOrCreateFromAuth).
+ */
+@Injectable()
+export class InvitationsService {
+  constructor(
+    @Inject(DRIZZLE) private readonly db: DrizzleDB,
+    private readonly repo: ProjectInvitationsRepository,
+    private readonly members: ProjectMembersRepository,
+    private readonly scope: OrganizationScopeService,
+    @Inject(MAIL_TRANSPORT) private readonly mail: MailTransport,
+  ) {}
+
+  async findPending(organizationId: string, projectId: string) {
+    await this.scope.findProject(organizationId, projectId);
+    return this.repo.findPendingByProject(projectId);
+  }
+
+  /**
+   * Invites each address, replacing any pending invitation it already has,
+   * then mails the links. The rows are committed before sending, so a mail
+   * failure leaves invitations that can be re-sent by inviting again.
+   */
+  async invite(
+    inviter: UserProfile,
+    projectId: string,
+    dto: CreateInvitationsDto,
+  ) {
+    const emails = requireEmails(dto.emails);
+    const role = requireRole(dto.role);
+    const view = requireView(dto.view);
+    const project = await this.scope.findProject(
+      inviter.organizationId,
+      projectId,
+    );
+    const expiresAt = new Date(Date.now() + invitationTtlMs());
+
+    const invitations = await this.db.transaction(async (tx) => {
+      await this.repo.revokePending(projectId, emails, tx);
+      return Promise.all(
+        emails.map((email) =>
+          this.repo.create(
+            { projectId, email, role, invitedById: inviter.id, expiresAt },
+            tx,
+          ),
+        ),
+      );
+    });
+
+    for (const invitation of invitations) {
+      await this.mail.send(
+        invitationEmail({
+          to: invitation.email,
+          inviterName: displayName(inviter),
+          projectName: project.name,
+          role,
+          link: this.acceptLink(invitation.id, expiresAt, projectId, view),
+          expiresAt,
+        }),
+      );
+    }
+    return invitations;
+  }
+
+  async revoke(organizationId: string, projectId: string, id: string) {
+    await this.scope.findProject(organizationId, projectId);
+    const invitation = await this.repo.findOne(id);
+    if (invitation.projectId !== projectId) {
+      throw new NotFoundException(`Invitation ${id} not found`);
+    }
+    return this.repo.remove(id);
+  }
+
+  /**
+   * Makes the caller a member with the invited role. An existing membership
+   * is only ever raised, never lowered. Accepting twice returns the same
+   * result.
+   */
+  async accept(profile: UserProfile, token: string) {
+    const id =
+      typeof token === 'string' ? verifyToken('invitation', token) : null;
+    if (!id) {
+      throw new BadRequestException('Invitation link is invalid or expired');
+    }
+    const invitation = await this.repo.findOne(id);
+    if (invitation.email !== profile.email.toLowerCase()) {
+      throw new ForbiddenException(
+        'This invitation was sent to a different email address',
+      );
+    }
+    await this.scope.findProject(profile.organizationId, invitation.projectId);
+
+    return this.db.transaction(async (tx) => {
+      const accepted = await this.repo.markAccepted(id, profile.id, tx);
+      if (!accepted && invitation.acceptedById !== profile.id) {
+        throw new GoneException('Invitation is no longer valid');
+      }
+      const { projectId, role } = invitation;
+      const member = await this.members.findMembership(
+        projectId,
+        profile.id,
+        tx,
+      );
+      if (!member) {
+        await this.members.create(
+          { projectId, userProfileId: profile.id, role },
+          tx,
+        );
+        return { projectId, role };
+      }
+      if (hasProjectRole(member.role, role)) {
+        return { projectId, role: member.role };
+      }
+      await this.members.update(member.id, { role }, tx);
+      return { projectId, role };
+    });
+  }
+
+  private acceptLink(
+    id: string,
+    expiresAt: Date,
+    projectId: string,
+    view?: InvitationViewDto,
+  ) {
+    const base = process.env.APP_URL ?? 'http://localhost:3000';
+    const params = new URLSearchParams({
+      token: signToken('invitation', id, expiresAt),
+      projectId,
+    });
+    if (view) {
+      for (const [key, param] of VIEW_PARAMS) {
+        params.set(param, String(view[key]));
+      }
+    }
+    return `${base}/invitations/accept?${params.toString()}`;
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Authentication } from '@nestjs-cognito/auth';
+import { InvitationsService } from './invitations.service';
+import { EnsureProfileGuard } from '../auth/guards/ensure-profile.guard';
+import { ProjectRoleGuard } from '../auth/guards/project-role.guard';
+import {
+  fromParam,
+  RequireProjectRole,
+} from '../auth/decorators/project-role.decorator';
+import {
+  CurrentProfile,
+  type UserProfile,
+} from '../auth/decorators/current-profile.decorator';
+import { CreateInvitationsDto } from './dto/create-invitations.dto';
+
+@ApiTags('invitations')
+@UseGuards(EnsureProfileGuard, ProjectRoleGuard)
+@Authentication()
+@Controller('projects/:id/invitations')
+@ApiParam({ name: 'id', format: 'uuid' })
+@ApiResponse({ status: 403, description: 'Project role too low' })
+export class ProjectInvitationsController {
+  constructor(private readonly service: InvitationsService) {}
+
+  @Get()
+  @RequireProjectRole('owner', { project: fromParam('id') })
+  @ApiOperation({ summary: 'List pending invitations of a project' })
+  @ApiResponse({ status: 200, description: 'Array of invitations' })
+  findPending(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.findPending(profile.organizationId, id);
+  }
+
+  @Post()
+  @RequireProjectRole('owner', { project: fromParam('id') })
+  @ApiOperation({
+    summary: 'Email invitations to join the project with a role',
+    description:
+      'Each recipient gets a signed link that expires after ' +
+      'INVITATION_TTL_HOURS (default 7 days). Re-inviting an address ' +
+      'replaces its pending invitation.',
+  })
+  @ApiResponse({ status: 201, description: 'The created invitations' })
+  @ApiResponse({ status: 400, description: 'Invalid emails, role or view' })
+  create(
+    @Param('id') id: string,
+    @Body() dto: CreateInvitationsDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.invite(profile, id, dto);
+  }
+
+  @Delete(':invitationId')
+  @RequireProjectRole('owner', { project: fromParam('id') })
+  @ApiOperation({ summary: 'Revoke a pending invitation' })
+  @ApiParam({ name: 'invitationId', format: 'uuid' })
+  @ApiResponse({ status: 200, description: 'The revoked invitation' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  revoke(
+    @Param('id') id: string,
+    @Param('invitationId') invitationId: string,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.revoke(profile.organizationId, id, invitationId);
+  }
+}
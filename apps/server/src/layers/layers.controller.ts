@@ -1,53 +1,108 @@
-import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
 import { ApiOperation, ApiParam, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Authentication } from '@nestjs-cognito/auth';
 import { LayersService } from './layers.service';
 import { CreateLayerDto } from './dto/create-layer.dto';
 import { UpdateLayerDto } from './dto/update-layer.dto';
+import { EnsureProfileGuard } from '../auth/guards/ensure-profile.guard';
+import { ProjectRoleGuard } from '../auth/guards/project-role.guard';
+import {
+  fromBody,
+  fromParam,
+  fromQuery,
+  RequireProjectRole,
+} from '../auth/decorators/project-role.decorator';
+import {
+  CurrentProfile,
+  type UserProfile,
+} from '../auth/decorators/current-profile.decorator';
 
 @ApiTags('layers')
+@ApiResponse({ status: 403, description: 'Project role too low' })
+@UseGuards(EnsureProfileGuard, ProjectRoleGuard)
+@Authentication()
 @Controller('layers')
 export class LayersController {
   constructor(private readonly service: LayersService) {}
 
   @Get()
+  @RequireProjectRole('viewer', { project: fromQuery('projectId') })
   @ApiOperation({ summary: 'List layers, optionally filtered by project' })
   @ApiQuery({ name: 'projectId', required: false, format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Array of layers' })
-  findAll(@Query('projectId') projectId?: string) {
-    return this.service.findAll(projectId);
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  findAll(
+    @CurrentProfile() profile: UserProfile,
+    @Query('projectId') projectId?: string,
+  ) {
+    return this.service.findAll(profile.organizationId, profile.id, projectId);
   }
 
   @Get(':id')
+  @RequireProjectRole('viewer', { layer: fromParam('id') })
   @ApiOperation({ summary: 'Get a single layer by ID' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Layer record' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  findOne(@Param('id') id: string) {
-    return this.service.findOne(id);
+  findOne(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.findOne(profile.organizationId, id);
   }
 
   @Post()
+  @RequireProjectRole('editor', { project: fromBody('projectId') })
   @ApiOperation({ summary: 'Create a layer' })
   @ApiResponse({ status: 201, description: 'Created layer' })
-  create(@Body() dto: CreateLayerDto) {
-    return this.service.create(dto);
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  create(@Body() dto: CreateLayerDto, @CurrentProfile() profile: UserProfile) {
+    return this.service.create(profile.organizationId, dto);
   }
 
   @Patch(':id')
+  @RequireProjectRole('editor', { layer: fromParam('id') })
   @ApiOperation({ summary: 'Update a layer' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Updated layer' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  update(@Param('id') id: string, @Body() dto: UpdateLayerDto) {
-    return this.service.update(id, dto);
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdateLayerDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.update(profile.organizationId, id, dto);
   }
 
   @Delete(':id')
+  @RequireProjectRole('editor', { layer: fromParam('id') })
   @ApiOperation({ summary: 'Soft-delete a layer' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Deleted layer' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  remove(@Param('id') id: string) {
-    return this.service.remove(id);
+  remove(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.remove(profile.organizationId, id);
+  }
+
+  @Post(':id/restore')
+  @RequireProjectRole(
+    'editor',
+    { layer: fromParam('id') },
+    { includeDeleted: true },
+  )
+  @ApiOperation({ summary: 'Restore a deleted layer' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 201, description: 'Restored layer' })
+  @ApiResponse({ status: 404, description: 'Not found in trash' })
+  @ApiResponse({ status: 409, description: 'The project is deleted' })
+  restore(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.restore(profile.organizationId, id);
   }
 }
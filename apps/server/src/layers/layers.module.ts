@@ -2,8 +2,10 @@ import { Module } from '@nestjs/common';
 import { LayersController } from './layers.controller';
 import { LayersService } from './layers.service';
 import { LayersRepository } from '../database/layers.repository';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
+  imports: [AuthModule],
   controllers: [LayersController],
   providers: [LayersService, LayersRepository],
 })
@@ -1,20 +1,40 @@
-import { Inject, Injectable } from '@nestjs/common';
-import { and, eq, isNull } from 'drizzle-orm';
-import { layers } from '@utilitix/db';
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { and, eq, getTableColumns, isNull } from 'drizzle-orm';
+import { layers, projectMembers, projects } from '@utilitix/db';
 import { DRIZZLE, DrizzleDB } from '../drizzle';
 import { CreateLayerDto } from './dto/create-layer.dto';
 import { UpdateLayerDto } from './dto/update-layer.dto';
 import { LayersRepository } from '../database/layers.repository';
+import {
+  isProjectMember,
+  OrganizationScopeService,
+} from '../auth/organization-scope.service';
+import {
+  deleteDescendants,
+  restoreDescendants,
+} from '../database/soft-delete-cascade';
 
 @Injectable()
 export class LayersService {
   constructor(
     @Inject(DRIZZLE) private readonly db: DrizzleDB,
     private readonly repo: LayersRepository,
+    private readonly scope: OrganizationScopeService,
   ) {}
 
-  async findAll(projectId?: string) {
+  /** Without a project, lists layers of every project the caller is in. */
+  async findAll(
+    organizationId: string,
+    userProfileId: string,
+    projectId?: string,
+  ) {
     if (projectId) {
+      await this.scope.findProject(organizationId, projectId);
       return this.db
         .select()
         .from(layers)
@@ -22,22 +42,65 @@ export class LayersService {
           and(isNull(layers.deletedAt), eq(layers.projectId, projectId)),
         );
     }
-    return this.repo.findAll();
+    return this.db
+      .select(getTableColumns(layers))
+      .from(layers)
+      .innerJoin(projects, eq(layers.projectId, projects.id))
+      .innerJoin(projectMembers, isProjectMember(userProfileId))
+      .where(
+        and(
+          isNull(layers.deletedAt),
+          eq(projects.organizationId, organizationId),
+        ),
+      );
   }
 
-  async findOne(id: string) {
-    return this.repo.findOne(id);
+  async findOne(organizationId: string, id: string) {
+    return this.scope.findLayer(organizationId, id);
   }
 
-  async create(dto: CreateLayerDto) {
+  async create(organizationId: string, dto: CreateLayerDto) {
+    await this.scope.findProject(organizationId, dto.projectId);
     return this.repo.create(dto);
   }
 
-  async update(id: string, dto: UpdateLayerDto) {
-    return this.repo.update(id, dto);
+  /** A layer stays in its project; any projectId sent is dropped. */
+  async update(organizationId: string, id: string, dto: UpdateLayerDto) {
+    await this.scope.findLayer(organizationId, id);
+    const patch: UpdateLayerDto = { ...dto };
+    delete (patch as { projectId?: unknown }).projectId;
+    return this.repo.update(id, patch);
   }
 
-  async remove(id: string) {
-    return this.repo.remove(id);
+  /** Deletes the layer with its paths and their nodes. */
+  async remove(organizationId: string, id: string) {
+    return this.db.transaction(async (tx) => {
+      await this.scope.findLayer(organizationId, id, tx);
+      const row = await this.repo.remove(id, tx);
+      await deleteDescendants(tx, 'layer', id, row.deletedAt!);
+      return row;
+    });
+  }
+
+  /**
+   * Takes a layer out of the trash with the paths and nodes deleted along
+   * with it; its project must be live.
+   */
+  async restore(organizationId: string, id: string) {
+    return this.db.transaction(async (tx) => {
+      const [parent] = await tx
+        .select({ projectDeletedAt: projects.deletedAt })
+        .from(layers)
+        .innerJoin(projects, eq(layers.projectId, projects.id))
+        .where(
+          and(eq(layers.id, id), eq(projects.organizationId, organizationId)),
+        );
+      if (!parent) throw new NotFoundException(`Layer ${id} not found`);
+      if (parent.projectDeletedAt) {
+        throw new ConflictException('The project is in the trash');
+      }
+      await restoreDescendants(tx, 'layer', id);
+      return this.repo.restore(id, tx);
+    });
   }
 }
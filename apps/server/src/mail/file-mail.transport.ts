@@ -0,0 +1,25 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { MailMessage, MailTransport } from './mail-transport';
+import { buildMimeMessage } from './mime';
+
+/**
+ * Development transport: writes each message to `<dir>/<timestamp>.eml`,
+ * which any mail client can open.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(
+    private readonly dir: string,
+    private readonly from: string,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const suffix = Math.random().toString(36).slice(2, 8);
+    await writeFile(
+      join(this.dir, `${stamp}-${suffix}.eml`),
+      buildMimeMessage(this.from, message),
+    );
+  }
+}
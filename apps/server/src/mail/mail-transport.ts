@@ -0,0 +1,13 @@
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/** Delivers outgoing mail; picked by MAIL_TRANSPORT in MailModule. */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
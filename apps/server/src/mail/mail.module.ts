@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { MAIL_TRANSPORT, type MailTransport } from './mail-transport';
+import { FileMailTransport } from './file-mail.transport';
+import { SmtpMailTransport } from './smtp-mail.transport';
+
+/**
+ * Picks the outgoing mail transport from MAIL_TRANSPORT: `file` (default)
+ * writes .eml files under MAIL_DIR; `smtp` sends to SMTP_HOST:SMTP_PORT,
+ * which defaults to a local Mailpit/MailHog sink.
+ */
+function createMailTransport(): MailTransport {
+  const from = process.env.MAIL_FROM ?? 'Utilitix <no-reply@utilitix.local>';
+  const kind = process.env.MAIL_TRANSPORT ?? 'file';
+  switch (kind) {
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_DIR ?? 'tmp/mail', from);
+    case 'smtp':
+      return new SmtpMailTransport(
+        process.env.SMTP_HOST ?? 'localhost',
+        Number(process.env.SMTP_PORT ?? 1025),
+        from,
+      );
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"; use file or smtp`);
+  }
+}
+
+@Module({
+  providers: [{ provide: MAIL_TRANSPORT, useFactory: createMailTransport }],
+  exports: [MAIL_TRANSPORT],
+})
+export class MailModule {}
@@ -0,0 +1,50 @@
+import { randomUUID } from 'crypto';
+import type { MailMessage } from './mail-transport';
+
+/** Wraps base64 at the 76 characters RFC 2045 allows per line. */
+function base64Lines(value: string): string {
+  const encoded = Buffer.from(value, 'utf8').toString('base64');
+  return encoded.match(/.{1,76}/g)?.join('\r\n') ?? '';
+}
+
+/** An RFC 2047 encoded-word, so subjects may hold any UTF-8. */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Renders a message as RFC 5322 text with CRLF line endings: a
+ * multipart/alternative of the plain-text and HTML bodies.
+ */
+export function buildMimeMessage(from: string, message: MailMessage): string {
+  const boundary = `utilitix-${randomUUID()}`;
+  const domain = from.match(/@([^>\s]+)/)?.[1] ?? 'localhost';
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/** The bare address of `Name <addr>` or `addr`, for SMTP envelopes. */
+export function envelopeAddress(address: string): string {
+  return address.match(/<([^>]+)>/)?.[1] ?? address.trim();
+}
@@ -0,0 +1,95 @@
+import { connect, type Socket } from 'net';
+import type { MailMessage, MailTransport } from './mail-transport';
+import { buildMimeMessage, envelopeAddress } from './mime';
+
+/** Gives up on a server that stops answering, so a send cannot hang. */
+const SMTP_TIMEOUT_MS = 10_000;
+
+/**
+ * Reads SMTP replies off a socket. A reply may span several lines
+ * (`250-...` continuations) and several replies may share one chunk.
+ */
+class SmtpReader {
+  private buffer = '';
+  private waiting: ((reply: { code: number; text: string }) => void)[] = [];
+  private replies: { code: number; text: string }[] = [];
+
+  constructor(socket: Socket) {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.drain();
+    });
+  }
+
+  next(): Promise<{ code: number; text: string }> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private drain() {
+    const lines = this.buffer.split('\r\n');
+    let consumed = 0;
+    let text: string[] = [];
+    for (let i = 0; i < lines.length - 1; i++) {
+      const line = lines[i];
+      text.push(line.slice(4));
+      if (line[3] === '-') continue;
+      const reply = { code: Number(line.slice(0, 3)), text: text.join('\n') };
+      const waiter = this.waiting.shift();
+      if (waiter) waiter(reply);
+      else this.replies.push(reply);
+      consumed = i + 1;
+      text = [];
+    }
+    this.buffer = lines.slice(consumed).join('\r\n');
+  }
+}
+
+/**
+ * Minimal unauthenticated SMTP client for a local sink such as Mailpit or
+ * MailHog. It speaks plain EHLO/MAIL/RCPT/DATA and has no TLS or AUTH.
+ */
+export class SmtpMailTransport implements MailTransport {
+  constructor(
+    private readonly host: string,
+    private readonly port: number,
+    private readonly from: string,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const socket = connect({ host: this.host, port: this.port });
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+    const failed = new Promise<never>((_, reject) => {
+      socket.on('error', reject);
+      socket.on('timeout', () =>
+        reject(new Error(`SMTP ${this.host}:${this.port} timed out`)),
+      );
+    });
+    const reader = new SmtpReader(socket);
+    const expect = async (code: number, command?: string) => {
+      if (command !== undefined) socket.write(`${command}\r\n`);
+      const reply = await Promise.race([reader.next(), failed]);
+      if (reply.code !== code) {
+        throw new Error(
+          `SMTP ${command?.split(' ')[0] ?? 'greeting'} failed: ${reply.code} ${reply.text}`,
+        );
+      }
+    };
+
+    try {
+      await expect(220);
+      await expect(250, 'EHLO localhost');
+      await expect(250, `MAIL FROM:<${envelopeAddress(this.from)}>`);
+      await expect(250, `RCPT TO:<${envelopeAddress(message.to)}>`);
+      await expect(354, 'DATA');
+      // Dot-stuffing: a leading "." on any line is doubled (RFC 5321 4.5.2).
+      const body = buildMimeMessage(this.from, message).replace(/^\./gm, '..');
+      await expect(250, `${body}\r\n.`);
+      await expect(221, 'QUIT');
+    } finally {
+      socket.destroy();
+    }
+  }
+}
@@ -1,10 +1,13 @@
 import 'dotenv/config';
 import { NestFactory } from '@nestjs/core';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import type { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+  // GeoJSON imports arrive as JSON bodies, well past express' 100kb default.
+  app.useBodyParser('json', { limit: process.env.JSON_BODY_LIMIT ?? '25mb' });
   const port = process.env.PORT ?? 3001;
   app.enableCors({
     origin: process.env.CORS_ORIGIN ?? 'http://localhost:3000',
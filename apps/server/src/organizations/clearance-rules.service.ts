@@ -0,0 +1,170 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { clearanceRules } from '@utilitix/db';
+import {
+  ClearanceRulesRepository,
+  type CreateClearanceRuleInput,
+} from '../database/clearance-rules.repository';
+import { OrganizationsRepository } from '../database/organizations.repository';
+import {
+  DEFAULT_CLEARANCE_M,
+  DEFAULT_CLEARANCE_RULES,
+  DEFAULT_MIN_COVER_M,
+  UTILITY_PRESETS,
+} from '../constants';
+import { CreateClearanceRuleDto } from './dto/create-clearance-rule.dto';
+import { UpdateClearanceRuleDto } from './dto/update-clearance-rule.dto';
+
+export type ClearanceRule = typeof clearanceRules.$inferSelect;
+
+/** The pair in stored order (utilityA <= utilityB). */
+export function sortedPair(a: string, b: string): [string, string] {
+  return a <= b ? [a, b] : [b, a];
+}
+
+/** Looks up the rule for a utility pair in either order. */
+export function indexRules(rules: ClearanceRule[]) {
+  const byPair = new Map(rules.map((r) => [`${r.utilityA}\n${r.utilityB}`, r]));
+  return (a: string, b: string) => byPair.get(sortedPair(a, b).join('\n'));
+}
+
+/** One rule per unordered pair of UTILITY_PRESETS types, self-pairs included. */
+function seedRules(organizationId: string): CreateClearanceRuleInput[] {
+  const labels = UTILITY_PRESETS.map((p) => p.label);
+  const rows: CreateClearanceRuleInput[] = [];
+  labels.forEach((a, i) => {
+    for (const b of labels.slice(i)) {
+      const [utilityA, utilityB] = sortedPair(a, b);
+      const preset = DEFAULT_CLEARANCE_RULES.find(
+        ({ utilities: [x, y] }) => (x === a && y === b) || (x === b && y === a),
+      );
+      rows.push({
+        organizationId,
+        utilityA,
+        utilityB,
+        horizontalClearanceM: preset?.horizontalM ?? DEFAULT_CLEARANCE_M,
+        verticalClearanceM: preset?.verticalM ?? DEFAULT_CLEARANCE_M,
+        minCoverM: a === b ? DEFAULT_MIN_COVER_M[a] : null,
+      });
+    }
+  });
+  return rows;
+}
+
+function requireUtility(name: string, value: unknown): string {
+  if (!UTILITY_PRESETS.some((p) => p.label === value)) {
+    throw new BadRequestException(
+      `${name} must be one of: ${UTILITY_PRESETS.map((p) => p.label).join(', ')}`,
+    );
+  }
+  return value as string;
+}
+
+function requireMetres(name: string, value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new BadRequestException(`${name} must be a non-negative number`);
+  }
+  return value;
+}
+
+/**
+ * Per-organization clearance and depth-of-cover rules. An organization's
+ * rules are seeded from the UTILITY_PRESETS defaults the first time they are
+ * read or written, so deleted rules stay deleted.
+ */
+@Injectable()
+export class ClearanceRulesService {
+  constructor(
+    private readonly repo: ClearanceRulesRepository,
+    private readonly orgsRepo: OrganizationsRepository,
+  ) {}
+
+  async findAll(organizationId: string) {
+    await this.ensureSeeded(organizationId);
+    return this.repo.findByOrganization(organizationId);
+  }
+
+  async create(organizationId: string, dto: CreateClearanceRuleDto) {
+    await this.ensureSeeded(organizationId);
+    const [utilityA, utilityB] = sortedPair(
+      requireUtility('utilityA', dto.utilityA),
+      requireUtility('utilityB', dto.utilityB),
+    );
+    const [row] = await this.repo.createMany([
+      {
+        organizationId,
+        utilityA,
+        utilityB,
+        horizontalClearanceM: requireMetres(
+          'horizontalClearanceM',
+          dto.horizontalClearanceM,
+        ),
+        verticalClearanceM: requireMetres(
+          'verticalClearanceM',
+          dto.verticalClearanceM,
+        ),
+        minCoverM:
+          utilityA === utilityB && dto.minCoverM != null
+            ? requireMetres('minCoverM', dto.minCoverM)
+            : null,
+      },
+    ]);
+    if (!row) {
+      throw new ConflictException(
+        `A rule for ${utilityA} / ${utilityB} already exists`,
+      );
+    }
+    return row;
+  }
+
+  async update(
+    organizationId: string,
+    ruleId: string,
+    dto: UpdateClearanceRuleDto,
+  ) {
+    const rule = await this.findOwned(organizationId, ruleId);
+    const patch: UpdateClearanceRuleDto = {};
+    if (dto.horizontalClearanceM !== undefined) {
+      patch.horizontalClearanceM = requireMetres(
+        'horizontalClearanceM',
+        dto.horizontalClearanceM,
+      );
+    }
+    if (dto.verticalClearanceM !== undefined) {
+      patch.verticalClearanceM = requireMetres(
+        'verticalClearanceM',
+        dto.verticalClearanceM,
+      );
+    }
+    if (dto.minCoverM !== undefined && rule.utilityA === rule.utilityB) {
+      patch.minCoverM =
+        dto.minCoverM === null
+          ? null
+          : requireMetres('minCoverM', dto.minCoverM);
+    }
+    return this.repo.update(ruleId, patch);
+  }
+
+  async remove(organizationId: string, ruleId: string) {
+    await this.findOwned(organizationId, ruleId);
+    return this.repo.remove(ruleId);
+  }
+
+  private async ensureSeeded(organizationId: string) {
+    await this.orgsRepo.findOne(organizationId);
+    if (await this.repo.existsForOrganization(organizationId)) return;
+    await this.repo.createMany(seedRules(organizationId));
+  }
+
+  private async findOwned(organizationId: string, ruleId: string) {
+    const rule = await this.repo.findOne(ruleId);
+    if (rule.organizationId !== organizationId) {
+      throw new NotFoundException(`Clearance rule ${ruleId} not found`);
+    }
+    return rule;
+  }
+}
@@ -0,0 +1,34 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateClearanceRuleDto {
+  @ApiProperty({
+    description: 'Utility type (a UTILITY_PRESETS label)',
+    example: 'Potable Water',
+  })
+  utilityA: string;
+
+  @ApiProperty({
+    description: 'Utility type (a UTILITY_PRESETS label); may equal utilityA',
+    example: 'Sewer / Drain',
+  })
+  utilityB: string;
+
+  @ApiProperty({
+    description: 'Minimum horizontal separation in metres',
+    example: 2.5,
+  })
+  horizontalClearanceM: number;
+
+  @ApiProperty({
+    description: 'Minimum vertical separation in metres',
+    example: 0.5,
+  })
+  verticalClearanceM: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Minimum depth of cover in metres; only used when utilityA equals utilityB',
+    example: 1.7,
+  })
+  minCoverM?: number | null;
+}
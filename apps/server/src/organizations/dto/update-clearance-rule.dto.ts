@@ -0,0 +1,22 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateClearanceRuleDto {
+  @ApiPropertyOptional({
+    description: 'Minimum horizontal separation in metres',
+    example: 2.5,
+  })
+  horizontalClearanceM?: number;
+
+  @ApiPropertyOptional({
+    description: 'Minimum vertical separation in metres',
+    example: 0.5,
+  })
+  verticalClearanceM?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Minimum depth of cover in metres; only used when utilityA equals utilityB',
+    example: 1.7,
+  })
+  minCoverM?: number | null;
+}
@@ -1,19 +1,44 @@
-import { Body, Controller, Delete, Get, Param, Patch, Post } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
 import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Authentication } from '@nestjs-cognito/auth';
 import { OrganizationsService } from './organizations.service';
+import { ClearanceRulesService } from './clearance-rules.service';
 import { CreateOrganizationDto } from './dto/create-organization.dto';
 import { UpdateOrganizationDto } from './dto/update-organization.dto';
+import { CreateClearanceRuleDto } from './dto/create-clearance-rule.dto';
+import { UpdateClearanceRuleDto } from './dto/update-clearance-rule.dto';
+import { EnsureProfileGuard } from '../auth/guards/ensure-profile.guard';
+import { ProjectAccessService } from '../auth/project-access.service';
+import {
+  CurrentProfile,
+  type UserProfile,
+} from '../auth/decorators/current-profile.decorator';
 
 @ApiTags('organizations')
+@UseGuards(EnsureProfileGuard)
+@Authentication()
 @Controller('organizations')
 export class OrganizationsController {
-  constructor(private readonly service: OrganizationsService) {}
+  constructor(
+    private readonly service: OrganizationsService,
+    private readonly clearanceRules: ClearanceRulesService,
+    private readonly access: ProjectAccessService,
+  ) {}
 
   @Get()
-  @ApiOperation({ summary: 'List all organizations' })
+  @ApiOperation({ summary: 'List the caller organization' })
   @ApiResponse({ status: 200, description: 'Array of organizations' })
-  findAll() {
-    return this.service.findAll();
+  findAll(@CurrentProfile() profile: UserProfile) {
+    return this.service.findAll(profile.organizationId);
   }
 
   @Get(':id')
@@ -21,8 +46,8 @@ export class OrganizationsController {
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Organization record' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  findOne(@Param('id') id: string) {
-    return this.service.findOne(id);
+  findOne(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.findOne(profile.organizationId, id);
   }
 
   @Post()
@@ -36,17 +61,108 @@ export class OrganizationsController {
   @ApiOperation({ summary: 'Update an organization' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Updated organization' })
+  @ApiResponse({ status: 403, description: 'Caller is not an organization admin' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  update(@Param('id') id: string, @Body() dto: UpdateOrganizationDto) {
-    return this.service.update(id, dto);
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdateOrganizationDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    this.service.assertOwn(profile.organizationId, id);
+    this.access.assertOrganizationAdmin(profile, id);
+    return this.service.update(profile.organizationId, id, dto);
   }
 
   @Delete(':id')
   @ApiOperation({ summary: 'Soft-delete an organization' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Deleted organization' })
+  @ApiResponse({ status: 403, description: 'Caller is not an organization admin' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  remove(@Param('id') id: string) {
-    return this.service.remove(id);
+  remove(
+    @Param('id') id: string,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    this.service.assertOwn(profile.organizationId, id);
+    this.access.assertOrganizationAdmin(profile, id);
+    return this.service.remove(profile.organizationId, id);
+  }
+
+  @Get(':id/clearance-rules')
+  @ApiOperation({
+    summary: 'List clearance and depth-of-cover rules',
+    description:
+      'Seeds the defaults for every utility type pair on first use. ' +
+      'Conflict and cover checks on projects of the organization use these.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, description: 'Array of clearance rules' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  findClearanceRules(
+    @Param('id') id: string,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    this.service.assertOwn(profile.organizationId, id);
+    return this.clearanceRules.findAll(id);
+  }
+
+  @Post(':id/clearance-rules')
+  @ApiOperation({ summary: 'Add a clearance rule for a utility type pair' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 201, description: 'Created clearance rule' })
+  @ApiResponse({
+    status: 400,
+    description: 'Unknown utility type or invalid distance',
+  })
+  @ApiResponse({ status: 403, description: 'Caller is not an organization admin' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  @ApiResponse({ status: 409, description: 'The pair already has a rule' })
+  createClearanceRule(
+    @Param('id') id: string,
+    @Body() dto: CreateClearanceRuleDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    this.service.assertOwn(profile.organizationId, id);
+    this.access.assertOrganizationAdmin(profile, id);
+    return this.clearanceRules.create(id, dto);
+  }
+
+  @Patch(':id/clearance-rules/:ruleId')
+  @ApiOperation({ summary: 'Update a clearance rule' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiParam({ name: 'ruleId', format: 'uuid' })
+  @ApiResponse({ status: 200, description: 'Updated clearance rule' })
+  @ApiResponse({ status: 400, description: 'Invalid distance' })
+  @ApiResponse({ status: 403, description: 'Caller is not an organization admin' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  updateClearanceRule(
+    @Param('id') id: string,
+    @Param('ruleId') ruleId: string,
+    @Body() dto: UpdateClearanceRuleDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    this.service.assertOwn(profile.organizationId, id);
+    this.access.assertOrganizationAdmin(profile, id);
+    return this.clearanceRules.update(id, ruleId, dto);
+  }
+
+  @Delete(':id/clearance-rules/:ruleId')
+  @ApiOperation({
+    summary: 'Soft-delete a clearance rule',
+    description: 'The pair then falls back to the default clearance.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiParam({ name: 'ruleId', format: 'uuid' })
+  @ApiResponse({ status: 200, description: 'Deleted clearance rule' })
+  @ApiResponse({ status: 403, description: 'Caller is not an organization admin' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  removeClearanceRule(
+    @Param('id') id: string,
+    @Param('ruleId') ruleId: string,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    this.service.assertOwn(profile.organizationId, id);
+    this.access.assertOrganizationAdmin(profile, id);
+    return this.clearanceRules.remove(id, ruleId);
   }
 }
@@ -1,11 +1,30 @@
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { OrganizationsController } from './organizations.controller';
 import { OrganizationsService } from './organizations.service';
 import { OrganizationsRepository } from '../database/organizations.repository';
+import { ClearanceRulesService } from './clearance-rules.service';
+import { ClearanceRulesRepository } from '../database/clearance-rules.repository';
+import { UserProfilesModule } from '../user-profiles/user-profiles.module';
+import { ProjectAccessService } from '../auth/project-access.service';
+import { ProjectMembersRepository } from '../database/project-members.repository';
 
+// UserProfilesModule supplies EnsureProfileGuard's dependency and itself
+// needs OrganizationsService to provision new users, hence forwardRef.
 @Module({
+  imports: [forwardRef(() => UserProfilesModule)],
   controllers: [OrganizationsController],
-  providers: [OrganizationsService, OrganizationsRepository],
-  exports: [OrganizationsService, OrganizationsRepository],
+  providers: [
+    OrganizationsService,
+    OrganizationsRepository,
+    ClearanceRulesService,
+    ClearanceRulesRepository,
+    ProjectAccessService,
+    ProjectMembersRepository,
+  ],
+  exports: [
+    OrganizationsService,
+    OrganizationsRepository,
+    ClearanceRulesService,
+  ],
 })
 export class OrganizationsModule {}
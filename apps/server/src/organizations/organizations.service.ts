@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { OrganizationsRepository } from '../database/organizations.repository';
 import { CreateOrganizationDto } from './dto/create-organization.dto';
 import { UpdateOrganizationDto } from './dto/update-organization.dto';
@@ -7,11 +7,13 @@ import { UpdateOrganizationDto } from './dto/update-organization.dto';
 export class OrganizationsService {
   constructor(private readonly repo: OrganizationsRepository) {}
 
-  async findAll() {
-    return this.repo.findAll();
+  /** Callers only see their own organization. */
+  async findAll(organizationId: string) {
+    return [await this.repo.findOne(organizationId)];
   }
 
-  async findOne(id: string) {
+  async findOne(organizationId: string, id: string) {
+    this.assertOwn(organizationId, id);
     return this.repo.findOne(id);
   }
 
@@ -19,14 +21,23 @@ export class OrganizationsService {
     return this.repo.create(dto);
   }
 
-  async update(id: string, dto: UpdateOrganizationDto) {
+  async update(organizationId: string, id: string, dto: UpdateOrganizationDto) {
+    this.assertOwn(organizationId, id);
     return this.repo.update(id, dto);
   }
 
-  async remove(id: string) {
+  async remove(organizationId: string, id: string) {
+    this.assertOwn(organizationId, id);
     return this.repo.remove(id);
   }
 
+  /** Any organization but the caller's is reported as not found. */
+  assertOwn(organizationId: string, id: string) {
+    if (id !== organizationId) {
+      throw new NotFoundException(`Organization ${id} not found`);
+    }
+  }
+
   /** Returns the first active org, or creates a default one. Used for auto-provisioning new users. */
   async findFirstOrCreateDefault() {
     return this.repo.findFirstOrCreateDefault();
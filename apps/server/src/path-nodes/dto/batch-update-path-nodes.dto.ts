@@ -7,6 +7,9 @@ export class BatchUpdateNodeDto {
 
   @ApiProperty({ type: PointZDto })
   point: PointZDto;
+
+  @ApiProperty({ description: 'The version last read', example: 2 })
+  version: number;
 }
 
 export class BatchUpdatePathNodesDto {
@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class PointZDto {
   @ApiProperty({ description: 'Longitude (WGS-84)', example: -79.3832 })
@@ -15,8 +15,13 @@ export class CreatePathNodeDto {
   @ApiProperty({ example: 'Node A' })
   name: string;
 
-  @ApiProperty({ description: '0-based position index within the path', example: 0 })
-  position: number;
+  @ApiPropertyOptional({
+    description:
+      '0-based index to insert at, shifting later nodes; after the last node ' +
+      'if omitted',
+    example: 0,
+  })
+  position?: number;
 
   @ApiProperty({ description: 'Path this node belongs to', format: 'uuid' })
   pathId: string;
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PointZDto } from './create-path-node.dto';
+
+export class InsertPathNodeDto {
+  @ApiProperty({
+    description:
+      '0-based index to insert at; nodes at or after it shift up by one. ' +
+      'Equal to the node count to append.',
+    example: 2,
+  })
+  index: number;
+
+  @ApiProperty({ example: '' })
+  name: string;
+
+  @ApiProperty({ type: PointZDto })
+  point: PointZDto;
+}
@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReorderPathNodesDto {
+  @ApiProperty({
+    type: [String],
+    format: 'uuid',
+    description: 'Every live node ID of the path, in the new order',
+  })
+  nodeIds: string[];
+}
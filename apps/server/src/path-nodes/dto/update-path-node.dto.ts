@@ -1,13 +1,18 @@
-import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { PointZDto } from './create-path-node.dto';
 
 export class UpdatePathNodeDto {
+  @ApiProperty({
+    description:
+      'The version last read; if the node has changed since, the update is ' +
+      'refused with 409 and the current node',
+    example: 2,
+  })
+  version: number;
+
   @ApiPropertyOptional({ example: 'Node A' })
   name?: string;
 
-  @ApiPropertyOptional({ description: '0-based position index within the path', example: 1 })
-  position?: number;
-
   @ApiPropertyOptional({ type: PointZDto })
   point?: PointZDto;
 }
@@ -1,77 +1,171 @@
-import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
 import { ApiOperation, ApiParam, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Authentication } from '@nestjs-cognito/auth';
 import { PathNodesService } from './path-nodes.service';
 import { CreatePathNodeDto } from './dto/create-path-node.dto';
 import { UpdatePathNodeDto } from './dto/update-path-node.dto';
 import { BatchCreatePathNodesDto } from './dto/batch-create-path-nodes.dto';
 import { BatchUpdatePathNodesDto } from './dto/batch-update-path-nodes.dto';
 import { BatchFetchPathNodesDto } from './dto/batch-fetch-path-nodes.dto';
+import { EnsureProfileGuard } from '../auth/guards/ensure-profile.guard';
+import { ProjectRoleGuard } from '../auth/guards/project-role.guard';
+import {
+  fromBody,
+  fromBodyItems,
+  fromParam,
+  fromQuery,
+  RequireProjectRole,
+} from '../auth/decorators/project-role.decorator';
+import {
+  CurrentProfile,
+  type UserProfile,
+} from '../auth/decorators/current-profile.decorator';
 
 @ApiTags('path-nodes')
+@ApiResponse({ status: 403, description: 'Project role too low' })
+@UseGuards(EnsureProfileGuard, ProjectRoleGuard)
+@Authentication()
 @Controller('path-nodes')
 export class PathNodesController {
   constructor(private readonly service: PathNodesService) {}
 
   @Get()
+  @RequireProjectRole('viewer', { path: fromQuery('pathId') })
   @ApiOperation({ summary: 'List path nodes, optionally filtered by path' })
   @ApiQuery({ name: 'pathId', required: false, format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Array of path nodes ordered by position' })
-  findAll(@Query('pathId') pathId?: string) {
-    return this.service.findAll(pathId);
+  @ApiResponse({ status: 404, description: 'Path not found' })
+  findAll(
+    @CurrentProfile() profile: UserProfile,
+    @Query('pathId') pathId?: string,
+  ) {
+    return this.service.findAll(profile.organizationId, profile.id, pathId);
   }
 
   @Post('batch')
+  @RequireProjectRole('editor', { path: fromBodyItems('nodes', 'pathId') })
   @ApiOperation({ summary: 'Batch-create multiple path nodes in one request' })
   @ApiResponse({ status: 201, description: 'Array of created path nodes' })
-  batchCreate(@Body() dto: BatchCreatePathNodesDto) {
-    return this.service.batchCreate(dto.nodes);
+  @ApiResponse({ status: 400, description: 'A position is past the end of its path' })
+  @ApiResponse({ status: 404, description: 'A path was not found' })
+  batchCreate(
+    @Body() dto: BatchCreatePathNodesDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.batchCreate(profile.organizationId, dto.nodes);
   }
 
   @Post('batch-fetch')
+  @RequireProjectRole('viewer', { path: fromBody('pathIds') })
   @ApiOperation({ summary: 'Fetch nodes for multiple paths in a single request' })
   @ApiResponse({ status: 200, description: 'Array of path nodes for the given path IDs' })
-  batchFetch(@Body() dto: BatchFetchPathNodesDto) {
-    return this.service.findByPathIds(dto.pathIds);
+  @ApiResponse({ status: 404, description: 'A path was not found' })
+  batchFetch(
+    @Body() dto: BatchFetchPathNodesDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.findByPathIds(profile.organizationId, dto.pathIds);
   }
 
   @Patch('batch')
+  @RequireProjectRole('editor', { node: fromBodyItems('nodes', 'id') })
   @ApiOperation({ summary: 'Batch-update node positions (used after drag-end)' })
   @ApiResponse({ status: 200, description: 'Array of updated path nodes' })
-  batchUpdate(@Body() dto: BatchUpdatePathNodesDto) {
-    return this.service.batchUpdate(dto.nodes);
+  @ApiResponse({ status: 400, description: 'A node is missing its version' })
+  @ApiResponse({ status: 404, description: 'A node was not found' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Nodes changed since their `version`; nothing is written and ' +
+      'body.current lists those nodes now',
+  })
+  batchUpdate(
+    @Body() dto: BatchUpdatePathNodesDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.batchUpdate(profile.organizationId, dto.nodes);
   }
 
   @Get(':id')
+  @RequireProjectRole('viewer', { node: fromParam('id') })
   @ApiOperation({ summary: 'Get a single path node by ID' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Path node record' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  findOne(@Param('id') id: string) {
-    return this.service.findOne(id);
+  findOne(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.findOne(profile.organizationId, id);
   }
 
   @Post()
+  @RequireProjectRole('editor', { path: fromBody('pathId') })
   @ApiOperation({ summary: 'Create a path node (stores a PostGIS PointZ geometry)' })
   @ApiResponse({ status: 201, description: 'Created path node' })
-  create(@Body() dto: CreatePathNodeDto) {
-    return this.service.create(dto);
+  @ApiResponse({ status: 400, description: 'Position is past the end of the path' })
+  @ApiResponse({ status: 404, description: 'Path not found' })
+  create(
+    @Body() dto: CreatePathNodeDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.create(profile.organizationId, dto);
   }
 
   @Patch(':id')
+  @RequireProjectRole('editor', { node: fromParam('id') })
   @ApiOperation({ summary: 'Update a path node' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Updated path node' })
+  @ApiResponse({ status: 400, description: 'Missing version' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  update(@Param('id') id: string, @Body() dto: UpdatePathNodeDto) {
-    return this.service.update(id, dto);
+  @ApiResponse({
+    status: 409,
+    description: 'Node changed since `version`; body.current is the node now',
+  })
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdatePathNodeDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.update(profile.organizationId, id, dto);
   }
 
   @Delete(':id')
+  @RequireProjectRole('editor', { node: fromParam('id') })
   @ApiOperation({ summary: 'Soft-delete a path node' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Deleted path node' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  remove(@Param('id') id: string) {
-    return this.service.remove(id);
+  remove(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.remove(profile.organizationId, id);
+  }
+
+  @Post(':id/restore')
+  @RequireProjectRole(
+    'editor',
+    { node: fromParam('id') },
+    { includeDeleted: true },
+  )
+  @ApiOperation({
+    summary: 'Restore a deleted path node',
+    description:
+      'Puts the node back at the position it was deleted from, or last if ' +
+      'the path has fewer nodes now. Returns the node and the full ordered ' +
+      'node list.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 201, description: 'Restored node and path nodes' })
+  @ApiResponse({ status: 404, description: 'Not found in trash' })
+  @ApiResponse({ status: 409, description: 'Its path is deleted' })
+  restore(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.restore(profile.organizationId, id);
   }
 }
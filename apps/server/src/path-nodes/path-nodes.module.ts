@@ -2,9 +2,13 @@ import { Module } from '@nestjs/common';
 import { PathNodesController } from './path-nodes.controller';
 import { PathNodesService } from './path-nodes.service';
 import { PathNodesRepository } from '../database/path-nodes.repository';
+import { PathsRepository } from '../database/paths.repository';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
+  imports: [AuthModule],
   controllers: [PathNodesController],
-  providers: [PathNodesService, PathNodesRepository],
+  providers: [PathNodesService, PathNodesRepository, PathsRepository],
+  exports: [PathNodesService],
 })
 export class PathNodesModule {}
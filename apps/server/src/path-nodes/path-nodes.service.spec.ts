@@ -0,0 +1,139 @@
+import { BadRequestException } from '@nestjs/common';
+import { PathNodesService } from './path-nodes.service';
+import type { DrizzleDB } from '../drizzle';
+import type { PathNodesRepository } from '../database/path-nodes.repository';
+import type { PathsRepository } from '../database/paths.repository';
+import type { OrganizationScopeService } from '../auth/organization-scope.service';
+
+const ORG = 'org-1';
+const point = { lng: 1, lat: 2, z: 3 };
+
+/**
+ * A transaction whose paths have the live nodes given, read in the order the
+ * service visits the paths. Inserted rows get IDs new-0, new-1, ...
+ */
+function fakeTx(liveNodes: { id: string }[][] = []) {
+  let inserted = 0;
+  return {
+    select: jest.fn(() => ({
+      from: () => ({
+        where: () => ({
+          for: () => Promise.resolve([{ id: 'path' }]),
+          orderBy: () => Promise.resolve(liveNodes.shift() ?? []),
+        }),
+      }),
+    })),
+    update: jest.fn(() => ({
+      set: () => ({ where: () => Promise.resolve() }),
+    })),
+    insert: jest.fn(() => ({
+      values: (values: object[]) =>
+        Object.assign(Promise.resolve(), {
+          returning: () =>
+            Promise.resolve(
+              values.map((v) => ({ ...v, id: `new-${inserted++}` })),
+            ),
+        }),
+    })),
+    execute: jest.fn(async () => []),
+  };
+}
+
+function setup(tx: object = fakeTx()) {
+  const repo = {
+    update: jest.fn(async (id: string, patch: object) => ({
+      id,
+      pathId: 'path-1',
+      ...patch,
+    })),
+  };
+  const pathsRepo = { rebuildCachedGeometry: jest.fn(async () => []) };
+  const scope = {
+    findPath: jest.fn(async () => ({ id: 'path-1' })),
+    findPathNode: jest.fn(async () => ({ id: 'node-1' })),
+    assertPaths: jest.fn(async () => undefined),
+  };
+  const db = {
+    transaction: jest.fn((fn: (t: typeof tx) => unknown) => fn(tx)),
+  };
+  const service = new PathNodesService(
+    db as unknown as DrizzleDB,
+    repo as unknown as PathNodesRepository,
+    pathsRepo as unknown as PathsRepository,
+    scope as unknown as OrganizationScopeService,
+  );
+  return { service, repo, tx };
+}
+
+describe('PathNodesService', () => {
+  describe('update', () => {
+    it('writes only the client-settable fields', async () => {
+      const { service, repo, tx } = setup();
+      await service.update(ORG, 'node-1', {
+        version: 4,
+        name: 'Valve',
+        point,
+        pathId: 'other-path',
+        position: 0,
+        id: 'chosen-id',
+        deletedAt: new Date(),
+      } as Parameters<PathNodesService['update']>[2]);
+      expect(repo.update).toHaveBeenCalledWith(
+        'node-1',
+        { name: 'Valve', point },
+        tx,
+        4,
+      );
+    });
+  });
+
+  describe('create', () => {
+    const existing = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+    it('inserts at the position sent, after the nodes before it', async () => {
+      const { service } = setup(fakeTx([existing]));
+      const row = await service.create(ORG, {
+        name: 'Tee',
+        pathId: 'path-1',
+        point,
+        position: 1,
+      });
+      expect(row).toMatchObject({ id: 'new-0', position: 1 });
+    });
+
+    it('appends when no position is sent', async () => {
+      const { service } = setup(fakeTx([existing]));
+      const row = await service.create(ORG, {
+        name: 'End',
+        pathId: 'path-1',
+        point,
+      });
+      expect(row).toMatchObject({ id: 'new-0', position: 3 });
+    });
+
+    it.each([-1, 4, 1.5])('refuses position %p with 400', async (position) => {
+      const { service } = setup(fakeTx([existing]));
+      await expect(
+        service.create(ORG, { name: 'X', pathId: 'path-1', point, position }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('batchCreate', () => {
+    it('places each node among those before it, path by path', async () => {
+      const { service } = setup(fakeTx([[{ id: 'a' }, { id: 'b' }], []]));
+      const rows = await service.batchCreate(ORG, [
+        { name: '1', pathId: 'path-1', point, position: 0 },
+        { name: '2', pathId: 'path-2', point },
+        { name: '3', pathId: 'path-1', point },
+        { name: '4', pathId: 'path-1', point, position: 1 },
+      ]);
+      expect(rows.map((r) => [r.name, r.position])).toEqual([
+        ['1', 0],
+        ['2', 0],
+        ['3', 4],
+        ['4', 1],
+      ]);
+    });
+  });
+});
@@ -1,21 +1,74 @@
-import { Inject, Injectable } from '@nestjs/common';
-import { and, eq, inArray, isNull } from 'drizzle-orm';
-import { pathNodes } from '@utilitix/db';
-import { DRIZZLE, DrizzleDB } from '../drizzle';
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  and,
+  asc,
+  eq,
+  getTableColumns,
+  inArray,
+  isNull,
+  sql,
+} from 'drizzle-orm';
+import {
+  layers,
+  pathNodes,
+  paths,
+  projectMembers,
+  projects,
+} from '@utilitix/db';
+import { DRIZZLE, DrizzleDB, DrizzleTx } from '../drizzle';
 import { CreatePathNodeDto } from './dto/create-path-node.dto';
 import { UpdatePathNodeDto } from './dto/update-path-node.dto';
 import { BatchUpdateNodeDto } from './dto/batch-update-path-nodes.dto';
+import { InsertPathNodeDto } from './dto/insert-path-node.dto';
 import { PathNodesRepository } from '../database/path-nodes.repository';
+import { PathsRepository } from '../database/paths.repository';
+import {
+  isProjectMember,
+  OrganizationScopeService,
+} from '../auth/organization-scope.service';
+import { AppendPathNodesDto } from '../paths/dto/append-path-nodes.dto';
+import { assertNodeCount, assertNodeInputs } from '../paths/node-count';
+import { auditCreated, auditUpdated } from '../database/audit-trail';
+import {
+  assertVersion,
+  versionConflict,
+} from '../database/version-conflict';
 
+/**
+ * Every write here also rebuilds the parent path's `cached_geometry` in the
+ * same transaction, so spatial queries never see a stale shape.
+ *
+ * Positions are kept dense (0..n-1). Anything that shifts them first parks
+ * the path's live nodes at negative positions, then writes the final order,
+ * so `path_nodes_path_id_position_udx` never sees a transient duplicate.
+ *
+ * Writes that bypass the repository record their own audit events. The
+ * position shifts an insert or delete causes are implied by that event and
+ * not recorded; an explicit reorder is.
+ */
 @Injectable()
 export class PathNodesService {
   constructor(
     @Inject(DRIZZLE) private readonly db: DrizzleDB,
     private readonly repo: PathNodesRepository,
+    private readonly pathsRepo: PathsRepository,
+    private readonly scope: OrganizationScopeService,
   ) {}
 
-  async findAll(pathId?: string) {
+  /** Without a path, lists nodes of every project the caller is in. */
+  async findAll(
+    organizationId: string,
+    userProfileId: string,
+    pathId?: string,
+  ) {
     if (pathId) {
+      await this.scope.findPath(organizationId, pathId);
       return this.db
         .select()
         .from(pathNodes)
@@ -23,11 +76,24 @@ export class PathNodesService {
           and(isNull(pathNodes.deletedAt), eq(pathNodes.pathId, pathId)),
         );
     }
-    return this.repo.findAll();
+    return this.db
+      .select(getTableColumns(pathNodes))
+      .from(pathNodes)
+      .innerJoin(paths, eq(pathNodes.pathId, paths.id))
+      .innerJoin(layers, eq(paths.layerId, layers.id))
+      .innerJoin(projects, eq(layers.projectId, projects.id))
+      .innerJoin(projectMembers, isProjectMember(userProfileId))
+      .where(
+        and(
+          isNull(pathNodes.deletedAt),
+          eq(projects.organizationId, organizationId),
+        ),
+      );
   }
 
-  async findByPathIds(pathIds: string[]) {
+  async findByPathIds(organizationId: string, pathIds: string[]) {
     if (pathIds.length === 0) return [];
+    await this.scope.assertPaths(organizationId, pathIds);
     return this.db
       .select()
       .from(pathNodes)
@@ -36,36 +102,388 @@ export class PathNodesService {
       );
   }
 
-  async batchCreate(nodes: CreatePathNodeDto[]) {
-    return this.db.insert(pathNodes).values(nodes).returning();
+  /**
+   * Adds nodes in the order given. Each goes at its `position` on its path if
+   * sent, shifting later nodes, otherwise after the last.
+   */
+  async batchCreate(organizationId: string, nodes: CreatePathNodeDto[]) {
+    if (nodes.length === 0) return [];
+    return this.db.transaction(async (tx) => {
+      await this.scope.assertPaths(
+        organizationId,
+        nodes.map((n) => n.pathId),
+        tx,
+      );
+      const created = new Map<string, (typeof pathNodes.$inferSelect)[]>();
+      for (const pathId of new Set(nodes.map((n) => n.pathId))) {
+        created.set(
+          pathId,
+          await this.insertNodes(
+            tx,
+            pathId,
+            nodes.filter((n) => n.pathId === pathId),
+          ),
+        );
+      }
+      const rows = nodes.map((n) => created.get(n.pathId)!.shift()!);
+      await this.pathsRepo.rebuildCachedGeometry([...created.keys()], tx);
+      return rows;
+    });
   }
 
-  async batchUpdate(nodes: BatchUpdateNodeDto[]) {
-    return Promise.all(
-      nodes.map((n) =>
-        this.db
+  /**
+   * All or nothing: if any node has moved on from the version sent, nothing
+   * is written and the 409 lists those nodes as they are now.
+   */
+  async batchUpdate(organizationId: string, nodes: BatchUpdateNodeDto[]) {
+    nodes.forEach((n, i) => assertVersion(n.version, `nodes[${i}].version`));
+    return this.db.transaction(async (tx) => {
+      await this.scope.assertPathNodes(
+        organizationId,
+        nodes.map((n) => n.id),
+        tx,
+      );
+      const before = await tx
+        .select()
+        .from(pathNodes)
+        .where(
+          inArray(
+            pathNodes.id,
+            nodes.map((n) => n.id),
+          ),
+        )
+        .for('update');
+      const expected = new Map(nodes.map((n) => [n.id, n.version]));
+      const stale = before.filter((b) => b.version !== expected.get(b.id));
+      if (stale.length > 0) {
+        throw versionConflict(
+          `${stale.length} of the nodes have changed since they were read`,
+          stale,
+        );
+      }
+
+      const rows: (typeof pathNodes.$inferSelect | undefined)[] = [];
+      for (const n of nodes) {
+        const [row] = await tx
           .update(pathNodes)
-          .set({ point: n.point, updatedAt: new Date() })
+          .set({
+            point: n.point,
+            updatedAt: new Date(),
+            version: sql`${pathNodes.version} + 1`,
+          })
           .where(eq(pathNodes.id, n.id))
-          .returning()
-          .then(([row]) => row),
-      ),
-    );
+          .returning();
+        rows.push(row);
+      }
+      await auditUpdated(
+        tx,
+        'path_node',
+        before,
+        rows.flatMap((r) => (r ? [r] : [])),
+      );
+      await this.pathsRepo.rebuildCachedGeometry(
+        rows.flatMap((r) => (r ? [r.pathId] : [])),
+        tx,
+      );
+      return rows;
+    });
+  }
+
+  async findOne(organizationId: string, id: string) {
+    return this.scope.findPathNode(organizationId, id);
+  }
+
+  /**
+   * Adds a node at `dto.position`, shifting later nodes, or after the last if
+   * no position is sent.
+   */
+  async create(organizationId: string, dto: CreatePathNodeDto) {
+    return this.db.transaction(async (tx) => {
+      await this.scope.findPath(organizationId, dto.pathId, tx);
+      const [row] = await this.insertNodes(tx, dto.pathId, [dto]);
+      await this.pathsRepo.rebuildCachedGeometry([row.pathId], tx);
+      return row;
+    });
+  }
+
+  /**
+   * Updates the node's name or point; anything else sent, such as a pathId or
+   * position, is dropped, so a node stays where it is on its path (see
+   * `reorder`). Refused with 409 unless `dto.version` is the node's current
+   * version.
+   */
+  async update(organizationId: string, id: string, dto: UpdatePathNodeDto) {
+    assertVersion(dto.version);
+    const { version, name, point } = dto;
+    const patch = { name, point };
+    return this.db.transaction(async (tx) => {
+      await this.scope.findPathNode(organizationId, id, tx);
+      const row = await this.repo.update(id, patch, tx, version);
+      await this.pathsRepo.rebuildCachedGeometry([row.pathId], tx);
+      return row;
+    });
+  }
+
+  async remove(organizationId: string, id: string) {
+    return this.db.transaction(async (tx) => {
+      await this.scope.findPathNode(organizationId, id, tx);
+      const row = await this.repo.remove(id, tx);
+      await this.lockPath(tx, row.pathId);
+      const remaining = await this.liveNodes(tx, row.pathId);
+      await this.parkPositions(tx, row.pathId);
+      await this.applyOrder(
+        tx,
+        remaining.map((n) => n.id),
+      );
+      await this.pathsRepo.rebuildCachedGeometry([row.pathId], tx);
+      return row;
+    });
+  }
+
+  /**
+   * Takes a node out of the trash at the position it was deleted from, or
+   * last if the path has fewer nodes now, shifting later nodes. Its path must
+   * be live.
+   */
+  async restore(organizationId: string, id: string) {
+    return this.db.transaction(async (tx) => {
+      const [parent] = await tx
+        .select({
+          pathId: pathNodes.pathId,
+          position: pathNodes.position,
+          pathName: paths.name,
+          pathDeletedAt: paths.deletedAt,
+        })
+        .from(pathNodes)
+        .innerJoin(paths, eq(pathNodes.pathId, paths.id))
+        .innerJoin(layers, eq(paths.layerId, layers.id))
+        .innerJoin(projects, eq(layers.projectId, projects.id))
+        .where(
+          and(
+            eq(pathNodes.id, id),
+            eq(projects.organizationId, organizationId),
+          ),
+        );
+      if (!parent) throw new NotFoundException(`Path node ${id} not found`);
+      if (parent.pathDeletedAt) {
+        throw new ConflictException(
+          `Path "${parent.pathName}" is in the trash; restore it first`,
+        );
+      }
+
+      await this.lockPath(tx, parent.pathId);
+      const nodes = await this.liveNodes(tx, parent.pathId);
+      await this.parkPositions(tx, parent.pathId);
+      const node = await this.repo.restore(id, tx);
+      const order = nodes.map((n) => n.id);
+      order.splice(Math.min(parent.position, nodes.length), 0, node.id);
+      await this.applyOrder(tx, order);
+
+      await this.pathsRepo.rebuildCachedGeometry([parent.pathId], tx);
+      return { node, nodes: await this.liveNodes(tx, parent.pathId) };
+    });
+  }
+
+  /** Inserts a node at `index`, shifting later nodes; existing IDs are kept. */
+  async insertAt(
+    organizationId: string,
+    pathId: string,
+    dto: InsertPathNodeDto,
+  ) {
+    return this.db.transaction(async (tx) => {
+      await this.scope.findPath(organizationId, pathId, tx);
+      await this.lockPath(tx, pathId);
+      const nodes = await this.liveNodes(tx, pathId);
+      if (
+        !Number.isInteger(dto.index) ||
+        dto.index < 0 ||
+        dto.index > nodes.length
+      ) {
+        throw new BadRequestException(
+          `index must be an integer between 0 and ${nodes.length}`,
+        );
+      }
+
+      await this.parkPositions(tx, pathId);
+      const [node] = await tx
+        .insert(pathNodes)
+        .values({
+          name: dto.name ?? '',
+          point: dto.point,
+          pathId,
+          position: dto.index,
+        })
+        .returning();
+      await auditCreated(tx, 'path_node', [node]);
+      const order = nodes.map((n) => n.id);
+      order.splice(dto.index, 0, node.id);
+      await this.applyOrder(tx, order);
+
+      await this.pathsRepo.rebuildCachedGeometry([pathId], tx);
+      return { node, nodes: await this.liveNodes(tx, pathId) };
+    });
+  }
+
+  /**
+   * Appends nodes after the current last node and optionally sets `isClosed`,
+   * all in one transaction. Returns the path with its rebuilt
+   * `cached_geometry` and full ordered `nodes`.
+   */
+  async appendNodes(
+    organizationId: string,
+    pathId: string,
+    dto: AppendPathNodesDto,
+  ) {
+    assertNodeInputs(dto.nodes);
+    if (dto.nodes.length === 0 && dto.isClosed === undefined) {
+      throw new BadRequestException('nodes must not be empty');
+    }
+
+    return this.db.transaction(async (tx) => {
+      await this.lockPath(tx, pathId);
+      const path = await this.scope.findPath(organizationId, pathId, tx);
+      const existing = await this.liveNodes(tx, pathId);
+      const isClosed = dto.isClosed ?? path.isClosed;
+      assertNodeCount(existing.length + dto.nodes.length, isClosed);
+
+      if (dto.nodes.length > 0) {
+        const rows = await tx
+          .insert(pathNodes)
+          .values(
+            dto.nodes.map((n, i) => ({
+              name: n.name ?? '',
+              point: n.point,
+              pathId,
+              position: existing.length + i,
+            })),
+          )
+          .returning();
+        await auditCreated(tx, 'path_node', rows);
+      }
+      if (isClosed !== path.isClosed) {
+        await this.pathsRepo.update(pathId, { isClosed }, tx);
+      }
+
+      const [rebuilt] = await this.pathsRepo.rebuildCachedGeometry(
+        [pathId],
+        tx,
+      );
+      return { ...rebuilt, nodes: await this.liveNodes(tx, pathId) };
+    });
+  }
+
+  /** Rewrites positions to match `nodeIds`, which must list every live node. */
+  async reorder(organizationId: string, pathId: string, nodeIds: string[]) {
+    return this.db.transaction(async (tx) => {
+      await this.scope.findPath(organizationId, pathId, tx);
+      await this.lockPath(tx, pathId);
+      const nodes = await this.liveNodes(tx, pathId);
+      const live = new Set(nodes.map((n) => n.id));
+      if (
+        !Array.isArray(nodeIds) ||
+        nodeIds.length !== live.size ||
+        new Set(nodeIds).size !== nodeIds.length ||
+        !nodeIds.every((id) => live.has(id))
+      ) {
+        throw new BadRequestException(
+          `nodeIds must list each of the path's ${live.size} live nodes exactly once`,
+        );
+      }
+
+      await this.parkPositions(tx, pathId);
+      await this.applyOrder(tx, nodeIds);
+      await this.pathsRepo.rebuildCachedGeometry([pathId], tx);
+      const reordered = await this.liveNodes(tx, pathId);
+      await auditUpdated(tx, 'path_node', nodes, reordered);
+      return reordered;
+    });
+  }
+
+  /**
+   * Inserts `nodes` into a path in order, each at its `position` among the
+   * nodes before it or last, and renumbers the path. Returns the new rows
+   * with their final positions.
+   */
+  private async insertNodes(
+    tx: DrizzleTx,
+    pathId: string,
+    nodes: Pick<CreatePathNodeDto, 'name' | 'point' | 'position'>[],
+  ) {
+    await this.lockPath(tx, pathId);
+    const existing = await this.liveNodes(tx, pathId);
+    const indexes = nodes.map((n, i) => {
+      const count = existing.length + i;
+      const index = n.position ?? count;
+      if (!Number.isInteger(index) || index < 0 || index > count) {
+        throw new BadRequestException(
+          `position must be an integer between 0 and ${count}`,
+        );
+      }
+      return index;
+    });
+
+    await this.parkPositions(tx, pathId);
+    const rows = await tx
+      .insert(pathNodes)
+      .values(
+        nodes.map((n, i) => ({
+          name: n.name ?? '',
+          point: n.point,
+          pathId,
+          position: i,
+        })),
+      )
+      .returning();
+    const order = existing.map((n) => n.id);
+    rows.forEach((row, i) => order.splice(indexes[i], 0, row.id));
+    await this.applyOrder(tx, order);
+
+    const placed = rows.map((row) => ({
+      ...row,
+      position: order.indexOf(row.id),
+    }));
+    await auditCreated(tx, 'path_node', placed);
+    return placed;
   }
 
-  async findOne(id: string) {
-    return this.repo.findOne(id);
+  /** Row-locks the path so concurrent reorders of it serialize. */
+  private async lockPath(tx: DrizzleTx, pathId: string) {
+    const [row] = await tx
+      .select({ id: paths.id })
+      .from(paths)
+      .where(and(eq(paths.id, pathId), isNull(paths.deletedAt)))
+      .for('update');
+    if (!row) throw new NotFoundException(`Path ${pathId} not found`);
   }
 
-  async create(dto: CreatePathNodeDto) {
-    return this.repo.create(dto);
+  private async liveNodes(tx: DrizzleTx, pathId: string) {
+    return tx
+      .select()
+      .from(pathNodes)
+      .where(and(eq(pathNodes.pathId, pathId), isNull(pathNodes.deletedAt)))
+      .orderBy(asc(pathNodes.position));
   }
 
-  async update(id: string, dto: UpdatePathNodeDto) {
-    return this.repo.update(id, dto);
+  /** Moves every live node to a unique negative position (-1 - position). */
+  private async parkPositions(tx: DrizzleTx, pathId: string) {
+    await tx
+      .update(pathNodes)
+      .set({ position: sql`-1 - ${pathNodes.position}` })
+      .where(and(eq(pathNodes.pathId, pathId), isNull(pathNodes.deletedAt)));
   }
 
-  async remove(id: string) {
-    return this.repo.remove(id);
+  /** Sets position = index for each ID in one statement. */
+  private async applyOrder(tx: DrizzleTx, orderedIds: string[]) {
+    if (orderedIds.length === 0) return;
+    const values = sql.join(
+      orderedIds.map((id, i) => sql`(${id}::uuid, ${i}::integer)`),
+      sql`, `,
+    );
+    await tx.execute(sql`
+      UPDATE ${pathNodes}
+      SET position = v.position, updated_at = now()
+      FROM (VALUES ${values}) AS v(id, position)
+      WHERE ${pathNodes.id} = v.id
+    `);
   }
 }
@@ -0,0 +1,16 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NewPathNodeDto } from './create-path-with-nodes.dto';
+
+export class AppendPathNodesDto {
+  @ApiProperty({
+    type: [NewPathNodeDto],
+    description:
+      'Nodes to add after the current last node, in order; may be empty when only isClosed is set',
+  })
+  nodes: NewPathNodeDto[];
+
+  @ApiPropertyOptional({
+    description: 'Set to close (or reopen) the path in the same transaction',
+  })
+  isClosed?: boolean;
+}
@@ -0,0 +1,21 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PointZDto } from '../../path-nodes/dto/create-path-node.dto';
+import { CreatePathDto } from './create-path.dto';
+
+/** A node given in path order; its position is taken from the array index. */
+export class NewPathNodeDto {
+  @ApiPropertyOptional({ example: 'Node A', default: '' })
+  name?: string;
+
+  @ApiProperty({ type: PointZDto })
+  point: PointZDto;
+}
+
+export class CreatePathWithNodesDto extends CreatePathDto {
+  @ApiProperty({
+    type: [NewPathNodeDto],
+    description:
+      'Ordered nodes; at least 2 for an open path, 3 for a closed one',
+  })
+  nodes: NewPathNodeDto[];
+}
@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class GeoJsonPolygonDto {
+  @ApiProperty({ enum: ['Polygon', 'MultiPolygon'], example: 'Polygon' })
+  type: 'Polygon' | 'MultiPolygon';
+
+  @ApiProperty({
+    description: 'GeoJSON coordinates in WGS-84 (lng, lat)',
+    example: [
+      [
+        [-79.39, 43.64],
+        [-79.38, 43.64],
+        [-79.38, 43.65],
+        [-79.39, 43.64],
+      ],
+    ],
+  })
+  coordinates: number[][][] | number[][][][];
+}
+
+export class IntersectsPathsDto {
+  @ApiProperty({ description: 'Project to search within', format: 'uuid' })
+  projectId: string;
+
+  @ApiProperty({ type: GeoJsonPolygonDto })
+  polygon: GeoJsonPolygonDto;
+}
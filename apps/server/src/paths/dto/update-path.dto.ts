@@ -1,6 +1,14 @@
-import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class UpdatePathDto {
+  @ApiProperty({
+    description:
+      'The version last read; if the path has changed since, the update is ' +
+      'refused with 409 and the current path',
+    example: 3,
+  })
+  version: number;
+
   @ApiPropertyOptional({ example: 'Main trunk line' })
   name?: string;
 
@@ -17,8 +25,8 @@ export class UpdatePathDto {
   isHidden?: boolean;
 
   @ApiPropertyOptional({
-    description: 'Full EWKT geometry string, e.g. SRID=4326;LINESTRINGZ(...)',
-    example: 'SRID=4326;LINESTRINGZ(-79.38 43.65 85, -79.39 43.66 86)',
+    description: 'Move to another layer of the same project',
+    format: 'uuid',
   })
-  cachedGeometry?: string;
+  layerId?: string;
 }
@@ -0,0 +1,40 @@
+import { BadRequestException } from '@nestjs/common';
+import type { NewPathNodeDto } from './dto/create-path-with-nodes.dto';
+
+/** Fewest nodes that still produce a LINESTRINGZ. */
+export const MIN_OPEN_PATH_NODES = 2;
+
+/** Fewest nodes that still produce a POLYGONZ. */
+export const MIN_CLOSED_PATH_NODES = 3;
+
+/** Rejects a `nodes` body that is not an array of nodes with finite points. */
+export function assertNodeInputs(
+  nodes: unknown,
+): asserts nodes is NewPathNodeDto[] {
+  if (!Array.isArray(nodes)) {
+    throw new BadRequestException('nodes must be an array');
+  }
+  nodes.forEach((n: Partial<NewPathNodeDto> | null, i) => {
+    const p = n?.point;
+    if (
+      !p ||
+      !Number.isFinite(p.lng) ||
+      !Number.isFinite(p.lat) ||
+      !Number.isFinite(p.z)
+    ) {
+      throw new BadRequestException(
+        `nodes[${i}].point must have finite lng, lat and z`,
+      );
+    }
+  });
+}
+
+/** Rejects geometry that would be stored with a null `cached_geometry`. */
+export function assertNodeCount(count: number, isClosed: boolean) {
+  const min = isClosed ? MIN_CLOSED_PATH_NODES : MIN_OPEN_PATH_NODES;
+  if (count < min) {
+    throw new BadRequestException(
+      `${isClosed ? 'A closed' : 'An open'} path needs at least ${min} nodes, got ${count}`,
+    );
+  }
+}
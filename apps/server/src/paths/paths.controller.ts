@@ -1,54 +1,322 @@
-import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
 import { ApiOperation, ApiParam, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Authentication } from '@nestjs-cognito/auth';
 import { PathsService } from './paths.service';
 import { CreatePathDto } from './dto/create-path.dto';
+import { CreatePathWithNodesDto } from './dto/create-path-with-nodes.dto';
+import { AppendPathNodesDto } from './dto/append-path-nodes.dto';
 import { UpdatePathDto } from './dto/update-path.dto';
+import { IntersectsPathsDto } from './dto/intersects-paths.dto';
+import { PathNodesService } from '../path-nodes/path-nodes.service';
+import { InsertPathNodeDto } from '../path-nodes/dto/insert-path-node.dto';
+import { ReorderPathNodesDto } from '../path-nodes/dto/reorder-path-nodes.dto';
+import { EnsureProfileGuard } from '../auth/guards/ensure-profile.guard';
+import { ProjectRoleGuard } from '../auth/guards/project-role.guard';
+import {
+  fromBody,
+  fromParam,
+  fromQuery,
+  RequireProjectRole,
+} from '../auth/decorators/project-role.decorator';
+import {
+  CurrentProfile,
+  type UserProfile,
+} from '../auth/decorators/current-profile.decorator';
+import {
+  parseBbox,
+  parseFiniteNumber,
+  parseLimit,
+  requireProjectId,
+} from './spatial-params';
+
+const IDENTIFY_DEFAULT_LIMIT = 5;
+const IDENTIFY_MAX_LIMIT = 50;
 
 @ApiTags('paths')
+@ApiResponse({ status: 403, description: 'Project role too low' })
+@UseGuards(EnsureProfileGuard, ProjectRoleGuard)
+@Authentication()
 @Controller('paths')
 export class PathsController {
-  constructor(private readonly service: PathsService) {}
+  constructor(
+    private readonly service: PathsService,
+    private readonly nodes: PathNodesService,
+  ) {}
 
   @Get()
+  @RequireProjectRole('viewer', {
+    layer: fromQuery('layerId'),
+    project: fromQuery('projectId'),
+  })
   @ApiOperation({ summary: 'List paths, optionally filtered by layer or project' })
   @ApiQuery({ name: 'layerId', required: false, format: 'uuid' })
   @ApiQuery({ name: 'projectId', required: false, format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Array of paths' })
-  findAll(@Query('layerId') layerId?: string, @Query('projectId') projectId?: string) {
-    return this.service.findAll(layerId, projectId);
+  @ApiResponse({ status: 404, description: 'Layer or project not found' })
+  findAll(
+    @CurrentProfile() profile: UserProfile,
+    @Query('layerId') layerId?: string,
+    @Query('projectId') projectId?: string,
+  ) {
+    return this.service.findAll(
+      profile.organizationId,
+      profile.id,
+      layerId,
+      projectId,
+    );
+  }
+
+  @Get('within')
+  @RequireProjectRole('viewer', { project: fromQuery('projectId') })
+  @ApiOperation({ summary: 'List project paths intersecting a bounding box' })
+  @ApiQuery({ name: 'projectId', required: true, format: 'uuid' })
+  @ApiQuery({
+    name: 'bbox',
+    required: true,
+    description: 'minLng,minLat,maxLng,maxLat (WGS-84)',
+    example: '-79.40,43.64,-79.38,43.66',
+  })
+  @ApiResponse({ status: 200, description: 'Array of paths' })
+  @ApiResponse({ status: 400, description: 'Missing project or malformed bbox' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  findWithin(
+    @CurrentProfile() profile: UserProfile,
+    @Query('projectId') projectId?: string,
+    @Query('bbox') bbox?: string,
+  ) {
+    return this.service.findWithinBbox(
+      profile.organizationId,
+      requireProjectId(projectId),
+      parseBbox(bbox),
+    );
+  }
+
+  @Post('intersects')
+  @RequireProjectRole('viewer', { project: fromBody('projectId') })
+  @ApiOperation({ summary: 'List project paths intersecting a GeoJSON polygon' })
+  @ApiResponse({ status: 200, description: 'Array of paths' })
+  @ApiResponse({ status: 400, description: 'Missing project or invalid polygon' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  @HttpCode(200)
+  findIntersecting(
+    @Body() dto: IntersectsPathsDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.findIntersecting(
+      profile.organizationId,
+      requireProjectId(dto.projectId),
+      dto.polygon,
+    );
+  }
+
+  @Get('near')
+  @RequireProjectRole('viewer', { project: fromQuery('projectId') })
+  @ApiOperation({ summary: 'List project paths within a radius of a point, nearest first' })
+  @ApiQuery({ name: 'projectId', required: true, format: 'uuid' })
+  @ApiQuery({ name: 'lng', required: true, example: -79.3832 })
+  @ApiQuery({ name: 'lat', required: true, example: 43.6532 })
+  @ApiQuery({ name: 'radius', required: true, description: 'Search radius in metres', example: 50 })
+  @ApiResponse({ status: 200, description: 'Array of paths with distanceM' })
+  @ApiResponse({ status: 400, description: 'Missing project or invalid coordinates' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  findNear(
+    @CurrentProfile() profile: UserProfile,
+    @Query('projectId') projectId?: string,
+    @Query('lng') lng?: string,
+    @Query('lat') lat?: string,
+    @Query('radius') radius?: string,
+  ) {
+    return this.service.findNear(
+      profile.organizationId,
+      requireProjectId(projectId),
+      parseFiniteNumber('lng', lng),
+      parseFiniteNumber('lat', lat),
+      parseFiniteNumber('radius', radius),
+    );
+  }
+
+  @Get('identify')
+  @RequireProjectRole('viewer', { project: fromQuery('projectId') })
+  @ApiOperation({ summary: 'Nearest paths and path nodes to a point (KNN identify)' })
+  @ApiQuery({ name: 'projectId', required: true, format: 'uuid' })
+  @ApiQuery({ name: 'lng', required: true, example: -79.3832 })
+  @ApiQuery({ name: 'lat', required: true, example: 43.6532 })
+  @ApiQuery({ name: 'limit', required: false, example: IDENTIFY_DEFAULT_LIMIT })
+  @ApiResponse({
+    status: 200,
+    description: '{ paths, nodes } ordered nearest first, each with distanceM',
+  })
+  @ApiResponse({ status: 400, description: 'Missing project or invalid coordinates' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  identify(
+    @CurrentProfile() profile: UserProfile,
+    @Query('projectId') projectId?: string,
+    @Query('lng') lng?: string,
+    @Query('lat') lat?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.service.identify(
+      profile.organizationId,
+      requireProjectId(projectId),
+      parseFiniteNumber('lng', lng),
+      parseFiniteNumber('lat', lat),
+      parseLimit(limit, IDENTIFY_DEFAULT_LIMIT, IDENTIFY_MAX_LIMIT),
+    );
   }
 
   @Get(':id')
+  @RequireProjectRole('viewer', { path: fromParam('id') })
   @ApiOperation({ summary: 'Get a single path by ID' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Path record' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  findOne(@Param('id') id: string) {
-    return this.service.findOne(id);
+  findOne(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.findOne(profile.organizationId, id);
   }
 
   @Post()
+  @RequireProjectRole('editor', { layer: fromBody('layerId') })
   @ApiOperation({ summary: 'Create a path' })
   @ApiResponse({ status: 201, description: 'Created path' })
-  create(@Body() dto: CreatePathDto) {
-    return this.service.create(dto);
+  @ApiResponse({ status: 404, description: 'Layer not found' })
+  create(@Body() dto: CreatePathDto, @CurrentProfile() profile: UserProfile) {
+    return this.service.create(profile.organizationId, dto);
+  }
+
+  @Post('with-nodes')
+  @RequireProjectRole('editor', { layer: fromBody('layerId') })
+  @ApiOperation({
+    summary: 'Create a path together with its ordered nodes',
+    description:
+      'Runs in one transaction. Open paths need at least 2 nodes, closed ' +
+      'paths at least 3. Returns the path with its nodes.',
+  })
+  @ApiResponse({ status: 201, description: 'Created path with nodes' })
+  @ApiResponse({ status: 400, description: 'Too few or malformed nodes' })
+  @ApiResponse({ status: 404, description: 'Layer not found' })
+  createWithNodes(
+    @Body() dto: CreatePathWithNodesDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.createWithNodes(profile.organizationId, dto);
   }
 
   @Patch(':id')
-  @ApiOperation({ summary: 'Update a path (also used to write cached PostGIS geometry)' })
+  @RequireProjectRole('editor', {
+    path: fromParam('id'),
+    layer: fromBody('layerId'),
+  })
+  @ApiOperation({ summary: 'Update a path (cached geometry is rebuilt server-side)' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Updated path' })
+  @ApiResponse({ status: 400, description: 'Missing version' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Path changed since `version`; body.current is the path now',
+  })
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdatePathDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.update(profile.organizationId, id, dto);
+  }
+
+  @Post(':id/append-nodes')
+  @RequireProjectRole('editor', { path: fromParam('id') })
+  @ApiOperation({
+    summary: 'Append nodes to a path, optionally closing it',
+    description:
+      'Runs in one transaction. Returns the path with its full ordered node list.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 201, description: 'Updated path with nodes' })
+  @ApiResponse({ status: 400, description: 'Too few or malformed nodes' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  appendNodes(
+    @Param('id') id: string,
+    @Body() dto: AppendPathNodesDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.nodes.appendNodes(profile.organizationId, id, dto);
+  }
+
+  @Post(':id/nodes/insert')
+  @RequireProjectRole('editor', { path: fromParam('id') })
+  @ApiOperation({
+    summary: 'Insert a node at an index, shifting later nodes',
+    description:
+      'Runs in one transaction; existing node IDs are unchanged. Returns the ' +
+      'new node and the full ordered node list.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 201, description: 'Inserted node and ordered nodes' })
+  @ApiResponse({ status: 400, description: 'Index out of range' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  update(@Param('id') id: string, @Body() dto: UpdatePathDto) {
-    return this.service.update(id, dto);
+  insertNode(
+    @Param('id') id: string,
+    @Body() dto: InsertPathNodeDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.nodes.insertAt(profile.organizationId, id, dto);
+  }
+
+  @Put(':id/nodes/order')
+  @RequireProjectRole('editor', { path: fromParam('id') })
+  @ApiOperation({
+    summary: 'Reorder all nodes of a path',
+    description: 'Runs in one transaction; node IDs are unchanged.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, description: 'Nodes in their new order' })
+  @ApiResponse({
+    status: 400,
+    description: 'nodeIds is not a permutation of the live nodes',
+  })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  reorderNodes(
+    @Param('id') id: string,
+    @Body() dto: ReorderPathNodesDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.nodes.reorder(profile.organizationId, id, dto.nodeIds);
   }
 
   @Delete(':id')
+  @RequireProjectRole('editor', { path: fromParam('id') })
   @ApiOperation({ summary: 'Soft-delete a path' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Deleted path' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  remove(@Param('id') id: string) {
-    return this.service.remove(id);
+  remove(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.remove(profile.organizationId, id);
+  }
+
+  @Post(':id/restore')
+  @RequireProjectRole(
+    'editor',
+    { path: fromParam('id') },
+    { includeDeleted: true },
+  )
+  @ApiOperation({ summary: 'Restore a deleted path' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 201, description: 'Restored path' })
+  @ApiResponse({ status: 404, description: 'Not found in trash' })
+  @ApiResponse({ status: 409, description: 'Its layer or project is deleted' })
+  restore(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.restore(profile.organizationId, id);
   }
 }
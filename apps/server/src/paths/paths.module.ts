@@ -2,8 +2,11 @@ import { Module } from '@nestjs/common';
 import { PathsController } from './paths.controller';
 import { PathsService } from './paths.service';
 import { PathsRepository } from '../database/paths.repository';
+import { PathNodesModule } from '../path-nodes/path-nodes.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
+  imports: [AuthModule, PathNodesModule],
   controllers: [PathsController],
   providers: [PathsService, PathsRepository],
 })
@@ -0,0 +1,128 @@
+import { BadRequestException } from '@nestjs/common';
+import { PathsService } from './paths.service';
+import type { DrizzleDB } from '../drizzle';
+import type { PathsRepository } from '../database/paths.repository';
+import type { OrganizationScopeService } from '../auth/organization-scope.service';
+
+const ORG = 'org-1';
+const LAYER = 'layer-1';
+
+// Fields a client may send, plus server-derived ones it must not be able to set
+const body = {
+  name: 'Gas main',
+  layerId: LAYER,
+  color: '#ff0000',
+  width: 3,
+  isClosed: false,
+  isHidden: true,
+  id: 'chosen-id',
+  cachedGeometry: 'LINESTRING Z (0 0 0, 1 1 1)',
+  lengthM: 1,
+  length3dM: 1,
+  areaM2: 1,
+  version: 99,
+  deletedAt: new Date(),
+  metadata: { injected: true },
+};
+
+const allowed = {
+  name: 'Gas main',
+  layerId: LAYER,
+  color: '#ff0000',
+  width: 3,
+  isClosed: false,
+  isHidden: true,
+};
+
+/** A transaction whose inserts return `rows`. */
+function fakeTx(rows: object[]) {
+  return {
+    insert: jest.fn(() => ({
+      values: jest.fn(() =>
+        Object.assign(Promise.resolve(), {
+          returning: () => Promise.resolve(rows),
+        }),
+      ),
+    })),
+  };
+}
+
+function setup(tx = fakeTx([])) {
+  const repo = {
+    create: jest.fn(async (fields: object) => ({ id: 'path-1', ...fields })),
+    rebuildCachedGeometry: jest.fn(async (ids: string[]) =>
+      ids.map((id) => ({ id })),
+    ),
+  };
+  const scope = {
+    findLayer: jest.fn(async () => ({ id: LAYER })),
+    findProject: jest.fn(async () => ({ id: 'project-1' })),
+  };
+  const db = {
+    transaction: jest.fn((fn: (t: typeof tx) => unknown) => fn(tx)),
+  };
+  const service = new PathsService(
+    db as unknown as DrizzleDB,
+    repo as unknown as PathsRepository,
+    scope as unknown as OrganizationScopeService,
+  );
+  return { service, repo, scope };
+}
+
+describe('PathsService', () => {
+  describe('create', () => {
+    it('writes only the client-settable fields', async () => {
+      const { service, repo } = setup();
+      await service.create(ORG, body);
+      expect(repo.create).toHaveBeenCalledWith(allowed);
+    });
+  });
+
+  describe('createWithNodes', () => {
+    it('writes only the client-settable path fields', async () => {
+      const point = { lng: 0, lat: 0, z: 0 };
+      const { service, repo } = setup(fakeTx([{ id: 'n1' }, { id: 'n2' }]));
+      await service.createWithNodes(ORG, {
+        ...body,
+        nodes: [{ point }, { point }],
+      });
+      expect(repo.create).toHaveBeenCalledWith(allowed, expect.anything());
+    });
+  });
+
+  describe('findIntersecting', () => {
+    const square = [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 0],
+    ];
+
+    it.each([
+      ['an open ring', [[...square.slice(0, 3), [0, 1]]]],
+      ['a ring of 3 positions', [square.slice(1)]],
+      ['a non-numeric coordinate', [[...square.slice(0, 3), ['0', 0]]]],
+      ['a position of one number', [[[0], [1, 0], [1, 1], [0]]]],
+      ['no rings', []],
+    ])('refuses %s with 400', async (_, coordinates) => {
+      const { service, scope } = setup();
+      await expect(
+        service.findIntersecting(ORG, 'project-1', {
+          type: 'Polygon',
+          coordinates: coordinates as number[][][],
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(scope.findProject).not.toHaveBeenCalled();
+    });
+
+    it('refuses a MultiPolygon with a bad ring with 400', async () => {
+      const { service } = setup();
+      await expect(
+        service.findIntersecting(ORG, 'project-1', {
+          type: 'MultiPolygon',
+          coordinates: [[square], [square.slice(1)]],
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+});
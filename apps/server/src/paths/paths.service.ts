@@ -1,20 +1,118 @@
-import { Inject, Injectable } from '@nestjs/common';
-import { and, eq, getTableColumns, isNull } from 'drizzle-orm';
-import { layers, paths } from '@utilitix/db';
-import { DRIZZLE, DrizzleDB } from '../drizzle';
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  and,
+  eq,
+  getTableColumns,
+  isNotNull,
+  isNull,
+  sql,
+  type SQL,
+} from 'drizzle-orm';
+import {
+  layers,
+  pathNodes,
+  paths,
+  projectMembers,
+  projects,
+} from '@utilitix/db';
+import { DRIZZLE, DrizzleDB, DrizzleTx } from '../drizzle';
 import { CreatePathDto } from './dto/create-path.dto';
+import { CreatePathWithNodesDto } from './dto/create-path-with-nodes.dto';
 import { UpdatePathDto } from './dto/update-path.dto';
+import { GeoJsonPolygonDto } from './dto/intersects-paths.dto';
 import { PathsRepository } from '../database/paths.repository';
+import {
+  isProjectMember,
+  OrganizationScopeService,
+} from '../auth/organization-scope.service';
+import type { BBox } from './spatial-params';
+import { assertNodeCount, assertNodeInputs } from './node-count';
+import { auditCreated } from '../database/audit-trail';
+import { assertVersion } from '../database/version-conflict';
+import {
+  deleteDescendants,
+  restoreDescendants,
+} from '../database/soft-delete-cascade';
+
+/** Metres per degree of latitude; used to size index-friendly prefilter boxes. */
+const METRES_PER_DEGREE = 111_320;
+
+/**
+ * The attributes a client sets on a new path. Geometry, measurements,
+ * version and timestamps are server-derived; values sent for them are dropped.
+ */
+function newPathFields(dto: CreatePathDto) {
+  const { name, layerId, color, width, isClosed, isHidden } = dto;
+  return { name, layerId, color, width, isClosed, isHidden };
+}
+
+function isPosition(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    value.every((n) => typeof n === 'number' && Number.isFinite(n))
+  );
+}
+
+/** A closed ring of at least 4 positions, as GeoJSON requires. */
+function isLinearRing(value: unknown): boolean {
+  if (!Array.isArray(value) || value.length < 4) return false;
+  if (!value.every(isPosition)) return false;
+  const first = value[0];
+  const last = value[value.length - 1];
+  return first.length === last.length && first.every((n, i) => n === last[i]);
+}
+
+function isPolygonRings(value: unknown): boolean {
+  return Array.isArray(value) && value.length > 0 && value.every(isLinearRing);
+}
+
+/**
+ * Checks the shape PostGIS would otherwise reject with a 500: each ring
+ * closed, at least 4 positions long and made of finite numbers.
+ */
+function assertPolygon(polygon: GeoJsonPolygonDto) {
+  if (
+    !polygon ||
+    (polygon.type !== 'Polygon' && polygon.type !== 'MultiPolygon') ||
+    !Array.isArray(polygon.coordinates)
+  ) {
+    throw new BadRequestException(
+      'polygon must be a GeoJSON Polygon or MultiPolygon',
+    );
+  }
+  const polygons: unknown[] =
+    polygon.type === 'Polygon' ? [polygon.coordinates] : polygon.coordinates;
+  if (polygons.length === 0 || !polygons.every(isPolygonRings)) {
+    throw new BadRequestException(
+      'polygon rings must be closed, with at least 4 [lng, lat] positions of finite numbers',
+    );
+  }
+}
 
 @Injectable()
 export class PathsService {
   constructor(
     @Inject(DRIZZLE) private readonly db: DrizzleDB,
     private readonly repo: PathsRepository,
+    private readonly scope: OrganizationScopeService,
   ) {}
 
-  async findAll(layerId?: string, projectId?: string) {
+  /** Without a filter, lists paths of every project the caller is in. */
+  async findAll(
+    organizationId: string,
+    userProfileId: string,
+    layerId?: string,
+    projectId?: string,
+  ) {
     if (projectId) {
+      await this.scope.findProject(organizationId, projectId);
       return this.db
         .select(getTableColumns(paths))
         .from(paths)
@@ -22,27 +120,295 @@ export class PathsService {
         .where(and(eq(layers.projectId, projectId), isNull(paths.deletedAt)));
     }
     if (layerId) {
+      await this.scope.findLayer(organizationId, layerId);
       return this.db
         .select()
         .from(paths)
         .where(and(eq(paths.layerId, layerId), isNull(paths.deletedAt)));
     }
-    return this.repo.findAll();
+    return this.db
+      .select(getTableColumns(paths))
+      .from(paths)
+      .innerJoin(layers, eq(paths.layerId, layers.id))
+      .innerJoin(projects, eq(layers.projectId, projects.id))
+      .innerJoin(projectMembers, isProjectMember(userProfileId))
+      .where(
+        and(
+          eq(projects.organizationId, organizationId),
+          isNull(paths.deletedAt),
+        ),
+      );
+  }
+
+  /** Paths in a project whose cached geometry intersects the bounding box. */
+  async findWithinBbox(
+    organizationId: string,
+    projectId: string,
+    [minLng, minLat, maxLng, maxLat]: BBox,
+  ) {
+    await this.scope.findProject(organizationId, projectId);
+    const envelope = sql`ST_MakeEnvelope(${minLng}, ${minLat}, ${maxLng}, ${maxLat}, 4326)`;
+    return this.findSpatial(
+      projectId,
+      sql`ST_Intersects(${paths.cachedGeometry}, ${envelope})`,
+    );
+  }
+
+  /** Paths in a project whose cached geometry intersects a GeoJSON polygon. */
+  async findIntersecting(
+    organizationId: string,
+    projectId: string,
+    polygon: GeoJsonPolygonDto,
+  ) {
+    assertPolygon(polygon);
+    await this.scope.findProject(organizationId, projectId);
+    const geometry = sql`ST_SetSRID(ST_GeomFromGeoJSON(${JSON.stringify(polygon)}), 4326)`;
+    return this.findSpatial(
+      projectId,
+      sql`ST_Intersects(${paths.cachedGeometry}, ${geometry})`,
+    );
+  }
+
+  /**
+   * Paths in a project within `radiusM` metres of a point, nearest first.
+   * The degree-box `&&` prefilter lets the GiST index narrow candidates before
+   * the exact geography distance check.
+   */
+  async findNear(
+    organizationId: string,
+    projectId: string,
+    lng: number,
+    lat: number,
+    radiusM: number,
+  ) {
+    if (radiusM <= 0) throw new BadRequestException('radius must be positive');
+    await this.scope.findProject(organizationId, projectId);
+    const point = sql`ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326)`;
+    const cosLat = Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+    const radiusDeg = radiusM / (METRES_PER_DEGREE * cosLat);
+    const distanceM = sql<number>`ST_Distance(${paths.cachedGeometry}::geography, ${point}::geography)`;
+
+    return this.db
+      .select({ ...getTableColumns(paths), distanceM })
+      .from(paths)
+      .innerJoin(layers, eq(paths.layerId, layers.id))
+      .where(
+        and(
+          ...this.projectScope(projectId),
+          sql`${paths.cachedGeometry} && ST_Expand(${point}, ${radiusDeg})`,
+          sql`ST_DWithin(${paths.cachedGeometry}::geography, ${point}::geography, ${radiusM})`,
+        ),
+      )
+      .orderBy(distanceM);
   }
 
-  async findOne(id: string) {
-    return this.repo.findOne(id);
+  /**
+   * Identify: the `limit` nearest paths and path nodes to a point. Ordering
+   * uses the PostGIS `<->` KNN operator so the GiST indexes on
+   * `cached_geometry` and `point` drive the scan; distances are reported in
+   * metres (geography), and each path carries its nearest vertex.
+   */
+  async identify(
+    organizationId: string,
+    projectId: string,
+    lng: number,
+    lat: number,
+    limit: number,
+  ) {
+    await this.scope.findProject(organizationId, projectId);
+    const point = sql`ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326)`;
+
+    const closestVertex = sql<{
+      id: string;
+      name: string;
+      position: number;
+      lng: number;
+      lat: number;
+      z: number;
+    } | null>`(
+      SELECT json_build_object(
+        'id', n.id, 'name', n.name, 'position', n.position,
+        'lng', ST_X(n.point), 'lat', ST_Y(n.point), 'z', ST_Z(n.point)
+      )
+      FROM ${pathNodes} n
+      WHERE n.path_id = ${paths.id} AND n.deleted_at IS NULL
+      ORDER BY n.point <-> ${point}
+      LIMIT 1
+    )`;
+
+    const nearestPaths = await this.db
+      .select({
+        ...getTableColumns(paths),
+        layerName: layers.name,
+        distanceM: sql<number>`ST_Distance(${paths.cachedGeometry}::geography, ${point}::geography)`,
+        closestVertex,
+      })
+      .from(paths)
+      .innerJoin(layers, eq(paths.layerId, layers.id))
+      .where(
+        and(...this.projectScope(projectId), isNotNull(paths.cachedGeometry)),
+      )
+      .orderBy(sql`${paths.cachedGeometry} <-> ${point}`)
+      .limit(limit);
+
+    const nearestNodes = await this.db
+      .select({
+        ...getTableColumns(pathNodes),
+        pathName: paths.name,
+        distanceM: sql<number>`ST_Distance(${pathNodes.point}::geography, ${point}::geography)`,
+      })
+      .from(pathNodes)
+      .innerJoin(paths, eq(pathNodes.pathId, paths.id))
+      .innerJoin(layers, eq(paths.layerId, layers.id))
+      .where(and(...this.projectScope(projectId), isNull(pathNodes.deletedAt)))
+      .orderBy(sql`${pathNodes.point} <-> ${point}`)
+      .limit(limit);
+
+    return { paths: nearestPaths, nodes: nearestNodes };
+  }
+
+  async findOne(organizationId: string, id: string) {
+    return this.scope.findPath(organizationId, id);
+  }
+
+  async create(organizationId: string, dto: CreatePathDto) {
+    await this.scope.findLayer(organizationId, dto.layerId);
+    return this.repo.create(newPathFields(dto));
+  }
+
+  /**
+   * Creates a path and its ordered nodes in one transaction, so a failed node
+   * insert never leaves an empty path behind. Returns the path with its
+   * rebuilt `cached_geometry` and `nodes`.
+   */
+  async createWithNodes(organizationId: string, dto: CreatePathWithNodesDto) {
+    const { nodes } = dto;
+    const fields = newPathFields(dto);
+    assertNodeInputs(nodes);
+    assertNodeCount(nodes.length, fields.isClosed ?? false);
+    await this.scope.findLayer(organizationId, fields.layerId);
+
+    return this.db.transaction(async (tx) => {
+      const path = await this.repo.create(fields, tx);
+      const rows = await tx
+        .insert(pathNodes)
+        .values(
+          nodes.map((n, i) => ({
+            name: n.name ?? '',
+            point: n.point,
+            pathId: path.id,
+            position: i,
+          })),
+        )
+        .returning();
+      await auditCreated(tx, 'path_node', rows);
+      const [rebuilt] = await this.repo.rebuildCachedGeometry([path.id], tx);
+      return { ...rebuilt, nodes: rows };
+    });
+  }
+
+  /**
+   * Updates path attributes; any other field sent, such as `cached_geometry`,
+   * which is server-owned, is dropped. Flipping `isClosed` rebuilds the
+   * geometry in the same transaction (LINESTRINGZ ⇄ POLYGONZ). A new
+   * `layerId` must be a layer of the same project. Refused with 409 unless
+   * `dto.version` is the path's current version.
+   */
+  async update(organizationId: string, id: string, dto: UpdatePathDto) {
+    assertVersion(dto.version);
+    const { version, name, color, width, isClosed, isHidden, layerId } = dto;
+    const patch = { name, color, width, isClosed, isHidden, layerId };
+    return this.db.transaction(async (tx) => {
+      const existing = await this.scope.findPath(organizationId, id, tx);
+      if (patch.layerId && patch.layerId !== existing.layerId) {
+        await this.assertSameProject(
+          organizationId,
+          existing,
+          patch.layerId,
+          tx,
+        );
+      }
+      const row = await this.repo.update(id, patch, tx, version);
+      if (row.isClosed === existing.isClosed) return row;
+      const [rebuilt] = await this.repo.rebuildCachedGeometry([id], tx);
+      return rebuilt;
+    });
+  }
+
+  /** Deletes the path with its nodes. */
+  async remove(organizationId: string, id: string) {
+    return this.db.transaction(async (tx) => {
+      await this.scope.findPath(organizationId, id, tx);
+      const row = await this.repo.remove(id, tx);
+      await deleteDescendants(tx, 'path', id, row.deletedAt!);
+      return row;
+    });
   }
 
-  async create(dto: CreatePathDto) {
-    return this.repo.create(dto);
+  /**
+   * Takes a path out of the trash with the nodes deleted along with it; its
+   * layer and project must be live.
+   */
+  async restore(organizationId: string, id: string) {
+    return this.db.transaction(async (tx) => {
+      const [parent] = await tx
+        .select({
+          layerName: layers.name,
+          layerDeletedAt: layers.deletedAt,
+          projectDeletedAt: projects.deletedAt,
+        })
+        .from(paths)
+        .innerJoin(layers, eq(paths.layerId, layers.id))
+        .innerJoin(projects, eq(layers.projectId, projects.id))
+        .where(
+          and(eq(paths.id, id), eq(projects.organizationId, organizationId)),
+        );
+      if (!parent) throw new NotFoundException(`Path ${id} not found`);
+      if (parent.projectDeletedAt) {
+        throw new ConflictException('The project is in the trash');
+      }
+      if (parent.layerDeletedAt) {
+        throw new ConflictException(
+          `Layer "${parent.layerName}" is in the trash; restore it first`,
+        );
+      }
+      await restoreDescendants(tx, 'path', id);
+      return this.repo.restore(id, tx);
+    });
+  }
+
+  /** The path's current layer may already be soft-deleted (layer removal). */
+  private async assertSameProject(
+    organizationId: string,
+    path: typeof paths.$inferSelect,
+    layerId: string,
+    tx: DrizzleTx,
+  ) {
+    const target = await this.scope.findLayer(organizationId, layerId, tx);
+    const [current] = await tx
+      .select({ projectId: layers.projectId })
+      .from(layers)
+      .where(eq(layers.id, path.layerId));
+    if (target.projectId !== current?.projectId) {
+      throw new BadRequestException(
+        'A path can only move to a layer of the same project',
+      );
+    }
   }
 
-  async update(id: string, dto: UpdatePathDto) {
-    return this.repo.update(id, dto);
+  private projectScope(projectId: string): SQL[] {
+    return [
+      eq(layers.projectId, projectId),
+      isNull(layers.deletedAt),
+      isNull(paths.deletedAt),
+    ];
   }
 
-  async remove(id: string) {
-    return this.repo.remove(id);
+  private findSpatial(projectId: string, predicate: SQL) {
+    return this.db
+      .select(getTableColumns(paths))
+      .from(paths)
+      .innerJoin(layers, eq(paths.layerId, layers.id))
+      .where(and(...this.projectScope(projectId), predicate));
   }
 }
@@ -0,0 +1,48 @@
+import { BadRequestException } from '@nestjs/common';
+
+/** [minLng, minLat, maxLng, maxLat] in WGS-84 degrees. */
+export type BBox = [number, number, number, number];
+
+/** Parses a required numeric query parameter, rejecting NaN/Infinity. */
+export function parseFiniteNumber(name: string, value?: string): number {
+  const parsed = value === undefined ? NaN : Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new BadRequestException(`${name} must be a finite number`);
+  }
+  return parsed;
+}
+
+/** Parses an optional positive integer limit, clamped to `max`. */
+export function parseLimit(
+  value: string | undefined,
+  fallback: number,
+  max: number,
+): number {
+  if (value === undefined) return fallback;
+  const parsed = parseFiniteNumber('limit', value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new BadRequestException('limit must be a positive integer');
+  }
+  return Math.min(parsed, max);
+}
+
+/** Parses `minLng,minLat,maxLng,maxLat` into a validated bounding box. */
+export function parseBbox(value?: string): BBox {
+  const parts = (value ?? '').split(',');
+  if (parts.length !== 4) {
+    throw new BadRequestException('bbox must be minLng,minLat,maxLng,maxLat');
+  }
+  const [minLng, minLat, maxLng, maxLat] = parts.map((p, i) =>
+    parseFiniteNumber(`bbox[${i}]`, p.trim()),
+  );
+  if (minLng > maxLng || minLat > maxLat) {
+    throw new BadRequestException('bbox min values must not exceed max values');
+  }
+  return [minLng, minLat, maxLng, maxLat];
+}
+
+/** Rejects missing project scope; every spatial query is project-bound. */
+export function requireProjectId(projectId?: string): string {
+  if (!projectId) throw new BadRequestException('projectId is required');
+  return projectId;
+}
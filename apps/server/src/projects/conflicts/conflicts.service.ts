@@ -0,0 +1,289 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { and, desc, eq, isNotNull, isNull, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { layers, pathNodes, paths } from '@utilitix/db';
+import { DRIZZLE, DrizzleDB } from '../../drizzle';
+import { DEFAULT_CLEARANCE_M, findUtilityPreset } from '../../constants';
+import {
+  ClearanceRulesService,
+  indexRules,
+} from '../../organizations/clearance-rules.service';
+import { utmCodeFor } from '../export/crs';
+
+/** Metres per degree of latitude; sizes the index-friendly `&&` prefilter. */
+const METRES_PER_DEGREE = 111_320;
+
+export interface ConflictPath {
+  id: string;
+  name: string;
+  color: string;
+  layerId: string;
+  /** APWA utility type matched from the path colour, if any. */
+  utility: string | null;
+}
+
+export interface PathConflict {
+  pathA: ConflictPath;
+  pathB: ConflictPath;
+  /** Shortest 3D distance between the two paths, in metres. */
+  distance3dM: number;
+  /** Horizontal distance between the two paths, in metres. */
+  horizontalM: number;
+  /** Vertical component of the shortest 3D separation, in metres. */
+  verticalM: number;
+  requiredHorizontalM: number;
+  requiredVerticalM: number;
+  /** Point on path A closest to path B (WGS-84, z in metres). */
+  point: { lng: number; lat: number; z: number };
+}
+
+export interface CoverViolation {
+  path: ConflictPath;
+  /** The path's shallowest node. */
+  node: { id: string; name: string };
+  /** Depth of cover at that node (-z), in metres. */
+  coverM: number;
+  requiredCoverM: number;
+  point: { lng: number; lat: number; z: number };
+}
+
+function toConflictPath(
+  id: string,
+  name: string,
+  color: string,
+  layerId: string,
+): ConflictPath {
+  return {
+    id,
+    name,
+    color,
+    layerId,
+    utility: findUtilityPreset(color)?.label ?? null,
+  };
+}
+
+/**
+ * Clearance and depth-of-cover checks against the owning organization's
+ * clearance rules. Paths whose colour is not a utility preset, or pairs
+ * without a rule, are held to DEFAULT_CLEARANCE_M.
+ *
+ * Geometry is stored in EPSG:4326, where `ST_3DDWithin` would mix degrees
+ * with metres of elevation, so both sides are projected to the UTM zone at
+ * the project's centre first. The `&&` box check keeps the GiST index on
+ * `cached_geometry` in play before the exact 3D test.
+ */
+@Injectable()
+export class ConflictsService {
+  constructor(
+    @Inject(DRIZZLE) private readonly db: DrizzleDB,
+    private readonly clearanceRules: ClearanceRulesService,
+  ) {}
+
+  /**
+   * Pairs of paths closer than their rule both horizontally and vertically,
+   * closest first. `clearanceM` replaces every rule, applied both ways.
+   */
+  async find(
+    projectId: string,
+    organizationId: string,
+    clearanceM?: number,
+  ): Promise<PathConflict[]> {
+    const centre = await this.projectCentre(projectId);
+    if (!centre) return [];
+
+    const rules =
+      clearanceM === undefined
+        ? await this.clearanceRules.findAll(organizationId)
+        : [];
+    const ruleFor = indexRules(rules);
+    const required = (a: ConflictPath, b: ConflictPath) => {
+      const rule =
+        a.utility && b.utility ? ruleFor(a.utility, b.utility) : undefined;
+      const fallback = clearanceM ?? DEFAULT_CLEARANCE_M;
+      return {
+        horizontalM: rule?.horizontalClearanceM ?? fallback,
+        verticalM: rule?.verticalClearanceM ?? fallback,
+      };
+    };
+
+    // Closer than both clearances implies closer than their hypotenuse in 3D
+    const searchM = Math.max(
+      clearanceM ?? DEFAULT_CLEARANCE_M,
+      ...rules.map((r) =>
+        Math.hypot(r.horizontalClearanceM, r.verticalClearanceM),
+      ),
+    );
+    const srid = Number(utmCodeFor(centre.lng, centre.lat).split(':')[1]);
+    const cosLat = Math.max(Math.cos((centre.lat * Math.PI) / 180), 0.01);
+    const prefilterDeg = searchM / (METRES_PER_DEGREE * cosLat);
+
+    const a = alias(paths, 'a');
+    const b = alias(paths, 'b');
+    const layerA = alias(layers, 'layer_a');
+    const layerB = alias(layers, 'layer_b');
+    const geomA = sql`ST_Transform(${a.cachedGeometry}, ${srid}::integer)`;
+    const geomB = sql`ST_Transform(${b.cachedGeometry}, ${srid}::integer)`;
+    const distance3dM = sql<number>`ST_3DDistance(${geomA}, ${geomB})`;
+
+    const rows = await this.db
+      .select({
+        aId: a.id,
+        aName: a.name,
+        aColor: a.color,
+        aLayerId: a.layerId,
+        bId: b.id,
+        bName: b.name,
+        bColor: b.color,
+        bLayerId: b.layerId,
+        distance3dM,
+        horizontalM: sql<number>`ST_Distance(${geomA}, ${geomB})`,
+        point: sql<{ lng: number; lat: number; z: number }>`(
+          SELECT json_build_object('lng', ST_X(p), 'lat', ST_Y(p), 'z', ST_Z(p))
+          FROM ST_Transform(ST_3DClosestPoint(${geomA}, ${geomB}), 4326) AS p
+        )`,
+      })
+      .from(a)
+      .innerJoin(layerA, eq(a.layerId, layerA.id))
+      .innerJoin(
+        b,
+        and(
+          sql`${a.id} < ${b.id}`,
+          sql`${a.cachedGeometry} && ST_Expand(${b.cachedGeometry}, ${prefilterDeg})`,
+        ),
+      )
+      .innerJoin(layerB, eq(b.layerId, layerB.id))
+      .where(
+        and(
+          eq(layerA.projectId, projectId),
+          eq(layerB.projectId, projectId),
+          isNull(layerA.deletedAt),
+          isNull(layerB.deletedAt),
+          isNull(a.deletedAt),
+          isNull(b.deletedAt),
+          sql`ST_3DDWithin(${geomA}, ${geomB}, ${searchM})`,
+        ),
+      )
+      .orderBy(distance3dM);
+
+    const conflicts: PathConflict[] = [];
+    for (const row of rows) {
+      const pathA = toConflictPath(
+        row.aId,
+        row.aName,
+        row.aColor,
+        row.aLayerId,
+      );
+      const pathB = toConflictPath(
+        row.bId,
+        row.bName,
+        row.bColor,
+        row.bLayerId,
+      );
+      const verticalM = Math.sqrt(
+        Math.max(row.distance3dM ** 2 - row.horizontalM ** 2, 0),
+      );
+      const { horizontalM, verticalM: requiredVerticalM } = required(
+        pathA,
+        pathB,
+      );
+      if (row.horizontalM >= horizontalM || verticalM >= requiredVerticalM) {
+        continue;
+      }
+      conflicts.push({
+        pathA,
+        pathB,
+        distance3dM: row.distance3dM,
+        horizontalM: row.horizontalM,
+        verticalM,
+        requiredHorizontalM: horizontalM,
+        requiredVerticalM,
+        point: row.point,
+      });
+    }
+    return conflicts;
+  }
+
+  /**
+   * Paths whose shallowest node has less cover than their utility type's
+   * minimum. Node z is read as height relative to finished grade, so cover
+   * is -z (the editor draws new nodes at z = 0, on the surface).
+   */
+  async findCoverViolations(
+    projectId: string,
+    organizationId: string,
+  ): Promise<CoverViolation[]> {
+    const rules = await this.clearanceRules.findAll(organizationId);
+    const ruleFor = indexRules(rules);
+
+    const z = sql<number>`ST_Z(${pathNodes.point})`;
+    const shallowest = await this.db
+      .selectDistinctOn([paths.id], {
+        pathId: paths.id,
+        pathName: paths.name,
+        color: paths.color,
+        layerId: paths.layerId,
+        nodeId: pathNodes.id,
+        nodeName: pathNodes.name,
+        point: pathNodes.point,
+      })
+      .from(pathNodes)
+      .innerJoin(paths, eq(pathNodes.pathId, paths.id))
+      .innerJoin(layers, eq(paths.layerId, layers.id))
+      .where(
+        and(
+          eq(layers.projectId, projectId),
+          isNull(layers.deletedAt),
+          isNull(paths.deletedAt),
+          isNull(pathNodes.deletedAt),
+        ),
+      )
+      .orderBy(paths.id, desc(z));
+
+    const violations: CoverViolation[] = [];
+    for (const row of shallowest) {
+      const path = toConflictPath(
+        row.pathId,
+        row.pathName,
+        row.color,
+        row.layerId,
+      );
+      const requiredCoverM = path.utility
+        ? ruleFor(path.utility, path.utility)?.minCoverM
+        : null;
+      const coverM = -row.point.z;
+      if (!requiredCoverM || coverM >= requiredCoverM) continue;
+      violations.push({
+        path,
+        node: { id: row.nodeId, name: row.nodeName },
+        coverM,
+        requiredCoverM,
+        point: row.point,
+      });
+    }
+    return violations.sort(
+      (x, y) => x.coverM - x.requiredCoverM - (y.coverM - y.requiredCoverM),
+    );
+  }
+
+  /** Centre of the extent of the project's path geometry, if it has any. */
+  private async projectCentre(projectId: string) {
+    const centre = sql`ST_Centroid(ST_Extent(${paths.cachedGeometry})::geometry)`;
+    const [row] = await this.db
+      .select({
+        lng: sql<number | null>`ST_X(${centre})`,
+        lat: sql<number | null>`ST_Y(${centre})`,
+      })
+      .from(paths)
+      .innerJoin(layers, eq(paths.layerId, layers.id))
+      .where(
+        and(
+          eq(layers.projectId, projectId),
+          isNull(layers.deletedAt),
+          isNull(paths.deletedAt),
+          isNotNull(paths.cachedGeometry),
+        ),
+      );
+    if (row?.lng == null || row.lat == null) return null;
+    return { lng: row.lng, lat: row.lat };
+  }
+}
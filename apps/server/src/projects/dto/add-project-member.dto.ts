@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PROJECT_ROLES, type ProjectRole } from '@utilitix/db';
+
+export class AddProjectMemberDto {
+  @ApiProperty({
+    description: 'A user profile of the project organization',
+    format: 'uuid',
+  })
+  userProfileId: string;
+
+  @ApiProperty({ enum: PROJECT_ROLES, example: 'editor' })
+  role: ProjectRole;
+}
@@ -0,0 +1,27 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ImportFileDto {
+  @ApiProperty({
+    type: 'string',
+    format: 'binary',
+    description: '.geojson, .json, .kml, .kmz or zipped shapefile (.zip)',
+  })
+  file: unknown;
+
+  @ApiPropertyOptional({
+    format: 'uuid',
+    description: 'Existing layer to import into',
+  })
+  layerId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Name of a new layer to create when layerId is not given',
+  })
+  layerName?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Attribute used as the path name (GeoJSON property or DBF field)',
+  })
+  nameProperty?: string;
+}
@@ -0,0 +1,46 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ImportGeoJsonDto {
+  @ApiProperty({
+    description: 'GeoJSON FeatureCollection (EPSG:4326, optional Z)',
+    type: 'object',
+    additionalProperties: true,
+  })
+  featureCollection: unknown;
+
+  @ApiPropertyOptional({
+    format: 'uuid',
+    description: 'Existing layer to import into',
+  })
+  layerId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Name of a new layer to create when layerId is not given',
+  })
+  layerName?: string;
+
+  @ApiPropertyOptional({
+    description: 'Feature property used as the path name',
+  })
+  nameProperty?: string;
+
+  @ApiPropertyOptional({
+    description: 'Feature property whose values are looked up in colorMap',
+  })
+  colorProperty?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Property value → hex colour (usually a UTILITY_PRESETS colour)',
+    type: 'object',
+    additionalProperties: { type: 'string' },
+    example: { gas: '#FFCC00', water: '#0070C0' },
+  })
+  colorMap?: Record<string, string>;
+
+  @ApiPropertyOptional({
+    example: '#FF0000',
+    description: 'Colour for features with no mapped colour',
+  })
+  defaultColor?: string;
+}
@@ -0,0 +1,7 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PROJECT_ROLES, type ProjectRole } from '@utilitix/db';
+
+export class UpdateProjectMemberDto {
+  @ApiProperty({ enum: PROJECT_ROLES, example: 'viewer' })
+  role: ProjectRole;
+}
@@ -0,0 +1,62 @@
+import { BadRequestException } from '@nestjs/common';
+import * as proj4 from 'proj4';
+
+export interface ProjectedCrs {
+  code: string;
+  /** True for lon/lat output (degrees rather than metres). */
+  isGeographic: boolean;
+  forward: (lngLat: [number, number]) => [number, number];
+}
+
+/** Central meridians of the NAD83 MTM zones 1–17 (EPSG:32181–32197). */
+const MTM_CENTRAL_MERIDIANS = [
+  -53, -56, -58.5, -61.5, -64.5, -67.5, -70.5, -73.5, -76.5, -79.5, -82.5, -81,
+  -84, -87, -90, -93, -96,
+];
+
+function utm(zone: number, south: boolean, datum: 'WGS84' | 'NAD83') {
+  return `+proj=utm +zone=${zone}${south ? ' +south' : ''} +datum=${datum} +units=m +no_defs`;
+}
+
+function mtm(zone: number) {
+  const lon0 = MTM_CENTRAL_MERIDIANS[zone - 1];
+  return `+proj=tmerc +lat_0=0 +lon_0=${lon0} +k=0.9999 +x_0=304800 +y_0=0 +datum=NAD83 +units=m +no_defs`;
+}
+
+/** WGS84 UTM zone code for a point, e.g. `EPSG:32617` for Toronto. */
+export function utmCodeFor(lng: number, lat: number): string {
+  const zone = Math.min(60, Math.max(1, Math.floor((lng + 180) / 6) + 1));
+  return `EPSG:${lat < 0 ? 327 : 326}${String(zone).padStart(2, '0')}`;
+}
+
+function definition(code: string): string | null {
+  const match = /^EPSG:(\d+)$/i.exec(code.trim());
+  if (!match) return null;
+  const epsg = Number(match[1]);
+  if (epsg === 4326) return '+proj=longlat +datum=WGS84 +no_defs';
+  if (epsg === 3857) return 'EPSG:3857';
+  if (epsg >= 32601 && epsg <= 32660) return utm(epsg - 32600, false, 'WGS84');
+  if (epsg >= 32701 && epsg <= 32760) return utm(epsg - 32700, true, 'WGS84');
+  if (epsg >= 26901 && epsg <= 26923) return utm(epsg - 26900, false, 'NAD83');
+  if (epsg >= 32181 && epsg <= 32197) return mtm(epsg - 32180);
+  return null;
+}
+
+/**
+ * Resolves an EPSG code to a converter from EPSG:4326. Supported: 4326, 3857,
+ * WGS84 UTM (326xx/327xx), NAD83 UTM (269xx) and NAD83 MTM (32181–32197).
+ */
+export function resolveCrs(code: string): ProjectedCrs {
+  const def = definition(code);
+  if (!def) {
+    throw new BadRequestException(
+      `Unsupported CRS "${code}"; use EPSG:4326, EPSG:3857, a UTM (326xx, 327xx, 269xx) or MTM (32181–32197) code`,
+    );
+  }
+  const converter = proj4('EPSG:4326', def);
+  return {
+    code: code.toUpperCase(),
+    isGeographic: def.startsWith('+proj=longlat'),
+    forward: (lngLat) => converter.forward(lngLat) as [number, number],
+  };
+}
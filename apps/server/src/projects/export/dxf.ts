@@ -0,0 +1,177 @@
+import { pathPositions } from './geojson';
+import type { ProjectedCrs } from './crs';
+import type { ProjectSnapshot, SnapshotPath } from './project-snapshot.service';
+
+// AutoCAD Color Index entries close to the APWA presets and other common colours
+const ACI_COLORS: [number, string][] = [
+  [1, '#FF0000'],
+  [2, '#FFFF00'],
+  [3, '#00FF00'],
+  [4, '#00FFFF'],
+  [5, '#0000FF'],
+  [6, '#FF00FF'],
+  [7, '#FFFFFF'],
+  [8, '#414141'],
+  [9, '#808080'],
+  [30, '#FF7F00'],
+  [40, '#FFBF00'],
+  [94, '#007F00'],
+  [150, '#007FFF'],
+  [200, '#BF00FF'],
+  [221, '#FF7FBF'],
+];
+
+// POLYLINE flags (group 70)
+const POLYLINE_CLOSED = 1;
+const POLYLINE_3D = 8;
+// VERTEX flag (group 70) for a 3D polyline vertex
+const VERTEX_3D = 32;
+
+/** Node label height in output units. */
+const TEXT_HEIGHT_M = 0.5;
+const TEXT_HEIGHT_DEG = 0.000005;
+
+function aciFor(hex: string): number {
+  const rgb = (h: string) =>
+    [1, 3, 5].map((i) => parseInt(h.slice(i, i + 2), 16));
+  const [r, g, b] = rgb(hex);
+  let best = ACI_COLORS[0];
+  let bestDistance = Infinity;
+  for (const entry of ACI_COLORS) {
+    const [er, eg, eb] = rgb(entry[1]);
+    const distance = Math.hypot(r - er, g - eg, b - eb);
+    if (distance < bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  }
+  return best[0];
+}
+
+/** R12 layer names: up to 31 of A–Z 0–9 $ - _, unique per drawing. */
+function layerNames(snapshot: ProjectSnapshot): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  for (const layer of snapshot.layers) {
+    const base =
+      layer.name
+        .toUpperCase()
+        .replace(/[^A-Z0-9$_-]+/g, '_')
+        .slice(0, 28) || 'LAYER';
+    let name = base;
+    for (let i = 2; used.has(name); i++) name = `${base}_${i}`;
+    used.add(name);
+    names.set(layer.id, name);
+  }
+  return names;
+}
+
+/** Builds group-code/value pairs, one per line as DXF expects. */
+class DxfWriter {
+  private readonly lines: string[] = [];
+
+  constructor(private readonly precision: number) {}
+
+  pair(code: number, value: string | number) {
+    this.lines.push(String(code), String(value));
+  }
+
+  point(x: number, y: number, z: number) {
+    this.pair(10, x.toFixed(this.precision));
+    this.pair(20, y.toFixed(this.precision));
+    this.pair(30, z.toFixed(3));
+  }
+
+  toString() {
+    return this.lines.join('\n') + '\n';
+  }
+}
+
+function writePolyline(
+  dxf: DxfWriter,
+  path: SnapshotPath,
+  layer: string,
+  crs: ProjectedCrs,
+  textHeight: number,
+) {
+  const positions = pathPositions(path);
+  if (positions.length < (path.isClosed ? 3 : 2)) return;
+  const projected = positions.map(([lng, lat, z]) => [
+    ...crs.forward([lng, lat]),
+    z,
+  ]);
+
+  dxf.pair(0, 'POLYLINE');
+  dxf.pair(8, layer);
+  dxf.pair(62, aciFor(path.color));
+  dxf.pair(66, 1);
+  dxf.point(0, 0, 0);
+  dxf.pair(70, POLYLINE_3D | (path.isClosed ? POLYLINE_CLOSED : 0));
+  for (const [x, y, z] of projected) {
+    dxf.pair(0, 'VERTEX');
+    dxf.pair(8, layer);
+    dxf.point(x, y, z);
+    dxf.pair(70, VERTEX_3D);
+  }
+  dxf.pair(0, 'SEQEND');
+  dxf.pair(8, layer);
+
+  path.nodes.forEach((node, i) => {
+    if (!node.name.trim()) return;
+    const [x, y, z] = projected[i];
+    dxf.pair(0, 'TEXT');
+    dxf.pair(8, layer);
+    dxf.point(x, y, z);
+    dxf.pair(40, textHeight);
+    dxf.pair(1, node.name.replace(/[\r\n]+/g, ' '));
+  });
+}
+
+/**
+ * AutoCAD R12 ASCII DXF: one CAD layer per project layer, each path a 3D
+ * POLYLINE (closed paths flagged closed) coloured to the nearest ACI, and
+ * node names as TEXT at their vertices. Coordinates are projected to `crs`.
+ */
+export function snapshotToDxf(
+  snapshot: ProjectSnapshot,
+  crs: ProjectedCrs,
+): string {
+  const dxf = new DxfWriter(crs.isGeographic ? 9 : 4);
+  const textHeight = crs.isGeographic ? TEXT_HEIGHT_DEG : TEXT_HEIGHT_M;
+  const names = layerNames(snapshot);
+
+  dxf.pair(0, 'SECTION');
+  dxf.pair(2, 'HEADER');
+  dxf.pair(9, '$ACADVER');
+  dxf.pair(1, 'AC1009');
+  dxf.pair(0, 'ENDSEC');
+
+  dxf.pair(0, 'SECTION');
+  dxf.pair(2, 'TABLES');
+  dxf.pair(0, 'TABLE');
+  dxf.pair(2, 'LAYER');
+  dxf.pair(70, snapshot.layers.length);
+  for (const layer of snapshot.layers) {
+    const firstPath = snapshot.paths.find((p) => p.layerId === layer.id);
+    const color = firstPath ? aciFor(firstPath.color) : 7;
+    dxf.pair(0, 'LAYER');
+    dxf.pair(2, names.get(layer.id) ?? 'LAYER');
+    dxf.pair(70, 0);
+    // A negative colour number marks the layer as off
+    dxf.pair(62, layer.isVisible ? color : -color);
+    dxf.pair(6, 'CONTINUOUS');
+  }
+  dxf.pair(0, 'ENDTAB');
+  dxf.pair(0, 'ENDSEC');
+
+  dxf.pair(0, 'SECTION');
+  dxf.pair(2, 'ENTITIES');
+  for (const path of snapshot.paths) {
+    const layer = names.get(path.layerId) ?? '0';
+    writePolyline(dxf, path, layer, crs, textHeight);
+  }
+  dxf.pair(0, 'ENDSEC');
+  dxf.pair(0, 'EOF');
+
+  return dxf.toString();
+}
@@ -0,0 +1,90 @@
+import type { ProjectSnapshot, SnapshotPath } from './project-snapshot.service';
+
+type Position3D = [number, number, number];
+
+export interface PathFeatureProperties {
+  id: string;
+  name: string;
+  color: string;
+  width: number;
+  isClosed: boolean;
+  isHidden: boolean;
+  layerId: string;
+  layerName: string;
+  /** Node names, parallel to the geometry's coordinate order. */
+  nodeNames: string[];
+}
+
+export interface PathFeature {
+  type: 'Feature';
+  id: string;
+  geometry:
+    | { type: 'LineString'; coordinates: Position3D[] }
+    | { type: 'Polygon'; coordinates: Position3D[][] };
+  properties: PathFeatureProperties;
+}
+
+/**
+ * RFC 7946 FeatureCollection with foreign members `name` and `layers`, so
+ * empty layers and the project name survive a round trip.
+ */
+export interface ProjectFeatureCollection {
+  type: 'FeatureCollection';
+  name: string;
+  layers: { id: string; name: string; isVisible: boolean }[];
+  features: PathFeature[];
+}
+
+/** Ordered [lng, lat, z] positions of a path's nodes. */
+export function pathPositions(path: SnapshotPath): Position3D[] {
+  return path.nodes.map((n) => [n.point.lng, n.point.lat, n.point.z]);
+}
+
+/**
+ * Converts a path to a 3D GeoJSON feature, or null when it has too few nodes
+ * to form its geometry. Polygon rings repeat the first position at the end;
+ * `nodeNames` does not.
+ */
+export function pathToFeature(path: SnapshotPath): PathFeature | null {
+  const positions = pathPositions(path);
+  const minNodes = path.isClosed ? 3 : 2;
+  if (positions.length < minNodes) return null;
+
+  const properties: PathFeatureProperties = {
+    id: path.id,
+    name: path.name,
+    color: path.color,
+    width: path.width,
+    isClosed: path.isClosed,
+    isHidden: path.isHidden,
+    layerId: path.layerId,
+    layerName: path.layerName,
+    nodeNames: path.nodes.map((n) => n.name),
+  };
+
+  return {
+    type: 'Feature',
+    id: path.id,
+    geometry: path.isClosed
+      ? { type: 'Polygon', coordinates: [[...positions, positions[0]]] }
+      : { type: 'LineString', coordinates: positions },
+    properties,
+  };
+}
+
+export function snapshotToGeoJson(
+  snapshot: ProjectSnapshot,
+): ProjectFeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    name: snapshot.project.name,
+    layers: snapshot.layers.map((l) => ({
+      id: l.id,
+      name: l.name,
+      isVisible: l.isVisible,
+    })),
+    features: snapshot.paths
+      .map(pathToFeature)
+      .filter((f): f is PathFeature => f !== null),
+  };
+}
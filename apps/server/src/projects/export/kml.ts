@@ -0,0 +1,120 @@
+import * as JSZip from 'jszip';
+import { findUtilityPreset } from '../../constants';
+import { hexToKmlColor } from '../kml-color';
+import { pathPositions } from './geojson';
+import type { ProjectSnapshot, SnapshotPath } from './project-snapshot.service';
+
+/** Fill opacity for closed paths; the outline keeps full opacity. */
+const POLYGON_FILL_ALPHA = 0x66;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function slug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/** Shared style id; APWA colours get a readable one, e.g. `apwa-potable-water-w4`. */
+function styleId(path: SnapshotPath): string {
+  const preset = findUtilityPreset(path.color);
+  const base = preset
+    ? `apwa-${slug(preset.label)}`
+    : `color-${path.color.slice(1).toLowerCase()}`;
+  return `${base}-w${path.width}`;
+}
+
+function styleXml(id: string, path: SnapshotPath): string {
+  return [
+    `    <Style id="${id}">`,
+    `      <LineStyle><color>${hexToKmlColor(path.color)}</color><width>${path.width}</width></LineStyle>`,
+    `      <PolyStyle><color>${hexToKmlColor(path.color, POLYGON_FILL_ALPHA)}</color></PolyStyle>`,
+    '    </Style>',
+  ].join('\n');
+}
+
+function coordinatesXml(positions: number[][]): string {
+  return positions.map((p) => p.join(',')).join(' ');
+}
+
+function placemarkXml(path: SnapshotPath): string | null {
+  const positions = pathPositions(path);
+  if (positions.length < (path.isClosed ? 3 : 2)) return null;
+
+  const geometry = path.isClosed
+    ? `<Polygon><altitudeMode>absolute</altitudeMode><outerBoundaryIs><LinearRing><coordinates>${coordinatesXml(
+        [...positions, positions[0]],
+      )}</coordinates></LinearRing></outerBoundaryIs></Polygon>`
+    : `<LineString><altitudeMode>absolute</altitudeMode><coordinates>${coordinatesXml(
+        positions,
+      )}</coordinates></LineString>`;
+  const nodeNames = escapeXml(JSON.stringify(path.nodes.map((n) => n.name)));
+
+  return [
+    `      <Placemark id="${path.id}">`,
+    `        <name>${escapeXml(path.name)}</name>`,
+    path.isHidden ? '        <visibility>0</visibility>' : null,
+    `        <styleUrl>#${styleId(path)}</styleUrl>`,
+    `        <ExtendedData><Data name="nodeNames"><value>${nodeNames}</value></Data></ExtendedData>`,
+    `        ${geometry}`,
+    '      </Placemark>',
+  ]
+    .filter((line) => line !== null)
+    .join('\n');
+}
+
+/**
+ * KML 2.2 document: one Folder per layer, one Placemark per path with
+ * absolute altitudes. Colour and width go into shared LineStyle/PolyStyle
+ * styles; node names ride along as ExtendedData for round trips.
+ */
+export function snapshotToKml(snapshot: ProjectSnapshot): string {
+  const styles = new Map<string, string>();
+  for (const path of snapshot.paths) {
+    const id = styleId(path);
+    if (!styles.has(id)) styles.set(id, styleXml(id, path));
+  }
+
+  const folders = snapshot.layers.map((layer) => {
+    const placemarks = snapshot.paths
+      .filter((p) => p.layerId === layer.id)
+      .map(placemarkXml)
+      .filter((xml): xml is string => xml !== null);
+    return [
+      `    <Folder id="${layer.id}">`,
+      `      <name>${escapeXml(layer.name)}</name>`,
+      `      <visibility>${layer.isVisible ? 1 : 0}</visibility>`,
+      ...placemarks,
+      '    </Folder>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(snapshot.project.name)}</name>`,
+    ...styles.values(),
+    ...folders,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+/** KMZ is a zip whose first entry, `doc.kml`, is the document. */
+export async function snapshotToKmz(
+  snapshot: ProjectSnapshot,
+): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('doc.kml', snapshotToKml(snapshot));
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
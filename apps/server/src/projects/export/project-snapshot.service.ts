@@ -0,0 +1,89 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm';
+import { layers, pathNodes, paths, projects } from '@utilitix/db';
+import { DRIZZLE, DrizzleDB } from '../../drizzle';
+import { ProjectsRepository } from '../../database/projects.repository';
+
+export type SnapshotPath = typeof paths.$inferSelect & {
+  layerName: string;
+  /** Live nodes ordered by position. */
+  nodes: (typeof pathNodes.$inferSelect)[];
+};
+
+/** Everything needed to serialize a project to an interchange format. */
+export interface ProjectSnapshot {
+  project: typeof projects.$inferSelect;
+  layers: (typeof layers.$inferSelect)[];
+  paths: SnapshotPath[];
+}
+
+@Injectable()
+export class ProjectSnapshotService {
+  constructor(
+    @Inject(DRIZZLE) private readonly db: DrizzleDB,
+    private readonly projectsRepo: ProjectsRepository,
+  ) {}
+
+  /** Loads every non-deleted layer, path and ordered node of a project. */
+  async load(projectId: string): Promise<ProjectSnapshot> {
+    const project = await this.projectsRepo.findOne(projectId);
+
+    const projectLayers = await this.db
+      .select()
+      .from(layers)
+      .where(and(eq(layers.projectId, projectId), isNull(layers.deletedAt)))
+      .orderBy(asc(layers.createdAt));
+    if (projectLayers.length === 0) {
+      return { project, layers: projectLayers, paths: [] };
+    }
+
+    const layerNames = new Map(projectLayers.map((l) => [l.id, l.name]));
+    const projectPaths = await this.db
+      .select()
+      .from(paths)
+      .where(
+        and(
+          inArray(
+            paths.layerId,
+            projectLayers.map((l) => l.id),
+          ),
+          isNull(paths.deletedAt),
+        ),
+      )
+      .orderBy(asc(paths.createdAt));
+
+    const nodes =
+      projectPaths.length === 0
+        ? []
+        : await this.db
+            .select()
+            .from(pathNodes)
+            .where(
+              and(
+                inArray(
+                  pathNodes.pathId,
+                  projectPaths.map((p) => p.id),
+                ),
+                isNull(pathNodes.deletedAt),
+              ),
+            )
+            .orderBy(asc(pathNodes.pathId), asc(pathNodes.position));
+
+    const nodesByPath = new Map<string, (typeof pathNodes.$inferSelect)[]>();
+    for (const node of nodes) {
+      const list = nodesByPath.get(node.pathId) ?? [];
+      list.push(node);
+      nodesByPath.set(node.pathId, list);
+    }
+
+    return {
+      project,
+      layers: projectLayers,
+      paths: projectPaths.map((p) => ({
+        ...p,
+        layerName: layerNames.get(p.layerId) ?? '',
+        nodes: nodesByPath.get(p.id) ?? [],
+      })),
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import { BadRequestException } from '@nestjs/common';
+import { extname } from 'node:path';
+import { geoJsonToDrafts } from './geojson';
+import { kmlToDrafts, kmzToDrafts } from './kml';
+import { shapefileZipToDrafts } from './shapefile';
+import type { DraftParseResult } from './path-draft';
+
+export const IMPORT_FILE_EXTENSIONS = [
+  '.geojson',
+  '.json',
+  '.kml',
+  '.kmz',
+  '.zip',
+];
+
+/**
+ * Picks a parser from the upload's file extension. A `.zip` is read as one or
+ * more Esri shapefiles. `nameProperty` names the attribute (GeoJSON property
+ * or DBF field) used as the path name.
+ */
+export async function parseImportFile(
+  file: Express.Multer.File,
+  nameProperty?: string,
+): Promise<DraftParseResult> {
+  const ext = extname(file.originalname).toLowerCase();
+  switch (ext) {
+    case '.geojson':
+    case '.json': {
+      let collection: unknown;
+      try {
+        collection = JSON.parse(file.buffer.toString('utf8'));
+      } catch {
+        throw new BadRequestException('File is not valid JSON');
+      }
+      return geoJsonToDrafts(collection, { nameProperty });
+    }
+    case '.kml':
+      return kmlToDrafts(file.buffer.toString('utf8'));
+    case '.kmz':
+      return kmzToDrafts(file.buffer);
+    case '.zip':
+      return shapefileZipToDrafts(file.buffer, nameProperty);
+    default:
+      throw new BadRequestException(
+        `Unsupported file type "${ext || file.originalname}"; expected one of ${IMPORT_FILE_EXTENSIONS.join(', ')}`,
+      );
+  }
+}
@@ -0,0 +1,170 @@
+import { BadRequestException } from '@nestjs/common';
+import type { PointZ } from '@utilitix/db';
+import type { ImportGeoJsonDto } from '../dto/import-geojson.dto';
+import {
+  DEFAULT_PATH_COLOR,
+  DEFAULT_PATH_WIDTH,
+  defaultNodeName,
+  isHexColor,
+  openRing,
+  positionToPoint,
+  type DraftParseResult,
+  type PathDraft,
+} from './path-draft';
+
+type Mapping = Pick<
+  ImportGeoJsonDto,
+  'nameProperty' | 'colorProperty' | 'colorMap' | 'defaultColor'
+>;
+
+interface Feature {
+  geometry: { type?: unknown; coordinates?: unknown } | null;
+  properties: Record<string, unknown>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toLine(coords: unknown): PointZ[] {
+  if (!Array.isArray(coords)) {
+    throw new BadRequestException('GeoJSON coordinates must be an array');
+  }
+  return coords.map(positionToPoint);
+}
+
+/** Outer ring only — holes have no equivalent in a closed path. */
+function toRing(rings: unknown): PointZ[] {
+  if (!Array.isArray(rings) || rings.length === 0) {
+    throw new BadRequestException('GeoJSON Polygon must have an outer ring');
+  }
+  return openRing(toLine(rings[0]));
+}
+
+/** Splits a feature's geometry into [points, isClosed] parts. */
+function geometryParts(geometry: Feature['geometry']): [PointZ[], boolean][] {
+  if (!geometry) return [];
+  const coords = geometry.coordinates;
+  switch (geometry.type) {
+    case 'LineString':
+      return [[toLine(coords), false]];
+    case 'MultiLineString':
+      return Array.isArray(coords)
+        ? coords.map((line): [PointZ[], boolean] => [toLine(line), false])
+        : [];
+    case 'Polygon':
+      return [[toRing(coords), true]];
+    case 'MultiPolygon':
+      return Array.isArray(coords)
+        ? coords.map((rings): [PointZ[], boolean] => [toRing(rings), true])
+        : [];
+    default:
+      return [];
+  }
+}
+
+function resolveColor(properties: Record<string, unknown>, mapping: Mapping) {
+  if (mapping.colorProperty && mapping.colorMap) {
+    const value = properties[mapping.colorProperty];
+    const mapped =
+      value === undefined || value === null
+        ? undefined
+        : mapping.colorMap[String(value)];
+    if (isHexColor(mapped)) return mapped;
+  }
+  if (isHexColor(properties.color)) return properties.color;
+  return mapping.defaultColor ?? DEFAULT_PATH_COLOR;
+}
+
+function resolveName(
+  properties: Record<string, unknown>,
+  mapping: Mapping,
+  fallback: string,
+) {
+  const value = properties[mapping.nameProperty ?? 'name'];
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return fallback;
+}
+
+function validateMapping(mapping: Mapping) {
+  if (mapping.defaultColor !== undefined && !isHexColor(mapping.defaultColor)) {
+    throw new BadRequestException('defaultColor must be a #RRGGBB colour');
+  }
+  for (const [value, color] of Object.entries(mapping.colorMap ?? {})) {
+    if (!isHexColor(color)) {
+      throw new BadRequestException(
+        `colorMap["${value}"] must be a #RRGGBB colour`,
+      );
+    }
+  }
+}
+
+/**
+ * Converts a GeoJSON FeatureCollection into path drafts. LineStrings become
+ * open paths and Polygons closed ones (Multi* geometries yield one path per
+ * part). Missing Z defaults to 0. A `nodeNames` array property, as written by
+ * the GeoJSON export, restores node names.
+ */
+export function geoJsonToDrafts(
+  collection: unknown,
+  mapping: Mapping,
+): DraftParseResult {
+  if (
+    !isRecord(collection) ||
+    collection.type !== 'FeatureCollection' ||
+    !Array.isArray(collection.features)
+  ) {
+    throw new BadRequestException(
+      'featureCollection must be a GeoJSON FeatureCollection',
+    );
+  }
+  validateMapping(mapping);
+
+  const drafts: PathDraft[] = [];
+  let skipped = 0;
+
+  collection.features.forEach((raw: unknown, index: number) => {
+    const feature: Feature = {
+      geometry: isRecord(raw) && isRecord(raw.geometry) ? raw.geometry : null,
+      properties:
+        isRecord(raw) && isRecord(raw.properties) ? raw.properties : {},
+    };
+    const parts = geometryParts(feature.geometry).filter(
+      ([points, isClosed]) => points.length >= (isClosed ? 3 : 2),
+    );
+    if (parts.length === 0) {
+      skipped++;
+      return;
+    }
+
+    const { properties } = feature;
+    const name = resolveName(properties, mapping, `Path ${index + 1}`);
+    const color = resolveColor(properties, mapping);
+    const width =
+      typeof properties.width === 'number' && properties.width > 0
+        ? Math.round(properties.width)
+        : DEFAULT_PATH_WIDTH;
+    const nodeNames = Array.isArray(properties.nodeNames)
+      ? properties.nodeNames
+      : [];
+
+    parts.forEach(([points, isClosed], part) => {
+      drafts.push({
+        name: parts.length > 1 ? `${name} (${part + 1})` : name,
+        color,
+        width,
+        isClosed,
+        nodes: points.map((point, i) => ({
+          name:
+            parts.length === 1 && typeof nodeNames[i] === 'string'
+              ? nodeNames[i]
+              : defaultNodeName(i),
+          point,
+        })),
+      });
+    });
+  });
+
+  return { drafts, skipped };
+}
@@ -0,0 +1,231 @@
+import { BadRequestException } from '@nestjs/common';
+import { XMLParser } from 'fast-xml-parser';
+import * as JSZip from 'jszip';
+import type { PointZ } from '@utilitix/db';
+import { kmlColorToHex } from '../kml-color';
+import {
+  DEFAULT_PATH_COLOR,
+  DEFAULT_PATH_WIDTH,
+  defaultNodeName,
+  openRing,
+  positionToPoint,
+  type DraftParseResult,
+  type PathDraft,
+} from './path-draft';
+
+type XmlNode = Record<string, unknown>;
+
+interface KmlStyle {
+  lineColor?: string;
+  polyColor?: string;
+  width?: number;
+}
+
+/** Tags that may repeat; always parsed as arrays so callers need not check. */
+const ARRAY_TAGS = new Set([
+  'Document',
+  'Folder',
+  'Placemark',
+  'Style',
+  'StyleMap',
+  'Pair',
+  'MultiGeometry',
+  'LineString',
+  'LinearRing',
+  'Polygon',
+  'Point',
+  'Data',
+]);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  isArray: (tag) => ARRAY_TAGS.has(tag),
+});
+
+function isNode(value: unknown): value is XmlNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function children(node: XmlNode, tag: string): XmlNode[] {
+  const value = node[tag];
+  return Array.isArray(value) ? value.filter(isNode) : [];
+}
+
+function child(node: XmlNode, tag: string): XmlNode | undefined {
+  const value = node[tag];
+  return isNode(value) ? value : children(node, tag)[0];
+}
+
+function text(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim();
+  if (isNode(value) && typeof value['#text'] === 'string') {
+    return value['#text'].trim();
+  }
+  return undefined;
+}
+
+/** Depth-first collection of every `tag` element below `node`. */
+function collect(node: unknown, tag: string, out: XmlNode[] = []): XmlNode[] {
+  if (Array.isArray(node)) {
+    for (const item of node) collect(item, tag, out);
+  } else if (isNode(node)) {
+    for (const [key, value] of Object.entries(node)) {
+      if (key === tag) {
+        out.push(...(Array.isArray(value) ? value : [value]).filter(isNode));
+      } else if (key !== 'Placemark' || tag !== 'Style') {
+        // Inline Placemark styles are resolved per placemark, not shared
+        collect(value, tag, out);
+      }
+    }
+  }
+  return out;
+}
+
+function parseStyle(style: XmlNode): KmlStyle {
+  const line = child(style, 'LineStyle');
+  const poly = child(style, 'PolyStyle');
+  const width = Number(text(line?.width));
+  return {
+    lineColor: kmlColorToHex(text(line?.color) ?? '') ?? undefined,
+    polyColor: kmlColorToHex(text(poly?.color) ?? '') ?? undefined,
+    width: Number.isFinite(width) && width > 0 ? Math.round(width) : undefined,
+  };
+}
+
+/** Shared styles by `#id`; StyleMaps resolve to their `normal` pair. */
+function sharedStyles(root: XmlNode): Map<string, KmlStyle> {
+  const styles = new Map<string, KmlStyle>();
+  for (const style of collect(root, 'Style')) {
+    const id = style['@_id'];
+    if (typeof id === 'string') styles.set(`#${id}`, parseStyle(style));
+  }
+  for (const map of collect(root, 'StyleMap')) {
+    const id = map['@_id'];
+    const normal = children(map, 'Pair').find((p) => text(p.key) === 'normal');
+    const target = normal && text(normal.styleUrl);
+    const resolved = target ? styles.get(target) : undefined;
+    if (typeof id === 'string' && resolved) styles.set(`#${id}`, resolved);
+  }
+  return styles;
+}
+
+function parseCoordinates(value: unknown): PointZ[] {
+  const raw = text(value) ?? '';
+  return raw
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => positionToPoint(tuple.split(',').map(Number)));
+}
+
+/** Splits a Placemark's geometry into [points, isClosed] parts. */
+function geometryParts(node: XmlNode): [PointZ[], boolean][] {
+  const parts: [PointZ[], boolean][] = [];
+  for (const line of children(node, 'LineString')) {
+    parts.push([parseCoordinates(line.coordinates), false]);
+  }
+  for (const polygon of children(node, 'Polygon')) {
+    const outer = child(polygon, 'outerBoundaryIs');
+    const ring = outer && child(outer, 'LinearRing');
+    if (ring) parts.push([openRing(parseCoordinates(ring.coordinates)), true]);
+  }
+  for (const ring of children(node, 'LinearRing')) {
+    parts.push([openRing(parseCoordinates(ring.coordinates)), true]);
+  }
+  for (const multi of children(node, 'MultiGeometry')) {
+    parts.push(...geometryParts(multi));
+  }
+  return parts;
+}
+
+function extendedNodeNames(placemark: XmlNode): unknown[] {
+  const data = child(placemark, 'ExtendedData');
+  const entry = data
+    ? children(data, 'Data').find((d) => d['@_name'] === 'nodeNames')
+    : undefined;
+  if (!entry) return [];
+  try {
+    const names: unknown = JSON.parse(text(entry.value) ?? '');
+    return Array.isArray(names) ? names : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Converts a KML document into path drafts. Placemark LineStrings become open
+ * paths and Polygons (outer ring) closed ones; altitude becomes node Z.
+ * Colour and width come from the placemark's inline or shared style.
+ */
+export function kmlToDrafts(xml: string): DraftParseResult {
+  let root: XmlNode;
+  try {
+    root = parser.parse(xml) as XmlNode;
+  } catch {
+    throw new BadRequestException('File is not valid KML');
+  }
+  if (!isNode(root.kml)) {
+    throw new BadRequestException('File is not valid KML');
+  }
+
+  const styles = sharedStyles(root.kml);
+  const drafts: PathDraft[] = [];
+  let skipped = 0;
+
+  collect(root.kml, 'Placemark').forEach((placemark, index) => {
+    const parts = geometryParts(placemark).filter(
+      ([points, isClosed]) => points.length >= (isClosed ? 3 : 2),
+    );
+    if (parts.length === 0) {
+      skipped++;
+      return;
+    }
+
+    const inline = children(placemark, 'Style')[0];
+    const style =
+      (inline && parseStyle(inline)) ??
+      styles.get(text(placemark.styleUrl) ?? '') ??
+      {};
+    const name = text(placemark.name) || `Path ${index + 1}`;
+    const nodeNames = extendedNodeNames(placemark);
+
+    parts.forEach(([points, isClosed], part) => {
+      drafts.push({
+        name: parts.length > 1 ? `${name} (${part + 1})` : name,
+        color:
+          style.lineColor ??
+          (isClosed ? style.polyColor : undefined) ??
+          DEFAULT_PATH_COLOR,
+        width: style.width ?? DEFAULT_PATH_WIDTH,
+        isClosed,
+        nodes: points.map((point, i) => ({
+          name:
+            parts.length === 1 && typeof nodeNames[i] === 'string'
+              ? nodeNames[i]
+              : defaultNodeName(i),
+          point,
+        })),
+      });
+    });
+  });
+
+  return { drafts, skipped };
+}
+
+/** Reads the KML document out of a KMZ (`doc.kml`, else the first `.kml`). */
+export async function kmzToDrafts(buffer: Buffer): Promise<DraftParseResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new BadRequestException('File is not a valid KMZ archive');
+  }
+  const entry =
+    zip.file('doc.kml') ?? zip.file(/\.kml$/i).find((f) => !f.dir) ?? null;
+  if (!entry) {
+    throw new BadRequestException('KMZ archive contains no .kml document');
+  }
+  return kmlToDrafts(await entry.async('string'));
+}
@@ -0,0 +1,97 @@
+import { BadRequestException } from '@nestjs/common';
+import type { PointZ } from '@utilitix/db';
+
+/** A parsed path waiting to be written by ProjectImportService. */
+export interface PathDraft {
+  name: string;
+  color: string;
+  width: number;
+  isClosed: boolean;
+  /** Ordered; closed rings do not repeat the first node. */
+  nodes: { name: string; point: PointZ }[];
+  /** Source attributes stored on `paths.metadata`. */
+  metadata?: Record<string, unknown>;
+}
+
+export interface DraftParseResult {
+  drafts: PathDraft[];
+  /** Features that had no usable line or polygon geometry. */
+  skipped: number;
+}
+
+export const DEFAULT_PATH_COLOR = '#000000';
+export const DEFAULT_PATH_WIDTH = 2;
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR.test(value);
+}
+
+/** Default node name, matching what the client assigns while drawing. */
+export function defaultNodeName(index: number): string {
+  return `Node ${index + 1}`;
+}
+
+/** Validates an [lng, lat, z?] position in EPSG:4326; missing Z becomes 0. */
+export function positionToPoint(position: unknown): PointZ {
+  if (
+    !Array.isArray(position) ||
+    position.length < 2 ||
+    !position.every((n) => typeof n === 'number' && Number.isFinite(n))
+  ) {
+    throw new BadRequestException(
+      `Invalid position: ${JSON.stringify(position)}`,
+    );
+  }
+  const [lng, lat, z = 0] = position as number[];
+  if (lng < -180 || lng > 180 || lat < -90 || lat > 90) {
+    throw new BadRequestException(
+      `Position [${lng}, ${lat}] is outside EPSG:4326 bounds`,
+    );
+  }
+  return { lng, lat, z };
+}
+
+/** Drops the repeated closing position of a ring, if present. */
+export function openRing(ring: PointZ[]): PointZ[] {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (
+    ring.length > 1 &&
+    first.lng === last.lng &&
+    first.lat === last.lat &&
+    first.z === last.z
+  ) {
+    return ring.slice(0, -1);
+  }
+  return ring;
+}
+
+/** What an import would write, for previews (`dryRun`). */
+export function summarizeDrafts({ drafts, skipped }: DraftParseResult) {
+  let extent: [number, number, number, number] | null = null;
+  let nodeCount = 0;
+  const attributeKeys = new Set<string>();
+  for (const { nodes, metadata } of drafts) {
+    nodeCount += nodes.length;
+    for (const key of Object.keys(metadata ?? {})) attributeKeys.add(key);
+    for (const { point } of nodes) {
+      extent = extent
+        ? [
+            Math.min(extent[0], point.lng),
+            Math.min(extent[1], point.lat),
+            Math.max(extent[2], point.lng),
+            Math.max(extent[3], point.lat),
+          ]
+        : [point.lng, point.lat, point.lng, point.lat];
+    }
+  }
+  return {
+    pathCount: drafts.length,
+    nodeCount,
+    skipped,
+    extent,
+    attributeKeys: [...attributeKeys].sort(),
+  };
+}
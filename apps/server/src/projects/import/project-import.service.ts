@@ -0,0 +1,115 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { layers, pathNodes, paths } from '@utilitix/db';
+import { DRIZZLE, DrizzleDB } from '../../drizzle';
+import { LayersRepository } from '../../database/layers.repository';
+import { PathsRepository } from '../../database/paths.repository';
+import { ProjectsRepository } from '../../database/projects.repository';
+import { auditCreated } from '../../database/audit-trail';
+import type { DraftParseResult } from './path-draft';
+
+/** Rows per INSERT, well under Postgres' 65535 bind-parameter limit. */
+const INSERT_CHUNK_SIZE = 1000;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export interface ImportTarget {
+  /** Existing layer in the project; wins over layerName. */
+  layerId?: string;
+  /** Name for a new layer when layerId is not given. */
+  layerName?: string;
+}
+
+/**
+ * Writes parsed path drafts into a project layer. The layer, paths and nodes
+ * are created in one transaction, so a bad file never leaves half an import.
+ */
+@Injectable()
+export class ProjectImportService {
+  constructor(
+    @Inject(DRIZZLE) private readonly db: DrizzleDB,
+    private readonly projectsRepo: ProjectsRepository,
+    private readonly layersRepo: LayersRepository,
+    private readonly pathsRepo: PathsRepository,
+  ) {}
+
+  async importDrafts(
+    projectId: string,
+    target: ImportTarget,
+    { drafts, skipped }: DraftParseResult,
+  ) {
+    await this.projectsRepo.findOne(projectId);
+    if (drafts.length === 0) {
+      throw new BadRequestException(
+        'No LineString or Polygon features to import',
+      );
+    }
+
+    return this.db.transaction(async (tx) => {
+      let layer: typeof layers.$inferSelect;
+      if (target.layerId) {
+        layer = await this.layersRepo.findOne(target.layerId, tx);
+        if (layer.projectId !== projectId) {
+          throw new BadRequestException(
+            `Layer ${target.layerId} does not belong to project ${projectId}`,
+          );
+        }
+      } else {
+        layer = await this.layersRepo.create(
+          { name: target.layerName?.trim() || 'Imported', projectId },
+          tx,
+        );
+      }
+
+      const created: (typeof paths.$inferSelect)[] = [];
+      for (const batch of chunk(drafts, INSERT_CHUNK_SIZE)) {
+        const rows = await tx
+          .insert(paths)
+          .values(
+            batch.map((d) => ({
+              name: d.name,
+              color: d.color,
+              width: d.width,
+              isClosed: d.isClosed,
+              metadata: d.metadata ?? null,
+              layerId: layer.id,
+            })),
+          )
+          .returning();
+        await auditCreated(tx, 'path', rows);
+        created.push(...rows);
+      }
+
+      const nodes = drafts.flatMap((d, i) =>
+        d.nodes.map((n, position) => ({
+          name: n.name,
+          position,
+          point: n.point,
+          pathId: created[i].id,
+        })),
+      );
+      for (const batch of chunk(nodes, INSERT_CHUNK_SIZE)) {
+        const rows = await tx.insert(pathNodes).values(batch).returning();
+        await auditCreated(tx, 'path_node', rows);
+      }
+
+      const rebuilt = await this.pathsRepo.rebuildCachedGeometry(
+        created.map((p) => p.id),
+        tx,
+      );
+      const byId = new Map(rebuilt.map((p) => [p.id, p]));
+
+      return {
+        layer,
+        paths: created.map((p) => byId.get(p.id) ?? p),
+        nodeCount: nodes.length,
+        skipped,
+      };
+    });
+  }
+}
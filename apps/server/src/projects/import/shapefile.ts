@@ -0,0 +1,320 @@
+import { BadRequestException } from '@nestjs/common';
+import * as JSZip from 'jszip';
+import * as proj4 from 'proj4';
+import type { PointZ } from '@utilitix/db';
+import {
+  DEFAULT_PATH_COLOR,
+  DEFAULT_PATH_WIDTH,
+  defaultNodeName,
+  openRing,
+  positionToPoint,
+  type DraftParseResult,
+  type PathDraft,
+} from './path-draft';
+
+type Project = (xy: [number, number]) => [number, number];
+
+interface ShapeRecord {
+  isPolygon: boolean;
+  /** Parts in source CRS units; z is 0 for non-Z shape types. */
+  parts: { x: number; y: number; z: number }[][];
+}
+
+const SHP_HEADER_BYTES = 100;
+const RECORD_HEADER_BYTES = 8;
+
+// Shape types: https://www.esri.com/content/dam/esrisites/sitecore-archive/Files/Pdfs/library/whitepapers/pdfs/shapefile.pdf
+const POLYLINE_TYPES = new Set([3, 13, 23]);
+const POLYGON_TYPES = new Set([5, 15, 25]);
+const Z_TYPES = new Set([13, 15]);
+
+/** cpg labels that TextDecoder does not know by the same name. */
+const CODE_PAGES: Record<string, string> = {
+  '1252': 'windows-1252',
+  ansi: 'windows-1252',
+  '88591': 'iso-8859-1',
+  utf8: 'utf-8',
+};
+
+/**
+ * Reads PolyLine/Polygon records (plain, Z and M variants) from a .shp
+ * buffer. Other shape types come back as null so record indexes stay aligned
+ * with the .dbf rows.
+ */
+function readShp(buffer: Buffer): (ShapeRecord | null)[] {
+  if (buffer.length < SHP_HEADER_BYTES || buffer.readInt32BE(0) !== 9994) {
+    throw new BadRequestException('Invalid .shp file header');
+  }
+  const fileLength = Math.min(buffer.readInt32BE(24) * 2, buffer.length);
+  const records: (ShapeRecord | null)[] = [];
+
+  let offset = SHP_HEADER_BYTES;
+  while (offset + RECORD_HEADER_BYTES <= fileLength) {
+    const contentLength = buffer.readInt32BE(offset + 4) * 2;
+    const start = offset + RECORD_HEADER_BYTES;
+    offset = start + contentLength;
+    if (offset > buffer.length) {
+      throw new BadRequestException('Truncated .shp record');
+    }
+
+    const type = buffer.readInt32LE(start);
+    if (!POLYLINE_TYPES.has(type) && !POLYGON_TYPES.has(type)) {
+      records.push(null);
+      continue;
+    }
+
+    const numParts = buffer.readInt32LE(start + 36);
+    const numPoints = buffer.readInt32LE(start + 40);
+    const partsAt = start + 44;
+    const pointsAt = partsAt + numParts * 4;
+    // Z block: zMin, zMax, then one double per point
+    const zAt = pointsAt + numPoints * 16 + 16;
+    const hasZ = Z_TYPES.has(type);
+
+    const parts: ShapeRecord['parts'] = [];
+    for (let p = 0; p < numParts; p++) {
+      const from = buffer.readInt32LE(partsAt + p * 4);
+      const to =
+        p + 1 < numParts
+          ? buffer.readInt32LE(partsAt + (p + 1) * 4)
+          : numPoints;
+      const part: ShapeRecord['parts'][number] = [];
+      for (let i = from; i < to; i++) {
+        part.push({
+          x: buffer.readDoubleLE(pointsAt + i * 16),
+          y: buffer.readDoubleLE(pointsAt + i * 16 + 8),
+          z: hasZ ? buffer.readDoubleLE(zAt + i * 8) : 0,
+        });
+      }
+      parts.push(part);
+    }
+    records.push({ isPolygon: POLYGON_TYPES.has(type), parts });
+  }
+  return records;
+}
+
+function dbfValue(type: string, raw: string): unknown {
+  const value = raw.trim();
+  switch (type) {
+    case 'N':
+    case 'F': {
+      if (!value) return null;
+      const n = Number(value);
+      return Number.isFinite(n) ? n : null;
+    }
+    case 'L':
+      if (/^[TtYy]$/.test(value)) return true;
+      if (/^[FfNn]$/.test(value)) return false;
+      return null;
+    case 'D':
+      return /^\d{8}$/.test(value)
+        ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`
+        : null;
+    default:
+      return value;
+  }
+}
+
+/** Reads dBASE III rows; deleted rows come back as null. */
+function readDbf(
+  buffer: Buffer,
+  encoding: string,
+): (Record<string, unknown> | null)[] {
+  if (buffer.length < 32) {
+    throw new BadRequestException('Invalid .dbf file header');
+  }
+  const recordCount = buffer.readUInt32LE(4);
+  const headerLength = buffer.readUInt16LE(8);
+  const recordLength = buffer.readUInt16LE(10);
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(encoding);
+  } catch {
+    throw new BadRequestException(`Unsupported .cpg encoding "${encoding}"`);
+  }
+
+  const fields: { name: string; type: string; length: number }[] = [];
+  for (let at = 32; at + 32 <= headerLength && buffer[at] !== 0x0d; at += 32) {
+    fields.push({
+      name: buffer
+        .subarray(at, at + 11)
+        .toString('latin1')
+        .replace(/\0.*$/, ''),
+      type: String.fromCharCode(buffer[at + 11]),
+      length: buffer[at + 16],
+    });
+  }
+
+  const rows: (Record<string, unknown> | null)[] = [];
+  for (let r = 0; r < recordCount; r++) {
+    const start = headerLength + r * recordLength;
+    if (start + recordLength > buffer.length) break;
+    if (buffer[start] === 0x2a) {
+      rows.push(null);
+      continue;
+    }
+    const row: Record<string, unknown> = {};
+    let at = start + 1;
+    for (const field of fields) {
+      row[field.name] = dbfValue(
+        field.type,
+        decoder.decode(buffer.subarray(at, at + field.length)),
+      );
+      at += field.length;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Converter from the .prj CRS to EPSG:4326; identity when there is no .prj. */
+function projectionFromPrj(prj: string | undefined): Project {
+  if (!prj?.trim()) return (xy) => xy;
+  try {
+    const converter = proj4(prj.trim(), 'EPSG:4326');
+    return (xy) => converter.forward(xy) as [number, number];
+  } catch {
+    throw new BadRequestException('Unsupported coordinate system in .prj');
+  }
+}
+
+/** Shoelace sum; negative means clockwise, which marks an outer ring. */
+function signedArea(ring: { x: number; y: number }[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const a = ring[i];
+    const b = ring[(i + 1) % ring.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+}
+
+function resolveName(
+  row: Record<string, unknown> | null,
+  nameField: string | undefined,
+  fallback: string,
+): string {
+  const key =
+    nameField ?? Object.keys(row ?? {}).find((k) => /^name$/i.test(k));
+  const value = key ? row?.[key] : undefined;
+  if (typeof value === 'string' && value) return value;
+  if (typeof value === 'number') return String(value);
+  return fallback;
+}
+
+/**
+ * Converts one shapefile to path drafts. PolyLine parts become open paths;
+ * Polygon outer rings (clockwise) become closed paths and holes are dropped.
+ * Coordinates are reprojected to EPSG:4326 and DBF rows kept as metadata.
+ */
+export function shapefileToDrafts(
+  files: { shp: Buffer; dbf?: Buffer; prj?: string; cpg?: string },
+  baseName: string,
+  nameField?: string,
+): DraftParseResult {
+  const records = readShp(files.shp);
+  const encodingLabel = files.cpg
+    ?.trim()
+    .toLowerCase()
+    .replace(/[-_\s]/g, '');
+  const rows = files.dbf
+    ? readDbf(
+        files.dbf,
+        encodingLabel ? (CODE_PAGES[encodingLabel] ?? encodingLabel) : 'utf-8',
+      )
+    : [];
+  const project = projectionFromPrj(files.prj);
+  const toPoint = ({
+    x,
+    y,
+    z,
+  }: ShapeRecord['parts'][number][number]): PointZ => {
+    const [lng, lat] = project([x, y]);
+    return positionToPoint([lng, lat, z]);
+  };
+
+  const drafts: PathDraft[] = [];
+  let skipped = 0;
+
+  records.forEach((record, index) => {
+    const parts = (record?.parts ?? [])
+      .filter((part) => !record?.isPolygon || signedArea(part) < 0)
+      .map((part): [PointZ[], boolean] =>
+        record?.isPolygon
+          ? [openRing(part.map(toPoint)), true]
+          : [part.map(toPoint), false],
+      )
+      .filter(([points, isClosed]) => points.length >= (isClosed ? 3 : 2));
+    if (parts.length === 0) {
+      skipped++;
+      return;
+    }
+
+    const row = rows[index] ?? null;
+    const name = resolveName(row, nameField, `${baseName} ${index + 1}`);
+    parts.forEach(([points, isClosed], part) => {
+      drafts.push({
+        name: parts.length > 1 ? `${name} (${part + 1})` : name,
+        color: DEFAULT_PATH_COLOR,
+        width: DEFAULT_PATH_WIDTH,
+        isClosed,
+        nodes: points.map((point, i) => ({ name: defaultNodeName(i), point })),
+        metadata: row ?? undefined,
+      });
+    });
+  });
+
+  return { drafts, skipped };
+}
+
+/**
+ * Imports every shapefile in a zip. Each `.shp` needs its `.dbf` for
+ * attributes and `.prj` for reprojection; without a `.prj` coordinates are
+ * assumed to already be EPSG:4326. The `.shx` index is not needed since
+ * records are read sequentially.
+ */
+export async function shapefileZipToDrafts(
+  buffer: Buffer,
+  nameField?: string,
+): Promise<DraftParseResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new BadRequestException('File is not a valid zip archive');
+  }
+
+  const shpEntries = zip
+    .file(/\.shp$/i)
+    .filter((f) => !f.dir && !f.name.startsWith('__MACOSX/'));
+  if (shpEntries.length === 0) {
+    throw new BadRequestException('Zip archive contains no .shp file');
+  }
+
+  const sidecar = (base: string, ext: string) =>
+    zip.file(
+      new RegExp(
+        `^${base.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\.${ext}$`,
+        'i',
+      ),
+    )[0];
+
+  const result: DraftParseResult = { drafts: [], skipped: 0 };
+  for (const entry of shpEntries) {
+    const base = entry.name.slice(0, -4);
+    const [shp, dbf, prj, cpg] = await Promise.all([
+      entry.async('nodebuffer'),
+      sidecar(base, 'dbf')?.async('nodebuffer'),
+      sidecar(base, 'prj')?.async('string'),
+      sidecar(base, 'cpg')?.async('string'),
+    ]);
+    const parsed = shapefileToDrafts(
+      { shp, dbf, prj, cpg },
+      base.split('/').pop() ?? base,
+      nameField,
+    );
+    result.drafts.push(...parsed.drafts);
+    result.skipped += parsed.skipped;
+  }
+  return result;
+}
@@ -0,0 +1,42 @@
+import { UTILITY_PRESETS } from '../constants';
+
+/**
+ * KML colours are `aabbggrr` hex; paths store `#RRGGBB`. Colours within this
+ * RGB distance of an APWA preset snap to it on import, so files touched up in
+ * Google Earth still land on the preset swatches.
+ */
+const PRESET_SNAP_DISTANCE = 24;
+
+function channels(hex: string): [number, number, number] {
+  return [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [
+    number,
+    number,
+    number,
+  ];
+}
+
+export function hexToKmlColor(hex: string, alpha = 0xff): string {
+  const [r, g, b] = channels(hex);
+  return [alpha, b, g, r].map((c) => c.toString(16).padStart(2, '0')).join('');
+}
+
+/** `aabbggrr` → `#RRGGBB`, snapped to a preset when close; null if invalid. */
+export function kmlColorToHex(kml: string): string | null {
+  const value = kml.trim().replace(/^#/, '');
+  if (!/^[0-9a-fA-F]{8}$/.test(value)) return null;
+  const hex =
+    `#${value.slice(6, 8)}${value.slice(4, 6)}${value.slice(2, 4)}`.toUpperCase();
+
+  const [r, g, b] = channels(hex);
+  let nearest: { color: string; distance: number } | null = null;
+  for (const preset of UTILITY_PRESETS) {
+    const [pr, pg, pb] = channels(preset.color);
+    const distance = Math.hypot(r - pr, g - pg, b - pb);
+    if (!nearest || distance < nearest.distance) {
+      nearest = { color: preset.color, distance };
+    }
+  }
+  return nearest && nearest.distance <= PRESET_SNAP_DISTANCE
+    ? nearest.color
+    : hex;
+}
@@ -0,0 +1,106 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PROJECT_ROLES, type ProjectRole } from '@utilitix/db';
+import { DRIZZLE, DrizzleDB, DrizzleTx } from '../drizzle';
+import { ProjectMembersRepository } from '../database/project-members.repository';
+import { OrganizationScopeService } from '../auth/organization-scope.service';
+import { UserProfilesService } from '../user-profiles/user-profiles.service';
+import { AddProjectMemberDto } from './dto/add-project-member.dto';
+import { UpdateProjectMemberDto } from './dto/update-project-member.dto';
+
+export function requireRole(value: unknown): ProjectRole {
+  if (!PROJECT_ROLES.includes(value as ProjectRole)) {
+    throw new BadRequestException(
+      `role must be one of: ${PROJECT_ROLES.join(', ')}`,
+    );
+  }
+  return value as ProjectRole;
+}
+
+/**
+ * Members of a project and their roles. Members must belong to the project
+ * organization, and a project always keeps at least one owner.
+ */
+@Injectable()
+export class ProjectMembersService {
+  constructor(
+    @Inject(DRIZZLE) private readonly db: DrizzleDB,
+    private readonly repo: ProjectMembersRepository,
+    private readonly scope: OrganizationScopeService,
+    private readonly userProfiles: UserProfilesService,
+  ) {}
+
+  async findAll(organizationId: string, projectId: string) {
+    await this.scope.findProject(organizationId, projectId);
+    return this.repo.findByProject(projectId);
+  }
+
+  async add(
+    organizationId: string,
+    projectId: string,
+    dto: AddProjectMemberDto,
+  ) {
+    const role = requireRole(dto.role);
+    await this.scope.findProject(organizationId, projectId);
+    await this.userProfiles.findOne(organizationId, dto.userProfileId);
+    const row = await this.repo.createIfAbsent({
+      projectId,
+      userProfileId: dto.userProfileId,
+      role,
+    });
+    if (!row) {
+      throw new ConflictException(
+        `User profile ${dto.userProfileId} is already a member of this project`,
+      );
+    }
+    return row;
+  }
+
+  async update(
+    organizationId: string,
+    projectId: string,
+    memberId: string,
+    dto: UpdateProjectMemberDto,
+  ) {
+    const role = requireRole(dto.role);
+    await this.scope.findProject(organizationId, projectId);
+    return this.db.transaction(async (tx) => {
+      const member = await this.findMember(projectId, memberId, tx);
+      if (role !== 'owner') await this.assertNotLastOwner(member, tx);
+      return this.repo.update(memberId, { role }, tx);
+    });
+  }
+
+  async remove(organizationId: string, projectId: string, memberId: string) {
+    await this.scope.findProject(organizationId, projectId);
+    return this.db.transaction(async (tx) => {
+      const member = await this.findMember(projectId, memberId, tx);
+      await this.assertNotLastOwner(member, tx);
+      return this.repo.remove(memberId, tx);
+    });
+  }
+
+  private async findMember(projectId: string, memberId: string, tx: DrizzleTx) {
+    const member = await this.repo.findOne(memberId, tx);
+    if (member.projectId !== projectId) {
+      throw new NotFoundException(`Project member ${memberId} not found`);
+    }
+    return member;
+  }
+
+  private async assertNotLastOwner(
+    member: { id: string; projectId: string; role: ProjectRole },
+    tx: DrizzleTx,
+  ) {
+    if (member.role !== 'owner') return;
+    const owners = await this.repo.findOwners(member.projectId, tx);
+    if (owners.every((o) => o.id === member.id)) {
+      throw new BadRequestException('A project needs at least one owner');
+    }
+  }
+}
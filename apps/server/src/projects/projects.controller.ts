@@ -3,58 +3,327 @@ import {
   Controller,
   Delete,
   Get,
+  Header,
   Param,
   Patch,
   Post,
   Query,
+  Res,
+  StreamableFile,
+  UploadedFile,
   UseGuards,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
+  ApiBody,
+  ApiConsumes,
   ApiOperation,
   ApiParam,
+  ApiProduces,
   ApiQuery,
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
 import { Authentication } from '@nestjs-cognito/auth';
-import { userProfiles } from '@utilitix/db';
+import type { Response } from 'express';
 import { ProjectsService } from './projects.service';
+import { ProjectMembersService } from './project-members.service';
 import { EnsureProfileGuard } from '../auth/guards/ensure-profile.guard';
-import { CurrentProfile } from '../auth/decorators/current-profile.decorator';
+import { ProjectRoleGuard } from '../auth/guards/project-role.guard';
+import {
+  fromParam,
+  RequireProjectRole,
+} from '../auth/decorators/project-role.decorator';
+import {
+  CurrentProfile,
+  type UserProfile,
+} from '../auth/decorators/current-profile.decorator';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { UpdateProjectDto } from './dto/update-project.dto';
+import { ImportGeoJsonDto } from './dto/import-geojson.dto';
+import { ImportFileDto } from './dto/import-file.dto';
+import { AddProjectMemberDto } from './dto/add-project-member.dto';
+import { UpdateProjectMemberDto } from './dto/update-project-member.dto';
+import { parseFiniteNumber } from '../paths/spatial-params';
 
-type UserProfile = typeof userProfiles.$inferSelect;
+/** Upload cap for file imports; matches the JSON body limit in main.ts. */
+const IMPORT_MAX_FILE_SIZE = 25 * 1024 * 1024;
 
 @ApiTags('projects')
-@UseGuards(EnsureProfileGuard)
+@UseGuards(EnsureProfileGuard, ProjectRoleGuard)
 @Authentication()
 @Controller('projects')
 export class ProjectsController {
-  constructor(private readonly service: ProjectsService) {}
+  constructor(
+    private readonly service: ProjectsService,
+    private readonly members: ProjectMembersService,
+  ) {}
 
   @Get()
   @ApiOperation({
-    summary: 'List projects, optionally filtered by organization',
+    summary: 'List the projects the caller is a member of, with their role',
   })
-  @ApiQuery({ name: 'organizationId', required: false, format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Array of projects' })
-  findAll(@Query('organizationId') organizationId?: string) {
-    return this.service.findAll(organizationId);
+  findAll(@CurrentProfile() profile: UserProfile) {
+    return this.service.findAll(profile.organizationId, profile.id);
+  }
+
+  @Get('trash')
+  @ApiOperation({
+    summary: 'List deleted projects the caller is a member of, with their role',
+  })
+  @ApiResponse({ status: 200, description: 'Array of deleted projects' })
+  findDeleted(@CurrentProfile() profile: UserProfile) {
+    return this.service.findDeleted(profile.organizationId, profile.id);
   }
 
   @Get(':id')
+  @RequireProjectRole('viewer', { project: fromParam('id') })
   @ApiOperation({ summary: 'Get a single project by ID' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Project record' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  findOne(@Param('id') id: string) {
-    return this.service.findOne(id);
+  findOne(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.findOne(profile.organizationId, id);
+  }
+
+  @Get(':id/conflicts')
+  @RequireProjectRole('viewer', { project: fromParam('id') })
+  @ApiOperation({
+    summary: 'Pairs of paths closer than their clearance rule',
+    description:
+      'Each pair is held to the organization clearance rule for its two ' +
+      'utility types (matched by APWA colour) and conflicts when it is ' +
+      'closer both horizontally and vertically. `clearance` applies one ' +
+      'value, both ways, to every pair instead. Closest pairs first.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiQuery({
+    name: 'clearance',
+    required: false,
+    description: 'Horizontal and vertical clearance in metres for every pair',
+    example: 0.3,
+  })
+  @ApiResponse({ status: 200, description: 'Array of conflicts' })
+  @ApiResponse({ status: 400, description: 'Invalid clearance' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  findConflicts(
+    @Param('id') id: string,
+    @CurrentProfile() profile: UserProfile,
+    @Query('clearance') clearance?: string,
+  ) {
+    return this.service.findConflicts(
+      profile.organizationId,
+      id,
+      clearance === undefined
+        ? undefined
+        : parseFiniteNumber('clearance', clearance),
+    );
+  }
+
+  @Get(':id/cover-violations')
+  @RequireProjectRole('viewer', { project: fromParam('id') })
+  @ApiOperation({
+    summary: 'Paths shallower than their minimum depth of cover',
+    description:
+      'Uses the organization cover rule for each utility type. Node z is ' +
+      'read as height relative to grade, so cover is -z; each path is ' +
+      'reported once, at its shallowest node.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, description: 'Array of cover violations' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  findCoverViolations(
+    @Param('id') id: string,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.findCoverViolations(profile.organizationId, id);
+  }
+
+  @Get(':id/export.geojson')
+  @RequireProjectRole('viewer', { project: fromParam('id') })
+  @Header('Content-Type', 'application/geo+json')
+  @ApiOperation({
+    summary: 'Export all live layers, paths and nodes as 3D GeoJSON',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiProduces('application/geo+json')
+  @ApiResponse({ status: 200, description: 'FeatureCollection of paths' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  async exportGeoJson(
+    @Param('id') id: string,
+    @CurrentProfile() profile: UserProfile,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const { filename, collection } = await this.service.exportGeoJson(
+      profile.organizationId,
+      id,
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${filename}.geojson"`,
+    );
+    return collection;
+  }
+
+  @Get(':id/export.kml')
+  @RequireProjectRole('viewer', { project: fromParam('id') })
+  @ApiOperation({
+    summary: 'Export all live layers, paths and nodes as KML',
+    description:
+      'One Folder per layer; path colour and width map to LineStyle/PolyStyle.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiProduces('application/vnd.google-earth.kml+xml')
+  @ApiResponse({ status: 200, description: 'KML document' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  async exportKml(
+    @Param('id') id: string,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    const { filename, kml } = await this.service.exportKml(
+      profile.organizationId,
+      id,
+    );
+    return new StreamableFile(Buffer.from(kml, 'utf8'), {
+      type: 'application/vnd.google-earth.kml+xml',
+      disposition: `attachment; filename="${filename}.kml"`,
+    });
+  }
+
+  @Get(':id/export.kmz')
+  @RequireProjectRole('viewer', { project: fromParam('id') })
+  @ApiOperation({ summary: 'Export the project as zipped KML (KMZ)' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiProduces('application/vnd.google-earth.kmz')
+  @ApiResponse({ status: 200, description: 'KMZ archive' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  async exportKmz(
+    @Param('id') id: string,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    const { filename, kmz } = await this.service.exportKmz(
+      profile.organizationId,
+      id,
+    );
+    return new StreamableFile(kmz, {
+      type: 'application/vnd.google-earth.kmz',
+      disposition: `attachment; filename="${filename}.kmz"`,
+    });
+  }
+
+  @Get(':id/export.dxf')
+  @RequireProjectRole('viewer', { project: fromParam('id') })
+  @ApiOperation({
+    summary: 'Export the project as an AutoCAD R12 ASCII DXF',
+    description:
+      'Layers become CAD layers, paths 3D POLYLINEs and node names TEXT. ' +
+      'Coordinates are projected to `crs`; the chosen code is echoed in the ' +
+      'X-Coordinate-System response header.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiQuery({
+    name: 'crs',
+    required: false,
+    description:
+      'EPSG code: 4326, 3857, UTM (326xx, 327xx, 269xx) or MTM (32181–32197). ' +
+      'Defaults to the WGS84 UTM zone of the project.',
+    example: 'EPSG:26917',
+  })
+  @ApiProduces('application/dxf')
+  @ApiResponse({ status: 200, description: 'DXF drawing' })
+  @ApiResponse({ status: 400, description: 'Unsupported CRS' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  async exportDxf(
+    @Param('id') id: string,
+    @CurrentProfile() profile: UserProfile,
+    @Res({ passthrough: true }) res: Response,
+    @Query('crs') crs?: string,
+  ) {
+    const {
+      filename,
+      crs: code,
+      dxf,
+    } = await this.service.exportDxf(profile.organizationId, id, crs);
+    res.setHeader('X-Coordinate-System', code);
+    return new StreamableFile(Buffer.from(dxf, 'utf8'), {
+      type: 'application/dxf',
+      disposition: `attachment; filename="${filename}.dxf"`,
+    });
+  }
+
+  @Post(':id/import/file')
+  @RequireProjectRole('editor', { project: fromParam('id') })
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: IMPORT_MAX_FILE_SIZE } }),
+  )
+  @ApiOperation({
+    summary: 'Import a GeoJSON, KML, KMZ or zipped shapefile into a layer',
+    description:
+      'The format is chosen by file extension; a .zip is read as Esri ' +
+      'shapefiles reprojected from their .prj. With dryRun=true nothing is ' +
+      'written and a summary (path/node counts, extent) is returned instead.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ type: ImportFileDto })
+  @ApiQuery({ name: 'dryRun', required: false, type: Boolean })
+  @ApiResponse({
+    status: 201,
+    description: 'Import result, or a preview summary when dryRun=true',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing, unsupported or invalid file',
+  })
+  @ApiResponse({ status: 404, description: 'Project or layer not found' })
+  importFile(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() dto: ImportFileDto,
+    @CurrentProfile() profile: UserProfile,
+    @Query('dryRun') dryRun?: string,
+  ) {
+    return this.service.importFile(
+      profile.organizationId,
+      id,
+      file,
+      dto,
+      dryRun === 'true',
+    );
+  }
+
+  @Post(':id/import')
+  @RequireProjectRole('editor', { project: fromParam('id') })
+  @ApiOperation({
+    summary: 'Import a GeoJSON FeatureCollection into a project layer',
+    description:
+      'LineString/MultiLineString features become open paths and ' +
+      'Polygon/MultiPolygon features closed paths, with Z kept on each node. ' +
+      'Everything is written in one transaction.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({
+    status: 201,
+    description: 'Target layer, created paths, node count and skipped count',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid GeoJSON or mapping' })
+  @ApiResponse({ status: 404, description: 'Project or layer not found' })
+  importGeoJson(
+    @Param('id') id: string,
+    @Body() dto: ImportGeoJsonDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.importGeoJson(profile.organizationId, id, dto);
   }
 
   @Post()
   @ApiOperation({ summary: 'Create a project' })
-  @ApiResponse({ status: 201, description: 'Created project' })
+  @ApiResponse({
+    status: 201,
+    description: 'Created project; the caller is its owner',
+  })
   async create(
     @Body() dto: CreateProjectDto,
     @CurrentProfile() profile: UserProfile,
@@ -67,20 +336,126 @@ export class ProjectsController {
   }
 
   @Patch(':id')
+  @RequireProjectRole('owner', { project: fromParam('id') })
   @ApiOperation({ summary: 'Update a project' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Updated project' })
+  @ApiResponse({ status: 403, description: 'Caller is not an owner' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  update(@Param('id') id: string, @Body() dto: UpdateProjectDto) {
-    return this.service.update(id, dto);
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdateProjectDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.update(profile.organizationId, id, dto);
   }
 
   @Delete(':id')
+  @RequireProjectRole('owner', { project: fromParam('id') })
   @ApiOperation({ summary: 'Soft-delete a project' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Deleted project' })
+  @ApiResponse({ status: 403, description: 'Caller is not an owner' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  remove(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.remove(profile.organizationId, id);
+  }
+
+  @Get(':id/trash')
+  @RequireProjectRole('viewer', { project: fromParam('id') })
+  @ApiOperation({
+    summary: 'List the deleted layers and paths of a project',
+    description:
+      'Most recently deleted first. Records are purged for good after ' +
+      'TRASH_RETENTION_DAYS (default 30).',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, description: '{ layers, paths }' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  findTrash(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.findTrash(profile.organizationId, id);
+  }
+
+  @Post(':id/restore')
+  @RequireProjectRole(
+    'owner',
+    { project: fromParam('id') },
+    { includeDeleted: true },
+  )
+  @ApiOperation({ summary: 'Restore a deleted project' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 201, description: 'Restored project' })
+  @ApiResponse({ status: 403, description: 'Caller is not an owner' })
+  @ApiResponse({ status: 404, description: 'Not found in trash' })
+  restore(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.restore(profile.organizationId, id);
+  }
+
+  @Get(':id/members')
+  @RequireProjectRole('viewer', { project: fromParam('id') })
+  @ApiOperation({ summary: 'List project members with their role' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 200, description: 'Array of members' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  remove(@Param('id') id: string) {
-    return this.service.remove(id);
+  findMembers(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.members.findAll(profile.organizationId, id);
+  }
+
+  @Post(':id/members')
+  @RequireProjectRole('owner', { project: fromParam('id') })
+  @ApiOperation({ summary: 'Add a user of the organization to the project' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: 201, description: 'Created member' })
+  @ApiResponse({ status: 400, description: 'Invalid role' })
+  @ApiResponse({ status: 403, description: 'Caller is not an owner' })
+  @ApiResponse({
+    status: 404,
+    description: 'Project or user profile not found',
+  })
+  @ApiResponse({ status: 409, description: 'Already a member' })
+  addMember(
+    @Param('id') id: string,
+    @Body() dto: AddProjectMemberDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.members.add(profile.organizationId, id, dto);
+  }
+
+  @Patch(':id/members/:memberId')
+  @RequireProjectRole('owner', { project: fromParam('id') })
+  @ApiOperation({ summary: 'Change the role of a project member' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiParam({ name: 'memberId', format: 'uuid' })
+  @ApiResponse({ status: 200, description: 'Updated member' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid role, or demoting the last owner',
+  })
+  @ApiResponse({ status: 403, description: 'Caller is not an owner' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  updateMember(
+    @Param('id') id: string,
+    @Param('memberId') memberId: string,
+    @Body() dto: UpdateProjectMemberDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.members.update(profile.organizationId, id, memberId, dto);
+  }
+
+  @Delete(':id/members/:memberId')
+  @RequireProjectRole('owner', { project: fromParam('id') })
+  @ApiOperation({ summary: 'Remove a member from the project' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiParam({ name: 'memberId', format: 'uuid' })
+  @ApiResponse({ status: 200, description: 'Removed member' })
+  @ApiResponse({ status: 400, description: 'Removing the last owner' })
+  @ApiResponse({ status: 403, description: 'Caller is not an owner' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  removeMember(
+    @Param('id') id: string,
+    @Param('memberId') memberId: string,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.members.remove(profile.organizationId, id, memberId);
   }
 }
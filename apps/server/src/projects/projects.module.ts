@@ -1,12 +1,32 @@
 import { Module } from '@nestjs/common';
 import { ProjectsController } from './projects.controller';
 import { ProjectsService } from './projects.service';
+import { ProjectMembersService } from './project-members.service';
 import { AuthModule } from '../auth/auth.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
 import { ProjectsRepository } from '../database/projects.repository';
+import { LayersRepository } from '../database/layers.repository';
+import { PathsRepository } from '../database/paths.repository';
+import { ProjectSnapshotService } from './export/project-snapshot.service';
+import { ProjectImportService } from './import/project-import.service';
+import { ConflictsService } from './conflicts/conflicts.service';
+import { ProjectTrashService } from './trash/project-trash.service';
+import { TrashPurgeService } from './trash/trash-purge.service';
 
 @Module({
-  imports: [AuthModule],
+  imports: [AuthModule, OrganizationsModule],
   controllers: [ProjectsController],
-  providers: [ProjectsService, ProjectsRepository],
+  providers: [
+    ProjectsService,
+    ProjectMembersService,
+    ProjectsRepository,
+    LayersRepository,
+    PathsRepository,
+    ProjectSnapshotService,
+    ProjectImportService,
+    ConflictsService,
+    ProjectTrashService,
+    TrashPurgeService,
+  ],
 })
 export class ProjectsModule {}
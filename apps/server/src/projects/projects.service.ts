@@ -1,9 +1,36 @@
-import { Inject, Injectable } from '@nestjs/common';
-import { and, eq, isNull } from 'drizzle-orm';
-import { projects } from '@utilitix/db';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { and, eq, getTableColumns, isNull } from 'drizzle-orm';
+import { projectMembers, projects } from '@utilitix/db';
 import { DRIZZLE, DrizzleDB } from '../drizzle';
 import { UpdateProjectDto } from './dto/update-project.dto';
 import { ProjectsRepository } from '../database/projects.repository';
+import { ProjectMembersRepository } from '../database/project-members.repository';
+import {
+  isProjectMember,
+  OrganizationScopeService,
+} from '../auth/organization-scope.service';
+import { ProjectSnapshotService } from './export/project-snapshot.service';
+import { snapshotToGeoJson } from './export/geojson';
+import { snapshotToKml, snapshotToKmz } from './export/kml';
+import { snapshotToDxf } from './export/dxf';
+import { resolveCrs, utmCodeFor } from './export/crs';
+import { ProjectImportService } from './import/project-import.service';
+import { ConflictsService } from './conflicts/conflicts.service';
+import { ProjectTrashService } from './trash/project-trash.service';
+import {
+  deleteDescendants,
+  restoreDescendants,
+} from '../database/soft-delete-cascade';
+import { geoJsonToDrafts } from './import/geojson';
+import { parseImportFile } from './import/file-formats';
+import { summarizeDrafts } from './import/path-draft';
+import { ImportGeoJsonDto } from './dto/import-geojson.dto';
+import { ImportFileDto } from './dto/import-file.dto';
 
 type CreateProjectInput = { name: string; ownerId: string; organizationId: string };
 
@@ -12,36 +39,193 @@ export class ProjectsService {
   constructor(
     @Inject(DRIZZLE) private readonly db: DrizzleDB,
     private readonly repo: ProjectsRepository,
+    private readonly members: ProjectMembersRepository,
+    private readonly snapshots: ProjectSnapshotService,
+    private readonly importer: ProjectImportService,
+    private readonly conflicts: ConflictsService,
+    private readonly trash: ProjectTrashService,
+    private readonly scope: OrganizationScopeService,
   ) {}
 
-  async findAll(organizationId?: string) {
-    if (organizationId) {
-      return this.db
-        .select()
-        .from(projects)
-        .where(
-          and(
-            isNull(projects.deletedAt),
-            eq(projects.organizationId, organizationId),
-          ),
-        );
+  /** Projects the caller is a member of, each with the caller's `role`. */
+  async findAll(organizationId: string, userProfileId: string) {
+    return this.db
+      .select({ ...getTableColumns(projects), role: projectMembers.role })
+      .from(projects)
+      .innerJoin(projectMembers, isProjectMember(userProfileId))
+      .where(
+        and(
+          isNull(projects.deletedAt),
+          eq(projects.organizationId, organizationId),
+        ),
+      );
+  }
+
+  async findOne(organizationId: string, id: string) {
+    return this.scope.findProject(organizationId, id);
+  }
+
+  async findConflicts(organizationId: string, id: string, clearanceM?: number) {
+    if (clearanceM !== undefined && clearanceM <= 0) {
+      throw new BadRequestException('clearance must be positive');
+    }
+    await this.scope.findProject(organizationId, id);
+    return this.conflicts.find(id, organizationId, clearanceM);
+  }
+
+  async findCoverViolations(organizationId: string, id: string) {
+    await this.scope.findProject(organizationId, id);
+    return this.conflicts.findCoverViolations(id, organizationId);
+  }
+
+  async exportGeoJson(organizationId: string, id: string) {
+    await this.scope.findProject(organizationId, id);
+    const snapshot = await this.snapshots.load(id);
+    return {
+      filename: exportFilename(snapshot.project.name),
+      collection: snapshotToGeoJson(snapshot),
+    };
+  }
+
+  async exportKml(organizationId: string, id: string) {
+    await this.scope.findProject(organizationId, id);
+    const snapshot = await this.snapshots.load(id);
+    return {
+      filename: exportFilename(snapshot.project.name),
+      kml: snapshotToKml(snapshot),
+    };
+  }
+
+  async exportKmz(organizationId: string, id: string) {
+    await this.scope.findProject(organizationId, id);
+    const snapshot = await this.snapshots.load(id);
+    return {
+      filename: exportFilename(snapshot.project.name),
+      kmz: await snapshotToKmz(snapshot),
+    };
+  }
+
+  /**
+   * Without a CRS the drawing goes to the WGS84 UTM zone of the project's
+   * mean node position (or stays in EPSG:4326 when there are no nodes).
+   */
+  async exportDxf(organizationId: string, id: string, crsCode?: string) {
+    await this.scope.findProject(organizationId, id);
+    const snapshot = await this.snapshots.load(id);
+    let code = crsCode;
+    if (!code) {
+      const points = snapshot.paths.flatMap((p) => p.nodes.map((n) => n.point));
+      code =
+        points.length === 0
+          ? 'EPSG:4326'
+          : utmCodeFor(
+              points.reduce((sum, p) => sum + p.lng, 0) / points.length,
+              points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+            );
+    }
+    const crs = resolveCrs(code);
+    return {
+      filename: exportFilename(snapshot.project.name),
+      crs: crs.code,
+      dxf: snapshotToDxf(snapshot, crs),
+    };
+  }
+
+  async importFile(
+    organizationId: string,
+    id: string,
+    file: Express.Multer.File | undefined,
+    dto: ImportFileDto,
+    dryRun: boolean,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Upload a file in the "file" field');
     }
-    return this.repo.findAll();
+    await this.scope.findProject(organizationId, id);
+    const parsed = await parseImportFile(file, dto.nameProperty);
+    if (dryRun) return summarizeDrafts(parsed);
+    return this.importer.importDrafts(
+      id,
+      { layerId: dto.layerId, layerName: dto.layerName },
+      parsed,
+    );
   }
 
-  async findOne(id: string) {
-    return this.repo.findOne(id);
+  async importGeoJson(
+    organizationId: string,
+    id: string,
+    dto: ImportGeoJsonDto,
+  ) {
+    await this.scope.findProject(organizationId, id);
+    const { featureCollection, layerId, layerName, ...mapping } = dto;
+    return this.importer.importDrafts(
+      id,
+      { layerId, layerName },
+      geoJsonToDrafts(featureCollection, mapping),
+    );
   }
 
+  /** The creator becomes the first owner member. */
   async create(dto: CreateProjectInput) {
-    return this.repo.create(dto);
+    return this.db.transaction(async (tx) => {
+      const project = await this.repo.create(dto, tx);
+      const member = await this.members.create(
+        { projectId: project.id, userProfileId: dto.ownerId, role: 'owner' },
+        tx,
+      );
+      return { ...project, role: member.role };
+    });
+  }
+
+  /**
+   * Owner and organization are fixed at creation; only the name changes.
+   * Ownership after that is managed through project members.
+   */
+  async update(organizationId: string, id: string, dto: UpdateProjectDto) {
+    await this.scope.findProject(organizationId, id);
+    return this.repo.update(id, { name: dto.name });
+  }
+
+  /** Deletes the project with its layers, paths and nodes. */
+  async remove(organizationId: string, id: string) {
+    return this.db.transaction(async (tx) => {
+      await this.scope.findProject(organizationId, id, tx);
+      const row = await this.repo.remove(id, tx);
+      await deleteDescendants(tx, 'project', id, row.deletedAt!);
+      return row;
+    });
+  }
+
+  async findDeleted(organizationId: string, userProfileId: string) {
+    return this.trash.findProjects(organizationId, userProfileId);
   }
 
-  async update(id: string, dto: UpdateProjectDto) {
-    return this.repo.update(id, dto);
+  async findTrash(organizationId: string, id: string) {
+    await this.scope.findProject(organizationId, id);
+    return this.trash.find(id);
   }
 
-  async remove(id: string) {
-    return this.repo.remove(id);
+  /** Takes a project out of the trash with everything deleted along with it. */
+  async restore(organizationId: string, id: string) {
+    return this.db.transaction(async (tx) => {
+      const [row] = await tx
+        .select({ id: projects.id })
+        .from(projects)
+        .where(
+          and(eq(projects.id, id), eq(projects.organizationId, organizationId)),
+        );
+      if (!row) throw new NotFoundException(`Project ${id} not found`);
+      await restoreDescendants(tx, 'project', id);
+      return this.repo.restore(id, tx);
+    });
   }
 }
+
+/** Header-safe download name derived from the project name. */
+function exportFilename(projectName: string): string {
+  const slug = projectName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'project';
+}
@@ -0,0 +1,69 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { and, desc, eq, isNotNull, isNull, ne, or, sql } from 'drizzle-orm';
+import { layers, paths, projectMembers, projects } from '@utilitix/db';
+import { DRIZZLE, DrizzleDB } from '../../drizzle';
+import { isProjectMember } from '../../auth/organization-scope.service';
+
+/**
+ * Soft-deleted records that can still be restored, until TrashPurgeService
+ * removes them for good.
+ */
+@Injectable()
+export class ProjectTrashService {
+  constructor(@Inject(DRIZZLE) private readonly db: DrizzleDB) {}
+
+  /**
+   * Deleted layers and paths of a project, most recently deleted first.
+   * Paths deleted together with their layer are left out, since restoring
+   * the layer brings them back; a path deleted before its layer can only be
+   * restored after the layer.
+   */
+  async find(projectId: string) {
+    const deletedLayers = await this.db
+      .select({ id: layers.id, name: layers.name, deletedAt: layers.deletedAt })
+      .from(layers)
+      .where(and(eq(layers.projectId, projectId), isNotNull(layers.deletedAt)))
+      .orderBy(desc(layers.deletedAt));
+    const deletedPaths = await this.db
+      .select({
+        id: paths.id,
+        name: paths.name,
+        color: paths.color,
+        layerId: paths.layerId,
+        layerName: layers.name,
+        isLayerDeleted: sql<boolean>`${layers.deletedAt} IS NOT NULL`,
+        deletedAt: paths.deletedAt,
+      })
+      .from(paths)
+      .innerJoin(layers, eq(paths.layerId, layers.id))
+      .where(
+        and(
+          eq(layers.projectId, projectId),
+          isNotNull(paths.deletedAt),
+          or(isNull(layers.deletedAt), ne(layers.deletedAt, paths.deletedAt)),
+        ),
+      )
+      .orderBy(desc(paths.deletedAt));
+    return { layers: deletedLayers, paths: deletedPaths };
+  }
+
+  /** Deleted projects the caller is still a member of, with their role. */
+  async findProjects(organizationId: string, userProfileId: string) {
+    return this.db
+      .select({
+        id: projects.id,
+        name: projects.name,
+        deletedAt: projects.deletedAt,
+        role: projectMembers.role,
+      })
+      .from(projects)
+      .innerJoin(projectMembers, isProjectMember(userProfileId))
+      .where(
+        and(
+          eq(projects.organizationId, organizationId),
+          isNotNull(projects.deletedAt),
+        ),
+      )
+      .orderBy(desc(projects.deletedAt));
+  }
+}
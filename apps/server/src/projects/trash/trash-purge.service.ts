@@ -0,0 +1,130 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { inArray, lt, or } from 'drizzle-orm';
+import {
+  layers,
+  pathNodes,
+  paths,
+  projectInvitations,
+  projectMembers,
+  projects,
+  projectShareLinks,
+} from '@utilitix/db';
+import { DRIZZLE, DrizzleDB } from '../../drizzle';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Days a deleted record stays restorable; 0 keeps the trash forever. */
+function retentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS ?? 30);
+  return Number.isFinite(days) && days > 0 ? days : 0;
+}
+
+/**
+ * Hourly, permanently deletes projects, layers, paths and path nodes that
+ * have been in the trash longer than TRASH_RETENTION_DAYS (default 30),
+ * along with everything under a purged parent whether deleted or not.
+ * Audit events are kept.
+ */
+@Injectable()
+export class TrashPurgeService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TrashPurgeService.name);
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(@Inject(DRIZZLE) private readonly db: DrizzleDB) {}
+
+  onModuleInit() {
+    if (retentionDays() === 0) return;
+    this.timer = setInterval(() => {
+      this.purgeExpired().catch((err: unknown) =>
+        this.logger.error('Trash purge failed', err as Error),
+      );
+    }, PURGE_INTERVAL_MS);
+    // Never holds the process open on shutdown
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  async purgeExpired() {
+    const days = retentionDays();
+    if (days === 0) return;
+    const purged = await this.purge(new Date(Date.now() - days * DAY_MS));
+    if (purged > 0) this.logger.log(`Purged ${purged} records from the trash`);
+  }
+
+  /**
+   * Deletes records soft-deleted before `cutoff`, children before parents so
+   * foreign keys hold. A purged project also takes its members, invitations
+   * and share links. Returns how many projects, layers, paths and nodes went.
+   */
+  async purge(cutoff: Date): Promise<number> {
+    return this.db.transaction(async (tx) => {
+      const projectIds = tx
+        .select({ id: projects.id })
+        .from(projects)
+        .where(lt(projects.deletedAt, cutoff));
+      const layerIds = tx
+        .select({ id: layers.id })
+        .from(layers)
+        .where(
+          or(
+            lt(layers.deletedAt, cutoff),
+            inArray(layers.projectId, projectIds),
+          ),
+        );
+      const pathIds = tx
+        .select({ id: paths.id })
+        .from(paths)
+        .where(
+          or(lt(paths.deletedAt, cutoff), inArray(paths.layerId, layerIds)),
+        );
+
+      const purgedNodes = await tx
+        .delete(pathNodes)
+        .where(
+          or(
+            lt(pathNodes.deletedAt, cutoff),
+            inArray(pathNodes.pathId, pathIds),
+          ),
+        )
+        .returning({ id: pathNodes.id });
+      const purgedPaths = await tx
+        .delete(paths)
+        .where(inArray(paths.id, pathIds))
+        .returning({ id: paths.id });
+      const purgedLayers = await tx
+        .delete(layers)
+        .where(inArray(layers.id, layerIds))
+        .returning({ id: layers.id });
+      await tx
+        .delete(projectMembers)
+        .where(inArray(projectMembers.projectId, projectIds));
+      await tx
+        .delete(projectInvitations)
+        .where(inArray(projectInvitations.projectId, projectIds));
+      await tx
+        .delete(projectShareLinks)
+        .where(inArray(projectShareLinks.projectId, projectIds));
+      const purgedProjects = await tx
+        .delete(projects)
+        .where(inArray(projects.id, projectIds))
+        .returning({ id: projects.id });
+
+      return (
+        purgedNodes.length +
+        purgedPaths.length +
+        purgedLayers.length +
+        purgedProjects.length
+      );
+    });
+  }
+}
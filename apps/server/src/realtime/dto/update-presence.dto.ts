@@ -0,0 +1,25 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CursorDto {
+  @ApiProperty({ example: -79.3875 })
+  lng: number;
+
+  @ApiProperty({ example: 43.6412 })
+  lat: number;
+}
+
+export class UpdatePresenceDto {
+  @ApiPropertyOptional({
+    type: CursorDto,
+    nullable: true,
+    description: 'Where the pointer is on the map; null when it is off it',
+  })
+  cursor?: CursorDto | null;
+
+  @ApiPropertyOptional({
+    format: 'uuid',
+    nullable: true,
+    description: 'The path this tab has in edit mode; null for none',
+  })
+  editingPathId?: string | null;
+}
@@ -0,0 +1,71 @@
+import { Controller, Headers, Param, Sse, UseGuards } from '@nestjs/common';
+import type { MessageEvent } from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Authentication } from '@nestjs-cognito/auth';
+import { randomUUID } from 'crypto';
+import { merge, type Observable } from 'rxjs';
+import { ProjectEventsService } from './project-events.service';
+import { ProjectPresenceService } from './project-presence.service';
+import { CLIENT_ID_HEADER } from './project-events.interceptor';
+import { EnsureProfileGuard } from '../auth/guards/ensure-profile.guard';
+import { ProjectRoleGuard } from '../auth/guards/project-role.guard';
+import {
+  fromParam,
+  RequireProjectRole,
+} from '../auth/decorators/project-role.decorator';
+import {
+  CurrentProfile,
+  type UserProfile,
+} from '../auth/decorators/current-profile.decorator';
+
+@ApiTags('realtime')
+@UseGuards(EnsureProfileGuard, ProjectRoleGuard)
+@Authentication()
+@Controller('projects/:id/events')
+@ApiParam({ name: 'id', format: 'uuid' })
+export class ProjectEventsController {
+  constructor(
+    private readonly events: ProjectEventsService,
+    private readonly presence: ProjectPresenceService,
+  ) {}
+
+  @Sse()
+  @RequireProjectRole('viewer', { project: fromParam('id') })
+  @ApiOperation({
+    summary:
+      'Stream changes to the project, and who has it open, as server-sent events',
+    description:
+      'Each message is a JSON `{ projectId, entityType, action, rows, ' +
+      'actorId, originId }`, sent once the change is committed. ' +
+      '`entityType` is project, layer, path or path_node; `action` is ' +
+      'create, update, delete or restore; `rows` are the records as the ' +
+      'API returns them. `originId` echoes the X-Client-Id header of the ' +
+      'request that made the change. Events missed while disconnected are ' +
+      'not replayed.\n\n' +
+      'Messages of type `presence` carry `{ projectId, users }`: every tab ' +
+      'with the project open, listed under its X-Client-Id, with its ' +
+      'user name and avatar, map cursor and the path it is editing. One ' +
+      'is sent on connect and whenever the list changes.',
+  })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: 200, description: 'Event stream' })
+  @ApiResponse({ status: 403, description: 'Not a project member' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  stream(
+    @Param('id') id: string,
+    @Headers(CLIENT_ID_HEADER) clientId: string | undefined,
+    @CurrentProfile() profile: UserProfile,
+  ): Observable<MessageEvent> {
+    return merge(
+      this.events.stream(id),
+      // A tab without an ID is listed but cannot update its presence
+      this.presence.watch(id, clientId ?? randomUUID(), profile),
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { Observable, tap } from 'rxjs';
+import { currentActorId, recordedChanges } from '../audit/audit-context';
+import { ProjectEventsService } from './project-events.service';
+
+// Set by the client on every request; see ProjectEvent.originId
+export const CLIENT_ID_HEADER = 'x-client-id';
+
+/**
+ * Broadcasts the rows a handler wrote once it has returned, i.e. after its
+ * transactions committed; a handler that throws broadcasts nothing. Must run
+ * inside AuditActorInterceptor, whose request context collects the rows, so
+ * RealtimeModule is imported after AuditModule.
+ */
+@Injectable()
+export class ProjectEventsInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(ProjectEventsInterceptor.name);
+
+  constructor(private readonly events: ProjectEventsService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const changes = recordedChanges();
+    if (context.getType() !== 'http' || !changes) return next.handle();
+    const request = context.switchToHttp().getRequest<Request>();
+    const clientId = request.header(CLIENT_ID_HEADER);
+    const origin = { actorId: currentActorId(), originId: clientId ?? null };
+
+    return next.handle().pipe(
+      tap({
+        complete: () => {
+          if (changes.length === 0) return;
+          this.events
+            .publish(changes, origin)
+            .catch((err: unknown) =>
+              this.logger.error(
+                'Publishing project events failed',
+                err as Error,
+              ),
+            );
+        },
+      }),
+    );
+  }
+}
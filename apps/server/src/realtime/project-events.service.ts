@@ -0,0 +1,138 @@
+import { Inject, Injectable, type MessageEvent } from '@nestjs/common';
+import { eq, inArray } from 'drizzle-orm';
+import { layers, paths, type AuditAction } from '@utilitix/db';
+import { filter, interval, map, merge, Observable, Subject } from 'rxjs';
+import { DRIZZLE, DrizzleDB } from '../drizzle';
+import type { RecordedChange } from '../audit/audit-context';
+
+type ProjectEntityType = 'project' | 'layer' | 'path' | 'path_node';
+type Row = Record<string, unknown>;
+
+/**
+ * Rows of one kind that a request created, updated, deleted or restored in
+ * a project, as they read back after the write. Path rows carry the
+ * server-computed measurements, and updates the new `version`.
+ */
+export interface ProjectEvent {
+  projectId: string;
+  entityType: ProjectEntityType;
+  action: AuditAction;
+  rows: Row[];
+  actorId: string | null;
+  // The X-Client-Id of the tab that made the change, so it can skip its echo
+  originId: string | null;
+}
+
+/** Who made a request's changes. */
+export type ChangeOrigin = Pick<ProjectEvent, 'actorId' | 'originId'>;
+
+// Keeps idle streams open through proxies that drop silent connections
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+/** Drops the columns the API never returns. */
+function toApiRow(row: Row): Row {
+  const apiRow = { ...row };
+  delete apiRow.cachedGeometry;
+  return apiRow;
+}
+
+/**
+ * Fans committed changes out to the subscribers of the projects they touch.
+ * Events live only in this process; a client that reconnects refetches what
+ * it missed.
+ */
+@Injectable()
+export class ProjectEventsService {
+  private readonly events = new Subject<ProjectEvent>();
+
+  constructor(@Inject(DRIZZLE) private readonly db: DrizzleDB) {}
+
+  /** The project's events as server-sent messages, with heartbeats. */
+  stream(projectId: string): Observable<MessageEvent> {
+    return merge(
+      this.events.pipe(
+        filter((event) => event.projectId === projectId),
+        map((event): MessageEvent => ({ data: event })),
+      ),
+      interval(HEARTBEAT_INTERVAL_MS).pipe(
+        map((): MessageEvent => ({ comment: 'heartbeat' })),
+      ),
+    );
+  }
+
+  /**
+   * Broadcasts a request's changes in the order they were made, one event
+   * per change and project. Call it only once they are committed.
+   */
+  async publish(changes: RecordedChange[], origin: ChangeOrigin) {
+    const projectOf = await this.resolveProjects(changes);
+    for (const { entityType, action, rows } of changes) {
+      if (entityType === 'organization') continue;
+      const byProject = new Map<string, Row[]>();
+      for (const row of rows) {
+        const projectId = projectOf(entityType, row);
+        if (!projectId) continue;
+        byProject.set(projectId, [
+          ...(byProject.get(projectId) ?? []),
+          toApiRow(row),
+        ]);
+      }
+      for (const [projectId, projectRows] of byProject) {
+        this.events.next({
+          projectId,
+          entityType,
+          action,
+          rows: projectRows,
+          ...origin,
+        });
+      }
+    }
+  }
+
+  /**
+   * Looks up the project of every layer, path and node row in `changes`,
+   * deleted parents included, in at most two queries.
+   */
+  private async resolveProjects(changes: RecordedChange[]) {
+    const idsOf = (type: RecordedChange['entityType'], column: string) => [
+      ...new Set(
+        changes
+          .filter((change) => change.entityType === type)
+          .flatMap((change) => change.rows.map((row) => row[column] as string)),
+      ),
+    ];
+    const layerIds = idsOf('path', 'layerId');
+    const pathIds = idsOf('path_node', 'pathId');
+
+    const layerProjects = new Map<string, string>();
+    if (layerIds.length > 0) {
+      const found = await this.db
+        .select({ id: layers.id, projectId: layers.projectId })
+        .from(layers)
+        .where(inArray(layers.id, layerIds));
+      found.forEach((layer) => layerProjects.set(layer.id, layer.projectId));
+    }
+    const pathProjects = new Map<string, string>();
+    if (pathIds.length > 0) {
+      const found = await this.db
+        .select({ id: paths.id, projectId: layers.projectId })
+        .from(paths)
+        .innerJoin(layers, eq(paths.layerId, layers.id))
+        .where(inArray(paths.id, pathIds));
+      found.forEach((path) => pathProjects.set(path.id, path.projectId));
+    }
+
+    return (entityType: ProjectEntityType, row: Row): string | undefined => {
+      switch (entityType) {
+        case 'project':
+          return row.id as string;
+        case 'layer':
+          return row.projectId as string;
+        case 'path':
+          return layerProjects.get(row.layerId as string);
+        case 'path_node':
+          return pathProjects.get(row.pathId as string);
+      }
+    };
+  }
+}
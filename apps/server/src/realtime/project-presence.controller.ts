@@ -0,0 +1,70 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  Param,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Authentication } from '@nestjs-cognito/auth';
+import { ProjectPresenceService } from './project-presence.service';
+import { CLIENT_ID_HEADER } from './project-events.interceptor';
+import { UpdatePresenceDto } from './dto/update-presence.dto';
+import { EnsureProfileGuard } from '../auth/guards/ensure-profile.guard';
+import { ProjectRoleGuard } from '../auth/guards/project-role.guard';
+import {
+  fromParam,
+  RequireProjectRole,
+} from '../auth/decorators/project-role.decorator';
+import {
+  CurrentProfile,
+  type UserProfile,
+} from '../auth/decorators/current-profile.decorator';
+
+@ApiTags('realtime')
+@UseGuards(EnsureProfileGuard, ProjectRoleGuard)
+@Authentication()
+@Controller('projects/:id/presence')
+@ApiParam({ name: 'id', format: 'uuid' })
+export class ProjectPresenceController {
+  constructor(private readonly service: ProjectPresenceService) {}
+
+  @Put()
+  @HttpCode(204)
+  @RequireProjectRole('viewer', { project: fromParam('id') })
+  @ApiOperation({
+    summary: 'Share the cursor and edited path of this tab',
+    description:
+      'Identifies the tab by its X-Client-Id header, which must have an ' +
+      'open event stream on the project opened by the same user. Omitted ' +
+      'fields are left as they are. Everyone on the stream gets the new ' +
+      'presence list.',
+  })
+  @ApiBody({ type: UpdatePresenceDto })
+  @ApiResponse({ status: 204, description: 'Presence updated' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid cursor, or a path outside the project',
+  })
+  @ApiResponse({ status: 403, description: 'Not a project member' })
+  @ApiResponse({
+    status: 404,
+    description: 'Project not found, or no open event stream for the tab',
+  })
+  update(
+    @Param('id') id: string,
+    @Headers(CLIENT_ID_HEADER) clientId: string | undefined,
+    @CurrentProfile() profile: UserProfile,
+    @Body() dto: UpdatePresenceDto,
+  ) {
+    return this.service.update(profile, id, clientId, dto);
+  }
+}
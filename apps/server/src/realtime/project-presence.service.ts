@@ -0,0 +1,135 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  type MessageEvent,
+} from '@nestjs/common';
+import { filter, map, Observable, Subject } from 'rxjs';
+import type { UserProfile } from '../auth/decorators/current-profile.decorator';
+import { OrganizationScopeService } from '../auth/organization-scope.service';
+import { UpdatePresenceDto } from './dto/update-presence.dto';
+
+/** One open tab in a project, as its other viewers see it. */
+export interface Presence {
+  clientId: string;
+  profileId: string;
+  name: string;
+  avatarUrl: string | null;
+  cursor: { lng: number; lat: number } | null;
+  editingPathId: string | null;
+}
+
+function tabKey(profileId: string, clientId: string) {
+  return `${profileId}/${clientId}`;
+}
+
+/**
+ * Who has each project open, kept in memory for as long as their event
+ * stream is connected. Every change sends the project's subscribers the
+ * whole list as a `presence` message. Tabs are keyed by profile as well as
+ * client ID, so a client ID sent by another user reaches none of them.
+ */
+@Injectable()
+export class ProjectPresenceService {
+  // Project ID → tabs by tabKey
+  private readonly projects = new Map<string, Map<string, Presence>>();
+  private readonly changed = new Subject<string>();
+
+  constructor(private readonly scope: OrganizationScopeService) {}
+
+  /**
+   * The project's presence messages, starting with the current list. The
+   * tab is listed while the returned stream is subscribed.
+   */
+  watch(
+    projectId: string,
+    clientId: string,
+    profile: UserProfile,
+  ): Observable<MessageEvent> {
+    return new Observable<MessageEvent>((subscriber) => {
+      const subscription = this.changed
+        .pipe(
+          filter((id) => id === projectId),
+          map((): MessageEvent => ({
+            type: 'presence',
+            data: { projectId, users: this.list(projectId) },
+          })),
+        )
+        .subscribe(subscriber);
+
+      const presence: Presence = {
+        clientId,
+        profileId: profile.id,
+        name: `${profile.firstName} ${profile.lastName}`,
+        avatarUrl: profile.avatarUrl,
+        cursor: null,
+        editingPathId: null,
+      };
+      const key = tabKey(profile.id, clientId);
+      const tabs = this.projects.get(projectId) ?? new Map();
+      tabs.set(key, presence);
+      this.projects.set(projectId, tabs);
+      this.changed.next(projectId);
+
+      return () => {
+        subscription.unsubscribe();
+        // A reconnect under the same client ID may have replaced the entry
+        if (tabs.get(key) !== presence) return;
+        tabs.delete(key);
+        if (tabs.size === 0) this.projects.delete(projectId);
+        this.changed.next(projectId);
+      };
+    });
+  }
+
+  /**
+   * Moves a connected tab's cursor or changes the path it is editing. Only
+   * the profile that opened the tab can change it.
+   */
+  async update(
+    profile: UserProfile,
+    projectId: string,
+    clientId: string | undefined,
+    dto: UpdatePresenceDto,
+  ) {
+    const presence = clientId
+      ? this.projects.get(projectId)?.get(tabKey(profile.id, clientId))
+      : undefined;
+    if (!presence) {
+      throw new NotFoundException('Not connected to the project event stream');
+    }
+
+    if (dto.cursor !== undefined) {
+      const { lng, lat } = dto.cursor ?? {};
+      if (
+        dto.cursor !== null &&
+        !(Number.isFinite(lng) && Number.isFinite(lat))
+      ) {
+        throw new BadRequestException('cursor must have finite lng and lat');
+      }
+      presence.cursor = dto.cursor && { lng: lng!, lat: lat! };
+    }
+
+    if (dto.editingPathId !== undefined) {
+      if (dto.editingPathId !== null) {
+        const projectIds = await this.scope.resolveProjects(
+          profile.organizationId,
+          'path',
+          [dto.editingPathId],
+        );
+        if (projectIds.get(dto.editingPathId) !== projectId) {
+          throw new BadRequestException(
+            `Path ${dto.editingPathId} is not in project ${projectId}`,
+          );
+        }
+      }
+      presence.editingPathId = dto.editingPathId;
+    }
+
+    this.changed.next(projectId);
+  }
+
+  private list(projectId: string): Presence[] {
+    return [...(this.projects.get(projectId)?.values() ?? [])];
+  }
+}
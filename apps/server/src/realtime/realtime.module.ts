@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { ProjectEventsController } from './project-events.controller';
+import { ProjectEventsService } from './project-events.service';
+import { ProjectEventsInterceptor } from './project-events.interceptor';
+import { ProjectPresenceController } from './project-presence.controller';
+import { ProjectPresenceService } from './project-presence.service';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [ProjectEventsController, ProjectPresenceController],
+  providers: [
+    ProjectEventsService,
+    ProjectPresenceService,
+    { provide: APP_INTERCEPTOR, useClass: ProjectEventsInterceptor },
+  ],
+})
+export class RealtimeModule {}
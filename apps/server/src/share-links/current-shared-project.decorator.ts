@@ -0,0 +1,11 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { Request } from 'express';
+import { SHARED_PROJECT_KEY } from './share-token.guard';
+
+/** The share link and project of the caller's token, set by ShareTokenGuard. */
+export const CurrentSharedProject = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+    return (request as unknown as Record<string, unknown>)[SHARED_PROJECT_KEY];
+  },
+);
@@ -0,0 +1,21 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateShareLinkDto {
+  @ApiPropertyOptional({
+    description: 'Who or what the link is for, shown in the link list',
+    example: 'Enbridge records request',
+  })
+  label?: string;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Layers to share; omit to share every layer',
+  })
+  layerIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Lifetime in hours; default 72, at most 720 (30 days)',
+    example: 72,
+  })
+  expiresInHours?: number;
+}
@@ -0,0 +1,73 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Authentication } from '@nestjs-cognito/auth';
+import { ShareLinksService } from './share-links.service';
+import { EnsureProfileGuard } from '../auth/guards/ensure-profile.guard';
+import { ProjectRoleGuard } from '../auth/guards/project-role.guard';
+import {
+  fromParam,
+  RequireProjectRole,
+} from '../auth/decorators/project-role.decorator';
+import {
+  CurrentProfile,
+  type UserProfile,
+} from '../auth/decorators/current-profile.decorator';
+import { CreateShareLinkDto } from './dto/create-share-link.dto';
+
+@ApiTags('share-links')
+@UseGuards(EnsureProfileGuard, ProjectRoleGuard)
+@Authentication()
+@Controller('projects/:id/share-links')
+@ApiParam({ name: 'id', format: 'uuid' })
+@ApiResponse({ status: 403, description: 'Project role too low' })
+export class ProjectShareLinksController {
+  constructor(private readonly service: ShareLinksService) {}
+
+  @Get()
+  @RequireProjectRole('owner', { project: fromParam('id') })
+  @ApiOperation({ summary: 'List active share links of a project' })
+  @ApiResponse({ status: 200, description: 'Array of links with tokens' })
+  findActive(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.findActive(profile.organizationId, id);
+  }
+
+  @Post()
+  @RequireProjectRole('owner', { project: fromParam('id') })
+  @ApiOperation({
+    summary: 'Create a public read-only link to the project',
+    description:
+      'Anyone with the returned token can read the shared layers, paths ' +
+      'and nodes via /shared until the link expires or is revoked.',
+  })
+  @ApiResponse({ status: 201, description: 'The link with its token' })
+  @ApiResponse({ status: 400, description: 'Invalid layerIds or lifetime' })
+  create(
+    @Param('id') id: string,
+    @Body() dto: CreateShareLinkDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.create(profile, id, dto);
+  }
+
+  @Delete(':linkId')
+  @RequireProjectRole('owner', { project: fromParam('id') })
+  @ApiOperation({ summary: 'Revoke a share link' })
+  @ApiParam({ name: 'linkId', format: 'uuid' })
+  @ApiResponse({ status: 200, description: 'The revoked link' })
+  @ApiResponse({ status: 404, description: 'Not found' })
+  revoke(
+    @Param('id') id: string,
+    @Param('linkId') linkId: string,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.revoke(profile.organizationId, id, linkId);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ProjectShareLinksController } from './project-share-links.controller';
+import { SharedController } from './shared.controller';
+import { ShareLinksService } from './share-links.service';
+import { ShareTokenGuard } from './share-token.guard';
+import { AuthModule } from '../auth/auth.module';
+import { ProjectShareLinksRepository } from '../database/project-share-links.repository';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [ProjectShareLinksController, SharedController],
+  providers: [ShareLinksService, ShareTokenGuard, ProjectShareLinksRepository],
+})
+export class ShareLinksModule {}
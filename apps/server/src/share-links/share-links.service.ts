@@ -0,0 +1,210 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { and, eq, inArray, isNull, type SQL } from 'drizzle-orm';
+import { layers, pathNodes, paths, projectShareLinks } from '@utilitix/db';
+import { DRIZZLE, DrizzleDB } from '../drizzle';
+import { ProjectShareLinksRepository } from '../database/project-share-links.repository';
+import { OrganizationScopeService } from '../auth/organization-scope.service';
+import type { UserProfile } from '../auth/decorators/current-profile.decorator';
+import { signToken, verifyToken } from '../auth/signed-token';
+import { CreateShareLinkDto } from './dto/create-share-link.dto';
+
+const DEFAULT_TTL_HOURS = 72;
+const MAX_TTL_HOURS = 720;
+
+type ShareLink = typeof projectShareLinks.$inferSelect;
+
+// What a share link shows of a path. Imported source attributes and the raw
+// geometry stay with the organization.
+const PUBLIC_PATH_COLUMNS = {
+  id: paths.id,
+  name: paths.name,
+  color: paths.color,
+  width: paths.width,
+  isClosed: paths.isClosed,
+  isHidden: paths.isHidden,
+  layerId: paths.layerId,
+  lengthM: paths.lengthM,
+  length3dM: paths.length3dM,
+  areaM2: paths.areaM2,
+  version: paths.version,
+  createdAt: paths.createdAt,
+  updatedAt: paths.updatedAt,
+};
+
+/** A resolved share token: the link and the project it opens. */
+export interface SharedProject {
+  link: ShareLink;
+  project: { id: string; name: string };
+}
+
+function requireTtlHours(value: unknown): number {
+  if (value === undefined || value === null) return DEFAULT_TTL_HOURS;
+  if (
+    typeof value !== 'number' ||
+    !Number.isFinite(value) ||
+    value <= 0 ||
+    value > MAX_TTL_HOURS
+  ) {
+    throw new BadRequestException(
+      `expiresInHours must be a number in (0, ${MAX_TTL_HOURS}]`,
+    );
+  }
+  return value;
+}
+
+function withToken(link: ShareLink) {
+  return { ...link, token: signToken('share', link.id, link.expiresAt) };
+}
+
+/**
+ * Public, read-only links to a project. Owners mint them; anyone holding the
+ * token can read the shared layers, their paths and nodes until the link
+ * expires or is revoked. Nothing else about the project or organization is
+ * exposed.
+ */
+@Injectable()
+export class ShareLinksService {
+  constructor(
+    @Inject(DRIZZLE) private readonly db: DrizzleDB,
+    private readonly repo: ProjectShareLinksRepository,
+    private readonly scope: OrganizationScopeService,
+  ) {}
+
+  async findActive(organizationId: string, projectId: string) {
+    await this.scope.findProject(organizationId, projectId);
+    return (await this.repo.findActiveByProject(projectId)).map(withToken);
+  }
+
+  async create(
+    creator: UserProfile,
+    projectId: string,
+    dto: CreateShareLinkDto,
+  ) {
+    await this.scope.findProject(creator.organizationId, projectId);
+    const hours = requireTtlHours(dto.expiresInHours);
+    const layerIds = await this.requireLayerIds(projectId, dto.layerIds);
+    const label = typeof dto.label === 'string' ? dto.label.trim() : '';
+    const link = await this.repo.create({
+      projectId,
+      label: label || null,
+      layerIds,
+      createdById: creator.id,
+      expiresAt: new Date(Date.now() + hours * 3_600_000),
+    });
+    return withToken(link);
+  }
+
+  async revoke(organizationId: string, projectId: string, id: string) {
+    await this.scope.findProject(organizationId, projectId);
+    const link = await this.repo.findOne(id);
+    if (link.projectId !== projectId) {
+      throw new NotFoundException(`Share link ${id} not found`);
+    }
+    return this.repo.remove(id);
+  }
+
+  /** The link behind a token; 401 once it is tampered with, expired or revoked. */
+  async resolve(token: string): Promise<SharedProject> {
+    const id = verifyToken('share', token);
+    const shared = id ? await this.repo.findActive(id) : undefined;
+    if (!shared) {
+      throw new UnauthorizedException('Share link is invalid or expired');
+    }
+    return shared;
+  }
+
+  findProject({ link, project }: SharedProject) {
+    return {
+      id: project.id,
+      name: project.name,
+      label: link.label,
+      layerIds: link.layerIds,
+      expiresAt: link.expiresAt,
+    };
+  }
+
+  findLayers({ link }: SharedProject) {
+    return this.db.select().from(layers).where(this.sharedLayers(link));
+  }
+
+  findPaths({ link }: SharedProject) {
+    return this.db
+      .select(PUBLIC_PATH_COLUMNS)
+      .from(paths)
+      .innerJoin(layers, eq(paths.layerId, layers.id))
+      .where(and(this.sharedLayers(link), isNull(paths.deletedAt)));
+  }
+
+  /** Nodes of shared paths; a path outside the link is reported missing. */
+  async findPathNodes(shared: SharedProject, pathIds: string[]) {
+    const ids = [...new Set(pathIds)];
+    if (ids.length === 0) return [];
+    const visible = new Set(
+      (
+        await this.db
+          .select({ id: paths.id })
+          .from(paths)
+          .innerJoin(layers, eq(paths.layerId, layers.id))
+          .where(
+            and(
+              this.sharedLayers(shared.link),
+              inArray(paths.id, ids),
+              isNull(paths.deletedAt),
+            ),
+          )
+      ).map((p) => p.id),
+    );
+    const missing = ids.find((id) => !visible.has(id));
+    if (missing) throw new NotFoundException(`Path ${missing} not found`);
+    return this.db
+      .select()
+      .from(pathNodes)
+      .where(and(inArray(pathNodes.pathId, ids), isNull(pathNodes.deletedAt)));
+  }
+
+  /** Live layers of the link's project, narrowed to its layer list if any. */
+  private sharedLayers(link: ShareLink): SQL | undefined {
+    return and(
+      eq(layers.projectId, link.projectId),
+      isNull(layers.deletedAt),
+      link.layerIds ? inArray(layers.id, link.layerIds) : undefined,
+    );
+  }
+
+  private async requireLayerIds(projectId: string, value: unknown) {
+    if (value === undefined || value === null) return null;
+    if (
+      !Array.isArray(value) ||
+      value.length === 0 ||
+      value.some((id) => typeof id !== 'string')
+    ) {
+      throw new BadRequestException(
+        'layerIds must be a non-empty array of layer IDs; omit it to share every layer',
+      );
+    }
+    const ids = [...new Set(value as string[])];
+    const found = new Set(
+      (
+        await this.db
+          .select({ id: layers.id })
+          .from(layers)
+          .where(
+            and(
+              eq(layers.projectId, projectId),
+              inArray(layers.id, ids),
+              isNull(layers.deletedAt),
+            ),
+          )
+      ).map((l) => l.id),
+    );
+    const missing = ids.find((id) => !found.has(id));
+    if (missing) throw new NotFoundException(`Layer ${missing} not found`);
+    return ids;
+  }
+}
@@ -0,0 +1,31 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { ShareLinksService } from './share-links.service';
+
+export const SHARE_TOKEN_HEADER = 'x-share-token';
+export const SHARED_PROJECT_KEY = 'sharedProject';
+
+/**
+ * Admits anonymous callers holding a share token in the X-Share-Token
+ * header, and stores the resolved link for @CurrentSharedProject().
+ */
+@Injectable()
+export class ShareTokenGuard implements CanActivate {
+  constructor(private readonly shareLinks: ShareLinksService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const token = request.headers[SHARE_TOKEN_HEADER];
+    if (typeof token !== 'string' || !token) {
+      throw new UnauthorizedException('Missing share token');
+    }
+    (request as unknown as Record<string, unknown>)[SHARED_PROJECT_KEY] =
+      await this.shareLinks.resolve(token);
+    return true;
+  }
+}
@@ -0,0 +1,73 @@
+import { Body, Controller, Get, Post, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiHeader,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ShareLinksService, type SharedProject } from './share-links.service';
+import { ShareTokenGuard } from './share-token.guard';
+import { CurrentSharedProject } from './current-shared-project.decorator';
+import { BatchFetchPathNodesDto } from '../path-nodes/dto/batch-fetch-path-nodes.dto';
+
+/**
+ * Read-only mirror of the project, layer, path and node reads for holders
+ * of a share token. No Cognito login: the token is the credential, and it
+ * fixes the project, so filters such as ?projectId are ignored.
+ */
+@ApiTags('shared')
+@UseGuards(ShareTokenGuard)
+@Controller('shared')
+@ApiHeader({ name: 'X-Share-Token', required: true })
+@ApiResponse({ status: 401, description: 'Token invalid, expired or revoked' })
+export class SharedController {
+  constructor(private readonly service: ShareLinksService) {}
+
+  @Get('project')
+  @ApiOperation({ summary: 'The shared project and link details' })
+  @ApiResponse({ status: 200, description: 'Project name, layers and expiry' })
+  findProject(@CurrentSharedProject() shared: SharedProject) {
+    return this.service.findProject(shared);
+  }
+
+  @Get('layers')
+  @ApiOperation({ summary: 'List the shared layers' })
+  @ApiResponse({ status: 200, description: 'Array of layers' })
+  findLayers(@CurrentSharedProject() shared: SharedProject) {
+    return this.service.findLayers(shared);
+  }
+
+  @Get('paths')
+  @ApiOperation({ summary: 'List the paths of the shared layers' })
+  @ApiResponse({ status: 200, description: 'Array of paths' })
+  findPaths(@CurrentSharedProject() shared: SharedProject) {
+    return this.service.findPaths(shared);
+  }
+
+  @Get('path-nodes')
+  @ApiOperation({ summary: 'List the nodes of a shared path' })
+  @ApiQuery({ name: 'pathId', required: true, format: 'uuid' })
+  @ApiResponse({ status: 200, description: 'Array of path nodes' })
+  @ApiResponse({ status: 404, description: 'Path not shared' })
+  findPathNodes(
+    @Query('pathId') pathId: string,
+    @CurrentSharedProject() shared: SharedProject,
+  ) {
+    return this.service.findPathNodes(shared, pathId ? [pathId] : []);
+  }
+
+  @Post('path-nodes/batch-fetch')
+  @ApiOperation({ summary: 'Fetch the nodes of several shared paths' })
+  @ApiResponse({ status: 200, description: 'Array of path nodes' })
+  @ApiResponse({ status: 404, description: 'A path is not shared' })
+  batchFetch(
+    @Body() dto: BatchFetchPathNodesDto,
+    @CurrentSharedProject() shared: SharedProject,
+  ) {
+    return this.service.findPathNodes(
+      shared,
+      Array.isArray(dto.pathIds) ? dto.pathIds : [],
+    );
+  }
+}
@@ -16,6 +16,9 @@ export class CreateUserProfileDto {
   @ApiPropertyOptional({ example: 'https://cdn.example.com/avatars/jane.png' })
   avatarUrl?: string;
 
-  @ApiProperty({ description: 'Organization this user belongs to', format: 'uuid' })
+  @ApiPropertyOptional({
+    description: 'Ignored over HTTP: profiles join the caller organization',
+    format: 'uuid',
+  })
   organizationId: string;
 }
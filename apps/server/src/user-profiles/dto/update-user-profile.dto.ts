@@ -1,4 +1,5 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ORGANIZATION_ROLES, type OrganizationRole } from '@utilitix/db';
 
 export class UpdateUserProfileDto {
   @ApiPropertyOptional({ example: 'Jane' })
@@ -12,4 +13,11 @@ export class UpdateUserProfileDto {
 
   @ApiPropertyOptional({ example: 'https://cdn.example.com/avatars/jane.png' })
   avatarUrl?: string;
+
+  @ApiPropertyOptional({
+    enum: ORGANIZATION_ROLES,
+    description: 'Set by organization admins, and not on their own profile',
+    example: 'admin',
+  })
+  organizationRole?: OrganizationRole;
 }
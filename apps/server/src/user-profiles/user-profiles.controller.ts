@@ -1,20 +1,36 @@
-import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
-import { ApiOperation, ApiParam, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Authentication } from '@nestjs-cognito/auth';
 import { UserProfilesService } from './user-profiles.service';
 import { CreateUserProfileDto } from './dto/create-user-profile.dto';
 import { UpdateUserProfileDto } from './dto/update-user-profile.dto';
+import { EnsureProfileGuard } from '../auth/guards/ensure-profile.guard';
+import {
+  CurrentProfile,
+  type UserProfile,
+} from '../auth/decorators/current-profile.decorator';
 
 @ApiTags('user-profiles')
+@UseGuards(EnsureProfileGuard)
+@Authentication()
 @Controller('user-profiles')
 export class UserProfilesController {
   constructor(private readonly service: UserProfilesService) {}
 
   @Get()
-  @ApiOperation({ summary: 'List user profiles, optionally filtered by organization' })
-  @ApiQuery({ name: 'organizationId', required: false, format: 'uuid' })
+  @ApiOperation({ summary: 'List user profiles in the caller organization' })
   @ApiResponse({ status: 200, description: 'Array of user profiles' })
-  findAll(@Query('organizationId') organizationId?: string) {
-    return this.service.findAll(organizationId);
+  findAll(@CurrentProfile() profile: UserProfile) {
+    return this.service.findAll(profile.organizationId);
   }
 
   @Get(':id')
@@ -22,32 +38,51 @@ export class UserProfilesController {
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'User profile record' })
   @ApiResponse({ status: 404, description: 'Not found' })
-  findOne(@Param('id') id: string) {
-    return this.service.findOne(id);
+  findOne(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.findOne(profile.organizationId, id);
   }
 
   @Post()
-  @ApiOperation({ summary: 'Create a user profile' })
+  @ApiOperation({ summary: 'Create a user profile in the caller organization' })
   @ApiResponse({ status: 201, description: 'Created user profile' })
-  create(@Body() dto: CreateUserProfileDto) {
-    return this.service.create(dto);
+  create(
+    @Body() dto: CreateUserProfileDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.create(profile.organizationId, dto);
   }
 
   @Patch(':id')
   @ApiOperation({ summary: 'Update a user profile' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Updated user profile' })
+  @ApiResponse({ status: 400, description: 'Unknown organization role' })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Another member profile, or a role change, and the caller is not an ' +
+      'organization admin; or an admin changing their own role',
+  })
   @ApiResponse({ status: 404, description: 'Not found' })
-  update(@Param('id') id: string, @Body() dto: UpdateUserProfileDto) {
-    return this.service.update(id, dto);
+  update(
+    @Param('id') id: string,
+    @Body() dto: UpdateUserProfileDto,
+    @CurrentProfile() profile: UserProfile,
+  ) {
+    return this.service.update(profile, id, dto);
   }
 
   @Delete(':id')
   @ApiOperation({ summary: 'Soft-delete a user profile' })
   @ApiParam({ name: 'id', format: 'uuid' })
   @ApiResponse({ status: 200, description: 'Deleted user profile' })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Another member profile and the caller is not an organization admin',
+  })
   @ApiResponse({ status: 404, description: 'Not found' })
-  remove(@Param('id') id: string) {
-    return this.service.remove(id);
+  remove(@Param('id') id: string, @CurrentProfile() profile: UserProfile) {
+    return this.service.remove(profile, id);
   }
 }
@@ -1,13 +1,22 @@
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { UserProfilesController } from './user-profiles.controller';
 import { UserProfilesService } from './user-profiles.service';
 import { OrganizationsModule } from '../organizations/organizations.module';
 import { UserProfilesRepository } from '../database/user-profiles.repository';
+import { ProjectInvitationsRepository } from '../database/project-invitations.repository';
+import { ProjectMembersRepository } from '../database/project-members.repository';
+import { ProjectAccessService } from '../auth/project-access.service';
 
 @Module({
-  imports: [OrganizationsModule],
+  imports: [forwardRef(() => OrganizationsModule)],
   controllers: [UserProfilesController],
-  providers: [UserProfilesService, UserProfilesRepository],
+  providers: [
+    UserProfilesService,
+    UserProfilesRepository,
+    ProjectInvitationsRepository,
+    ProjectMembersRepository,
+    ProjectAccessService,
+  ],
   exports: [UserProfilesService, UserProfilesRepository],
 })
 export class UserProfilesModule {}
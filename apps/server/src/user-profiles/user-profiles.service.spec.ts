@@ -0,0 +1,189 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { UserProfilesService } from './user-profiles.service';
+import { ProjectAccessService } from '../auth/project-access.service';
+import type { DrizzleDB } from '../drizzle';
+import type { UserProfilesRepository } from '../database/user-profiles.repository';
+import type { OrganizationsService } from '../organizations/organizations.service';
+import type { ProjectInvitationsRepository } from '../database/project-invitations.repository';
+import type { ProjectMembersRepository } from '../database/project-members.repository';
+
+const ORG = 'org-1';
+
+type Profile = Parameters<UserProfilesService['update']>[0];
+
+function profile(overrides: Partial<Profile> = {}): Profile {
+  return {
+    id: 'me',
+    email: 'me@example.com',
+    firstName: 'Me',
+    lastName: 'Myself',
+    middleName: null,
+    avatarUrl: null,
+    organizationId: ORG,
+    organizationRole: 'member',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+/** A database whose profile lookups all find `rows`. */
+function fakeDb(rows: object[]) {
+  const result = Object.assign(Promise.resolve(rows), {
+    limit: () => Promise.resolve(rows),
+  });
+  return {
+    select: jest.fn(() => ({ from: () => ({ where: () => result }) })),
+  };
+}
+
+function setup(rows: object[] = [profile()]) {
+  const repo = {
+    create: jest.fn(async (fields: object) => ({ id: 'new', ...fields })),
+    update: jest.fn(async (id: string, patch: object) => ({ id, ...patch })),
+    remove: jest.fn(async (id: string) => ({ id })),
+  };
+  const organizations = {
+    findFirstOrCreateDefault: jest.fn(async () => ({ id: ORG })),
+  };
+  const invitations = {
+    findInvitedOrganizationId: jest.fn(async () => null),
+  };
+  const service = new UserProfilesService(
+    fakeDb(rows) as unknown as DrizzleDB,
+    repo as unknown as UserProfilesRepository,
+    organizations as unknown as OrganizationsService,
+    invitations as unknown as ProjectInvitationsRepository,
+    new ProjectAccessService({} as ProjectMembersRepository),
+  );
+  return { service, repo };
+}
+
+// Fields a client may send, plus ones it must not be able to set
+const body = {
+  email: 'new@example.com',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  middleName: 'Marie',
+  avatarUrl: 'https://cdn.example.com/jane.png',
+  organizationId: 'org-2',
+  id: 'chosen-id',
+};
+
+describe('UserProfilesService', () => {
+  describe('findOrCreateFromAuth', () => {
+    it('makes the first profile of an organization its admin', async () => {
+      const { service, repo } = setup([]);
+      await service.findOrCreateFromAuth({
+        email: 'first@example.com',
+      } as never);
+      expect(repo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ organizationRole: 'admin' }),
+      );
+    });
+
+    it('makes later profiles members', async () => {
+      const { service, repo } = setup([profile()]);
+      // No profile for the email yet, but the organization has one
+      jest.spyOn(service, 'findByEmail').mockResolvedValueOnce(null);
+      await service.findOrCreateFromAuth({
+        email: 'next@example.com',
+      } as never);
+      expect(repo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ organizationRole: 'member' }),
+      );
+    });
+  });
+
+  describe('create', () => {
+    it('writes only the client-settable fields', async () => {
+      const { service, repo } = setup();
+      const sent = { ...body, organizationRole: 'admin' };
+      await service.create(ORG, sent);
+      expect(repo.create).toHaveBeenCalledWith({
+        email: 'new@example.com',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        middleName: 'Marie',
+        avatarUrl: 'https://cdn.example.com/jane.png',
+        organizationId: ORG,
+      });
+    });
+  });
+
+  describe('update', () => {
+    it('writes only the name and avatar', async () => {
+      const { service, repo } = setup();
+      await service.update(profile(), 'me', body);
+      expect(repo.update).toHaveBeenCalledWith('me', {
+        firstName: 'Jane',
+        lastName: 'Doe',
+        middleName: 'Marie',
+        avatarUrl: 'https://cdn.example.com/jane.png',
+        organizationRole: undefined,
+      });
+    });
+
+    it('refuses a member changing another profile with 403', async () => {
+      const { service, repo } = setup();
+      await expect(
+        service.update(profile(), 'other', { firstName: 'X' }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(repo.update).not.toHaveBeenCalled();
+    });
+
+    it('lets an admin change another profile and its role', async () => {
+      const { service, repo } = setup();
+      await service.update(profile({ organizationRole: 'admin' }), 'other', {
+        organizationRole: 'admin',
+      });
+      expect(repo.update).toHaveBeenCalledWith(
+        'other',
+        expect.objectContaining({ organizationRole: 'admin' }),
+      );
+    });
+
+    it('refuses a member setting their own role with 403', async () => {
+      const { service, repo } = setup();
+      await expect(
+        service.update(profile(), 'me', { organizationRole: 'admin' }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(repo.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses an admin changing their own role with 403', async () => {
+      const { service } = setup();
+      await expect(
+        service.update(profile({ organizationRole: 'admin' }), 'me', {
+          organizationRole: 'member',
+        }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('refuses an unknown role with 400', async () => {
+      const { service } = setup();
+      await expect(
+        service.update(profile({ organizationRole: 'admin' }), 'other', {
+          organizationRole: 'owner' as never,
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('remove', () => {
+    it('refuses a member removing another profile with 403', async () => {
+      const { service, repo } = setup();
+      await expect(service.remove(profile(), 'other')).rejects.toBeInstanceOf(
+        ForbiddenException,
+      );
+      expect(repo.remove).not.toHaveBeenCalled();
+    });
+
+    it('lets an admin remove another profile', async () => {
+      const { service, repo } = setup();
+      await service.remove(profile({ organizationRole: 'admin' }), 'other');
+      expect(repo.remove).toHaveBeenCalledWith('other');
+    });
+  });
+});
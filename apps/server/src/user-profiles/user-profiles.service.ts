@@ -1,12 +1,24 @@
-import { Inject, Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { and, eq, isNull } from 'drizzle-orm';
-import { userProfiles } from '@utilitix/db';
+import {
+  ORGANIZATION_ROLES,
+  type OrganizationRole,
+  userProfiles,
+} from '@utilitix/db';
 import { DRIZZLE, type DrizzleDB } from '../drizzle';
 import { UpdateUserProfileDto } from './dto/update-user-profile.dto';
 import { CreateUserProfileDto } from './dto/create-user-profile.dto';
 import { OrganizationsService } from '../organizations/organizations.service';
-import type { CognitoJwtPayload } from '@nestjs-cognito/core';
+import type { CognitoJwtPayload } from 'aws-jwt-verify/jwt-model';
 import { UserProfilesRepository } from '../database/user-profiles.repository';
+import { ProjectInvitationsRepository } from '../database/project-invitations.repository';
+import { ProjectAccessService } from '../auth/project-access.service';
 
 type UserProfile = typeof userProfiles.$inferSelect;
 
@@ -16,6 +28,8 @@ export class UserProfilesService {
     @Inject(DRIZZLE) private readonly db: DrizzleDB,
     private readonly repo: UserProfilesRepository,
     private readonly organizationsService: OrganizationsService,
+    private readonly invitations: ProjectInvitationsRepository,
+    private readonly access: ProjectAccessService,
   ) {}
 
   async findByEmail(email: string): Promise<UserProfile | null> {
@@ -31,6 +45,8 @@ export class UserProfilesService {
   /**
    * Finds a user profile by email (from Cognito), or creates one if missing.
    * Uses Cognito username as email when email claim is absent (access token).
+   * A new profile joins the organization that invited the email, if any,
+   * and is its admin if no one else is in it yet.
    */
   async findOrCreateFromAuth(payload: CognitoJwtPayload): Promise<UserProfile> {
     const email =
@@ -40,49 +56,122 @@ export class UserProfilesService {
     const existing = await this.findByEmail(email);
     if (existing) return existing;
 
-    const org = await this.organizationsService.findFirstOrCreateDefault();
+    const organizationId =
+      (await this.invitations.findInvitedOrganizationId(email)) ??
+      (await this.organizationsService.findFirstOrCreateDefault()).id;
     const name = (payload as { name?: string; given_name?: string; family_name?: string }).name;
     const givenName = (payload as { given_name?: string }).given_name;
     const familyName = (payload as { family_name?: string }).family_name;
     const firstName = givenName ?? (name?.split(' ')[0]) ?? 'User';
     const lastName = familyName ?? (name?.split(' ').slice(1).join(' ') || 'Profile');
+    const [member] = await this.db
+      .select({ id: userProfiles.id })
+      .from(userProfiles)
+      .where(
+        and(
+          eq(userProfiles.organizationId, organizationId),
+          isNull(userProfiles.deletedAt),
+        ),
+      )
+      .limit(1);
 
     return this.repo.create({
       email,
       firstName,
       lastName,
-      organizationId: org.id,
+      organizationId,
+      organizationRole: member ? 'member' : 'admin',
     });
   }
 
-  async findAll(organizationId?: string) {
-    if (organizationId) {
-      return this.db
-        .select()
-        .from(userProfiles)
-        .where(
-          and(
-            isNull(userProfiles.deletedAt),
-            eq(userProfiles.organizationId, organizationId),
-          ),
-        );
-    }
-    return this.repo.findAll();
+  async findAll(organizationId: string) {
+    return this.db
+      .select()
+      .from(userProfiles)
+      .where(
+        and(
+          isNull(userProfiles.deletedAt),
+          eq(userProfiles.organizationId, organizationId),
+        ),
+      );
   }
 
-  async findOne(id: string) {
-    return this.repo.findOne(id);
+  /** A profile in another organization is reported as not found. */
+  async findOne(organizationId: string, id: string) {
+    const [row] = await this.db
+      .select()
+      .from(userProfiles)
+      .where(
+        and(
+          eq(userProfiles.id, id),
+          eq(userProfiles.organizationId, organizationId),
+          isNull(userProfiles.deletedAt),
+        ),
+      );
+    if (!row) throw new NotFoundException(`User profile ${id} not found`);
+    return row;
   }
 
-  async create(dto: CreateUserProfileDto) {
-    return this.repo.create(dto);
+  /** New profiles are members of the caller organization. */
+  async create(organizationId: string, dto: CreateUserProfileDto) {
+    const { email, firstName, lastName, middleName, avatarUrl } = dto;
+    return this.repo.create({
+      email,
+      firstName,
+      lastName,
+      middleName,
+      avatarUrl,
+      organizationId,
+    });
   }
 
-  async update(id: string, dto: UpdateUserProfileDto) {
-    return this.repo.update(id, dto);
+  /**
+   * Changes the name and avatar, and for organization admins the role of
+   * another member. Email and organization are fixed; any values sent for
+   * them are dropped.
+   */
+  async update(caller: UserProfile, id: string, dto: UpdateUserProfileDto) {
+    await this.assertCanChange(caller, id);
+    const { firstName, lastName, middleName, avatarUrl } = dto;
+    const organizationRole =
+      dto.organizationRole === undefined
+        ? undefined
+        : this.assertCanSetRole(caller, id, dto.organizationRole);
+    return this.repo.update(id, {
+      firstName,
+      lastName,
+      middleName,
+      avatarUrl,
+      organizationRole,
+    });
   }
 
-  async remove(id: string) {
+  async remove(caller: UserProfile, id: string) {
+    await this.assertCanChange(caller, id);
     return this.repo.remove(id);
   }
+
+  /** Members may change their own profile; only organization admins others. */
+  private async assertCanChange(caller: UserProfile, id: string) {
+    await this.findOne(caller.organizationId, id);
+    if (id === caller.id) return;
+    this.access.assertOrganizationAdmin(caller, caller.organizationId);
+  }
+
+  /**
+   * Only admins change roles, and never their own, so an organization is not
+   * left without an admin by accident.
+   */
+  private assertCanSetRole(caller: UserProfile, id: string, value: unknown) {
+    if (!ORGANIZATION_ROLES.includes(value as OrganizationRole)) {
+      throw new BadRequestException(
+        `organizationRole must be one of: ${ORGANIZATION_ROLES.join(', ')}`,
+      );
+    }
+    this.access.assertOrganizationAdmin(caller, caller.organizationId);
+    if (id === caller.id) {
+      throw new ForbiddenException('Admins cannot change their own role');
+    }
+    return value as OrganizationRole;
+  }
 }
@@ -0,0 +1,19 @@
+-- Run once after pushing the schema that adds paths.length_m, length_3d_m and
+-- area_m2. New writes keep them current (PathsRepository.rebuildCachedGeometry);
+-- this fills them in for paths whose geometry was built before the columns existed.
+-- Geography length/perimeter ignore Z, so length_3d_m sums sqrt(geodesic² + dz²)
+-- over each segment of the geometry, closing ring included.
+UPDATE paths SET
+  length_m = COALESCE(CASE
+    WHEN ST_Dimension(cached_geometry) = 2 THEN ST_Perimeter(cached_geometry::geography)
+    ELSE ST_Length(cached_geometry::geography)
+  END, 0),
+  length_3d_m = COALESCE((
+    SELECT SUM(sqrt(
+      ST_Length(s.geom::geography) ^ 2 +
+      (ST_Z(ST_EndPoint(s.geom)) - ST_Z(ST_StartPoint(s.geom))) ^ 2
+    ))
+    FROM ST_DumpSegments(cached_geometry) AS s
+  ), 0),
+  area_m2 = COALESCE(ST_Area(cached_geometry::geography), 0)
+WHERE cached_geometry IS NOT NULL;
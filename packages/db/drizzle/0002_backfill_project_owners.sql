@@ -0,0 +1,14 @@
+-- Run once after pushing the schema that adds project_members. Projects created
+-- before it only record their creator in projects.owner_id; this makes that
+-- profile an owner member so the project stays reachable. New projects get
+-- their owner row when they are created (ProjectsService.create).
+INSERT INTO project_members (project_id, user_profile_id, role)
+SELECT p.id, p.owner_id, 'owner'
+FROM projects p
+WHERE p.deleted_at IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM project_members m
+    WHERE m.project_id = p.id
+      AND m.user_profile_id = p.owner_id
+      AND m.deleted_at IS NULL
+  );
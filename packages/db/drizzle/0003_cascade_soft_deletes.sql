@@ -0,0 +1,21 @@
+-- Run once after deploying the server that cascades soft deletes. Records
+-- deleted before it only marked the record itself, leaving its layers, paths
+-- or nodes live under a deleted parent. This stamps those with the parent's
+-- deleted_at, parents first, so a later restore brings them back together.
+UPDATE layers l SET deleted_at = p.deleted_at
+FROM projects p
+WHERE l.project_id = p.id
+  AND p.deleted_at IS NOT NULL
+  AND l.deleted_at IS NULL;
+
+UPDATE paths pa SET deleted_at = l.deleted_at
+FROM layers l
+WHERE pa.layer_id = l.id
+  AND l.deleted_at IS NOT NULL
+  AND pa.deleted_at IS NULL;
+
+UPDATE path_nodes n SET deleted_at = pa.deleted_at
+FROM paths pa
+WHERE n.path_id = pa.id
+  AND pa.deleted_at IS NOT NULL
+  AND n.deleted_at IS NULL;
@@ -0,0 +1,19 @@
+-- Run once after pushing the schema that adds user_profiles.organization_role.
+-- Every existing profile starts as a member; this makes the earliest live
+-- profile of each organization without an admin its admin, so someone can
+-- still change organization settings. New organizations get theirs when
+-- their first profile is created (UserProfilesService.findOrCreateFromAuth).
+UPDATE user_profiles u
+SET organization_role = 'admin'
+WHERE u.id IN (
+  SELECT DISTINCT ON (p.organization_id) p.id
+  FROM user_profiles p
+  WHERE p.deleted_at IS NULL
+  ORDER BY p.organization_id, p.created_at, p.id
+)
+  AND NOT EXISTS (
+    SELECT 1 FROM user_profiles a
+    WHERE a.organization_id = u.organization_id
+      AND a.organization_role = 'admin'
+      AND a.deleted_at IS NULL
+  );
@@ -1,7 +1,9 @@
 import {
   boolean,
+  doublePrecision,
   index,
   integer,
+  jsonb,
   pgTable,
   text,
   timestamp,
@@ -10,7 +12,7 @@ import {
   varchar,
 } from 'drizzle-orm/pg-core';
 import { customType } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
 
 // ---------------------------------------------------------------------------
 // PostGIS EWKB-Z parser
@@ -56,7 +58,7 @@ const geometryPointZ = customType<{ data: PointZ; driverData: string }>({
 });
 
 // geometry(GeometryZ, 4326) — cached LINESTRINGZ or POLYGONZ for a full path
-// The application layer builds the EWKT from ordered nodes and stores it here.
+// The server rebuilds it from ordered nodes (PathsRepository.rebuildCachedGeometry).
 // Queries should use ST_AsEWKT(cached_geometry) to read back human-readable WKT.
 const geometryPath = customType<{ data: string; driverData: string }>({
   dataType() {
@@ -89,6 +91,12 @@ export const organizations = pgTable('organizations', {
   ...timestamps,
 });
 
+// Organization-wide access, separate from project roles. Admins change the
+// organization, its clearance rules and other members' profiles; members
+// only their own profile. The organization's first profile is its admin.
+export const ORGANIZATION_ROLES = ['member', 'admin'] as const;
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number];
+
 export const userProfiles = pgTable(
   'user_profiles',
   {
@@ -101,6 +109,10 @@ export const userProfiles = pgTable(
     organizationId: uuid('organization_id')
       .notNull()
       .references(() => organizations.id),
+    organizationRole: text('organization_role')
+      .$type<OrganizationRole>()
+      .notNull()
+      .default('member'),
     ...timestamps,
   },
   (table) => [
@@ -146,7 +158,7 @@ export const layers = pgTable(
 
 // Corresponds to the localStorage DrawnPath type: { id, name, nodes[], color, width, isClosed, layerId, isHidden }
 // cachedGeometry is a PostGIS LINESTRINGZ or POLYGONZ built from the ordered path_nodes.
-// It is null until nodes exist and should be regenerated whenever nodes change.
+// It is server-owned: rebuilt in the same transaction as every node write or isClosed flip.
 export const paths = pgTable(
   'paths',
   {
@@ -159,9 +171,21 @@ export const paths = pgTable(
     layerId: uuid('layer_id')
       .notNull()
       .references(() => layers.id),
-    // Cached geometry for spatial queries. Null until at least one node exists.
+    // Source attributes carried over on import (e.g. a shapefile's DBF row).
+    metadata: jsonb('metadata').$type<Record<string, unknown>>(),
+    // Cached geometry for spatial queries. Null until enough nodes exist to form a line.
     // isClosed=false → LINESTRINGZ; isClosed=true → POLYGONZ (first node repeated as last).
     cachedGeometry: geometryPath('cached_geometry'),
+    // Geodesic measurements (WGS-84 ellipsoid, metres) of cachedGeometry, kept
+    // in step with it. lengthM is the perimeter for closed paths; length3dM
+    // sums sqrt(geodesic² + dz²) per segment; areaM2 is 0 for open paths.
+    lengthM: doublePrecision('length_m').notNull().default(0),
+    length3dM: doublePrecision('length_3d_m').notNull().default(0),
+    areaM2: doublePrecision('area_m2').notNull().default(0),
+    // Counts edits made through the API, for optimistic concurrency: a PATCH
+    // names the version it read and is refused (409) if it has moved on.
+    // Server-side rebuilds of the cached geometry leave it alone.
+    version: integer('version').notNull().default(1),
     ...timestamps,
   },
   (table) => [
@@ -171,7 +195,7 @@ export const paths = pgTable(
 );
 
 // Corresponds to the localStorage Node type: { id, name, coords: [lng, lat], z }
-// position is 0-based and determines the order of nodes within the path.
+// position is 0-based, dense among live nodes, and determines the order of nodes within the path.
 // z elevation is stored inside the geometry(PointZ) — use ST_Z(point) in queries.
 export const pathNodes = pgTable(
   'path_nodes',
@@ -184,12 +208,155 @@ export const pathNodes = pgTable(
       .references(() => paths.id),
     // geometry(PointZ, 4326): stores [longitude, latitude, elevation_meters]
     point: geometryPointZ('point').notNull(),
+    // As on paths; position shifts from inserts and reorders leave it alone.
+    version: integer('version').notNull().default(1),
     ...timestamps,
   },
   (table) => [
     index('path_nodes_path_id_idx').on(table.pathId),
     index('path_nodes_point_gist_idx').using('gist', table.point),
-    uniqueIndex('path_nodes_path_id_position_udx').on(table.pathId, table.position),
+    // Live nodes only, so soft-deleted rows never block a position. Reorders
+    // go through PathNodesService, which renumbers in two phases in one tx.
+    uniqueIndex('path_nodes_path_id_position_udx')
+      .on(table.pathId, table.position)
+      .where(sql`${table.deletedAt} IS NULL`),
+  ],
+);
+
+// Per-organization clearance between two APWA utility types (the
+// UTILITY_PRESETS labels). The pair is stored sorted (utilityA <= utilityB) so
+// each has one row. A row pairing a type with itself also holds that type's
+// minimum depth of cover; minCoverM is null on rows between different types.
+export const clearanceRules = pgTable(
+  'clearance_rules',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id),
+    utilityA: text('utility_a').notNull(),
+    utilityB: text('utility_b').notNull(),
+    horizontalClearanceM: doublePrecision('horizontal_clearance_m').notNull(),
+    verticalClearanceM: doublePrecision('vertical_clearance_m').notNull(),
+    minCoverM: doublePrecision('min_cover_m'),
+    ...timestamps,
+  },
+  (table) => [
+    uniqueIndex('clearance_rules_org_pair_udx')
+      .on(table.organizationId, table.utilityA, table.utilityB)
+      .where(sql`${table.deletedAt} IS NULL`),
+  ],
+);
+
+// Project access for a user profile of the project's organization. Viewers
+// read, editors also draw and edit, owners also rename, delete and manage
+// members. A live (profile, project) pair has at most one row.
+export const PROJECT_ROLES = ['viewer', 'editor', 'owner'] as const;
+export type ProjectRole = (typeof PROJECT_ROLES)[number];
+
+export const projectMembers = pgTable(
+  'project_members',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    projectId: uuid('project_id')
+      .notNull()
+      .references(() => projects.id),
+    userProfileId: uuid('user_profile_id')
+      .notNull()
+      .references(() => userProfiles.id),
+    role: text('role').$type<ProjectRole>().notNull(),
+    ...timestamps,
+  },
+  (table) => [
+    index('project_members_user_profile_id_idx').on(table.userProfileId),
+    uniqueIndex('project_members_project_profile_udx')
+      .on(table.projectId, table.userProfileId)
+      .where(sql`${table.deletedAt} IS NULL`),
+  ],
+);
+
+// An emailed invitation to join a project with a role. The emailed token is
+// signed over the row ID and expiry; accepting stamps acceptedAt and creates
+// the project_members row. Emails are stored lower-cased.
+export const projectInvitations = pgTable(
+  'project_invitations',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    projectId: uuid('project_id')
+      .notNull()
+      .references(() => projects.id),
+    email: text('email').notNull(),
+    role: text('role').$type<ProjectRole>().notNull(),
+    invitedById: uuid('invited_by_id')
+      .notNull()
+      .references(() => userProfiles.id),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    acceptedAt: timestamp('accepted_at', { withTimezone: true }),
+    acceptedById: uuid('accepted_by_id').references(() => userProfiles.id),
+    ...timestamps,
+  },
+  (table) => [
+    index('project_invitations_project_id_idx').on(table.projectId),
+    index('project_invitations_email_idx').on(table.email),
+  ],
+);
+
+// Anonymous, read-only, time-limited access to one project for people
+// outside the organization. layerIds limits it to those layers; null shares
+// them all. Revoking soft-deletes the row, which voids its token.
+export const projectShareLinks = pgTable(
+  'project_share_links',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    projectId: uuid('project_id')
+      .notNull()
+      .references(() => projects.id),
+    label: text('label'),
+    layerIds: uuid('layer_ids').array(),
+    createdById: uuid('created_by_id')
+      .notNull()
+      .references(() => userProfiles.id),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    ...timestamps,
+  },
+  (table) => [index('project_share_links_project_id_idx').on(table.projectId)],
+);
+
+// Who changed what, for records rules. One row per created, updated,
+// soft-deleted or restored organization, project, layer, path or path node.
+// Creates hold the new row in `after`; the other actions hold only the
+// changed columns on each side. actorId is null for changes made outside a signed-in request.
+// Rows are never updated or deleted.
+export const AUDIT_ENTITY_TYPES = [
+  'organization',
+  'project',
+  'layer',
+  'path',
+  'path_node',
+] as const;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'restore'] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const auditEvents = pgTable(
+  'audit_events',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    actorId: uuid('actor_id').references(() => userProfiles.id),
+    entityType: text('entity_type').$type<AuditEntityType>().notNull(),
+    entityId: uuid('entity_id').notNull(),
+    action: text('action').$type<AuditAction>().notNull(),
+    before: jsonb('before').$type<Record<string, unknown>>(),
+    after: jsonb('after').$type<Record<string, unknown>>(),
+    // clock_timestamp, not now(): events of one transaction keep their order
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .default(sql`clock_timestamp()`),
+  },
+  (table) => [
+    index('audit_events_entity_idx').on(table.entityType, table.entityId),
+    index('audit_events_created_at_idx').on(table.createdAt),
   ],
 );
 
@@ -200,6 +367,7 @@ export const pathNodes = pgTable(
 export const organizationsRelations = relations(organizations, ({ many }) => ({
   userProfiles: many(userProfiles),
   projects: many(projects),
+  clearanceRules: many(clearanceRules),
 }));
 
 export const userProfilesRelations = relations(userProfiles, ({ one, many }) => ({
@@ -208,6 +376,7 @@ export const userProfilesRelations = relations(userProfiles, ({ one, many }) =>
     references: [organizations.id],
   }),
   ownedProjects: many(projects),
+  projectMemberships: many(projectMembers),
 }));
 
 export const projectsRelations = relations(projects, ({ one, many }) => ({
@@ -220,6 +389,9 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
     references: [organizations.id],
   }),
   layers: many(layers),
+  members: many(projectMembers),
+  invitations: many(projectInvitations),
+  shareLinks: many(projectShareLinks),
 }));
 
 export const layersRelations = relations(layers, ({ one, many }) => ({
@@ -244,3 +416,56 @@ export const pathNodesRelations = relations(pathNodes, ({ one }) => ({
     references: [paths.id],
   }),
 }));
+
+export const clearanceRulesRelations = relations(clearanceRules, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [clearanceRules.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const projectMembersRelations = relations(projectMembers, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectMembers.projectId],
+    references: [projects.id],
+  }),
+  userProfile: one(userProfiles, {
+    fields: [projectMembers.userProfileId],
+    references: [userProfiles.id],
+  }),
+}));
+
+export const projectInvitationsRelations = relations(
+  projectInvitations,
+  ({ one }) => ({
+    project: one(projects, {
+      fields: [projectInvitations.projectId],
+      references: [projects.id],
+    }),
+    invitedBy: one(userProfiles, {
+      fields: [projectInvitations.invitedById],
+      references: [userProfiles.id],
+    }),
+  }),
+);
+
+export const projectShareLinksRelations = relations(
+  projectShareLinks,
+  ({ one }) => ({
+    project: one(projects, {
+      fields: [projectShareLinks.projectId],
+      references: [projects.id],
+    }),
+    createdBy: one(userProfiles, {
+      fields: [projectShareLinks.createdById],
+      references: [userProfiles.id],
+    }),
+  }),
+);
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  actor: one(userProfiles, {
+    fields: [auditEvents.actorId],
+    references: [userProfiles.id],
+  }),
+}));